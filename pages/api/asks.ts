@@ -1,5 +1,6 @@
 import { createAsk, listAsksForWallet } from "../../src/arkiv/asks"
-import { CURRENT_WALLET, getPrivateKey } from "../../src/config"
+import { CURRENT_WALLET, SPACE_ID, getPrivateKey } from "../../src/config"
+import { requireSessionWallet } from "../../src/lib/auth"
 
 export default async function handler(req: any, res: any) {
   try {
@@ -8,15 +9,13 @@ export default async function handler(req: any, res: any) {
       if (!wallet) {
         return res.status(400).json({ error: 'No wallet configured' });
       }
-      const asks = await listAsksForWallet(wallet);
+      const asks = await listAsksForWallet(wallet, (req.query.spaceId as string) || SPACE_ID);
       res.json(asks);
     } else if (req.method === 'POST') {
-      const { skill, message, wallet: requestWallet } = req.body;
-      const wallet = requestWallet || CURRENT_WALLET || '';
-      
-      if (!wallet) {
-        return res.status(400).json({ error: 'No wallet address provided' });
-      }
+      const { skill, message, spaceId } = req.body;
+      const wallet = requireSessionWallet(req, res);
+      if (!wallet) return;
+
       if (!skill || !message) {
         return res.status(400).json({ error: 'skill and message are required' });
       }
@@ -26,6 +25,7 @@ export default async function handler(req: any, res: any) {
         skill,
         message,
         privateKey: getPrivateKey(),
+        spaceId,
       });
 
       res.json({ key, txHash });
@@ -0,0 +1,11 @@
+import { issueNonce } from "../../../src/lib/auth"
+
+export default async function handler(req: any, res: any) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ ok: false, error: 'Method not allowed' });
+  }
+
+  // Nonces are single-use and must not be cached
+  res.setHeader('Cache-Control', 'no-store');
+  res.json({ ok: true, nonce: issueNonce(res) });
+}
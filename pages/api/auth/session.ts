@@ -0,0 +1,13 @@
+import { endSession, getSessionWallet } from "../../../src/lib/auth"
+
+export default async function handler(req: any, res: any) {
+  if (req.method === 'GET') {
+    res.setHeader('Cache-Control', 'no-store');
+    res.json({ ok: true, address: getSessionWallet(req) });
+  } else if (req.method === 'DELETE') {
+    endSession(res);
+    res.json({ ok: true });
+  } else {
+    res.status(405).json({ ok: false, error: 'Method not allowed' });
+  }
+}
@@ -0,0 +1,20 @@
+import { verifySignIn } from "../../../src/lib/auth"
+
+export default async function handler(req: any, res: any) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ ok: false, error: 'Method not allowed' });
+  }
+
+  const { message, signature } = req.body || {};
+  if (!message || !signature) {
+    return res.status(400).json({ ok: false, error: 'message and signature are required' });
+  }
+
+  try {
+    const address = await verifySignIn(req, res, message, signature);
+    res.json({ ok: true, address });
+  } catch (error: any) {
+    console.error('Sign-in failed:', error);
+    res.status(401).json({ ok: false, error: error.message || 'Sign-in failed' });
+  }
+}
@@ -0,0 +1,44 @@
+import { listOpenSlots } from "../../src/arkiv/availability"
+
+const DEFAULT_RANGE_DAYS = 14;
+
+export default async function handler(req: any, res: any) {
+  try {
+    if (req.method !== 'GET') {
+      return res.status(405).json({ ok: false, error: 'Method not allowed' });
+    }
+
+    const wallet = req.query.wallet as string | undefined;
+    if (!wallet) {
+      return res.status(400).json({ ok: false, error: 'wallet is required' });
+    }
+
+    // Open slots between `from` and `to` (default: the next two weeks), at most 31 days
+    const from = (req.query.from as string) || new Date().toISOString();
+    const to = (req.query.to as string) || new Date(Date.now() + DEFAULT_RANGE_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    const duration = req.query.duration ? Number(req.query.duration) : 60;
+    if (isNaN(new Date(from).getTime()) || isNaN(new Date(to).getTime())) {
+      return res.status(400).json({ ok: false, error: 'from and to must be valid dates' });
+    }
+    if (!Number.isInteger(duration) || duration < 15 || duration > 240) {
+      return res.status(400).json({ ok: false, error: 'duration must be 15 to 240 minutes' });
+    }
+
+    const { availability, busyCalendar, slots } = await listOpenSlots({ wallet, from, to, duration });
+    // Only a summary of the imported calendar; the blocks are already subtracted from `slots`
+    res.json({
+      ok: true,
+      wallet,
+      availability,
+      busyCalendar: busyCalendar && {
+        source: busyCalendar.source,
+        importedAt: busyCalendar.importedAt,
+        blockCount: busyCalendar.blocks.length,
+      },
+      slots,
+    });
+  } catch (error: any) {
+    console.error('API error:', error);
+    res.status(500).json({ ok: false, error: error.message || 'Internal server error' });
+  }
+}
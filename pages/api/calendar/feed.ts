@@ -0,0 +1,35 @@
+import { listSessionsForWallet } from "../../../src/arkiv/sessions"
+import { buildCalendar } from "../../../src/lib/ical"
+import { joinPath } from "../../../src/lib/meetingWindow"
+import { requestOrigin, verifyCalendarFeedToken } from "../../../src/lib/auth"
+
+/**
+ * Subscribable iCal feed of every session of a wallet, across spaces.
+ * Calendar apps can't sign in, so it is protected by the wallet's feed token
+ * (see `/api/calendar/token`).
+ */
+export default async function handler(req: any, res: any) {
+  try {
+    if (req.method !== 'GET') {
+      return res.status(405).json({ ok: false, error: 'Method not allowed' });
+    }
+
+    const wallet = ((req.query.wallet as string) || '').toLowerCase();
+    if (!wallet || !verifyCalendarFeedToken(wallet, req.query.token as string | undefined)) {
+      return res.status(403).json({ ok: false, error: 'Invalid calendar feed token' });
+    }
+
+    const sessions = await listSessionsForWallet(wallet);
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', 'inline; filename="mentor-graph.ics"');
+    res.setHeader('Cache-Control', 'private, max-age=300');
+    const origin = requestOrigin(req);
+    res.send(buildCalendar(sessions, {
+      name: 'Mentor Graph sessions',
+      joinUrl: session => `${origin}${joinPath(session.key)}`,
+    }));
+  } catch (error: any) {
+    console.error('API error:', error);
+    res.status(500).json({ ok: false, error: error.message || 'Internal server error' });
+  }
+}
@@ -0,0 +1,40 @@
+import { getSessionByKey } from "../../../src/arkiv/sessions"
+import { buildCalendar } from "../../../src/lib/ical"
+import { joinPath } from "../../../src/lib/meetingWindow"
+import { requestOrigin, requireSessionWallet } from "../../../src/lib/auth"
+
+/**
+ * `.ics` download of a single session, for its participants.
+ */
+export default async function handler(req: any, res: any) {
+  try {
+    if (req.method !== 'GET') {
+      return res.status(405).json({ ok: false, error: 'Method not allowed' });
+    }
+
+    const wallet = requireSessionWallet(req, res);
+    if (!wallet) return;
+
+    const sessionKey = req.query.sessionKey as string | undefined;
+    if (!sessionKey) {
+      return res.status(400).json({ ok: false, error: 'sessionKey is required' });
+    }
+
+    const session = await getSessionByKey(sessionKey);
+    if (!session) {
+      return res.status(404).json({ ok: false, error: 'Session not found' });
+    }
+    if (session.mentorWallet.toLowerCase() !== wallet && session.learnerWallet.toLowerCase() !== wallet) {
+      return res.status(403).json({ ok: false, error: 'Only session participants can download it' });
+    }
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="session-${sessionKey.slice(0, 12)}.ics"`);
+    res.setHeader('Cache-Control', 'no-store');
+    const origin = requestOrigin(req);
+    res.send(buildCalendar([session], { joinUrl: s => `${origin}${joinPath(s.key)}` }));
+  } catch (error: any) {
+    console.error('API error:', error);
+    res.status(500).json({ ok: false, error: error.message || 'Internal server error' });
+  }
+}
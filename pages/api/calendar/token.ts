@@ -0,0 +1,17 @@
+import { calendarFeedToken, requireSessionWallet } from "../../../src/lib/auth"
+
+/**
+ * The signed-in wallet's calendar feed path, token included.
+ */
+export default async function handler(req: any, res: any) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ ok: false, error: 'Method not allowed' });
+  }
+
+  const wallet = requireSessionWallet(req, res);
+  if (!wallet) return;
+
+  const params = new URLSearchParams({ wallet, token: calendarFeedToken(wallet) });
+  res.setHeader('Cache-Control', 'no-store');
+  res.json({ ok: true, wallet, feedPath: `/api/calendar/feed?${params.toString()}` });
+}
@@ -1,34 +1,75 @@
-import { getProfileByWallet, createUserProfile, updateUserProfile } from "../../src/arkiv/profiles"
-import { listAsksForWallet, createAsk } from "../../src/arkiv/asks"
-import { listOffersForWallet, createOffer } from "../../src/arkiv/offers"
-import { listSessionsForWallet, createSession, confirmSession, rejectSession } from "../../src/arkiv/sessions"
-import { listFeedbackForWallet } from "../../src/arkiv/feedback"
-import { CURRENT_WALLET, getPrivateKey } from "../../src/config"
+import { getProfileByWallet, createUserProfile, updateUserProfile, revertUserProfile } from "../../src/arkiv/profiles"
+import { listAsksForWallet, listAsksForWalletPage, createAsk, fulfillAsk, withdrawAsk, reopenAsk, extendAsk } from "../../src/arkiv/asks"
+import { listOffersForWallet, listOffersForWalletPage, createOffer, fillOffer, withdrawOffer, reopenOffer, extendOffer } from "../../src/arkiv/offers"
+import { listSessionsForWallet, listSessionsForWalletPage, scheduleSessionArchive, createSession, confirmSession, rejectSession, completeSession, cancelSession, computeReliability, proposeReschedule, respondToReschedule, followUpSessionWrite, getSessionByKey, SessionConflictError, SessionNotFoundError } from "../../src/arkiv/sessions"
+import { listFeedbackForWallet, listFeedbackForWalletPage, createFeedback } from "../../src/arkiv/feedback"
+import { BUSY_IMPORT_DAYS, MAX_BUSY_BLOCKS, setAvailability, setBusyCalendar, validateAvailability } from "../../src/arkiv/availability"
+import { createPreparingWalletClient, SigningMode, SIGNING_MODES } from "../../src/arkiv/preparedWrites"
+import { getPublicClient } from "../../src/arkiv/client"
+import { getAttr } from "../../src/arkiv/codec"
+import { invalidateForEntity } from "../../src/arkiv/readCache"
+import { decodeCompoundCursor, encodeCompoundCursor, parsePageParams, Page, PageParams } from "../../src/arkiv/pagination"
+import { ARKIV_PRIVATE_KEY, CURRENT_WALLET, SPACE_ID, getPrivateKey } from "../../src/config"
+import { requireSessionWallet } from "../../src/lib/auth"
+import { parseBusyBlocks } from "../../src/lib/icalImport"
+
+// Room for `.ics` uploads (importCalendar)
+export const config = { api: { bodyParser: { sizeLimit: '4mb' } } };
+
+const ENTITY_KEY_PATTERN = /^0x[0-9a-f]{64}$/i;
 
 export default async function handler(req: any, res: any) {
   try {
     if (req.method === 'GET') {
       // Get wallet address from query param, fallback to CURRENT_WALLET for backward compatibility
-      const wallet = (req.query.wallet as string) || CURRENT_WALLET || '';
+      // Lowercased, as entities store wallets; Arkiv matches attributes case-sensitively
+      const wallet = ((req.query.wallet as string) || CURRENT_WALLET || '').toLowerCase();
       if (!wallet) {
         return res.status(400).json({ ok: false, error: 'No wallet address provided' });
       }
+      // Everything returned belongs to one space
+      const spaceId = (req.query.spaceId as string) || SPACE_ID;
       
+      // Without `cursor`/`pageSize` every list is returned in full. With them,
+      // lists are paged and `cursor` in the response fetches the next page;
+      // the profile is only included on the first page.
+      const { cursor, pageSize } = parsePageParams(req.query);
+      const paginated = Boolean(cursor) || pageSize !== undefined;
+      let cursors: Record<string, string> | null = null;
+      if (cursor) {
+        try {
+          cursors = decodeCompoundCursor(cursor);
+        } catch {
+          return res.status(400).json({ ok: false, error: 'Invalid cursor' });
+        }
+      }
+
+      const pageOf = async <T>(
+        name: string,
+        listPage: (page: PageParams) => Promise<Page<T>>,
+        listAll: () => Promise<T[]>
+      ): Promise<Page<T>> => {
+        if (!paginated) return { items: await listAll(), cursor: null };
+        if (cursors && !cursors[name]) return { items: [], cursor: null };
+        return listPage({ cursor: cursors?.[name], pageSize });
+      };
+
       // Use Promise.allSettled to handle timeouts gracefully
       const results = await Promise.allSettled([
-        getProfileByWallet(wallet),
-        listAsksForWallet(wallet),
-        listOffersForWallet(wallet),
-        listSessionsForWallet(wallet),
-        listFeedbackForWallet(wallet),
+        cursor ? Promise.resolve(null) : getProfileByWallet(wallet, spaceId),
+        pageOf('asks', page => listAsksForWalletPage(wallet, page, spaceId), () => listAsksForWallet(wallet, spaceId)),
+        pageOf('offers', page => listOffersForWalletPage(wallet, page, spaceId), () => listOffersForWallet(wallet, spaceId)),
+        pageOf('sessions', page => listSessionsForWalletPage(wallet, page, spaceId), () => listSessionsForWallet(wallet, spaceId)),
+        pageOf('feedback', page => listFeedbackForWalletPage(wallet, page, spaceId), () => listFeedbackForWallet(wallet, spaceId)),
       ]);
 
       // Extract results, defaulting to empty arrays/null on failure
+      const emptyPage = { items: [], cursor: null };
       const profile = results[0].status === 'fulfilled' ? results[0].value : null;
-      const asks = results[1].status === 'fulfilled' ? results[1].value : [];
-      const offers = results[2].status === 'fulfilled' ? results[2].value : [];
-      const sessions = results[3].status === 'fulfilled' ? results[3].value : [];
-      const feedback = results[4].status === 'fulfilled' ? results[4].value : [];
+      const asksPage = results[1].status === 'fulfilled' ? results[1].value : emptyPage;
+      const offersPage = results[2].status === 'fulfilled' ? results[2].value : emptyPage;
+      const sessionsPage = results[3].status === 'fulfilled' ? results[3].value : emptyPage;
+      const feedbackPage = results[4].status === 'fulfilled' ? results[4].value : emptyPage;
 
       // Log any failures for debugging
       results.forEach((result, index) => {
@@ -38,6 +79,19 @@ export default async function handler(req: any, res: any) {
         }
       });
 
+      // Sessions presence may complete or leave no-shows in are archived in the background
+      sessionsPage.items.forEach(session => scheduleSessionArchive(session, ARKIV_PRIVATE_KEY));
+
+      // Reputation needs the full history, not just the current page
+      let sessions = sessionsPage.items;
+      let feedback = feedbackPage.items;
+      if (paginated && profile) {
+        [sessions, feedback] = await Promise.all([
+          sessionsPage.cursor ? listSessionsForWallet(wallet, spaceId) : sessions,
+          feedbackPage.cursor ? listFeedbackForWallet(wallet, spaceId) : feedback,
+        ]);
+      }
+
       // Compute reputation metadata from sessions and feedback
       const sessionsCompleted = sessions.filter(s => s.status === 'completed').length;
       const sessionsGiven = sessions.filter(s => s.mentorWallet.toLowerCase() === wallet.toLowerCase() && s.status === 'completed').length;
@@ -53,6 +107,9 @@ export default async function handler(req: any, res: any) {
         ? npsScores.reduce((sum, n) => sum + n, 0) / npsScores.length
         : 0;
 
+      // Cancellations, declines and no-shows, from the wallet's own sessions
+      const { sessionsCancelled, lateCancellations, sessionsDeclined, sessionsMissed, reliabilityScore } = computeReliability(wallet, sessions);
+
       // Compute topSkillsUsage from sessions
       const skillCounts: Record<string, number> = {};
       sessions.filter(s => s.status === 'completed').forEach(s => {
@@ -86,24 +143,56 @@ export default async function handler(req: any, res: any) {
         topSkillsUsage,
         peerTestimonials,
         reputationScore,
+        sessionsCancelled,
+        lateCancellations,
+        sessionsDeclined,
+        sessionsMissed,
+        reliabilityScore,
         lastActiveTimestamp: new Date().toISOString(),
       } : null;
 
       res.json({
         wallet,
+        spaceId,
         profile: enrichedProfile,
-        asks,
-        offers,
-        sessions,
-        feedback,
+        asks: asksPage.items,
+        offers: offersPage.items,
+        sessions: sessionsPage.items,
+        feedback: feedbackPage.items,
+        cursor: encodeCompoundCursor({
+          asks: asksPage.cursor,
+          offers: offersPage.cursor,
+          sessions: sessionsPage.cursor,
+          feedback: feedbackPage.cursor,
+        }),
       });
     } else if (req.method === 'POST') {
-      const { action, wallet: requestWallet } = req.body;
-      // Use wallet from request body, fallback to CURRENT_WALLET for backward compatibility
-      const wallet = requestWallet || CURRENT_WALLET || '';
-      if (!wallet) {
-        return res.status(400).json({ ok: false, error: 'No wallet address provided' });
-      }
+      const { action, spaceId: requestSpaceId } = req.body;
+      // Actions are always taken as the signed-in wallet, never one named in the body
+      const wallet = requireSessionWallet(req, res);
+      if (!wallet) return;
+      // New entities go to the requested space (SPACE_ID if omitted)
+      const spaceId = requestSpaceId || undefined;
+
+      // In `wallet` and `relayed` signing modes, profile, ask, offer, availability,
+      // confirmation, completion, cancellation, reschedule and feedback writes (and
+      // in `wallet` mode, extending listings the wallet owns) are only prepared here. The browser then sends them from the user's account
+      // (`wallet`) or signs an intent for each and hands them to /api/relay
+      // (`relayed`). Other actions always use the server key.
+      const signingMode: SigningMode = SIGNING_MODES.includes(req.body.signingMode) ? req.body.signingMode : 'server';
+      const preparing = signingMode !== 'server' ? createPreparingWalletClient() : null;
+      const signer = () => preparing ? { walletClient: preparing.walletClient } : { privateKey: getPrivateKey() };
+      // Confirmed sessions get their meeting, completed sessions are archived and
+      // accepted reschedules applied by the server key once the user's write is
+      // readable on Arkiv (see followUpSessionWrite)
+      const followUp = (type: string, sessionKey: string) => followUpSessionWrite({ type, sessionKey, privateKey: getPrivateKey() })
+        .catch(e => console.error(`Failed to follow up ${type} for session:`, e));
+      // With nothing prepared (e.g. extending a listing the server key owns) the server's result stands
+      const sendWriteResult = (result: Record<string, any>) => preparing && (preparing.prepared().length > 0 || preparing.preparedExtensions().length > 0)
+        ? res.json({ ok: true, signingMode, prepared: preparing.prepared(), preparedExtensions: preparing.preparedExtensions() })
+        : res.json({ ok: true, signingMode, ...result });
+      // Listings created with the user's wallet are extended by it; relayed intents can't extend
+      const listingSigner = () => signingMode === 'wallet' ? preparing!.walletClient : undefined;
 
       if (action === 'createProfile') {
         const { 
@@ -143,9 +232,10 @@ export default async function handler(req: any, res: any) {
           domainsOfInterest: domainsOfInterest || undefined,
           mentorRoles: mentorRoles || undefined,
           learnerRoles: learnerRoles || undefined,
-          privateKey: getPrivateKey(),
+          ...signer(),
+          spaceId,
         });
-        res.json({ ok: true });
+        sendWriteResult({});
       } else if (action === 'updateProfile') {
         const { 
           displayName,
@@ -184,9 +274,22 @@ export default async function handler(req: any, res: any) {
           domainsOfInterest: domainsOfInterest || undefined,
           mentorRoles: mentorRoles || undefined,
           learnerRoles: learnerRoles || undefined,
-          privateKey: getPrivateKey(),
+          ...signer(),
+          spaceId,
         });
-        res.json({ ok: true });
+        sendWriteResult({});
+      } else if (action === 'revertProfile') {
+        const { revisionKey } = req.body;
+        if (!revisionKey) {
+          return res.status(400).json({ ok: false, error: 'revisionKey is required' });
+        }
+        const { key, txHash } = await revertUserProfile({
+          wallet,
+          revisionKey,
+          ...signer(),
+          spaceId,
+        });
+        sendWriteResult({ key, txHash });
       } else if (action === 'createAsk') {
         const { skill, message, expiresIn } = req.body;
         if (!skill || !message) {
@@ -204,14 +307,17 @@ export default async function handler(req: any, res: any) {
           wallet,
           skill,
           message,
-          privateKey: getPrivateKey(),
+          ...signer(),
           expiresIn: parsedExpiresIn,
+          spaceId,
         });
-        res.json({ ok: true, key, txHash });
+        sendWriteResult({ key, txHash });
       } else if (action === 'createOffer') {
+        // When the mentor can be booked is their published availability (see
+        // `setAvailability`); `availabilityWindow` is an optional note
         const { skill, message, availabilityWindow, expiresIn } = req.body;
-        if (!skill || !message || !availabilityWindow) {
-          return res.status(400).json({ ok: false, error: 'skill, message, and availabilityWindow are required' });
+        if (!skill || !message) {
+          return res.status(400).json({ ok: false, error: 'skill and message are required' });
         }
         // Parse expiresIn: if provided, use it; otherwise undefined (will use default in createOffer)
         let parsedExpiresIn: number | undefined = undefined;
@@ -225,11 +331,99 @@ export default async function handler(req: any, res: any) {
           wallet,
           skill,
           message,
-          availabilityWindow,
-          privateKey: getPrivateKey(),
+          availabilityWindow: availabilityWindow || '',
+          ...signer(),
           expiresIn: parsedExpiresIn,
+          spaceId,
         });
-        res.json({ ok: true, key, txHash });
+        sendWriteResult({ key, txHash });
+      } else if (action === 'updateAskStatus') {
+        const { askKey, status, sessionKey, reason } = req.body;
+        if (!askKey || !status) {
+          return res.status(400).json({ ok: false, error: 'askKey and status are required' });
+        }
+        const params = { askKey, wallet, privateKey: getPrivateKey() };
+        let result;
+        if (status === 'fulfilled') {
+          result = await fulfillAsk({ ...params, sessionKey });
+        } else if (status === 'withdrawn') {
+          result = await withdrawAsk({ ...params, reason });
+        } else if (status === 'open') {
+          result = await reopenAsk(params);
+        } else {
+          return res.status(400).json({ ok: false, error: "status must be 'fulfilled', 'withdrawn' or 'open'" });
+        }
+        res.json({ ok: true, ...result });
+      } else if (action === 'updateOfferStatus') {
+        const { offerKey, status, sessionKey, reason } = req.body;
+        if (!offerKey || !status) {
+          return res.status(400).json({ ok: false, error: 'offerKey and status are required' });
+        }
+        const params = { offerKey, wallet, privateKey: getPrivateKey() };
+        let result;
+        if (status === 'filled') {
+          result = await fillOffer({ ...params, sessionKey });
+        } else if (status === 'withdrawn') {
+          result = await withdrawOffer({ ...params, reason });
+        } else if (status === 'active') {
+          result = await reopenOffer(params);
+        } else {
+          return res.status(400).json({ ok: false, error: "status must be 'filled', 'withdrawn' or 'active'" });
+        }
+        res.json({ ok: true, ...result });
+      } else if (action === 'extendAsk') {
+        const { askKey, hours } = req.body;
+        const parsedHours = Number(hours);
+        if (!askKey || !parsedHours) {
+          return res.status(400).json({ ok: false, error: 'askKey and hours are required' });
+        }
+        const result = await extendAsk({ askKey, wallet, hours: parsedHours, privateKey: getPrivateKey(), walletClient: listingSigner() });
+        sendWriteResult(result);
+      } else if (action === 'extendOffer') {
+        const { offerKey, hours } = req.body;
+        const parsedHours = Number(hours);
+        if (!offerKey || !parsedHours) {
+          return res.status(400).json({ ok: false, error: 'offerKey and hours are required' });
+        }
+        const result = await extendOffer({ offerKey, wallet, hours: parsedHours, privateKey: getPrivateKey(), walletClient: listingSigner() });
+        sendWriteResult(result);
+      } else if (action === 'setAvailability') {
+        const { weekly, oneOff } = req.body;
+        const error = validateAvailability({ weekly: weekly || [], oneOff: oneOff || [] });
+        if (error) {
+          return res.status(400).json({ ok: false, error });
+        }
+        const { key, txHash } = await setAvailability({
+          wallet,
+          weekly: weekly || [],
+          oneOff: oneOff || [],
+          ...signer(),
+        });
+        sendWriteResult({ key, txHash });
+      } else if (action === 'importCalendar') {
+        // Busy time from the text of an .ics file, for the next BUSY_IMPORT_DAYS;
+        // floating times and all-day events are read in `timezone`. `ics: ''` clears it.
+        const { ics, timezone, source } = req.body;
+        if (typeof ics !== 'string') {
+          return res.status(400).json({ ok: false, error: 'ics is required' });
+        }
+        let parsed: ReturnType<typeof parseBusyBlocks> = { blocks: [], skipped: 0 };
+        if (ics.trim()) {
+          const from = Date.now();
+          try {
+            parsed = parseBusyBlocks(ics, { from, to: from + BUSY_IMPORT_DAYS * 24 * 60 * 60 * 1000, timezone: timezone || 'UTC' });
+          } catch (e: any) {
+            return res.status(400).json({ ok: false, error: e.message });
+          }
+        }
+        const { key, txHash } = await setBusyCalendar({
+          wallet,
+          // Busy calendars denser than this keep their earliest blocks
+          blocks: parsed.blocks.slice(0, MAX_BUSY_BLOCKS),
+          source: typeof source === 'string' ? source.slice(0, 200) : '',
+          ...signer(),
+        });
+        sendWriteResult({ key, txHash, blockCount: Math.min(parsed.blocks.length, MAX_BUSY_BLOCKS), skipped: parsed.skipped });
       } else if (action === 'createSession') {
         const { mentorWallet, learnerWallet, skill, sessionDate, duration, notes } = req.body;
         if (!mentorWallet || !learnerWallet || !skill || !sessionDate) {
@@ -244,6 +438,9 @@ export default async function handler(req: any, res: any) {
         if (normalizedMentorWallet === normalizedLearnerWallet) {
           return res.status(400).json({ ok: false, error: 'Mentor and learner must be different wallets' });
         }
+        if (wallet !== normalizedMentorWallet && wallet !== normalizedLearnerWallet) {
+          return res.status(403).json({ ok: false, error: 'You can only request sessions you take part in' });
+        }
         
         const { key, txHash } = await createSession({
           mentorWallet: normalizedMentorWallet,
@@ -253,48 +450,151 @@ export default async function handler(req: any, res: any) {
           duration: duration ? parseInt(duration, 10) : undefined,
           notes: notes || undefined,
           privateKey: getPrivateKey(),
+          spaceId,
         });
         res.json({ ok: true, key, txHash });
       } else if (action === 'confirmSession') {
-        const { sessionKey, mentorWallet, learnerWallet, spaceId } = req.body;
+        // Participants and space come from the stored session, never the body
+        const { sessionKey } = req.body;
         if (!sessionKey) {
           return res.status(400).json({ ok: false, error: 'sessionKey is required' });
         }
-        
-        // Normalize wallet addresses
-        const normalizedWallet = wallet.toLowerCase();
-        const normalizedMentorWallet = mentorWallet ? mentorWallet.toLowerCase() : undefined;
-        const normalizedLearnerWallet = learnerWallet ? learnerWallet.toLowerCase() : undefined;
-        
         const { key, txHash } = await confirmSession({
           sessionKey,
-          confirmedByWallet: normalizedWallet,
-          privateKey: getPrivateKey(),
-          mentorWallet: normalizedMentorWallet,
-          learnerWallet: normalizedLearnerWallet,
-          spaceId,
+          confirmedByWallet: wallet,
+          ...signer(),
         });
-        res.json({ ok: true, key, txHash });
+        if (!preparing) await followUp('session_confirmation', sessionKey);
+        sendWriteResult({ key, txHash });
       } else if (action === 'rejectSession') {
-        const { sessionKey, mentorWallet, learnerWallet, spaceId } = req.body;
+        // Participants and space come from the stored session, never the body
+        const { sessionKey } = req.body;
         if (!sessionKey) {
           return res.status(400).json({ ok: false, error: 'sessionKey is required' });
         }
-        
-        // Normalize wallet addresses
-        const normalizedWallet = wallet.toLowerCase();
-        const normalizedMentorWallet = mentorWallet ? mentorWallet.toLowerCase() : undefined;
-        const normalizedLearnerWallet = learnerWallet ? learnerWallet.toLowerCase() : undefined;
-        
         const { key, txHash } = await rejectSession({
           sessionKey,
-          rejectedByWallet: normalizedWallet,
-          privateKey: getPrivateKey(),
-          mentorWallet: normalizedMentorWallet,
-          learnerWallet: normalizedLearnerWallet,
-          spaceId,
+          rejectedByWallet: wallet,
+          ...signer(),
         });
-        res.json({ ok: true, key, txHash });
+        sendWriteResult({ key, txHash });
+      } else if (action === 'completeSession') {
+        const { sessionKey, notes } = req.body;
+        if (!sessionKey) {
+          return res.status(400).json({ ok: false, error: 'sessionKey is required' });
+        }
+        const { key, txHash } = await completeSession({
+          sessionKey,
+          completedByWallet: wallet,
+          notes: notes || undefined,
+          ...signer(),
+        });
+        if (!preparing) await followUp('session_completion', sessionKey);
+        sendWriteResult({ key, txHash });
+      } else if (action === 'cancelSession') {
+        const { sessionKey, reason } = req.body;
+        if (!sessionKey || !reason) {
+          return res.status(400).json({ ok: false, error: 'sessionKey and reason are required' });
+        }
+        const { key, txHash, late } = await cancelSession({
+          sessionKey,
+          cancelledByWallet: wallet,
+          reason,
+          ...signer(),
+        });
+        if (!preparing) await followUp('session_cancellation', sessionKey);
+        sendWriteResult({ key, txHash, late });
+      } else if (action === 'proposeReschedule') {
+        const { sessionKey, sessionDate, duration, note } = req.body;
+        if (!sessionKey || !sessionDate) {
+          return res.status(400).json({ ok: false, error: 'sessionKey and sessionDate are required' });
+        }
+        const { key, txHash } = await proposeReschedule({
+          sessionKey,
+          proposedByWallet: wallet,
+          sessionDate,
+          duration: duration ? parseInt(duration, 10) : undefined,
+          note: note || undefined,
+          ...signer(),
+        });
+        sendWriteResult({ key, txHash });
+      } else if (action === 'respondToReschedule') {
+        const { rescheduleKey, response } = req.body;
+        if (!rescheduleKey || (response !== 'accepted' && response !== 'declined')) {
+          return res.status(400).json({ ok: false, error: "rescheduleKey and response ('accepted' or 'declined') are required" });
+        }
+        const { key, txHash, sessionKey } = await respondToReschedule({
+          rescheduleKey,
+          respondedByWallet: wallet,
+          response,
+          ...signer(),
+        });
+        if (!preparing && response === 'accepted') await followUp('session_reschedule_response', sessionKey);
+        sendWriteResult({ key, txHash });
+      } else if (action === 'preparedWritesSent') {
+        // Entities the browser just sent: refresh cached queries they belong in
+        const { entityKeys } = req.body;
+        if (!Array.isArray(entityKeys)) {
+          return res.status(400).json({ ok: false, error: 'entityKeys is required' });
+        }
+        const keys: `0x${string}`[] = entityKeys.slice(0, 20);
+        if (keys.some(key => typeof key !== 'string' || !ENTITY_KEY_PATTERN.test(key))) {
+          return res.status(400).json({ ok: false, error: 'entityKeys must be 32-byte hex strings' });
+        }
+        const publicClient = getPublicClient();
+        await Promise.all(keys.map(key => invalidateForEntity(publicClient, key)));
+
+        // A confirmation, completion, cancellation, feedback or reschedule answer may need server-key follow-up
+        const followUps = new Map<string, { type: string; sessionKey: string }>();
+        await Promise.all(keys.map(async key => {
+          const entity = await publicClient.getEntity(key).catch(() => null);
+          const type = entity ? getAttr(entity, 'type') : '';
+          if (['session_confirmation', 'session_completion', 'session_cancellation', 'feedback', 'session_reschedule_response'].includes(type)) {
+            const sessionKey = getAttr(entity, 'sessionKey');
+            followUps.set(`${type}:${sessionKey}`, { type, sessionKey });
+          }
+        }));
+        // Only for sessions the caller takes part in
+        for (const { type, sessionKey } of followUps.values()) {
+          const session = await getSessionByKey(sessionKey);
+          if (session && (session.mentorWallet.toLowerCase() === wallet || session.learnerWallet.toLowerCase() === wallet)) {
+            await followUp(type, sessionKey);
+          }
+        }
+        res.json({ ok: true });
+      } else if (action === 'createFeedback') {
+        const { sessionKey, rating, npsScore, text, skills, wouldRecommend } = req.body;
+        if (!sessionKey) {
+          return res.status(400).json({ ok: false, error: 'sessionKey is required' });
+        }
+        const parsedRating = rating !== undefined && rating !== '' ? Number(rating) : undefined;
+        if (parsedRating !== undefined && !(parsedRating >= 1 && parsedRating <= 5)) {
+          return res.status(400).json({ ok: false, error: 'rating must be between 1 and 5' });
+        }
+        const session = await getSessionByKey(sessionKey);
+        if (!session) {
+          return res.status(404).json({ ok: false, error: 'Session not found' });
+        }
+        // Feedback is about the other participant of the session
+        const isMentor = session.mentorWallet.toLowerCase() === wallet;
+        if (!isMentor && session.learnerWallet.toLowerCase() !== wallet) {
+          return res.status(403).json({ ok: false, error: 'Only session participants can leave feedback' });
+        }
+        const { key, txHash } = await createFeedback({
+          sessionKey,
+          fromWallet: wallet,
+          toWallet: isMentor ? session.learnerWallet : session.mentorWallet,
+          role: isMentor ? 'mentor' : 'learner',
+          rating: parsedRating,
+          npsScore: npsScore !== undefined && npsScore !== '' ? Number(npsScore) : undefined,
+          text: text || undefined,
+          skills: Array.isArray(skills) ? skills : undefined,
+          wouldRecommend: typeof wouldRecommend === 'boolean' ? wouldRecommend : undefined,
+          spaceId: session.spaceId,
+          ...signer(),
+        });
+        if (!preparing) await followUp('feedback', sessionKey);
+        sendWriteResult({ key, txHash });
       } else {
         return res.status(400).json({ ok: false, error: 'Invalid action' });
       }
@@ -302,6 +602,13 @@ export default async function handler(req: any, res: any) {
       res.status(405).json({ error: 'Method not allowed' });
     }
   } catch (error: any) {
+    // Double-booked: return the overlapping sessions and nearby free slots
+    if (error instanceof SessionConflictError) {
+      return res.status(409).json({ ok: false, error: error.message, conflicts: error.conflicts, suggestedSlots: error.suggestedSlots });
+    }
+    if (error instanceof SessionNotFoundError) {
+      return res.status(404).json({ ok: false, error: error.message });
+    }
     console.error('API error:', error);
     res.status(500).json({ ok: false, error: error.message || 'Internal server error' });
   }
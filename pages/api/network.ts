@@ -1,7 +1,9 @@
-import { listAsks } from "../../src/arkiv/asks"
-import { listOffers } from "../../src/arkiv/offers"
-import { listUserProfiles } from "../../src/arkiv/profiles"
-import { listSessions } from "../../src/arkiv/sessions"
+import { listAsksPage } from "../../src/arkiv/asks"
+import { listOffersPage } from "../../src/arkiv/offers"
+import { listUserProfilesPage } from "../../src/arkiv/profiles"
+import { listSessionsPage } from "../../src/arkiv/sessions"
+import { decodeCompoundCursor, encodeCompoundCursor, parsePageParams } from "../../src/arkiv/pagination"
+import { SPACE_ID } from "../../src/config"
 
 export default async function handler(req: any, res: any) {
   try {
@@ -10,8 +12,21 @@ export default async function handler(req: any, res: any) {
     }
 
     const skill = req.query.skill as string | undefined;
-    const spaceId = req.query.spaceId as string | undefined;
+    // Each space is its own graph, so never mix spaces
+    const spaceId = (req.query.spaceId as string) || SPACE_ID;
     const seniority = req.query.seniority as string | undefined;
+    const { cursor, pageSize } = parsePageParams(req.query);
+
+    // `cursor` packs one cursor per list; lists missing from it are exhausted
+    let cursors: Record<string, string> | null = null;
+    if (cursor) {
+      try {
+        cursors = decodeCompoundCursor(cursor);
+      } catch {
+        return res.status(400).json({ ok: false, error: 'Invalid cursor' });
+      }
+    }
+    const emptyPage = { items: [], cursor: null };
 
     // Build params objects, only including defined values
     const askOfferParams: { skill?: string; spaceId?: string } = {};
@@ -30,25 +45,40 @@ export default async function handler(req: any, res: any) {
     if (spaceId) sessionParams.spaceId = spaceId;
     const hasSessionParams = Object.keys(sessionParams).length > 0;
 
-    const [asks, offers, profiles, sessions] = await Promise.all([
-      listAsks(hasAskOfferParams ? askOfferParams : undefined),
-      listOffers(hasAskOfferParams ? askOfferParams : undefined),
-      listUserProfiles(hasProfileParams ? profileParams : undefined),
-      listSessions(hasSessionParams ? sessionParams : undefined),
+    const [asksPage, offersPage, profilesPage, sessionsPage] = await Promise.all([
+      !cursors || cursors.asks
+        ? listAsksPage({ ...(hasAskOfferParams ? askOfferParams : {}), cursor: cursors?.asks, pageSize })
+        : emptyPage,
+      !cursors || cursors.offers
+        ? listOffersPage({ ...(hasAskOfferParams ? askOfferParams : {}), cursor: cursors?.offers, pageSize })
+        : emptyPage,
+      !cursors || cursors.profiles
+        ? listUserProfilesPage({ ...(hasProfileParams ? profileParams : {}), cursor: cursors?.profiles, pageSize })
+        : emptyPage,
+      !cursors || cursors.sessions
+        ? listSessionsPage({ ...(hasSessionParams ? sessionParams : {}), cursor: cursors?.sessions, pageSize })
+        : emptyPage,
     ]);
 
     // Apply client-side filters that can't be done via Arkiv queries
-    let filteredProfiles = profiles;
+    let filteredProfiles = profilesPage.items;
     
     // Note: mentorRoles, learnerRoles, reputationScore, session counts, and community filters
     // are applied client-side since they require payload inspection
     // The API returns all profiles matching the basic Arkiv-queryable filters
 
     res.json({
-      asks,
-      offers,
+      spaceId,
+      asks: asksPage.items,
+      offers: offersPage.items,
       profiles: filteredProfiles,
-      sessions,
+      sessions: sessionsPage.items,
+      cursor: encodeCompoundCursor({
+        asks: asksPage.cursor,
+        offers: offersPage.cursor,
+        profiles: profilesPage.cursor,
+        sessions: sessionsPage.cursor,
+      }),
     });
   } catch (error: any) {
     console.error('API error:', error);
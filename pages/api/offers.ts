@@ -1,5 +1,6 @@
 import { createOffer, listOffersForWallet } from "../../src/arkiv/offers"
-import { CURRENT_WALLET, getPrivateKey } from "../../src/config"
+import { CURRENT_WALLET, SPACE_ID, getPrivateKey } from "../../src/config"
+import { requireSessionWallet } from "../../src/lib/auth"
 
 export default async function handler(req: any, res: any) {
   try {
@@ -8,25 +9,24 @@ export default async function handler(req: any, res: any) {
       if (!wallet) {
         return res.status(400).json({ error: 'No wallet configured' });
       }
-      const offers = await listOffersForWallet(wallet);
+      const offers = await listOffersForWallet(wallet, (req.query.spaceId as string) || SPACE_ID);
       res.json(offers);
     } else if (req.method === 'POST') {
-      const { skill, message, availabilityWindow, wallet: requestWallet } = req.body;
-      const wallet = requestWallet || CURRENT_WALLET || '';
-      
-      if (!wallet) {
-        return res.status(400).json({ error: 'No wallet address provided' });
-      }
-      if (!skill || !message || !availabilityWindow) {
-        return res.status(400).json({ error: 'skill, message, and availabilityWindow are required' });
+      const { skill, message, availabilityWindow, spaceId } = req.body;
+      const wallet = requireSessionWallet(req, res);
+      if (!wallet) return;
+
+      if (!skill || !message) {
+        return res.status(400).json({ error: 'skill and message are required' });
       }
 
       const { key, txHash } = await createOffer({
         wallet,
         skill,
         message,
-        availabilityWindow,
+        availabilityWindow: availabilityWindow || '',
         privateKey: getPrivateKey(),
+        spaceId,
       });
 
       res.json({ key, txHash });
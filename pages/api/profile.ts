@@ -1,6 +1,7 @@
 import { createPublicClient, http } from "@arkiv-network/sdk"
 import { mendoza } from "@arkiv-network/sdk/chains"
 import { eq } from "@arkiv-network/sdk/query"
+import { SPACE_ID } from "../../src/config"
 
 const publicClient = createPublicClient({
   chain: mendoza,
@@ -11,6 +12,7 @@ export default async function handler(req: any, res: any) {
   const query = publicClient.buildQuery();
   const result = await query
     .where(eq('type', 'profile'))
+    .where(eq('spaceId', (req.query.spaceId as string) || SPACE_ID))
     .withAttributes(true)
     .withPayload(true)
     .limit(10)
@@ -0,0 +1,38 @@
+import { diffProfileRevisions, listProfileRevisions } from "../../src/arkiv/profiles"
+import { CURRENT_WALLET, SPACE_ID } from "../../src/config"
+
+export default async function handler(req: any, res: any) {
+  try {
+    if (req.method !== 'GET') {
+      return res.status(405).json({ ok: false, error: 'Method not allowed' });
+    }
+
+    const wallet = ((req.query.wallet as string) || CURRENT_WALLET || '').toLowerCase();
+    if (!wallet) {
+      return res.status(400).json({ ok: false, error: 'No wallet address provided' });
+    }
+
+    const spaceId = (req.query.spaceId as string) || SPACE_ID;
+    const from = req.query.from as string | undefined;
+    const to = req.query.to as string | undefined;
+
+    // With `from` and `to` revision keys, return the field-level diff between them
+    if (from || to) {
+      if (!from || !to) {
+        return res.status(400).json({ ok: false, error: 'Both from and to are required for a diff' });
+      }
+      try {
+        const changes = await diffProfileRevisions(wallet, from, to, spaceId);
+        return res.json({ ok: true, from, to, changes });
+      } catch (error: any) {
+        return res.status(404).json({ ok: false, error: error.message });
+      }
+    }
+
+    const revisions = await listProfileRevisions(wallet, spaceId);
+    res.json({ ok: true, wallet, revisions });
+  } catch (error: any) {
+    console.error('API error:', error);
+    res.status(500).json({ ok: false, error: error.message || 'Internal server error' });
+  }
+}
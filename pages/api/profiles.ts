@@ -1,5 +1,6 @@
 import { createUserProfile, listUserProfilesForWallet } from "../../src/arkiv/profiles"
-import { CURRENT_WALLET, getPrivateKey } from "../../src/config"
+import { CURRENT_WALLET, SPACE_ID, getPrivateKey } from "../../src/config"
+import { requireSessionWallet } from "../../src/lib/auth"
 
 export default async function handler(req: any, res: any) {
   try {
@@ -8,15 +9,13 @@ export default async function handler(req: any, res: any) {
       if (!wallet) {
         return res.status(400).json({ error: 'No wallet configured' });
       }
-      const profiles = await listUserProfilesForWallet(wallet);
+      const profiles = await listUserProfilesForWallet(wallet, (req.query.spaceId as string) || SPACE_ID);
       res.json(profiles);
     } else if (req.method === 'POST') {
-      const { displayName, skills, timezone, wallet: requestWallet } = req.body;
-      const wallet = requestWallet || CURRENT_WALLET || '';
-      
-      if (!wallet) {
-        return res.status(400).json({ error: 'No wallet address provided' });
-      }
+      const { displayName, skills, timezone, spaceId } = req.body;
+      const wallet = requireSessionWallet(req, res);
+      if (!wallet) return;
+
       if (!displayName) {
         return res.status(400).json({ error: 'displayName is required' });
       }
@@ -27,6 +26,7 @@ export default async function handler(req: any, res: any) {
         skills: skills || '',
         timezone: timezone || '',
         privateKey: getPrivateKey(),
+        spaceId,
       });
 
       res.json({ key, txHash });
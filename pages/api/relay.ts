@@ -0,0 +1,30 @@
+import { getRelayQuota, relayIntents, RelayError } from "../../src/arkiv/relayer"
+import { getPrivateKey } from "../../src/config"
+import { requireSessionWallet } from "../../src/lib/auth"
+
+export default async function handler(req: any, res: any) {
+  const wallet = requireSessionWallet(req, res);
+  if (!wallet) return;
+
+  try {
+    if (req.method === 'GET') {
+      res.json({ ok: true, wallet, quota: getRelayQuota(wallet) });
+    } else if (req.method === 'POST') {
+      const { intents } = req.body;
+      const { txHash, keys, quota } = await relayIntents({
+        wallet,
+        intents,
+        privateKey: getPrivateKey(),
+      });
+      res.json({ ok: true, key: keys[0], keys, txHash, quota });
+    } else {
+      res.status(405).json({ ok: false, error: 'Method not allowed' });
+    }
+  } catch (error: any) {
+    if (error instanceof RelayError) {
+      return res.status(error.status).json({ ok: false, error: error.message });
+    }
+    console.error('API error:', error);
+    res.status(500).json({ ok: false, error: error.message || 'Internal server error' });
+  }
+}
@@ -0,0 +1,52 @@
+import { getSessionByKey, scheduleSessionArchive } from "../../src/arkiv/sessions"
+import { getProfileByWallet } from "../../src/arkiv/profiles"
+import { requireSessionWallet } from "../../src/lib/auth"
+import { ARKIV_PRIVATE_KEY } from "../../src/config"
+
+/**
+ * One session with its participants' display names, for the session page.
+ * Only the session's participants can read it.
+ */
+export default async function handler(req: any, res: any) {
+  try {
+    if (req.method !== 'GET') {
+      return res.status(405).json({ ok: false, error: 'Method not allowed' });
+    }
+
+    const wallet = requireSessionWallet(req, res);
+    if (!wallet) return;
+
+    const sessionKey = req.query.sessionKey as string | undefined;
+    if (!sessionKey) {
+      return res.status(400).json({ ok: false, error: 'sessionKey is required' });
+    }
+
+    const session = await getSessionByKey(sessionKey);
+    if (!session) {
+      return res.status(404).json({ ok: false, error: 'Session not found' });
+    }
+    if (session.mentorWallet.toLowerCase() !== wallet && session.learnerWallet.toLowerCase() !== wallet) {
+      return res.status(403).json({ ok: false, error: 'Only session participants can view it' });
+    }
+
+    // Both participants having been in the meeting completes it once it ends
+    scheduleSessionArchive(session, ARKIV_PRIVATE_KEY);
+
+    const [mentorProfile, learnerProfile] = await Promise.all([
+      getProfileByWallet(session.mentorWallet, session.spaceId).catch(() => null),
+      getProfileByWallet(session.learnerWallet, session.spaceId).catch(() => null),
+    ]);
+
+    res.setHeader('Cache-Control', 'no-store');
+    res.json({
+      ok: true,
+      wallet,
+      session,
+      mentorName: mentorProfile?.displayName,
+      learnerName: learnerProfile?.displayName,
+    });
+  } catch (error: any) {
+    console.error('API error:', error);
+    res.status(500).json({ ok: false, error: error.message || 'Internal server error' });
+  }
+}
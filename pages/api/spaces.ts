@@ -0,0 +1,37 @@
+import { createSpace, listSpaces } from "../../src/arkiv/spaces"
+import { SPACE_ID, getPrivateKey } from "../../src/config"
+import { requireSessionWallet } from "../../src/lib/auth"
+
+export default async function handler(req: any, res: any) {
+  try {
+    if (req.method === 'GET') {
+      const spaces = await listSpaces();
+      res.json({ ok: true, spaces, defaultSpaceId: SPACE_ID });
+    } else if (req.method === 'POST') {
+      const { spaceId, name, description, askTtlSeconds, offerTtlSeconds } = req.body;
+      const wallet = requireSessionWallet(req, res);
+      if (!wallet) return;
+
+      if (!spaceId || !name) {
+        return res.status(400).json({ ok: false, error: 'spaceId and name are required' });
+      }
+
+      const { key, txHash } = await createSpace({
+        spaceId,
+        name,
+        description,
+        askTtlSeconds: askTtlSeconds ? Number(askTtlSeconds) : undefined,
+        offerTtlSeconds: offerTtlSeconds ? Number(offerTtlSeconds) : undefined,
+        wallet,
+        privateKey: getPrivateKey(),
+      });
+
+      res.json({ ok: true, key, txHash });
+    } else {
+      res.status(405).json({ ok: false, error: 'Method not allowed' });
+    }
+  } catch (error: any) {
+    console.error('API error:', error);
+    res.status(500).json({ ok: false, error: error.message || 'Internal server error' });
+  }
+}
@@ -35,9 +35,29 @@ export default async function handler(req: any, res: any) {
     }
   };
 
+  // Status transitions (fulfilled, withdrawn, reopened) carry the full entity
+  // so clients can drop or re-add it
+  const handleAskStatus = (ask: Ask) => {
+    try {
+      console.log('[SSE] Sending ask status:', ask.key, ask.status);
+      res.write(`data: ${JSON.stringify({ type: 'ask_status', entity: ask })}\n\n`);
+    } catch (error) {
+      console.error('Error writing ask status to SSE stream:', error);
+    }
+  };
+
+  const handleOfferStatus = (offer: Offer) => {
+    try {
+      console.log('[SSE] Sending offer status:', offer.key, offer.status);
+      res.write(`data: ${JSON.stringify({ type: 'offer_status', entity: offer })}\n\n`);
+    } catch (error) {
+      console.error('Error writing offer status to SSE stream:', error);
+    }
+  };
+
   console.log('[SSE] Starting subscriptions...');
-  unsubscribeAsks = subscribeToAsks(handleAsk);
-  unsubscribeOffers = subscribeToOffers(handleOffer);
+  unsubscribeAsks = subscribeToAsks(handleAsk, handleAskStatus);
+  unsubscribeOffers = subscribeToOffers(handleOffer, handleOfferStatus);
   console.log('[SSE] Subscriptions started');
 
   req.on('close', () => {
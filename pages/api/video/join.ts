@@ -0,0 +1,75 @@
+import { getSessionByKey } from "../../../src/arkiv/sessions"
+import { getProfileByWallet } from "../../../src/arkiv/profiles"
+import { getMeetingProvider } from "../../../src/lib/video"
+import { joinWindow } from "../../../src/lib/meetingWindow"
+import { requireSessionWallet } from "../../../src/lib/auth"
+
+/**
+ * Join link for a session's meeting, issued to one of its participants and
+ * only from shortly before the session starts until shortly after it ends
+ * (see `joinWindow`). The room is derived from the session key and a server
+ * secret, so this is the only way to learn it. With `VIDEO_PROVIDER=jitsi-jwt`
+ * the link also carries a token for that participant. The session page uses
+ * `embed` to show the call in-app; `redirect=1` sends the browser straight to
+ * the meeting instead.
+ */
+export default async function handler(req: any, res: any) {
+  try {
+    if (req.method !== 'GET') {
+      return res.status(405).json({ ok: false, error: 'Method not allowed' });
+    }
+
+    const wallet = requireSessionWallet(req, res);
+    if (!wallet) return;
+
+    const sessionKey = req.query.sessionKey as string | undefined;
+    if (!sessionKey) {
+      return res.status(400).json({ ok: false, error: 'sessionKey is required' });
+    }
+
+    const session = await getSessionByKey(sessionKey);
+    if (!session) {
+      return res.status(404).json({ ok: false, error: 'Session not found' });
+    }
+    const role = session.mentorWallet.toLowerCase() === wallet ? 'mentor'
+      : session.learnerWallet.toLowerCase() === wallet ? 'learner'
+        : null;
+    if (!role) {
+      return res.status(403).json({ ok: false, error: 'Only session participants can join' });
+    }
+    if (!session.videoProvider || (session.status !== 'scheduled' && session.status !== 'in-progress')) {
+      return res.status(404).json({ ok: false, error: 'This session has no meeting to join' });
+    }
+
+    const { opensAt, closesAt } = joinWindow(session);
+    const now = Date.now();
+    if (now < opensAt.getTime() || now > closesAt.getTime()) {
+      return res.status(403).json({
+        ok: false,
+        error: now < opensAt.getTime()
+          ? `The meeting opens at ${opensAt.toISOString()}`
+          : 'The meeting for this session has closed',
+        opensAt: opensAt.toISOString(),
+        closesAt: closesAt.toISOString(),
+      });
+    }
+
+    const provider = getMeetingProvider();
+    const room = provider.roomFor(session.key);
+    if (!room) {
+      return res.status(404).json({ ok: false, error: 'Video meetings are disabled' });
+    }
+
+    const profile = await getProfileByWallet(wallet, session.spaceId).catch(() => null);
+    const link = provider.joinLink(room, { wallet, name: profile?.displayName, role }, session);
+
+    res.setHeader('Cache-Control', 'no-store');
+    if (req.query.redirect === '1') {
+      return res.redirect(302, link.url);
+    }
+    res.json({ ok: true, ...link });
+  } catch (error: any) {
+    console.error('API error:', error);
+    res.status(500).json({ ok: false, error: error.message || 'Internal server error' });
+  }
+}
@@ -0,0 +1,46 @@
+import { followUpSessionWrite, recordSessionPresence } from "../../../src/arkiv/sessions"
+import { getPrivateKey } from "../../../src/config"
+import { requireSessionWallet } from "../../../src/lib/auth"
+
+const PRESENCE_EVENTS = ['join', 'leave'];
+
+/**
+ * Presence reports from the session page: `join` once the signed-in
+ * participant is in the embedded call, `leave` when they hang up or close
+ * the page (sent with `navigator.sendBeacon`). Written by the server key;
+ * see recordSessionPresence.
+ */
+export default async function handler(req: any, res: any) {
+  try {
+    if (req.method !== 'POST') {
+      return res.status(405).json({ ok: false, error: 'Method not allowed' });
+    }
+
+    const wallet = requireSessionWallet(req, res);
+    if (!wallet) return;
+
+    // Beacons may arrive as text/plain
+    const body = typeof req.body === 'string' ? JSON.parse(req.body || '{}') : req.body || {};
+    const { sessionKey, event } = body;
+    if (!sessionKey || !PRESENCE_EVENTS.includes(event)) {
+      return res.status(400).json({ ok: false, error: 'sessionKey and event (join or leave) are required' });
+    }
+
+    let result;
+    try {
+      result = await recordSessionPresence({ sessionKey, wallet, event, privateKey: getPrivateKey() });
+    } catch (e: any) {
+      return res.status(400).json({ ok: false, error: e.message });
+    }
+
+    // Both participants having been in the meeting may have completed the session
+    if (result) {
+      await followUpSessionWrite({ type: 'session_presence', sessionKey, privateKey: getPrivateKey() })
+        .catch(e => console.error('Failed to follow up session_presence for session:', e));
+    }
+    res.json({ ok: true, recorded: Boolean(result), ...(result || {}) });
+  } catch (error: any) {
+    console.error('API error:', error);
+    res.status(500).json({ ok: false, error: error.message || 'Internal server error' });
+  }
+}
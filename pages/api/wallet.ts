@@ -1,18 +1,28 @@
 import { CURRENT_WALLET } from "../../src/config";
+import { startSession } from "../../src/lib/auth";
+
+// Signing in as the example wallet skips SIWE, since its key lives on the
+// server, so it hands the server wallet to anyone: only with EXAMPLE_WALLET_LOGIN=on.
+const exampleLoginEnabled = (process.env.EXAMPLE_WALLET_LOGIN || 'off').toLowerCase() === 'on';
 
 export default async function handler(req: any, res: any) {
-  if (req.method !== 'GET') {
+  if (req.method !== 'GET' && req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
   // Return the example wallet address (from ARKIV_PRIVATE_KEY)
   // This allows users to log in without MetaMask for demo purposes
-  if (!CURRENT_WALLET) {
+  if (!CURRENT_WALLET || !exampleLoginEnabled) {
     return res.status(503).json({ error: 'Example wallet not available' });
   }
 
+  // POST also signs in as the example wallet
+  if (req.method === 'POST') {
+    startSession(res, CURRENT_WALLET);
+  }
+
+  // Lowercased, like the session and every entity written for it
   res.json({
-    address: CURRENT_WALLET,
+    address: CURRENT_WALLET.toLowerCase(),
   });
 }
-
@@ -0,0 +1,10 @@
+import { getWriteQueueStats } from "../../src/arkiv/client";
+
+export default async function handler(req: any, res: any) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Depth and counters of this server process's Arkiv write queue
+  res.json(getWriteQueueStats());
+}
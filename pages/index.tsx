@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { useRouter } from 'next/router';
-import { connectWallet } from '../src/wallet';
+import { connectWallet, setSigningMode, signInWithEthereum } from '../src/wallet';
 
 export default function Home() {
   const router = useRouter();
@@ -25,6 +25,10 @@ export default function Home() {
       setConnecting(true);
       setError(null);
       const address = await connectWallet();
+      // Prove ownership of the wallet; the server keeps the session in a cookie
+      await signInWithEthereum(address);
+      // Writes are signed and paid for by this wallet unless changed on /me
+      setSigningMode('wallet');
       // Store wallet address in localStorage for session persistence
       localStorage.setItem('connectedWallet', address);
       // Redirect to dashboard
@@ -40,7 +44,8 @@ export default function Home() {
     try {
       setLoadingExample(true);
       setError(null);
-      const res = await fetch('/api/wallet');
+      // POST also signs in as the example wallet
+      const res = await fetch('/api/wallet', { method: 'POST' });
       if (!res.ok) {
         throw new Error('Failed to fetch example wallet');
       }
@@ -48,6 +53,8 @@ export default function Home() {
       if (!data.address) {
         throw new Error('No example wallet available');
       }
+      // The example wallet has no MetaMask account, so the server key signs
+      setSigningMode('server');
       // Store wallet address in localStorage for session persistence
       localStorage.setItem('connectedWallet', data.address);
       // Redirect to dashboard
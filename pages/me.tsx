@@ -2,6 +2,11 @@ import React, { useEffect, useState } from 'react';
 import { useRouter } from 'next/router';
 import { iconButtonStyle } from '../src/utils/touchTargets';
 import { useTouchFeedback, getPressedStyle } from '../src/hooks/useTouchFeedback';
+import { useSpace } from '../src/hooks/useSpace';
+import { getSessionAddress, getSigningMode, postMeAction, setSigningMode, signOut } from '../src/wallet';
+import type { SigningMode } from '../src/arkiv/preparedWrites';
+import type { OneOffSlot, WeeklySlot } from '../src/arkiv/availability';
+import { joinPath, joinWindow } from '../src/lib/meetingWindow';
 
 type Profile = {
   key: string;
@@ -41,6 +46,11 @@ type Profile = {
   lastActiveTimestamp?: string;
   communityAffiliations?: string[];
   reputationScore?: number;
+  sessionsCancelled?: number;
+  lateCancellations?: number;
+  sessionsDeclined?: number;
+  sessionsMissed?: number;
+  reliabilityScore?: number;
   spaceId: string;
   createdAt?: string;
 };
@@ -54,7 +64,10 @@ type Ask = {
   status: string;
   message: string;
   ttlSeconds: number;
+  expiresAt?: string;
   txHash?: string;
+  sessionKey?: string;
+  statusChangedAt?: string;
 };
 
 type Offer = {
@@ -67,7 +80,10 @@ type Offer = {
   message: string;
   availabilityWindow: string;
   ttlSeconds: number;
+  expiresAt?: string;
   txHash?: string;
+  sessionKey?: string;
+  statusChangedAt?: string;
 };
 
 type Session = {
@@ -85,11 +101,26 @@ type Session = {
   txHash?: string;
   mentorConfirmed?: boolean;
   learnerConfirmed?: boolean;
+  mentorCompleted?: boolean;
+  learnerCompleted?: boolean;
+  originalSessionDate?: string;
+  pendingReschedule?: {
+    key: string;
+    proposedBy: string;
+    sessionDate: string;
+    duration?: number;
+    note?: string;
+  };
+  declinedBy?: string;
+  cancellation?: {
+    cancelledBy: string;
+    reason: string;
+    cancelledAt: string;
+    late: boolean;
+  };
   // Jitsi video meeting fields
   videoProvider?: 'jitsi' | 'none' | 'custom';
-  videoRoomName?: string;
-  videoJoinUrl?: string;
-  videoJwtToken?: string;
+  noShows?: string[]; // Participants who never joined the meeting
 };
 
 type Feedback = {
@@ -117,9 +148,11 @@ type MeData = {
   feedback: Feedback[];
 };
 
-function formatTimeRemaining(createdAt: string, ttlSeconds: number): string {
-  const created = new Date(createdAt).getTime();
-  const expires = created + (ttlSeconds * 1000);
+function formatTimeRemaining(createdAt: string, ttlSeconds: number, expiresAt?: string): string {
+  // Prefer the entity's real expiry, which moves when a listing is extended
+  const expires = expiresAt
+    ? new Date(expiresAt).getTime()
+    : new Date(createdAt).getTime() + (ttlSeconds * 1000);
   const now = Date.now();
   const remaining = expires - now;
 
@@ -194,6 +227,654 @@ function ImmutableCaution({ darkMode }: { darkMode: boolean }) {
   );
 }
 
+type ProfileRevision = {
+  key: string;
+  revision: number;
+  createdAt?: string;
+  txHash?: string;
+  revertedFrom?: string;
+  isCurrent: boolean;
+  profile: Profile;
+};
+
+type ProfileFieldChange = {
+  field: string;
+  from: unknown;
+  to: unknown;
+};
+
+function formatFieldValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—';
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '—';
+  if (typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>).filter(([, v]) => v);
+    return entries.length > 0 ? entries.map(([k, v]) => `${k}: ${v}`).join(', ') : '—';
+  }
+  return String(value);
+}
+
+// Hours offered by the "Extend" control (the API accepts up to a week)
+const EXTEND_HOURS_OPTIONS = [1, 6, 24, 72, 168];
+
+// Fulfil / withdraw / reopen / extend controls for an ask or offer. Closing a
+// listing can link the session that came out of it.
+function ListingStatusControls({ kind, listing, wallet, sessions, theme, onChanged, onError }: {
+  kind: 'ask' | 'offer';
+  listing: Ask | Offer;
+  wallet: string;
+  sessions: Session[];
+  theme: any;
+  onChanged: () => void;
+  onError: (message: string) => void;
+}) {
+  const [busy, setBusy] = useState(false);
+  const [sessionKey, setSessionKey] = useState('');
+  const [extendHours, setExtendHours] = useState(24);
+  const openStatus = kind === 'ask' ? 'open' : 'active';
+  const doneStatus = kind === 'ask' ? 'fulfilled' : 'filled';
+  const isOpen = listing.status === openStatus;
+  const linkedSession = listing.sessionKey ? sessions.find(s => s.key === listing.sessionKey) : undefined;
+  const candidateSessions = sessions.filter(s => s.status !== 'cancelled');
+
+  const postAction = async (body: Record<string, any>, verb: string) => {
+    setBusy(true);
+    try {
+      // Extending a listing created with the user's wallet is signed by it
+      const res = await postMeAction({
+        ...body,
+        [kind === 'ask' ? 'askKey' : 'offerKey']: listing.key,
+      }, wallet);
+      const result = await res.json();
+      if (!res.ok || !result.ok) {
+        onError(`Failed to ${verb} ${kind}: ${result.error || res.statusText}`);
+        return;
+      }
+      onChanged();
+    } catch (err) {
+      console.error(`Error trying to ${verb} ${kind}:`, err);
+      onError(`Network error trying to ${verb} ${kind}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const updateStatus = (status: string) => postAction({
+    action: kind === 'ask' ? 'updateAskStatus' : 'updateOfferStatus',
+    status,
+    sessionKey: status === doneStatus && sessionKey ? sessionKey : undefined,
+  }, 'update');
+
+  const extend = () => postAction({
+    action: kind === 'ask' ? 'extendAsk' : 'extendOffer',
+    hours: extendHours,
+  }, 'extend');
+
+  const buttonStyle = (color: string): React.CSSProperties => ({
+    padding: '4px 10px',
+    fontSize: '12px',
+    backgroundColor: busy ? '#ccc' : color,
+    color: 'white',
+    border: 'none',
+    borderRadius: '6px',
+    cursor: busy ? 'not-allowed' : 'pointer',
+  });
+
+  return (
+    <div style={{ marginTop: '10px', fontSize: '13px', color: theme.text }}>
+      {listing.sessionKey && (
+        <div style={{ marginBottom: '6px', color: theme.textSecondary }}>
+          Linked session: {linkedSession
+            ? `${linkedSession.skill} on ${new Date(linkedSession.sessionDate).toLocaleString()}`
+            : shortenHash(listing.sessionKey)}
+        </div>
+      )}
+      <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '8px' }}>
+        {isOpen ? (
+          <>
+            {candidateSessions.length > 0 && (
+              <select
+                value={sessionKey}
+                onChange={(e) => setSessionKey(e.target.value)}
+                style={{ padding: '4px 6px', fontSize: '12px', borderRadius: '6px', border: `1px solid ${theme.inputBorder}`, backgroundColor: theme.inputBg, color: theme.text }}
+              >
+                <option value="">No linked session</option>
+                {candidateSessions.map(s => (
+                  <option key={s.key} value={s.key}>
+                    {s.skill} • {new Date(s.sessionDate).toLocaleDateString()}
+                  </option>
+                ))}
+              </select>
+            )}
+            <button disabled={busy} onClick={() => updateStatus(doneStatus)} style={buttonStyle('#4caf50')}>
+              Mark {doneStatus}
+            </button>
+            <button disabled={busy} onClick={() => updateStatus('withdrawn')} style={buttonStyle('#6c757d')}>
+              Withdraw
+            </button>
+            <select
+              value={extendHours}
+              onChange={(e) => setExtendHours(parseInt(e.target.value, 10))}
+              style={{ padding: '4px 6px', fontSize: '12px', borderRadius: '6px', border: `1px solid ${theme.inputBorder}`, backgroundColor: theme.inputBg, color: theme.text }}
+            >
+              {EXTEND_HOURS_OPTIONS.map(hours => (
+                <option key={hours} value={hours}>+{hours}h</option>
+              ))}
+            </select>
+            <button disabled={busy} onClick={extend} style={buttonStyle('#ff9800')}>
+              Extend
+            </button>
+          </>
+        ) : (
+          <button disabled={busy} onClick={() => updateStatus(openStatus)} style={buttonStyle('#0066cc')}>
+            Reopen
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Profile revision history: every edit is a new entity, so older revisions
+// can be listed, compared and republished as current
+function ProfileHistoryPanel({ wallet, spaceId, theme, darkMode, onReverted }: {
+  wallet: string;
+  spaceId: string;
+  theme: any;
+  darkMode: boolean;
+  onReverted: () => void;
+}) {
+  const [revisions, setRevisions] = useState<ProfileRevision[]>([]);
+  const [loadingHistory, setLoadingHistory] = useState(true);
+  const [historyError, setHistoryError] = useState<string | null>(null);
+  const [compareFrom, setCompareFrom] = useState<string>('');
+  const [compareTo, setCompareTo] = useState<string>('');
+  const [changes, setChanges] = useState<ProfileFieldChange[] | null>(null);
+  const [reverting, setReverting] = useState<string | null>(null);
+
+  const fetchHistory = async () => {
+    setLoadingHistory(true);
+    try {
+      const params = new URLSearchParams({ wallet, spaceId });
+      const res = await fetch(`/api/profileHistory?${params.toString()}`);
+      const result = await res.json();
+      if (!res.ok || !result.ok) {
+        setHistoryError(result.error || 'Failed to load profile history');
+        return;
+      }
+      const revs: ProfileRevision[] = result.revisions || [];
+      setRevisions(revs);
+      setHistoryError(null);
+      // Default to comparing the previous revision with the current one
+      if (revs.length >= 2) {
+        setCompareFrom(revs[revs.length - 2].key);
+        setCompareTo(revs[revs.length - 1].key);
+      }
+    } catch (err) {
+      console.error('Error fetching profile history:', err);
+      setHistoryError('Network error loading profile history');
+    } finally {
+      setLoadingHistory(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchHistory();
+  }, [wallet, spaceId]);
+
+  useEffect(() => {
+    if (!compareFrom || !compareTo || compareFrom === compareTo) {
+      setChanges(null);
+      return;
+    }
+    const params = new URLSearchParams({ wallet, spaceId, from: compareFrom, to: compareTo });
+    fetch(`/api/profileHistory?${params.toString()}`)
+      .then(res => res.json())
+      .then(result => setChanges(result.ok ? result.changes : null))
+      .catch(err => console.error('Error fetching profile diff:', err));
+  }, [wallet, spaceId, compareFrom, compareTo]);
+
+  const handleRevert = async (revision: ProfileRevision) => {
+    if (!confirm(`Republish revision ${revision.revision} as your current profile? This creates a new revision; nothing is deleted.`)) {
+      return;
+    }
+    setReverting(revision.key);
+    try {
+      const res = await postMeAction({ action: 'revertProfile', spaceId, revisionKey: revision.key }, wallet);
+      const result = await res.json();
+      if (!res.ok || !result.ok) {
+        setHistoryError(`Failed to revert: ${result.error || res.statusText}`);
+        return;
+      }
+      await fetchHistory();
+      onReverted();
+    } catch (err) {
+      console.error('Error reverting profile:', err);
+      setHistoryError('Network error reverting profile');
+    } finally {
+      setReverting(null);
+    }
+  };
+
+  const revisionNumber = (key?: string) => revisions.find(r => r.key === key)?.revision;
+
+  const selectStyle: React.CSSProperties = {
+    padding: '6px 8px',
+    fontSize: '13px',
+    borderRadius: '6px',
+    border: `1px solid ${theme.inputBorder}`,
+    backgroundColor: theme.inputBg,
+    color: theme.text,
+  };
+
+  return (
+    <div style={{
+      marginTop: '16px',
+      padding: '16px',
+      border: `1px solid ${theme.border}`,
+      borderRadius: '8px',
+      backgroundColor: theme.hoverBg,
+    }}>
+      <h3 style={{ color: theme.text, marginTop: 0, marginBottom: '12px', fontSize: '16px' }}>Profile History</h3>
+      {loadingHistory && <p style={{ color: theme.textSecondary, fontSize: '13px' }}>Loading revisions...</p>}
+      {historyError && <p style={{ color: theme.errorText, fontSize: '13px' }}>{historyError}</p>}
+      {!loadingHistory && revisions.length === 0 && !historyError && (
+        <p style={{ color: theme.textSecondary, fontSize: '13px' }}>No revisions found.</p>
+      )}
+
+      {revisions.length > 0 && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '8px', marginBottom: '16px' }}>
+          {[...revisions].reverse().map(rev => (
+            <div key={rev.key} style={{
+              display: 'flex',
+              flexWrap: 'wrap',
+              alignItems: 'center',
+              justifyContent: 'space-between',
+              gap: '8px',
+              padding: '8px 12px',
+              borderRadius: '6px',
+              border: `1px solid ${rev.isCurrent ? '#4caf50' : theme.borderLight}`,
+              backgroundColor: theme.cardBg,
+            }}>
+              <div style={{ fontSize: '13px', color: theme.text }}>
+                <strong>Revision {rev.revision}</strong>
+                {rev.isCurrent && <span style={{ marginLeft: '6px', color: darkMode ? '#90c695' : '#2d7a32' }}>(current)</span>}
+                {rev.revertedFrom && (
+                  <span style={{ marginLeft: '6px', color: theme.textSecondary }}>
+                    reverted from revision {revisionNumber(rev.revertedFrom) ?? shortenHash(rev.revertedFrom)}
+                  </span>
+                )}
+                <div style={{ fontSize: '12px', color: theme.textSecondary, marginTop: '2px' }}>
+                  {rev.createdAt ? new Date(rev.createdAt).toLocaleString() : 'Unknown date'}
+                  {rev.txHash && (
+                    <>
+                      {' • Tx: '}
+                      <span
+                        onClick={() => copyToClipboard(rev.txHash!)}
+                        style={{ fontFamily: 'monospace', cursor: 'pointer' }}
+                        title="Click to copy"
+                      >
+                        {shortenHash(rev.txHash)}
+                      </span>
+                    </>
+                  )}
+                </div>
+              </div>
+              {!rev.isCurrent && (
+                <button
+                  onClick={() => handleRevert(rev)}
+                  disabled={reverting !== null}
+                  style={{
+                    padding: '4px 10px',
+                    fontSize: '12px',
+                    backgroundColor: '#6c757d',
+                    color: 'white',
+                    border: 'none',
+                    borderRadius: '6px',
+                    cursor: reverting !== null ? 'not-allowed' : 'pointer',
+                    opacity: reverting === rev.key ? 0.6 : 1,
+                  }}
+                >
+                  {reverting === rev.key ? 'Reverting...' : 'Revert to this'}
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {revisions.length >= 2 && (
+        <div>
+          <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '8px', marginBottom: '8px', fontSize: '13px', color: theme.text }}>
+            Compare
+            <select value={compareFrom} onChange={(e) => setCompareFrom(e.target.value)} style={selectStyle}>
+              {revisions.map(rev => <option key={rev.key} value={rev.key}>Revision {rev.revision}</option>)}
+            </select>
+            with
+            <select value={compareTo} onChange={(e) => setCompareTo(e.target.value)} style={selectStyle}>
+              {revisions.map(rev => <option key={rev.key} value={rev.key}>Revision {rev.revision}</option>)}
+            </select>
+          </div>
+          {compareFrom === compareTo ? (
+            <p style={{ color: theme.textSecondary, fontSize: '13px', margin: 0 }}>Pick two different revisions.</p>
+          ) : changes && changes.length === 0 ? (
+            <p style={{ color: theme.textSecondary, fontSize: '13px', margin: 0 }}>No field changes.</p>
+          ) : changes && (
+            <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '13px' }}>
+              <thead>
+                <tr style={{ color: theme.textSecondary, textAlign: 'left' }}>
+                  <th style={{ padding: '4px 8px' }}>Field</th>
+                  <th style={{ padding: '4px 8px' }}>Before</th>
+                  <th style={{ padding: '4px 8px' }}>After</th>
+                </tr>
+              </thead>
+              <tbody>
+                {changes.map(change => (
+                  <tr key={change.field} style={{ borderTop: `1px solid ${theme.borderLight}`, color: theme.text }}>
+                    <td style={{ padding: '4px 8px', fontWeight: 600 }}>{change.field}</td>
+                    <td style={{ padding: '4px 8px', color: theme.errorText }}>{formatFieldValue(change.from)}</td>
+                    <td style={{ padding: '4px 8px', color: darkMode ? '#90c695' : '#2d7a32' }}>{formatFieldValue(change.to)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Bookable times: recurring weekly slots plus one-off slots, all in one
+// timezone; saving publishes a new availability entity replacing the old one.
+// Busy time imported from an .ics file is taken out of the slots learners see.
+function AvailabilityPanel({ wallet, spaceId, theme, darkMode }: {
+  wallet: string;
+  spaceId: string;
+  theme: any;
+  darkMode: boolean;
+}) {
+  const [weekly, setWeekly] = useState<WeeklySlot[]>([]);
+  const [oneOff, setOneOff] = useState<OneOffSlot[]>([]);
+  const [timezone, setTimezone] = useState<string>(() => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC');
+  const [loadingAvailability, setLoadingAvailability] = useState(true);
+  const [availabilityError, setAvailabilityError] = useState<string | null>(null);
+  const [savedAt, setSavedAt] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [busyCalendar, setBusyCalendar] = useState<{ source: string; importedAt: string; blockCount: number } | null>(null);
+  const [importing, setImporting] = useState(false);
+
+  const fetchAvailability = () => {
+    setLoadingAvailability(true);
+    return fetch(`/api/availability?${new URLSearchParams({ wallet }).toString()}`)
+      .then(res => res.json())
+      .then(result => {
+        if (!result.ok) {
+          setAvailabilityError(result.error || 'Failed to load availability');
+          return;
+        }
+        setBusyCalendar(result.busyCalendar || null);
+        if (result.availability) {
+          setWeekly(result.availability.weekly);
+          setOneOff(result.availability.oneOff);
+          const slotTimezone = [...result.availability.weekly, ...result.availability.oneOff][0]?.timezone;
+          if (slotTimezone) setTimezone(slotTimezone);
+          setSavedAt(result.availability.updatedAt || null);
+        }
+        setAvailabilityError(null);
+      })
+      .catch(err => {
+        console.error('Error fetching availability:', err);
+        setAvailabilityError('Network error loading availability');
+      })
+      .finally(() => setLoadingAvailability(false));
+  };
+
+  useEffect(() => {
+    fetchAvailability();
+  }, [wallet]);
+
+  // Upload the file's text; an empty string clears the imported calendar
+  const handleImport = async (ics: string, source: string) => {
+    setImporting(true);
+    setAvailabilityError(null);
+    try {
+      const res = await postMeAction({ action: 'importCalendar', spaceId, ics, source, timezone }, wallet);
+      const result = await res.json();
+      if (!res.ok || !result.ok) {
+        setAvailabilityError(`Failed to import calendar: ${result.error || res.statusText}`);
+        return;
+      }
+      if (result.skipped) {
+        setAvailabilityError(`${result.skipped} event(s) with unsupported recurrence rules were skipped`);
+      }
+      await fetchAvailability();
+    } catch (err) {
+      console.error('Error importing calendar:', err);
+      setAvailabilityError('Network error importing calendar');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setAvailabilityError(null);
+    try {
+      const res = await postMeAction({
+        action: 'setAvailability',
+        spaceId,
+        weekly: weekly.map(slot => ({ ...slot, timezone })),
+        oneOff: oneOff.map(slot => ({ ...slot, timezone })),
+      }, wallet);
+      const result = await res.json();
+      if (!res.ok || !result.ok) {
+        setAvailabilityError(`Failed to save availability: ${result.error || res.statusText}`);
+        return;
+      }
+      setSavedAt(new Date().toISOString());
+    } catch (err) {
+      console.error('Error saving availability:', err);
+      setAvailabilityError('Network error saving availability');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateWeekly = (index: number, changes: Partial<WeeklySlot>) =>
+    setWeekly(prev => prev.map((slot, i) => (i === index ? { ...slot, ...changes } : slot)));
+  const updateOneOff = (index: number, changes: Partial<OneOffSlot>) =>
+    setOneOff(prev => prev.map((slot, i) => (i === index ? { ...slot, ...changes } : slot)));
+
+  const inputStyle: React.CSSProperties = {
+    padding: '6px 8px',
+    fontSize: '13px',
+    borderRadius: '6px',
+    border: `1px solid ${theme.inputBorder}`,
+    backgroundColor: theme.inputBg,
+    color: theme.text,
+  };
+  const rowStyle: React.CSSProperties = { display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '8px', marginBottom: '6px' };
+  const smallButtonStyle: React.CSSProperties = {
+    padding: '4px 10px',
+    fontSize: '12px',
+    backgroundColor: '#6c757d',
+    color: 'white',
+    border: 'none',
+    borderRadius: '6px',
+    cursor: 'pointer',
+  };
+
+  return (
+    <div style={{
+      marginBottom: '20px',
+      padding: '16px',
+      border: `1px solid ${theme.border}`,
+      borderRadius: '8px',
+      backgroundColor: theme.hoverBg,
+    }}>
+      <h3 style={{ color: theme.text, marginTop: 0, marginBottom: '8px', fontSize: '16px' }}>Availability</h3>
+      <p style={{ color: theme.textSecondary, fontSize: '13px', marginTop: 0 }}>
+        Learners pick meeting times from these slots, minus sessions you already have.
+      </p>
+      {loadingAvailability && <p style={{ color: theme.textSecondary, fontSize: '13px' }}>Loading availability...</p>}
+      {availabilityError && <p style={{ color: theme.errorText, fontSize: '13px' }}>{availabilityError}</p>}
+
+      <div style={{ ...rowStyle, fontSize: '13px', color: theme.text, marginBottom: '12px' }}>
+        Timezone
+        <input value={timezone} onChange={(e) => setTimezone(e.target.value)} placeholder="Europe/Berlin" style={inputStyle} />
+      </div>
+
+      <div style={{ fontSize: '13px', fontWeight: 600, color: theme.text, marginBottom: '6px' }}>Weekly</div>
+      {weekly.map((slot, i) => (
+        <div key={`weekly-${i}`} style={rowStyle}>
+          <select value={slot.day} onChange={(e) => updateWeekly(i, { day: Number(e.target.value) })} style={inputStyle}>
+            {WEEKDAYS.map((name, day) => <option key={day} value={day}>{name}</option>)}
+          </select>
+          <input type="time" value={slot.start} onChange={(e) => updateWeekly(i, { start: e.target.value })} style={inputStyle} />
+          <span style={{ color: theme.textSecondary }}>to</span>
+          <input type="time" value={slot.end} onChange={(e) => updateWeekly(i, { end: e.target.value })} style={inputStyle} />
+          <button type="button" onClick={() => setWeekly(prev => prev.filter((_, j) => j !== i))} style={smallButtonStyle}>Remove</button>
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={() => setWeekly(prev => [...prev, { day: 1, start: '09:00', end: '12:00', timezone }])}
+        style={{ ...smallButtonStyle, marginBottom: '12px' }}
+      >
+        + Weekly slot
+      </button>
+
+      <div style={{ fontSize: '13px', fontWeight: 600, color: theme.text, marginBottom: '6px' }}>One-off</div>
+      {oneOff.map((slot, i) => (
+        <div key={`oneoff-${i}`} style={rowStyle}>
+          <input type="date" value={slot.date} onChange={(e) => updateOneOff(i, { date: e.target.value })} style={inputStyle} />
+          <input type="time" value={slot.start} onChange={(e) => updateOneOff(i, { start: e.target.value })} style={inputStyle} />
+          <span style={{ color: theme.textSecondary }}>to</span>
+          <input type="time" value={slot.end} onChange={(e) => updateOneOff(i, { end: e.target.value })} style={inputStyle} />
+          <button type="button" onClick={() => setOneOff(prev => prev.filter((_, j) => j !== i))} style={smallButtonStyle}>Remove</button>
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={() => setOneOff(prev => [...prev, { date: new Date().toISOString().slice(0, 10), start: '09:00', end: '10:00', timezone }])}
+        style={{ ...smallButtonStyle, marginBottom: '12px' }}
+      >
+        + One-off slot
+      </button>
+
+      <div style={{ fontSize: '13px', fontWeight: 600, color: theme.text, marginBottom: '6px' }}>Busy calendar</div>
+      <div style={{ ...rowStyle, fontSize: '13px', color: theme.textSecondary, marginBottom: '12px' }}>
+        {busyCalendar && busyCalendar.blockCount > 0
+          ? `${busyCalendar.blockCount} busy block(s) from ${busyCalendar.source || 'an .ics file'}, imported ${new Date(busyCalendar.importedAt).toLocaleString()}`
+          : 'Import an .ics export of your calendar to keep its events out of your bookable slots.'}
+        <input
+          type="file"
+          accept=".ics,text/calendar"
+          disabled={importing}
+          onChange={async (e) => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (file) await handleImport(await file.text(), file.name);
+          }}
+          style={{ fontSize: '12px', color: theme.text }}
+        />
+        {busyCalendar && busyCalendar.blockCount > 0 && (
+          <button type="button" onClick={() => handleImport('', '')} disabled={importing} style={smallButtonStyle}>Clear</button>
+        )}
+        {importing && <span>Importing...</span>}
+      </div>
+
+      <div style={{ display: 'flex', alignItems: 'center', gap: '12px' }}>
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={saving || loadingAvailability}
+          style={{
+            padding: '8px 16px',
+            fontSize: '14px',
+            backgroundColor: '#4caf50',
+            color: 'white',
+            border: 'none',
+            borderRadius: '6px',
+            cursor: saving || loadingAvailability ? 'not-allowed' : 'pointer',
+            opacity: saving ? 0.6 : 1,
+          }}
+        >
+          {saving ? 'Saving...' : 'Save Availability'}
+        </button>
+        {savedAt && (
+          <span style={{ fontSize: '12px', color: darkMode ? '#90c695' : '#2d7a32' }}>
+            Published {new Date(savedAt).toLocaleString()}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Subscribable calendar feed of the signed-in wallet's sessions; the URL
+// carries a token, so it is only fetched when asked for
+function CalendarFeedLink({ theme }: { theme: any }) {
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+  const [feedError, setFeedError] = useState<string | null>(null);
+
+  const handleShow = async () => {
+    setFeedError(null);
+    try {
+      const res = await fetch('/api/calendar/token');
+      const result = await res.json();
+      if (!res.ok || !result.ok) {
+        setFeedError(result.error || 'Failed to load calendar feed');
+        return;
+      }
+      setFeedUrl(`${window.location.origin}${result.feedPath}`);
+    } catch (err) {
+      console.error('Error fetching calendar feed:', err);
+      setFeedError('Network error loading calendar feed');
+    }
+  };
+
+  return (
+    <div style={{ marginBottom: '24px', fontSize: '13px', color: theme.textSecondary }}>
+      {!feedUrl ? (
+        <button
+          onClick={handleShow}
+          style={{
+            padding: '6px 12px',
+            fontSize: '13px',
+            backgroundColor: theme.cardBg,
+            color: '#0066cc',
+            border: '1px solid #0066cc',
+            borderRadius: '6px',
+            cursor: 'pointer',
+          }}
+        >
+          🗓️ Subscribe in your calendar
+        </button>
+      ) : (
+        <div>
+          <div style={{ marginBottom: '6px' }}>
+            Add this URL to your calendar app to follow your sessions. Anyone with it can see them, so keep it private.
+          </div>
+          <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '8px' }}>
+            <code
+              onClick={() => copyToClipboard(feedUrl)}
+              title="Click to copy"
+              style={{ cursor: 'pointer', wordBreak: 'break-all', color: theme.text }}
+            >
+              {feedUrl}
+            </code>
+            <a href={feedUrl.replace(/^https?:/, 'webcal:')} style={{ color: '#0066cc' }}>Open in calendar app</a>
+          </div>
+        </div>
+      )}
+      {feedError && <div style={{ color: theme.errorText, marginTop: '6px' }}>{feedError}</div>}
+    </div>
+  );
+}
+
 // Dark Mode Toggle Button Component with Touch Feedback
 function DarkModeToggleButton({ darkMode, setDarkMode, theme }: { darkMode: boolean; setDarkMode: (value: boolean) => void; theme: any }) {
   const { pressed, handlers } = useTouchFeedback();
@@ -252,24 +933,52 @@ export default function Me() {
   const [, setNow] = useState(Date.now());
   const [txHashMap, setTxHashMap] = useState<Record<string, string>>({});
   const [editingProfile, setEditingProfile] = useState(false);
+  const [showProfileHistory, setShowProfileHistory] = useState(false);
   const [showArkivWarning, setShowArkivWarning] = useState(false);
   const [connectedWallet, setConnectedWallet] = useState<string | null>(null);
   const [isMobile, setIsMobile] = useState(false);
+  const { spaces, spaceId, setSpaceId } = useSpace();
+  const [signingMode, setSigningModeState] = useState<SigningMode>('server');
+  const [canSignWithWallet, setCanSignWithWallet] = useState(false);
+
+  // Signing preference lives in localStorage; wallet signing needs MetaMask
+  useEffect(() => {
+    setSigningModeState(getSigningMode());
+    setCanSignWithWallet(Boolean(window.ethereum));
+  }, []);
+
+  const handleSigningModeChange = (mode: SigningMode) => {
+    setSigningMode(mode);
+    setSigningModeState(mode);
+  };
 
   // Show warning popup every time the page loads
   useEffect(() => {
     setShowArkivWarning(true);
   }, []);
 
-  // Check for connected wallet on mount
+  // Check for a signed-in wallet on mount
   useEffect(() => {
     const wallet = localStorage.getItem('connectedWallet');
-    if (wallet) {
-      setConnectedWallet(wallet);
-    } else {
+    if (!wallet) {
       // If no wallet connected, redirect to home
       router.push('/');
+      return;
     }
+    // Changes need a session for this same wallet, so sign in again if it is missing
+    getSessionAddress()
+      .then(address => {
+        if (address && address === wallet.toLowerCase()) {
+          setConnectedWallet(wallet);
+        } else {
+          localStorage.removeItem('connectedWallet');
+          router.push('/');
+        }
+      })
+      .catch(err => {
+        console.error('Error checking session:', err);
+        setConnectedWallet(wallet);
+      });
   }, [router]);
 
   const fetchMe = async (wallet?: string) => {
@@ -281,8 +990,8 @@ export default function Me() {
         return;
       }
 
-      const url = walletToUse ? `/api/me?wallet=${encodeURIComponent(walletToUse)}` : '/api/me';
-      const res = await fetch(url);
+      const params = new URLSearchParams({ wallet: walletToUse, spaceId: spaceId || '' });
+      const res = await fetch(`/api/me?${params.toString()}`);
       if (!res.ok) {
         const errorData = await res.json();
         console.error('Error fetching /api/me:', res.status, errorData);
@@ -301,13 +1010,16 @@ export default function Me() {
     }
   };
 
+  // Wait for the space selection so the first load is already scoped to it
   useEffect(() => {
-    if (connectedWallet) {
+    if (connectedWallet && spaceId !== null) {
+      setLoading(true);
       fetchMe(connectedWallet);
     }
-  }, [connectedWallet]);
+  }, [connectedWallet, spaceId]);
 
-  const handleDisconnect = () => {
+  const handleDisconnect = async () => {
+    await signOut().catch(err => console.error('Error signing out:', err));
     localStorage.removeItem('connectedWallet');
     setConnectedWallet(null);
     router.push('/');
@@ -384,7 +1096,6 @@ export default function Me() {
 
     const payload = {
       action: 'createProfile',
-      wallet: connectedWallet,
       displayName,
       username: username || undefined,
       profileImage: profileImage || undefined,
@@ -404,11 +1115,7 @@ export default function Me() {
     console.log('Creating profile:', payload);
 
     try {
-      const res = await fetch('/api/me', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(payload),
-      });
+      const res = await postMeAction({ ...payload, spaceId }, connectedWallet!);
       if (res.ok) {
         const result = await res.json();
         console.log('Profile created:', result);
@@ -476,7 +1183,6 @@ export default function Me() {
 
     const payload = {
       action: 'updateProfile',
-      wallet: connectedWallet,
       displayName,
       username: username || undefined,
       profileImage: profileImage || undefined,
@@ -496,11 +1202,7 @@ export default function Me() {
     console.log('Updating profile:', payload);
 
     try {
-      const res = await fetch('/api/me', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(payload),
-      });
+      const res = await postMeAction({ ...payload, spaceId }, connectedWallet!);
       if (res.ok) {
         const result = await res.json();
         console.log('Profile updated:', result);
@@ -548,18 +1250,13 @@ export default function Me() {
     // Always send expiresIn if calculated, otherwise don't include it (will use default)
     const payload = {
       action: 'createAsk',
-      wallet: connectedWallet,
       skill,
       message,
       ...(expiresIn !== undefined && expiresIn > 0 ? { expiresIn } : {}),
     };
 
     try {
-      const res = await fetch('/api/me', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(payload),
-      });
+      const res = await postMeAction({ ...payload, spaceId }, connectedWallet!);
       if (res.ok) {
         const result = await res.json();
         console.log('Ask created:', result);
@@ -611,7 +1308,6 @@ export default function Me() {
     // Always send expiresIn if calculated, otherwise don't include it (will use default)
     const payload = {
       action: 'createOffer',
-      wallet: connectedWallet,
       skill,
       message,
       availabilityWindow,
@@ -619,11 +1315,7 @@ export default function Me() {
     };
 
     try {
-      const res = await fetch('/api/me', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(payload),
-      });
+      const res = await postMeAction({ ...payload, spaceId }, connectedWallet!);
       if (res.ok) {
         const result = await res.json();
         console.log('Offer created:', result);
@@ -1160,28 +1852,70 @@ export default function Me() {
           }}>
             🌳 Core Identity
           </h2>
-          <button
-            onClick={handleDisconnect}
-            style={{
-              padding: '8px 16px',
-              fontSize: '14px',
-              fontWeight: '500',
-              backgroundColor: darkMode ? '#4a1a1a' : '#ffe6e6',
-              color: darkMode ? '#ff6b6b' : '#cc0000',
-              border: `1px solid ${darkMode ? '#5a2f2f' : '#ff9999'}`,
-              borderRadius: '6px',
-              cursor: 'pointer',
-              transition: 'all 0.2s ease',
-            }}
-            onMouseEnter={(e) => {
-              e.currentTarget.style.backgroundColor = darkMode ? '#5a2a2a' : '#ffcccc';
-            }}
-            onMouseLeave={(e) => {
-              e.currentTarget.style.backgroundColor = darkMode ? '#4a1a1a' : '#ffe6e6';
-            }}
-          >
-            Disconnect Wallet
-          </button>
+          <div style={{ display: 'flex', gap: '8px', alignItems: 'center', flexWrap: 'wrap' }}>
+            {spaces.length > 0 && (
+              <select
+                value={spaceId || ''}
+                onChange={(e) => setSpaceId(e.target.value)}
+                title="Switch space"
+                style={{
+                  padding: '8px 12px',
+                  fontSize: '14px',
+                  backgroundColor: theme.inputBg,
+                  color: theme.text,
+                  border: `1px solid ${theme.inputBorder}`,
+                  borderRadius: '6px',
+                  cursor: 'pointer',
+                }}
+              >
+                {spaces.map(space => (
+                  <option key={space.spaceId} value={space.spaceId}>
+                    {space.name}
+                  </option>
+                ))}
+              </select>
+            )}
+            <select
+              value={signingMode}
+              onChange={(e) => handleSigningModeChange(e.target.value as SigningMode)}
+              title="Who signs and pays for your profile, asks, offers, confirmations and feedback"
+              style={{
+                padding: '8px 12px',
+                fontSize: '14px',
+                backgroundColor: theme.inputBg,
+                color: theme.text,
+                border: `1px solid ${theme.inputBorder}`,
+                borderRadius: '6px',
+                cursor: 'pointer',
+              }}
+            >
+              <option value="wallet" disabled={!canSignWithWallet}>Sign with my wallet</option>
+              <option value="relayed" disabled={!canSignWithWallet}>Sign intent, server pays</option>
+              <option value="server">Sign with server key</option>
+            </select>
+            <button
+              onClick={handleDisconnect}
+              style={{
+                padding: '8px 16px',
+                fontSize: '14px',
+                fontWeight: '500',
+                backgroundColor: darkMode ? '#4a1a1a' : '#ffe6e6',
+                color: darkMode ? '#ff6b6b' : '#cc0000',
+                border: `1px solid ${darkMode ? '#5a2f2f' : '#ff9999'}`,
+                borderRadius: '6px',
+                cursor: 'pointer',
+                transition: 'all 0.2s ease',
+              }}
+              onMouseEnter={(e) => {
+                e.currentTarget.style.backgroundColor = darkMode ? '#5a2a2a' : '#ffcccc';
+              }}
+              onMouseLeave={(e) => {
+                e.currentTarget.style.backgroundColor = darkMode ? '#4a1a1a' : '#ffe6e6';
+              }}
+            >
+              Disconnect Wallet
+            </button>
+          </div>
         </div>
         <div style={{ marginBottom: '10px', color: theme.text }}>
           <strong style={{ color: theme.textSecondary }}>Wallet:</strong>{' '}
@@ -1543,6 +2277,29 @@ export default function Me() {
                         <div style={{ fontSize: '24px', fontWeight: 'bold', color: theme.text }}>{data.profile.npsScore}</div>
                       </div>
                     )}
+                    {data.profile.reliabilityScore !== undefined && (
+                      <div style={{ 
+                        padding: '12px', 
+                        backgroundColor: theme.hoverBg, 
+                        borderRadius: '6px',
+                        border: `1px solid ${theme.borderLight}`
+                      }}>
+                        <div style={{ fontSize: '12px', color: theme.textSecondary, marginBottom: '4px' }}>Reliability</div>
+                        <div style={{ fontSize: '24px', fontWeight: 'bold', color: theme.text }}>
+                          {data.profile.reliabilityScore}<span style={{ fontSize: '14px', fontWeight: 'normal', color: theme.textSecondary }}>%</span>
+                        </div>
+                        {!!data.profile.sessionsCancelled && (
+                          <div style={{ fontSize: '11px', color: theme.textTertiary, marginTop: '2px' }}>
+                            {data.profile.sessionsCancelled} cancelled{data.profile.lateCancellations ? `, ${data.profile.lateCancellations} late` : ''}
+                          </div>
+                        )}
+                        {!!data.profile.sessionsMissed && (
+                          <div style={{ fontSize: '11px', color: theme.textTertiary, marginTop: '2px' }}>
+                            {data.profile.sessionsMissed} missed
+                          </div>
+                        )}
+                      </div>
+                    )}
                     {data.profile.reputationScore !== undefined && (
                       <div style={{ 
                         padding: '12px', 
@@ -1653,6 +2410,32 @@ export default function Me() {
                 >
                   Edit Profile
                 </button>
+                <button
+                  onClick={() => setShowProfileHistory(!showProfileHistory)}
+                  style={{
+                    padding: '8px 16px',
+                    fontSize: '14px',
+                    backgroundColor: 'transparent',
+                    color: theme.text,
+                    border: `1px solid ${theme.border}`,
+                    borderRadius: '6px',
+                    cursor: 'pointer',
+                    marginTop: '10px',
+                    marginLeft: '8px',
+                    transition: 'all 0.2s ease',
+                  }}
+                >
+                  {showProfileHistory ? 'Hide History' : 'History'}
+                </button>
+                {showProfileHistory && connectedWallet && (
+                  <ProfileHistoryPanel
+                    wallet={connectedWallet}
+                    spaceId={spaceId || ''}
+                    theme={theme}
+                    darkMode={darkMode}
+                    onReverted={() => fetchMe(connectedWallet)}
+                  />
+                )}
               </>
             ) : (
               <form onSubmit={handleUpdateProfile} style={{ maxHeight: '70vh', overflowY: 'auto', paddingRight: '10px' }}>
@@ -2472,11 +3255,17 @@ export default function Me() {
           </div>
         </div>
 
+        <CalendarFeedLink theme={theme} />
+
         {/* Upcoming Meetings */}
         {(() => {
           const now = Date.now();
           const upcomingSessions = data.sessions.filter((session) => {
             if (session.status === 'completed' || session.status === 'cancelled') return false;
+            // Started sessions stay here until they complete
+            if (session.status === 'in-progress') return true;
+            // A proposed new time still needs an answer
+            if (session.pendingReschedule) return true;
             if (!session.sessionDate) return false;
             const sessionTime = new Date(session.sessionDate).getTime();
             return sessionTime >= now;
@@ -2499,8 +3288,10 @@ export default function Me() {
               <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
                 {upcomingSessions.map((session) => {
                   const sessionTime = new Date(session.sessionDate);
-                  const isScheduled = session.status === 'scheduled';
-                  const hasJitsi = isScheduled && session.videoProvider === 'jitsi' && session.videoJoinUrl;
+                  const isScheduled = session.status === 'scheduled' || session.status === 'in-progress';
+                  const hasMeeting = isScheduled && !!session.videoProvider;
+                  const { opensAt } = joinWindow(session);
+                  const meetingOpen = Date.now() >= opensAt.getTime();
                   
                   return (
                     <div key={session.key} style={{
@@ -2539,6 +3330,11 @@ export default function Me() {
                               hour12: true 
                             })} • {session.duration || 60} min
                           </div>
+                          {session.originalSessionDate && (
+                            <div style={{ fontSize: '11px', color: theme.textTertiary, marginTop: '2px' }}>
+                              Moved from {new Date(session.originalSessionDate).toLocaleString()}
+                            </div>
+                          )}
                         </div>
                         <div style={{
                           padding: '4px 8px',
@@ -2556,10 +3352,34 @@ export default function Me() {
                           {session.status === 'pending' ? '⏳ Pending' : session.status === 'scheduled' ? '✓ Scheduled' : session.status}
                         </div>
                       </div>
-                      {hasJitsi && (
-                        <div style={{ marginTop: '12px', paddingTop: '12px', borderTop: `1px solid ${theme.borderLight}` }}>
+                      {session.pendingReschedule && (
+                        <div style={{ marginTop: '8px', fontSize: '12px', color: theme.textSecondary }}>
+                          🔁 {session.pendingReschedule.proposedBy.toLowerCase() === data.wallet.toLowerCase()
+                            ? 'You proposed'
+                            : 'New time proposed'}: {new Date(session.pendingReschedule.sessionDate).toLocaleString()}
+                          {session.pendingReschedule.duration && ` • ${session.pendingReschedule.duration} min`}
+                          {session.pendingReschedule.proposedBy.toLowerCase() !== data.wallet.toLowerCase() && (
+                            <span style={{ color: theme.textTertiary }}> • answer it on the Network page</span>
+                          )}
+                        </div>
+                      )}
+                      {session.noShows && (
+                        <div style={{ marginTop: '8px', fontSize: '12px', color: theme.errorText }}>
+                          ⚠️ {session.noShows.includes(data.wallet.toLowerCase())
+                            ? (session.noShows.length > 1 ? 'Neither of you joined the call' : "You didn't join the call")
+                            : 'The other participant didn\'t join the call'}
+                        </div>
+                      )}
+                      <div style={{ marginTop: '12px', paddingTop: '12px', borderTop: `1px solid ${theme.borderLight}`, display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '12px' }}>
+                        {hasMeeting && !meetingOpen && (
+                          <span style={{ fontSize: '13px', color: theme.textSecondary }}>
+                            🎥 Video call opens at {opensAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                          </span>
+                        )}
+                        {hasMeeting && meetingOpen && (
                           <a
-                            href={session.videoJoinUrl}
+                            // The session page embeds the call and records who joined
+                            href={joinPath(session.key)}
                             target="_blank"
                             rel="noopener noreferrer"
                             style={{
@@ -2586,8 +3406,14 @@ export default function Me() {
                           >
                             🎥 Join Video Call
                           </a>
-                        </div>
-                      )}
+                        )}
+                        <a
+                          href={`/api/calendar/session?${new URLSearchParams({ sessionKey: session.key }).toString()}`}
+                          style={{ fontSize: '13px', color: '#0066cc' }}
+                        >
+                          📆 Add to calendar
+                        </a>
+                      </div>
                     </div>
                   );
                 })}
@@ -2622,6 +3448,17 @@ export default function Me() {
                       <div style={{ fontSize: '12px', color: theme.textSecondary }}>
                         {new Date(session.sessionDate).toLocaleString()} • {session.duration || 60} min
                       </div>
+                      {session.cancellation && (
+                        <div style={{ fontSize: '12px', color: theme.textTertiary, marginTop: '2px' }}>
+                          Cancelled by {session.cancellation.cancelledBy === data.wallet.toLowerCase() ? 'you' : shortenWallet(session.cancellation.cancelledBy)}
+                          {session.cancellation.late && ' (late)'}: {session.cancellation.reason}
+                        </div>
+                      )}
+                      {!session.cancellation && session.declinedBy && (
+                        <div style={{ fontSize: '12px', color: theme.textTertiary, marginTop: '2px' }}>
+                          Declined by {session.declinedBy === data.wallet.toLowerCase() ? 'you' : shortenWallet(session.declinedBy)}
+                        </div>
+                      )}
                     </div>
                     <div style={{
                       padding: '4px 8px',
@@ -2634,7 +3471,7 @@ export default function Me() {
                       fontWeight: '500',
                       textTransform: 'capitalize'
                     }}>
-                      {session.status}
+                      {session.status === 'cancelled' && !session.cancellation ? 'declined' : session.status}
                     </div>
                   </div>
                 ))}
@@ -2886,13 +3723,24 @@ export default function Me() {
                   <div style={{ color: theme.text, marginBottom: '6px' }}>
                     <strong style={{ color: theme.textSecondary }}>Status:</strong> {ask.status}
                   </div>
+                  {connectedWallet && (
+                    <ListingStatusControls
+                      kind="ask"
+                      listing={ask}
+                      wallet={connectedWallet}
+                      sessions={data.sessions}
+                      theme={theme}
+                      onChanged={() => fetchMe(connectedWallet)}
+                      onError={setError}
+                    />
+                  )}
                   {ask.createdAt && (
                     <>
                       <div style={{ color: theme.text, marginBottom: '6px' }}>
                         <strong style={{ color: theme.textSecondary }}>Created:</strong> {ask.createdAt}
                       </div>
                       <div style={{ marginTop: '8px', padding: '6px 10px', color: theme.textTertiary, backgroundColor: theme.cardBg, borderRadius: '4px', display: 'inline-block' }}>
-                        {formatTimeRemaining(ask.createdAt, ask.ttlSeconds)}
+                        {formatTimeRemaining(ask.createdAt, ask.ttlSeconds, ask.expiresAt)}
                       </div>
                     </>
                   )}
@@ -2965,6 +3813,9 @@ export default function Me() {
           🌸 My Offers ({data.offers.length})
         </h2>
         <ArkivHelperText darkMode={darkMode} />
+        {connectedWallet && spaceId !== null && (
+          <AvailabilityPanel wallet={connectedWallet} spaceId={spaceId} theme={theme} darkMode={darkMode} />
+        )}
         <form onSubmit={handleCreateOffer} style={{ 
           marginBottom: '20px', 
           padding: '15px', 
@@ -3015,7 +3866,7 @@ export default function Me() {
           </div>
           <div style={{ marginBottom: '10px' }}>
             <label style={{ color: theme.text, display: 'block', marginBottom: '4px' }}>
-              Availability Window:
+              Availability Note (optional):
             </label>
             <input 
               type="text" 
@@ -3024,7 +3875,7 @@ export default function Me() {
               autoCorrect="on"
               autoComplete="off"
               name="availabilityWindow" 
-              required 
+              placeholder="e.g. Prefer evenings"
               style={{ 
                 width: '100%',
                 padding: '6px 10px',
@@ -3127,19 +3978,32 @@ export default function Me() {
                   <div style={{ color: theme.text, marginBottom: '6px' }}>
                     <strong style={{ color: theme.textSecondary }}>Message:</strong> {offer.message}
                   </div>
-                  <div style={{ color: theme.text, marginBottom: '6px' }}>
-                    <strong style={{ color: theme.textSecondary }}>Availability:</strong> {offer.availabilityWindow}
-                  </div>
+                  {offer.availabilityWindow && (
+                    <div style={{ color: theme.text, marginBottom: '6px' }}>
+                      <strong style={{ color: theme.textSecondary }}>Availability:</strong> {offer.availabilityWindow}
+                    </div>
+                  )}
                   <div style={{ color: theme.text, marginBottom: '6px' }}>
                     <strong style={{ color: theme.textSecondary }}>Status:</strong> {offer.status}
                   </div>
+                  {connectedWallet && (
+                    <ListingStatusControls
+                      kind="offer"
+                      listing={offer}
+                      wallet={connectedWallet}
+                      sessions={data.sessions}
+                      theme={theme}
+                      onChanged={() => fetchMe(connectedWallet)}
+                      onError={setError}
+                    />
+                  )}
                   {offer.createdAt && (
                     <>
                       <div style={{ color: theme.text, marginBottom: '6px' }}>
                         <strong style={{ color: theme.textSecondary }}>Created:</strong> {offer.createdAt}
                       </div>
                       <div style={{ marginTop: '8px', padding: '6px 10px', color: theme.textTertiary, backgroundColor: theme.cardBg, borderRadius: '4px', display: 'inline-block' }}>
-                        {formatTimeRemaining(offer.createdAt, offer.ttlSeconds)}
+                        {formatTimeRemaining(offer.createdAt, offer.ttlSeconds, offer.expiresAt)}
                       </div>
                     </>
                   )}
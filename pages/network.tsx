@@ -2,6 +2,9 @@ import React, { useEffect, useState } from 'react';
 import { useRouter } from 'next/router';
 import { iconButtonStyle, compactButtonStyle } from '../src/utils/touchTargets';
 import { useTouchFeedback, getPressedStyle } from '../src/hooks/useTouchFeedback';
+import { useSpace } from '../src/hooks/useSpace';
+import { postMeAction } from '../src/wallet';
+import { joinPath, joinWindow } from '../src/lib/meetingWindow';
 
 type Ask = {
   key: string;
@@ -43,11 +46,25 @@ type Session = {
   txHash?: string;
   mentorConfirmed?: boolean;
   learnerConfirmed?: boolean;
+  mentorCompleted?: boolean;
+  learnerCompleted?: boolean;
+  originalSessionDate?: string;
+  pendingReschedule?: {
+    key: string;
+    proposedBy: string;
+    sessionDate: string;
+    duration?: number;
+    note?: string;
+  };
+  declinedBy?: string;
+  cancellation?: {
+    cancelledBy: string;
+    reason: string;
+    cancelledAt: string;
+    late: boolean;
+  };
   // Jitsi video meeting fields
   videoProvider?: 'jitsi' | 'none' | 'custom';
-  videoRoomName?: string;
-  videoJoinUrl?: string;
-  videoJwtToken?: string;
 };
 
 type WebNode = {
@@ -65,6 +82,28 @@ type WebNode = {
   relevance: number;
 };
 
+type NetworkFilters = {
+  skill?: string;
+  seniority?: string;
+  nameSearch?: string;
+  mentorRole?: string;
+  learnerRole?: string;
+  minReputation?: string;
+  minSessions?: string;
+  minRating?: string;
+  maxRating?: string;
+  minNps?: string;
+  ttl?: string;
+};
+
+// Nodes rendered per "Load more" step
+const NODES_PER_PAGE = 50;
+
+function mergeByKey<T extends { key: string }>(existing: T[], incoming: T[]): T[] {
+  const seen = new Set(existing.map(item => item.key));
+  return [...existing, ...incoming.filter(item => !seen.has(item.key))];
+}
+
 function formatTimeRemaining(createdAt: string, ttlSeconds: number): string {
   const created = new Date(createdAt).getTime();
   const expires = created + (ttlSeconds * 1000);
@@ -194,6 +233,10 @@ export default function Network() {
   const [profiles, setProfiles] = useState<any[]>([]);
   const [sessions, setSessions] = useState<Session[]>([]);
   const [loading, setLoading] = useState(true);
+  const [networkCursor, setNetworkCursor] = useState<string | null>(null);
+  const [networkFilters, setNetworkFilters] = useState<NetworkFilters | undefined>(undefined);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [visibleNodeLimit, setVisibleNodeLimit] = useState(NODES_PER_PAGE);
   const [skillFilter, setSkillFilter] = useState('');
   const [currentFilterSkill, setCurrentFilterSkill] = useState<string>('');
   const [typeFilter, setTypeFilter] = useState<'all' | 'asks' | 'offers'>('all');
@@ -213,6 +256,12 @@ export default function Network() {
   const [showAnalytics, setShowAnalytics] = useState(true);
   const [requestMeetingModal, setRequestMeetingModal] = useState<{ open: boolean; profile: any | null }>({ open: false, profile: null });
   const [submittingMeeting, setSubmittingMeeting] = useState(false);
+  // Overlapping sessions returned when a meeting request would double-book someone
+  const [meetingConflicts, setMeetingConflicts] = useState<{ conflicts: Session[]; suggestedSlots: string[] } | null>(null);
+  // Open slots from the other person's availability; '' picks a time by hand
+  const [meetingSlots, setMeetingSlots] = useState<{ start: string; end: string }[]>([]);
+  const [meetingSlot, setMeetingSlot] = useState<string>('');
+  const [meetingDuration, setMeetingDuration] = useState<string>('60');
   // Initialize dark mode - use false for SSR, update in useEffect to avoid hydration mismatch
   const [darkMode, setDarkMode] = useState(false);
   
@@ -232,6 +281,7 @@ export default function Network() {
   const [showFilters, setShowFilters] = useState(false);
   const [showProfiles, setShowProfiles] = useState(false);
   const [showMeetings, setShowMeetings] = useState(false);
+  const [rescheduleDrafts, setRescheduleDrafts] = useState<Record<string, string>>({}); // sessionKey -> datetime-local value
   const [showAsks, setShowAsks] = useState(false);
   const [showOffers, setShowOffers] = useState(false);
   const [viewMode, setViewMode] = useState<'matches' | 'skills' | 'wallets' | 'all'>('all');
@@ -249,6 +299,7 @@ export default function Network() {
   const [pinchStartDistance, setPinchStartDistance] = useState<number | null>(null);
   const [pinchStartZoom, setPinchStartZoom] = useState(1);
   const [isMobile, setIsMobile] = useState(false);
+  const { spaces, spaceId, setSpaceId } = useSpace();
 
   useEffect(() => {
     const updateViewport = () => {
@@ -262,12 +313,15 @@ export default function Network() {
   }, []);
 
   useEffect(() => {
+    if (spaceId === null) return;
     // Get connected wallet from localStorage (same as /me page)
     const connectedWallet = localStorage.getItem('connectedWallet');
     const walletToFetch = connectedWallet || undefined;
     
-    // Build API URL with wallet query param if available
-    const apiUrl = walletToFetch ? `/api/me?wallet=${encodeURIComponent(walletToFetch)}` : '/api/me';
+    // Build API URL with wallet and space query params
+    const params = new URLSearchParams({ spaceId });
+    if (walletToFetch) params.append('wallet', walletToFetch);
+    const apiUrl = `/api/me?${params.toString()}`;
     
     fetch(apiUrl)
       .then(res => res.json())
@@ -278,30 +332,36 @@ export default function Network() {
         if (data.wallet) {
           setUserWallet(data.wallet);
         }
-        if (data.profile) {
-          setUserProfile(data.profile);
-        }
+        setUserProfile(data.profile || null);
       })
       .catch(err => console.error('Error fetching user profile:', err));
-  }, []);
+  }, [spaceId]);
+
+  useEffect(() => {
+    const wallet = requestMeetingModal.profile?.wallet;
+    const duration = Number(meetingDuration);
+    if (!requestMeetingModal.open || !wallet || !Number.isInteger(duration) || duration < 15 || duration > 240) return;
+    let stale = false;
+    fetch(`/api/availability?${new URLSearchParams({ wallet, duration: String(duration) }).toString()}`)
+      .then(res => res.json())
+      .then(data => {
+        if (stale) return;
+        const slots: { start: string; end: string }[] = data.ok ? data.slots : [];
+        setMeetingSlots(slots);
+        setMeetingSlot(prev => (slots.some(slot => slot.start === prev) ? prev : slots[0]?.start || ''));
+      })
+      .catch(err => console.error('Error fetching availability:', err));
+    return () => { stale = true; };
+  }, [requestMeetingModal.open, requestMeetingModal.profile?.wallet, meetingDuration]);
 
-  const fetchNetwork = async (filters?: {
-    skill?: string;
-    seniority?: string;
-    nameSearch?: string;
-    mentorRole?: string;
-    learnerRole?: string;
-    minReputation?: string;
-    minSessions?: string;
-    minRating?: string;
-    maxRating?: string;
-    minNps?: string;
-    ttl?: string;
-  }) => {
+  const fetchNetwork = async (filters?: NetworkFilters, options?: { append?: boolean }) => {
+    const append = Boolean(options?.append && networkCursor);
     try {
       const params = new URLSearchParams();
+      if (spaceId) params.append('spaceId', spaceId);
       if (filters?.skill) params.append('skill', filters.skill);
       if (filters?.seniority) params.append('seniority', filters.seniority);
+      if (append) params.append('cursor', networkCursor!);
       
       const url = params.toString() ? `/api/network?${params.toString()}` : '/api/network';
       const res = await fetch(url);
@@ -427,10 +487,20 @@ export default function Network() {
         }
       }
       
-      setAsks(filteredAsks);
-      setOffers(filteredOffers);
-      setProfiles(filteredProfiles);
-      setSessions(allSessions);
+      if (append) {
+        setAsks(prev => mergeByKey(prev, filteredAsks));
+        setOffers(prev => mergeByKey(prev, filteredOffers));
+        setProfiles(prev => mergeByKey(prev, filteredProfiles));
+        setSessions(prev => mergeByKey(prev, allSessions));
+      } else {
+        setAsks(filteredAsks);
+        setOffers(filteredOffers);
+        setProfiles(filteredProfiles);
+        setSessions(allSessions);
+        setVisibleNodeLimit(NODES_PER_PAGE);
+      }
+      setNetworkCursor(data.cursor || null);
+      setNetworkFilters(filters);
       setCurrentFilterSkill(filters?.skill || '');
     } catch (err) {
       console.error('Error fetching /api/network:', err);
@@ -439,9 +509,28 @@ export default function Network() {
     }
   };
 
+  // Switching space reloads the graph from scratch
   useEffect(() => {
+    if (spaceId === null) return;
     fetchNetwork();
-  }, []);
+  }, [spaceId]);
+
+  // Show the next batch of nodes, fetching the next page from the API once
+  // everything already loaded is on screen
+  const handleLoadMore = async () => {
+    if (visibleNodeLimit < displayedNodes.length) {
+      setVisibleNodeLimit(prev => prev + NODES_PER_PAGE);
+      return;
+    }
+    if (!networkCursor) return;
+    setLoadingMore(true);
+    try {
+      await fetchNetwork(networkFilters, { append: true });
+      setVisibleNodeLimit(prev => prev + NODES_PER_PAGE);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
 
   useEffect(() => {
     const interval = setInterval(() => {
@@ -476,6 +565,11 @@ export default function Network() {
       console.log('[Network] SSE message received:', event.data);
       const { type, entity } = JSON.parse(event.data);
 
+      // Only this space's graph is shown
+      if (spaceId && entity?.spaceId && entity.spaceId !== spaceId) {
+        return;
+      }
+
       if (type === 'ask') {
         setAsks((prev) => {
           if (currentFilterSkill) {
@@ -501,6 +595,29 @@ export default function Network() {
           return [entity, ...prev];
         });
       }
+
+      // Fulfilled/filled or withdrawn listings leave the graph; reopened ones come back
+      if (type === 'ask_status') {
+        setAsks((prev) => {
+          const rest = prev.filter(ask => ask.key !== entity.key);
+          if (entity.status !== 'open') return rest;
+          if (currentFilterSkill && !(entity.skill || '').toLowerCase().includes(currentFilterSkill.toLowerCase())) {
+            return rest;
+          }
+          return [entity, ...rest];
+        });
+      }
+
+      if (type === 'offer_status') {
+        setOffers((prev) => {
+          const rest = prev.filter(offer => offer.key !== entity.key);
+          if (entity.status !== 'active') return rest;
+          if (currentFilterSkill && !(entity.skill || '').toLowerCase().includes(currentFilterSkill.toLowerCase())) {
+            return rest;
+          }
+          return [entity, ...rest];
+        });
+      }
     };
 
     source.onerror = (err) => {
@@ -509,7 +626,7 @@ export default function Network() {
     };
 
     return () => source.close();
-  }, [currentFilterSkill]);
+  }, [currentFilterSkill, spaceId]);
 
   const handleApplyFilter = (e: React.FormEvent) => {
     e.preventDefault();
@@ -1230,6 +1347,29 @@ export default function Network() {
           </p>
         </div>
         <div style={{ display: 'flex', gap: '12px', alignItems: 'center' }}>
+          {spaces.length > 0 && (
+            <select
+              value={spaceId || ''}
+              onChange={(e) => setSpaceId(e.target.value)}
+              title="Switch space"
+              style={{
+                height: '44px',
+                padding: '0 12px',
+                fontSize: '14px',
+                backgroundColor: theme.inputBg,
+                color: theme.text,
+                border: `1px solid ${theme.inputBorder}`,
+                borderRadius: '6px',
+                cursor: 'pointer',
+              }}
+            >
+              {spaces.map(space => (
+                <option key={space.spaceId} value={space.spaceId}>
+                  {space.name}
+                </option>
+              ))}
+            </select>
+          )}
           <a
             href="https://github.com/understories/mentor-graph"
             target="_blank"
@@ -1845,6 +1985,27 @@ export default function Network() {
                     {mode}
                   </button>
                 ))}
+                {(visibleNodeLimit < displayedNodes.length || networkCursor) && (
+                  <button
+                    onClick={handleLoadMore}
+                    disabled={loadingMore}
+                    title={`Showing ${Math.min(visibleNodeLimit, displayedNodes.length)} of ${displayedNodes.length} loaded nodes`}
+                    style={{
+                      ...compactButtonStyle,
+                      fontSize: '13px',
+                      fontWeight: '500',
+                      borderRadius: '6px',
+                      border: `1px solid ${theme.border}`,
+                      backgroundColor: theme.hoverBg,
+                      color: theme.text,
+                      cursor: loadingMore ? 'wait' : 'pointer',
+                      opacity: loadingMore ? 0.6 : 1,
+                      transition: 'all 0.2s',
+                    }}
+                  >
+                    {loadingMore ? 'Loading...' : 'Load more'}
+                  </button>
+                )}
               </div>
             </div>
             <svg 
@@ -1995,7 +2156,7 @@ export default function Network() {
               onTouchMove={handleTouchMoveContainer}
               onTouchEnd={handleTouchEndContainer}
             >
-              {displayedNodes.slice(0, 50).map((node) => {
+              {displayedNodes.slice(0, visibleNodeLimit).map((node) => {
                 const nodePos = getNodePosition(node.id, node.x, node.y);
                 const isDragging = draggingNode === node.id;
                 const nodeOpacity = getNodeOpacity(node.id);
@@ -2797,6 +2958,10 @@ export default function Network() {
                       <button
                         onClick={(e) => {
                           e.stopPropagation();
+                          setMeetingConflicts(null);
+                          setMeetingSlots([]);
+                          setMeetingSlot('');
+                          setMeetingDuration('60');
                           setRequestMeetingModal({ open: true, profile });
                         }}
                         style={{
@@ -2944,13 +3109,13 @@ export default function Network() {
                 const duration = formData.get('duration') as string;
                 const notes = formData.get('notes') as string;
 
-                if (!date || !time || !skill) {
+                if ((!meetingSlot && (!date || !time)) || !skill) {
                   alert('Please fill in date, time, and skill');
                   return;
                 }
 
-                // Combine date and time into ISO string
-                const sessionDate = new Date(`${date}T${time}`).toISOString();
+                // An open slot is already an ISO string; otherwise combine date and time
+                const sessionDate = meetingSlot || new Date(`${date}T${time}`).toISOString();
 
                 // Determine mentor/learner: if target has mentor roles, they're mentor; if user has mentor roles, they're mentor; otherwise default to target as mentor
                 const targetHasMentorRoles = requestMeetingModal.profile.mentorRoles && requestMeetingModal.profile.mentorRoles.length > 0;
@@ -2984,13 +3149,14 @@ export default function Network() {
                 }
 
                 setSubmittingMeeting(true);
+                setMeetingConflicts(null);
                 try {
                   const res = await fetch('/api/me', {
                     method: 'POST',
                     headers: { 'Content-Type': 'application/json' },
                     body: JSON.stringify({
                       action: 'createSession',
-                      wallet: userWallet,
+                      spaceId,
                       mentorWallet,
                       learnerWallet,
                       skill,
@@ -3001,6 +3167,10 @@ export default function Network() {
                   });
 
                   const data = await res.json();
+                  if (res.status === 409 && data.conflicts) {
+                    setMeetingConflicts({ conflicts: data.conflicts, suggestedSlots: data.suggestedSlots || [] });
+                    return;
+                  }
                   if (!res.ok) {
                     throw new Error(data.error || 'Failed to create session');
                   }
@@ -3041,7 +3211,34 @@ export default function Network() {
                   />
                 </label>
 
-                <div style={{ display: 'grid', gridTemplateColumns: isMobile ? '1fr' : '1fr 1fr', gap: '12px' }}>
+                {meetingSlots.length > 0 && (
+                  <label style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+                    <span style={{ fontSize: '13px', fontWeight: '500', color: theme.textSecondary }}>Available time</span>
+                    <select
+                      name="slot"
+                      value={meetingSlot}
+                      onChange={(e) => setMeetingSlot(e.target.value)}
+                      style={{
+                        padding: '10px 12px',
+                        borderRadius: '6px',
+                        border: `1px solid ${theme.inputBorder}`,
+                        backgroundColor: theme.inputBg,
+                        color: theme.text,
+                        fontSize: '16px', // Prevents iOS zoom
+                      }}
+                    >
+                      {meetingSlots.map(slot => (
+                        <option key={slot.start} value={slot.start}>
+                          {new Date(slot.start).toLocaleString([], { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}
+                        </option>
+                      ))}
+                      <option value="">Other time…</option>
+                    </select>
+                  </label>
+                )}
+
+                {/* Hidden rather than removed while a slot is picked, so conflict suggestions can still fill them */}
+                <div style={{ display: meetingSlot ? 'none' : 'grid', gridTemplateColumns: isMobile ? '1fr' : '1fr 1fr', gap: '12px' }}>
                   <label style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
                     <span style={{ fontSize: '13px', fontWeight: '500', color: theme.textSecondary }}>Date *</span>
                     <input
@@ -3049,7 +3246,7 @@ export default function Network() {
                       inputMode="none"
                       autoComplete="off"
                       name="date"
-                      required
+                      required={!meetingSlot}
                       min={new Date().toISOString().split('T')[0]}
                       style={{
                         padding: '10px 12px',
@@ -3072,7 +3269,7 @@ export default function Network() {
                       inputMode="none"
                       autoComplete="off"
                       name="time"
-                      required
+                      required={!meetingSlot}
                       style={{
                         padding: '10px 12px',
                         borderRadius: '6px',
@@ -3096,6 +3293,7 @@ export default function Network() {
                     autoComplete="off"
                     name="duration"
                     defaultValue="60"
+                    onChange={(e) => setMeetingDuration(e.target.value)}
                     min="15"
                     max="240"
                     step="15"
@@ -3139,6 +3337,62 @@ export default function Network() {
                   />
                 </label>
 
+                {meetingConflicts && (
+                  <div style={{
+                    padding: '12px',
+                    borderRadius: '6px',
+                    backgroundColor: darkMode ? '#3a2a2a' : '#ffebee',
+                    border: '1px solid #ef5350'
+                  }}>
+                    <div style={{ fontSize: '13px', fontWeight: '600', color: '#ef5350', marginBottom: '6px' }}>
+                      ⚠️ This time overlaps {meetingConflicts.conflicts.length === 1 ? 'an existing session' : `${meetingConflicts.conflicts.length} existing sessions`}
+                    </div>
+                    {meetingConflicts.conflicts.map(conflict => (
+                      <div key={conflict.key} style={{ fontSize: '12px', color: theme.textSecondary, marginBottom: '2px' }}>
+                        {conflict.skill || 'Session'} • {new Date(conflict.sessionDate).toLocaleString()} • {conflict.duration || 60} min ({conflict.status})
+                      </div>
+                    ))}
+                    {meetingConflicts.suggestedSlots.length > 0 && (
+                      <>
+                        <div style={{ fontSize: '12px', color: theme.textSecondary, margin: '8px 0 6px 0' }}>
+                          Nearest free times:
+                        </div>
+                        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '6px' }}>
+                          {meetingConflicts.suggestedSlots.map(slot => (
+                            <button
+                              key={slot}
+                              type="button"
+                              onClick={(e) => {
+                                // Fill the date and time inputs with the slot, in local time
+                                const form = e.currentTarget.form;
+                                if (!form) return;
+                                const local = new Date(slot);
+                                const pad = (n: number) => String(n).padStart(2, '0');
+                                (form.elements.namedItem('date') as HTMLInputElement).value = `${local.getFullYear()}-${pad(local.getMonth() + 1)}-${pad(local.getDate())}`;
+                                (form.elements.namedItem('time') as HTMLInputElement).value = `${pad(local.getHours())}:${pad(local.getMinutes())}`;
+                                setMeetingSlot('');
+                                setMeetingConflicts(null);
+                              }}
+                              style={{
+                                padding: '6px 10px',
+                                fontSize: '12px',
+                                fontWeight: '500',
+                                backgroundColor: theme.cardBg,
+                                color: '#0066cc',
+                                border: '1px solid #0066cc',
+                                borderRadius: '6px',
+                                cursor: 'pointer'
+                              }}
+                            >
+                              {new Date(slot).toLocaleString([], { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}
+                            </button>
+                          ))}
+                        </div>
+                      </>
+                    )}
+                  </div>
+                )}
+
                 <div style={{ display: 'flex', gap: '12px', marginTop: '8px' }}>
                   <button
                     type="button"
@@ -3213,6 +3467,8 @@ export default function Network() {
         const now = Date.now();
         const upcomingSessions = sessions.filter((session) => {
           if (session.status === 'completed') return false;
+          // Started sessions stay here until both participants mark them complete
+          if (session.status === 'in-progress') return true;
           // Show cancelled sessions if they're recent (within last 7 days) so users can see rejections
           if (session.status === 'cancelled') {
             if (!session.sessionDate) return false;
@@ -3220,6 +3476,8 @@ export default function Network() {
             const daysSinceCancelled = (now - sessionTime) / (1000 * 60 * 60 * 24);
             return daysSinceCancelled <= 7; // Show cancelled sessions from last 7 days
           }
+          // A proposed new time still needs an answer
+          if (session.pendingReschedule) return true;
           if (!session.sessionDate) return false;
           const sessionTime = new Date(session.sessionDate).getTime();
           return sessionTime >= now;
@@ -3322,6 +3580,8 @@ export default function Network() {
                 const timeUntil = sessionTime.getTime() - Date.now();
                 const hoursUntil = Math.floor(timeUntil / (1000 * 60 * 60));
                 const minutesUntil = Math.floor((timeUntil % (1000 * 60 * 60)) / (1000 * 60));
+                const meetingOpensAt = joinWindow(session).opensAt;
+                const hasMeeting = (session.status === 'scheduled' || isInProgress) && !!session.videoProvider;
                 
                 // Find profile info for mentor and learner
                 const mentorProfile = profiles.find(p => p.wallet.toLowerCase() === session.mentorWallet.toLowerCase());
@@ -3333,6 +3593,35 @@ export default function Network() {
                 const canConfirm = isPending && (isMentor || isLearner);
                 const userConfirmed = isMentor ? session.mentorConfirmed : (isLearner ? session.learnerConfirmed : false);
                 const otherConfirmed = isMentor ? session.learnerConfirmed : (isLearner ? session.mentorConfirmed : false);
+                const userCompleted = isMentor ? session.mentorCompleted : (isLearner ? session.learnerCompleted : false);
+                const canComplete = isInProgress && (isMentor || isLearner);
+                const canReschedule = (isPending || session.status === 'scheduled') && (isMentor || isLearner);
+                const proposal = session.pendingReschedule;
+                const canRespondToProposal = proposal && canReschedule && proposal.proposedBy.toLowerCase() !== userWallet.toLowerCase();
+
+                const respondToProposal = async (response: 'accepted' | 'declined') => {
+                  if (!userWallet || !proposal) {
+                    alert('Please connect your wallet first');
+                    return;
+                  }
+                  try {
+                    const res = await postMeAction({
+                      action: 'respondToReschedule',
+                      rescheduleKey: proposal.key,
+                      response,
+                      spaceId: session.spaceId,
+                    }, userWallet);
+                    const data = await res.json();
+                    if (!res.ok) {
+                      throw new Error(data.error || 'Failed to respond to new time');
+                    }
+                    alert(response === 'accepted' ? 'New time accepted!' : 'New time declined');
+                    fetchNetwork();
+                  } catch (err: any) {
+                    console.error('Error responding to reschedule:', err);
+                    alert(`Error: ${err.message || 'Failed to respond to new time'}`);
+                  }
+                };
 
                 return (
                   <div 
@@ -3404,7 +3693,9 @@ export default function Network() {
                               color: '#ef5350',
                               marginLeft: '8px'
                             }}>
-                              This session was rejected
+                              {session.cancellation
+                                ? `Cancelled by ${session.cancellation.cancelledBy === userWallet.toLowerCase() ? 'you' : shortenWallet(session.cancellation.cancelledBy)}${session.cancellation.late ? ' (late)' : ''}`
+                                : 'This session was rejected'}
                             </span>
                           )}
                         </div>
@@ -3437,6 +3728,15 @@ export default function Network() {
                             </span>
                           )}
                         </div>
+                        {session.originalSessionDate && (
+                          <div style={{ 
+                            fontSize: '12px',
+                            color: theme.textTertiary,
+                            marginBottom: '4px'
+                          }}>
+                            Moved from {new Date(session.originalSessionDate).toLocaleString()}
+                          </div>
+                        )}
                         {timeUntil > 0 && !isInProgress && (
                           <div style={{ 
                             fontSize: '13px',
@@ -3549,6 +3849,92 @@ export default function Network() {
                       </div>
                     )}
 
+                    {session.cancellation && (
+                      <div style={{ 
+                        marginBottom: '12px',
+                        padding: '12px',
+                        backgroundColor: theme.cardBg,
+                        borderRadius: '6px',
+                        border: `1px solid ${theme.borderLight}`
+                      }}>
+                        <div style={{ 
+                          fontSize: '12px',
+                          color: theme.textSecondary,
+                          marginBottom: '4px',
+                          fontWeight: '500'
+                        }}>
+                          Cancellation reason:
+                        </div>
+                        <div style={{ 
+                          fontSize: '14px',
+                          color: theme.text,
+                          lineHeight: '1.5'
+                        }}>
+                          {session.cancellation.reason}
+                        </div>
+                      </div>
+                    )}
+
+                    {proposal && canReschedule && (
+                      <div style={{ 
+                        marginBottom: '12px',
+                        padding: '12px',
+                        backgroundColor: darkMode ? '#1a3a5a' : '#e7f3ff',
+                        borderRadius: '6px',
+                        border: `1px solid ${darkMode ? '#2a5a7a' : '#b3d9ff'}`
+                      }}>
+                        <div style={{ fontSize: '13px', color: theme.text, fontWeight: '500', marginBottom: '4px' }}>
+                          🔁 {canRespondToProposal ? 'New time proposed' : 'You proposed a new time'}: {new Date(proposal.sessionDate).toLocaleString()}
+                          {proposal.duration && ` • ${proposal.duration} min`}
+                        </div>
+                        {proposal.note && (
+                          <div style={{ fontSize: '13px', color: theme.textSecondary, marginBottom: '4px' }}>
+                            {proposal.note}
+                          </div>
+                        )}
+                        {canRespondToProposal ? (
+                          <div style={{ display: 'flex', gap: '8px', marginTop: '8px' }}>
+                            <button
+                              onClick={() => respondToProposal('accepted')}
+                              style={{
+                                flex: 1,
+                                padding: '8px 12px',
+                                fontSize: '13px',
+                                fontWeight: '500',
+                                backgroundColor: '#4caf50',
+                                color: '#ffffff',
+                                border: 'none',
+                                borderRadius: '6px',
+                                cursor: 'pointer'
+                              }}
+                            >
+                              ✓ Accept new time
+                            </button>
+                            <button
+                              onClick={() => respondToProposal('declined')}
+                              style={{
+                                flex: 1,
+                                padding: '8px 12px',
+                                fontSize: '13px',
+                                fontWeight: '500',
+                                backgroundColor: theme.hoverBg,
+                                color: theme.text,
+                                border: `1px solid ${theme.border}`,
+                                borderRadius: '6px',
+                                cursor: 'pointer'
+                              }}
+                            >
+                              ✗ Keep current time
+                            </button>
+                          </div>
+                        ) : (
+                          <div style={{ fontSize: '12px', color: theme.textTertiary }}>
+                            Waiting for the other participant to respond
+                          </div>
+                        )}
+                      </div>
+                    )}
+
                     {canConfirm && !userConfirmed && (
                       <div style={{ marginTop: '12px', paddingTop: '12px', borderTop: `1px solid ${theme.borderLight}`, display: 'flex', gap: '8px' }}>
                         <button
@@ -3558,18 +3944,11 @@ export default function Network() {
                               return;
                             }
                             try {
-                              const res = await fetch('/api/me', {
-                                method: 'POST',
-                                headers: { 'Content-Type': 'application/json' },
-                                body: JSON.stringify({
-                                  action: 'confirmSession',
-                                  wallet: userWallet,
-                                  sessionKey: session.key,
-                                  mentorWallet: session.mentorWallet,
-                                  learnerWallet: session.learnerWallet,
-                                  spaceId: session.spaceId,
-                                }),
-                              });
+                              const res = await postMeAction({
+                                action: 'confirmSession',
+                                sessionKey: session.key,
+                                spaceId: session.spaceId,
+                              }, userWallet);
                               const data = await res.json();
                               if (!res.ok) {
                                 throw new Error(data.error || 'Failed to confirm session');
@@ -3612,18 +3991,11 @@ export default function Network() {
                               return;
                             }
                             try {
-                              const res = await fetch('/api/me', {
-                                method: 'POST',
-                                headers: { 'Content-Type': 'application/json' },
-                                body: JSON.stringify({
-                                  action: 'rejectSession',
-                                  wallet: userWallet,
-                                  sessionKey: session.key,
-                                  mentorWallet: session.mentorWallet,
-                                  learnerWallet: session.learnerWallet,
-                                  spaceId: session.spaceId,
-                                }),
-                              });
+                              const res = await postMeAction({
+                                action: 'rejectSession',
+                                sessionKey: session.key,
+                                spaceId: session.spaceId,
+                              }, userWallet);
                               const data = await res.json();
                               if (!res.ok) {
                                 throw new Error(data.error || 'Failed to reject session');
@@ -3659,11 +4031,123 @@ export default function Network() {
                       </div>
                     )}
 
-                    {/* Jitsi Join Button - Show when session is scheduled and has Jitsi link */}
-                    {session.status === 'scheduled' && session.videoProvider === 'jitsi' && session.videoJoinUrl && (
+                    {canReschedule && !canRespondToProposal && (
+                      <div style={{ marginTop: '12px', paddingTop: '12px', borderTop: `1px solid ${theme.borderLight}`, display: 'flex', gap: '8px', alignItems: 'center' }}>
+                        <input
+                          type="datetime-local"
+                          value={rescheduleDrafts[session.key] || ''}
+                          onChange={(e) => setRescheduleDrafts({ ...rescheduleDrafts, [session.key]: e.target.value })}
+                          style={{
+                            flex: 1,
+                            padding: '8px',
+                            fontSize: '13px',
+                            border: `1px solid ${theme.inputBorder}`,
+                            borderRadius: '6px',
+                            backgroundColor: theme.inputBg,
+                            color: theme.text
+                          }}
+                        />
+                        <button
+                          disabled={!rescheduleDrafts[session.key]}
+                          onClick={async () => {
+                            if (!userWallet) {
+                              alert('Please connect your wallet first');
+                              return;
+                            }
+                            try {
+                              const res = await postMeAction({
+                                action: 'proposeReschedule',
+                                sessionKey: session.key,
+                                sessionDate: new Date(rescheduleDrafts[session.key]).toISOString(),
+                                spaceId: session.spaceId,
+                              }, userWallet);
+                              const data = await res.json();
+                              if (!res.ok) {
+                                throw new Error(data.error || 'Failed to propose new time');
+                              }
+                              alert('New time proposed!');
+                              setRescheduleDrafts({ ...rescheduleDrafts, [session.key]: '' });
+                              fetchNetwork();
+                            } catch (err: any) {
+                              console.error('Error proposing new time:', err);
+                              alert(`Error: ${err.message || 'Failed to propose new time'}`);
+                            }
+                          }}
+                          style={{
+                            padding: '8px 12px',
+                            fontSize: '13px',
+                            fontWeight: '500',
+                            backgroundColor: theme.hoverBg,
+                            color: theme.text,
+                            border: `1px solid ${theme.border}`,
+                            borderRadius: '6px',
+                            cursor: rescheduleDrafts[session.key] ? 'pointer' : 'not-allowed'
+                          }}
+                        >
+                          🔁 Propose new time
+                        </button>
+                      </div>
+                    )}
+
+                    {session.status === 'scheduled' && (isMentor || isLearner) && (
+                      <div style={{ marginTop: '12px' }}>
+                        <button
+                          onClick={async () => {
+                            if (!userWallet) {
+                              alert('Please connect your wallet first');
+                              return;
+                            }
+                            const reason = prompt('Why are you cancelling this session? The other participant will see your reason.');
+                            if (!reason || !reason.trim()) {
+                              return;
+                            }
+                            try {
+                              const res = await postMeAction({
+                                action: 'cancelSession',
+                                sessionKey: session.key,
+                                reason: reason.trim(),
+                                spaceId: session.spaceId,
+                              }, userWallet);
+                              const data = await res.json();
+                              if (!res.ok) {
+                                throw new Error(data.error || 'Failed to cancel session');
+                              }
+                              alert(data.late
+                                ? 'Session cancelled. This was a late cancellation and counts against your reliability.'
+                                : 'Session cancelled');
+                              fetchNetwork();
+                            } catch (err: any) {
+                              console.error('Error cancelling session:', err);
+                              alert(`Error: ${err.message || 'Failed to cancel session'}`);
+                            }
+                          }}
+                          style={{
+                            padding: '8px 12px',
+                            fontSize: '13px',
+                            fontWeight: '500',
+                            backgroundColor: 'transparent',
+                            color: '#ef5350',
+                            border: '1px solid #ef5350',
+                            borderRadius: '6px',
+                            cursor: 'pointer'
+                          }}
+                        >
+                          ✗ Cancel session
+                        </button>
+                      </div>
+                    )}
+
+                    {/* Join Button - participants only, from shortly before the session starts */}
+                    {hasMeeting && (isMentor || isLearner) && Date.now() < meetingOpensAt.getTime() && (
+                      <div style={{ marginTop: '12px', paddingTop: '12px', borderTop: `1px solid ${theme.borderLight}`, fontSize: '13px', color: theme.textSecondary }}>
+                        🎥 Video call opens at {meetingOpensAt.toLocaleString()}
+                      </div>
+                    )}
+                    {hasMeeting && (isMentor || isLearner) && Date.now() >= meetingOpensAt.getTime() && (
                       <div style={{ marginTop: '12px', paddingTop: '12px', borderTop: `1px solid ${theme.borderLight}` }}>
                         <a
-                          href={session.videoJoinUrl}
+                          // The session page embeds the call and records who joined
+                          href={joinPath(session.key)}
                           target="_blank"
                           rel="noopener noreferrer"
                           style={{
@@ -3696,6 +4180,71 @@ export default function Network() {
                       </div>
                     )}
 
+                    {(isMentor || isLearner) && session.status !== 'cancelled' && (
+                      <div style={{ marginTop: '8px', fontSize: '13px' }}>
+                        <a
+                          href={`/api/calendar/session?${new URLSearchParams({ sessionKey: session.key }).toString()}`}
+                          style={{ color: '#0066cc' }}
+                        >
+                          📆 Add to calendar
+                        </a>
+                      </div>
+                    )}
+
+                    {canComplete && (
+                      <div style={{ marginTop: '12px', paddingTop: '12px', borderTop: `1px solid ${theme.borderLight}` }}>
+                        {userCompleted ? (
+                          <div style={{ fontSize: '13px', color: theme.textSecondary }}>
+                            ✓ You marked this session complete. Waiting for the other participant.
+                          </div>
+                        ) : (
+                          <button
+                            onClick={async () => {
+                              if (!userWallet) {
+                                alert('Please connect your wallet first');
+                                return;
+                              }
+                              try {
+                                const res = await postMeAction({
+                                  action: 'completeSession',
+                                  sessionKey: session.key,
+                                  spaceId: session.spaceId,
+                                }, userWallet);
+                                const data = await res.json();
+                                if (!res.ok) {
+                                  throw new Error(data.error || 'Failed to complete session');
+                                }
+                                alert('Session marked complete!');
+                                fetchNetwork();
+                              } catch (err: any) {
+                                console.error('Error completing session:', err);
+                                alert(`Error: ${err.message || 'Failed to complete session'}`);
+                              }
+                            }}
+                            style={{
+                              padding: '10px 16px',
+                              fontSize: '14px',
+                              fontWeight: '500',
+                              backgroundColor: '#0066cc',
+                              color: '#ffffff',
+                              border: 'none',
+                              borderRadius: '6px',
+                              cursor: 'pointer',
+                              transition: 'all 0.2s ease'
+                            }}
+                            onMouseEnter={(e) => {
+                              e.currentTarget.style.backgroundColor = '#0052a3';
+                            }}
+                            onMouseLeave={(e) => {
+                              e.currentTarget.style.backgroundColor = '#0066cc';
+                            }}
+                          >
+                            ✓ Mark complete
+                          </button>
+                        )}
+                      </div>
+                    )}
+
                     {session.txHash && (
                       <div style={{ marginTop: '12px', paddingTop: '12px', borderTop: `1px solid ${theme.borderLight}` }}>
                         <a
@@ -5,7 +5,7 @@ export default function Profiles() {
   const [displayName, setDisplayName] = useState('');
   const [skills, setSkills] = useState('');
   const [timezone, setTimezone] = useState('');
-  const [spaceId, setSpaceId] = useState('local-dev');
+  const [spaceId, setSpaceId] = useState('');
   const [lastTxHash, setLastTxHash] = useState<string | null>(null);
   const [skillFilter, setSkillFilter] = useState('');
 
@@ -38,7 +38,7 @@ export default function Profiles() {
         setDisplayName('');
         setSkills('');
         setTimezone('');
-        setSpaceId('local-dev');
+        setSpaceId('');
         fetchProfiles(skillFilter || undefined);
       }
     } catch (err) {
@@ -89,6 +89,7 @@ export default function Profiles() {
               type="text"
               value={spaceId}
               onChange={(e) => setSpaceId(e.target.value)}
+              placeholder="default space"
             />
           </label>
         </div>
@@ -0,0 +1,403 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/router';
+import { getSessionAddress } from '../../src/wallet';
+import { joinWindow } from '../../src/lib/meetingWindow';
+
+declare global {
+  interface Window {
+    JitsiMeetExternalAPI?: any; // Loaded from the Jitsi server's external_api.js
+  }
+}
+
+type SessionPresence = {
+  wallet: string;
+  firstJoinedAt: string;
+  lastLeftAt?: string;
+  inMeeting: boolean;
+};
+
+type Session = {
+  key: string;
+  mentorWallet: string;
+  learnerWallet: string;
+  skill: string;
+  sessionDate: string;
+  status: 'pending' | 'scheduled' | 'in-progress' | 'completed' | 'cancelled';
+  duration?: number;
+  notes?: string;
+  videoProvider?: 'jitsi' | 'none' | 'custom';
+  presence?: SessionPresence[];
+  noShows?: string[];
+  cancellation?: { cancelledBy: string; reason: string };
+};
+
+type SessionData = {
+  wallet: string;
+  session: Session;
+  mentorName?: string;
+  learnerName?: string;
+};
+
+type JoinLink = {
+  url: string;
+  embed?: { domain: string; roomName: string; jwt?: string };
+};
+
+function shortWallet(wallet: string): string {
+  return `${wallet.slice(0, 6)}...${wallet.slice(-4)}`;
+}
+
+// external_api.js is served by the Jitsi server itself, so it is loaded on demand
+function loadJitsiApi(domain: string): Promise<void> {
+  if (window.JitsiMeetExternalAPI) return Promise.resolve();
+  return new Promise((resolve, reject) => {
+    const script = document.createElement('script');
+    script.src = `https://${domain}/external_api.js`;
+    script.async = true;
+    script.onload = () => resolve();
+    script.onerror = () => reject(new Error(`Could not load the meeting from ${domain}`));
+    document.body.appendChild(script);
+  });
+}
+
+/**
+ * A session's meeting room: the call embedded with the Jitsi IFrame API,
+ * next to the session's details and notes. Joining and leaving the call is
+ * reported to /api/video/presence, which drives the session's status.
+ */
+export default function SessionRoom() {
+  const router = useRouter();
+  const sessionKey = typeof router.query.key === 'string' ? router.query.key : null;
+  const [data, setData] = useState<SessionData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [joining, setJoining] = useState(false);
+  const [inCall, setInCall] = useState(false);
+  const [externalUrl, setExternalUrl] = useState<string | null>(null);
+  const [, setNow] = useState(Date.now());
+  // Initialize dark mode - use false for SSR, update in useEffect to avoid hydration mismatch
+  const [darkMode, setDarkMode] = useState(false);
+  const meetingRef = useRef<HTMLDivElement | null>(null);
+  const apiRef = useRef<any>(null);
+  const joinedRef = useRef(false);
+
+  useEffect(() => {
+    if (localStorage.getItem('darkMode') === 'true') setDarkMode(true);
+  }, []);
+
+  // Re-render every 30s so the Join button appears when the meeting opens
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 30 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const fetchSession = async () => {
+    if (!sessionKey) return;
+    try {
+      const res = await fetch(`/api/session?${new URLSearchParams({ sessionKey }).toString()}`);
+      const body = await res.json();
+      if (!res.ok || !body.ok) {
+        setError(body.error || 'Failed to load session');
+        return;
+      }
+      setData(body);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching session:', err);
+      setError('Network error loading session');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Only a signed-in participant can see the session
+  useEffect(() => {
+    if (!sessionKey) return;
+    getSessionAddress()
+      .then(address => {
+        if (!address) {
+          router.push('/');
+          return;
+        }
+        fetchSession();
+      })
+      .catch(err => {
+        console.error('Error checking session:', err);
+        fetchSession();
+      });
+  }, [sessionKey]);
+
+  const postPresence = async (event: 'join' | 'leave') => {
+    if (!sessionKey) return;
+    try {
+      const res = await fetch('/api/video/presence', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sessionKey, event }),
+      });
+      const body = await res.json();
+      if (!body.ok) console.warn('Presence not recorded:', body.error);
+      await fetchSession();
+    } catch (err) {
+      console.error('Error recording presence:', err);
+    }
+  };
+
+  // Closing the tab mid-call still counts as leaving
+  useEffect(() => {
+    if (!sessionKey) return;
+    const leaveOnUnload = () => {
+      if (!joinedRef.current) return;
+      joinedRef.current = false;
+      navigator.sendBeacon(
+        '/api/video/presence',
+        new Blob([JSON.stringify({ sessionKey, event: 'leave' })], { type: 'application/json' })
+      );
+    };
+    window.addEventListener('pagehide', leaveOnUnload);
+    return () => {
+      window.removeEventListener('pagehide', leaveOnUnload);
+      leaveOnUnload();
+      apiRef.current?.dispose();
+      apiRef.current = null;
+    };
+  }, [sessionKey]);
+
+  const hangUp = () => {
+    apiRef.current?.dispose();
+    apiRef.current = null;
+    setInCall(false);
+    if (joinedRef.current) {
+      joinedRef.current = false;
+      postPresence('leave');
+    }
+  };
+
+  const handleJoin = async () => {
+    if (!sessionKey || !data) return;
+    setJoining(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/video/join?${new URLSearchParams({ sessionKey }).toString()}`);
+      const link: JoinLink & { ok: boolean; error?: string } = await res.json();
+      if (!res.ok || !link.ok) {
+        setError(link.error || 'Could not join the meeting');
+        return;
+      }
+
+      // Other providers can't be embedded, so they open in a new tab
+      if (!link.embed) {
+        setExternalUrl(link.url);
+        window.open(link.url, '_blank', 'noopener,noreferrer');
+        joinedRef.current = true;
+        await postPresence('join');
+        return;
+      }
+
+      await loadJitsiApi(link.embed.domain);
+      const myName = data.wallet === data.session.mentorWallet.toLowerCase() ? data.mentorName : data.learnerName;
+      const api = new window.JitsiMeetExternalAPI(link.embed.domain, {
+        roomName: link.embed.roomName,
+        jwt: link.embed.jwt,
+        parentNode: meetingRef.current,
+        width: '100%',
+        height: 560,
+        userInfo: { displayName: myName || shortWallet(data.wallet) },
+        configOverwrite: { prejoinPageEnabled: false },
+      });
+      apiRef.current = api;
+      setInCall(true);
+      api.addListener('videoConferenceJoined', () => {
+        joinedRef.current = true;
+        postPresence('join');
+      });
+      api.addListener('videoConferenceLeft', hangUp);
+      api.addListener('readyToClose', hangUp);
+    } catch (err: any) {
+      console.error('Error joining meeting:', err);
+      setError(err.message || 'Could not join the meeting');
+    } finally {
+      setJoining(false);
+    }
+  };
+
+  const theme = {
+    bg: darkMode ? '#0a0a0a' : '#f5f9f5',
+    cardBg: darkMode ? 'rgba(26, 26, 26, 0.85)' : 'rgba(255, 255, 255, 0.9)',
+    text: darkMode ? '#e0e0e0' : '#212529',
+    textSecondary: darkMode ? '#b0b0b0' : '#6c757d',
+    textTertiary: darkMode ? '#888888' : '#868e96',
+    border: darkMode ? 'rgba(76, 175, 80, 0.3)' : 'rgba(76, 175, 80, 0.15)',
+    borderLight: darkMode ? 'rgba(76, 175, 80, 0.15)' : 'rgba(76, 175, 80, 0.08)',
+    hoverBg: darkMode ? 'rgba(76, 175, 80, 0.1)' : 'rgba(76, 175, 80, 0.05)',
+    shadow: darkMode
+      ? '0 4px 16px rgba(0, 0, 0, 0.4), 0 0 20px rgba(76, 175, 80, 0.1)'
+      : '0 4px 16px rgba(0, 0, 0, 0.08), 0 0 10px rgba(76, 175, 80, 0.05)',
+    errorBg: darkMode ? '#3a1f1f' : '#ffebee',
+    errorBorder: darkMode ? '#5a2f2f' : '#f44336',
+    errorText: darkMode ? '#ff6b6b' : '#c62828',
+  };
+
+  const cardStyle: React.CSSProperties = {
+    padding: '20px',
+    backgroundColor: theme.cardBg,
+    border: `1px solid ${theme.border}`,
+    borderRadius: '12px',
+    boxShadow: theme.shadow,
+    marginBottom: '20px',
+  };
+
+  if (loading) {
+    return (
+      <main style={{ minHeight: '100vh', backgroundColor: theme.bg, padding: '40px 20px' }}>
+        <div style={{ textAlign: 'center', color: theme.textSecondary, fontSize: '16px' }}>Loading session...</div>
+      </main>
+    );
+  }
+
+  if (!data) {
+    return (
+      <main style={{ minHeight: '100vh', backgroundColor: theme.bg, padding: '40px 20px' }}>
+        <div style={{ maxWidth: '720px', margin: '0 auto', ...cardStyle, color: theme.errorText }}>
+          {error || 'Session not found'}
+        </div>
+      </main>
+    );
+  }
+
+  const { session } = data;
+  const nameOf = (wallet: string) => {
+    const normalized = wallet.toLowerCase();
+    if (normalized === session.mentorWallet.toLowerCase() && data.mentorName) return data.mentorName;
+    if (normalized === session.learnerWallet.toLowerCase() && data.learnerName) return data.learnerName;
+    return shortWallet(wallet);
+  };
+  const { opensAt, closesAt } = joinWindow(session);
+  const now = Date.now();
+  const meetingActive = Boolean(session.videoProvider) && (session.status === 'scheduled' || session.status === 'in-progress');
+  const meetingOpen = meetingActive && now >= opensAt.getTime() && now <= closesAt.getTime();
+
+  return (
+    <main style={{ minHeight: '100vh', backgroundColor: theme.bg, padding: '24px 20px', color: theme.text }}>
+      <div style={{ maxWidth: '960px', margin: '0 auto' }}>
+        <a href="/me" style={{ color: '#0066cc', fontSize: '14px', textDecoration: 'none' }}>← Back to dashboard</a>
+        <h1 style={{ margin: '12px 0 20px', fontSize: '24px' }}>🎥 {session.skill || 'Mentorship session'}</h1>
+
+        {error && (
+          <div style={{ ...cardStyle, backgroundColor: theme.errorBg, border: `1px solid ${theme.errorBorder}`, color: theme.errorText }}>
+            {error}
+          </div>
+        )}
+
+        <div style={cardStyle}>
+          {!session.videoProvider && (
+            <p style={{ margin: 0, color: theme.textSecondary }}>This session has no video meeting.</p>
+          )}
+          {session.videoProvider && !meetingActive && (
+            <p style={{ margin: 0, color: theme.textSecondary }}>
+              The meeting is closed: this session is {session.status}.
+            </p>
+          )}
+          {meetingActive && now < opensAt.getTime() && (
+            <p style={{ margin: 0, color: theme.textSecondary }}>
+              The meeting opens at {opensAt.toLocaleString()}, {Math.round((opensAt.getTime() - now) / 60000)} minutes from now.
+            </p>
+          )}
+          {meetingActive && now > closesAt.getTime() && (
+            <p style={{ margin: 0, color: theme.textSecondary }}>The meeting for this session has closed.</p>
+          )}
+          {meetingOpen && !inCall && (
+            <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '12px' }}>
+              <button
+                onClick={handleJoin}
+                disabled={joining}
+                style={{
+                  padding: '12px 20px',
+                  fontSize: '14px',
+                  fontWeight: '600',
+                  backgroundColor: '#4caf50',
+                  color: '#ffffff',
+                  border: 'none',
+                  borderRadius: '8px',
+                  cursor: joining ? 'wait' : 'pointer',
+                  boxShadow: '0 2px 4px rgba(76, 175, 80, 0.3)',
+                }}
+              >
+                {joining ? 'Joining...' : '🎥 Join Video Call'}
+              </button>
+              {externalUrl && (
+                <a href={externalUrl} target="_blank" rel="noopener noreferrer" style={{ color: '#0066cc', fontSize: '14px' }}>
+                  Meeting didn't open? Open it here
+                </a>
+              )}
+            </div>
+          )}
+          {inCall && (
+            <div style={{ display: 'flex', justifyContent: 'flex-end', marginBottom: '12px' }}>
+              <button
+                onClick={hangUp}
+                style={{
+                  padding: '8px 16px',
+                  fontSize: '13px',
+                  backgroundColor: theme.errorBg,
+                  color: theme.errorText,
+                  border: `1px solid ${theme.errorBorder}`,
+                  borderRadius: '6px',
+                  cursor: 'pointer',
+                }}
+              >
+                Leave call
+              </button>
+            </div>
+          )}
+          <div ref={meetingRef} style={{ display: inCall ? 'block' : 'none', borderRadius: '8px', overflow: 'hidden' }} />
+        </div>
+
+        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(280px, 1fr))', gap: '20px' }}>
+          <div style={cardStyle}>
+            <h3 style={{ marginTop: 0, fontSize: '16px' }}>📅 Session</h3>
+            <div style={{ fontSize: '14px', lineHeight: 1.8 }}>
+              <div><strong>When:</strong> {new Date(session.sessionDate).toLocaleString()} ({session.duration || 60} min)</div>
+              <div><strong>Mentor:</strong> {nameOf(session.mentorWallet)}</div>
+              <div><strong>Learner:</strong> {nameOf(session.learnerWallet)}</div>
+              <div><strong>Status:</strong> {session.status}</div>
+              {session.cancellation && (
+                <div><strong>Cancelled by {nameOf(session.cancellation.cancelledBy)}:</strong> {session.cancellation.reason}</div>
+              )}
+            </div>
+            {session.notes && (
+              <div style={{ marginTop: '12px', padding: '12px', backgroundColor: theme.hoverBg, borderRadius: '8px', fontSize: '14px', whiteSpace: 'pre-wrap' }}>
+                {session.notes}
+              </div>
+            )}
+          </div>
+
+          <div style={cardStyle}>
+            <h3 style={{ marginTop: 0, fontSize: '16px' }}>👥 Attendance</h3>
+            {[session.mentorWallet, session.learnerWallet].map(wallet => {
+              const presence = session.presence?.find(p => p.wallet === wallet.toLowerCase());
+              const noShow = session.noShows?.includes(wallet.toLowerCase());
+              return (
+                <div key={wallet} style={{ fontSize: '14px', padding: '8px 0', borderBottom: `1px solid ${theme.borderLight}` }}>
+                  <strong>{nameOf(wallet)}</strong>
+                  <span style={{ marginLeft: '8px', color: noShow ? theme.errorText : theme.textSecondary }}>
+                    {noShow
+                      ? 'did not show up'
+                      : !presence
+                        ? 'not joined yet'
+                        : presence.inMeeting
+                          ? `in the call since ${new Date(presence.firstJoinedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`
+                          : `left at ${new Date(presence.lastLeftAt || presence.firstJoinedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`}
+                  </span>
+                </div>
+              );
+            })}
+            <p style={{ fontSize: '12px', color: theme.textTertiary, marginBottom: 0 }}>
+              Once both of you have joined, the session completes by itself when its time is up.
+            </p>
+          </div>
+        </div>
+      </div>
+    </main>
+  );
+}
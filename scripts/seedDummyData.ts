@@ -5,38 +5,18 @@ import { createOffer } from '../src/arkiv/offers';
 import { createSession } from '../src/arkiv/sessions';
 import { createFeedback } from '../src/arkiv/feedback';
 import { createTrustEdge } from '../src/arkiv/trustEdges';
+import { getWriteQueueStats } from '../src/arkiv/client';
 import { CURRENT_WALLET, ARKIV_PRIVATE_KEY } from '../src/config';
 
 // Generate dummy wallet addresses (for testing)
 const generateWallet = (index: number) => `0x${'0'.repeat(40 - index.toString().length)}${index}`;
 
-// Delay function to avoid rate limiting
-// Arkiv rate limit: 50 requests per second (RPS)
-// Using 100ms delay = 10 requests/second (well under limit)
-const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-
-// Retry function with exponential backoff for rate limit errors
-async function retryWithBackoff<T>(
-  fn: () => Promise<T>,
-  maxRetries: number = 5,
-  initialDelay: number = 1000
-): Promise<T> {
-  for (let i = 0; i < maxRetries; i++) {
-    try {
-      return await fn();
-    } catch (error: any) {
-      const isRateLimit = error?.cause?.status === 429 || error?.message?.includes('rate limit');
-      
-      if (isRateLimit && i < maxRetries - 1) {
-        const delayMs = initialDelay * Math.pow(2, i); // Exponential backoff: 1s, 2s, 4s, 8s, 16s
-        console.log(`⏳ Rate limit hit, waiting ${delayMs}ms before retry ${i + 1}/${maxRetries}...`);
-        await delay(delayMs);
-        continue;
-      }
-      throw error;
-    }
-  }
-  throw new Error('Max retries exceeded');
+// Writes go through the shared write queue in src/arkiv/client.ts, which paces
+// them under the Arkiv rate limit (50 RPS), retries 429s with backoff and
+// coalesces the concurrent creates below into batched transactions.
+function logWriteQueue() {
+  const { sent, coalesced, rateLimitRetries, failed } = getWriteQueueStats();
+  console.log(`   (write queue: ${sent} transactions, ${coalesced} coalesced writes, ${rateLimitRetries} rate-limit retries, ${failed} failed)`);
 }
 
 async function seedDummyData() {
@@ -54,8 +34,7 @@ async function seedDummyData() {
   try {
     // 1. Create a comprehensive user profile
     console.log('\n📝 Creating user profile...');
-    // No delay needed before first operation
-    const profileResult = await retryWithBackoff(() => createUserProfile({
+    const profileResult = await createUserProfile({
       wallet,
       displayName: 'Alex Mentor',
       username: 'alex_mentor',
@@ -77,7 +56,7 @@ async function seedDummyData() {
       mentorRoles: ['technical mentor', 'code review', 'architecture'],
       learnerRoles: ['design patterns', 'scaling'],
       privateKey,
-    }));
+    });
     console.log(`✅ Profile created: ${profileResult.key}`);
 
     // 2. Create multiple asks
@@ -89,17 +68,14 @@ async function seedDummyData() {
       { skill: 'spanish', message: 'Looking for Spanish conversation practice', expiresIn: 10800 },
     ];
 
-    for (const ask of asks) {
-      await delay(100); // 100ms delay = 10 req/s (well under 50 RPS limit)
-      const result = await retryWithBackoff(() => createAsk({
-        wallet,
-        skill: ask.skill,
-        message: ask.message,
-        privateKey,
-        expiresIn: ask.expiresIn,
-      }));
-      console.log(`✅ Ask created: ${result.key} (${ask.skill})`);
-    }
+    const askResults = await Promise.all(asks.map(ask => createAsk({
+      wallet,
+      skill: ask.skill,
+      message: ask.message,
+      privateKey,
+      expiresIn: ask.expiresIn,
+    })));
+    askResults.forEach((result, i) => console.log(`✅ Ask created: ${result.key} (${asks[i].skill})`));
 
     // 3. Create multiple offers
     console.log('\n💼 Creating offers...');
@@ -110,18 +86,15 @@ async function seedDummyData() {
       { skill: 'chinese', message: 'Native Chinese speaker available for language practice', availabilityWindow: 'Evenings 7-9pm EST', expiresIn: 10800 },
     ];
 
-    for (const offer of offers) {
-      await delay(100); // 100ms delay = 10 req/s (well under 50 RPS limit)
-      const result = await retryWithBackoff(() => createOffer({
-        wallet,
-        skill: offer.skill,
-        message: offer.message,
-        availabilityWindow: offer.availabilityWindow,
-        privateKey,
-        expiresIn: offer.expiresIn,
-      }));
-      console.log(`✅ Offer created: ${result.key} (${offer.skill})`);
-    }
+    const offerResults = await Promise.all(offers.map(offer => createOffer({
+      wallet,
+      skill: offer.skill,
+      message: offer.message,
+      availabilityWindow: offer.availabilityWindow,
+      privateKey,
+      expiresIn: offer.expiresIn,
+    })));
+    offerResults.forEach((result, i) => console.log(`✅ Offer created: ${result.key} (${offers[i].skill})`));
 
     // 4. Create sessions (with other dummy wallets)
     console.log('\n🤝 Creating sessions...');
@@ -157,13 +130,9 @@ async function seedDummyData() {
       },
     ];
 
-    const sessionKeys: string[] = [];
-    for (const session of sessions) {
-      await delay(100); // 100ms delay = 10 req/s (well under 50 RPS limit)
-      const result = await retryWithBackoff(() => createSession(session));
-      sessionKeys.push(result.key);
-      console.log(`✅ Session created: ${result.key}`);
-    }
+    const sessionResults = await Promise.all(sessions.map(session => createSession(session)));
+    const sessionKeys = sessionResults.map(result => result.key);
+    sessionKeys.forEach(key => console.log(`✅ Session created: ${key}`));
 
     // 5. Create feedback
     console.log('\n⭐ Creating feedback...');
@@ -206,11 +175,8 @@ async function seedDummyData() {
       },
     ];
 
-    for (const feedback of feedbacks) {
-      await delay(100); // 100ms delay = 10 req/s (well under 50 RPS limit)
-      const result = await retryWithBackoff(() => createFeedback(feedback));
-      console.log(`✅ Feedback created: ${result.key}`);
-    }
+    const feedbackResults = await Promise.all(feedbacks.map(feedback => createFeedback(feedback)));
+    feedbackResults.forEach(result => console.log(`✅ Feedback created: ${result.key}`));
 
     // 6. Create trust edges
     console.log('\n🔗 Creating trust edges...');
@@ -241,11 +207,8 @@ async function seedDummyData() {
       },
     ];
 
-    for (const edge of trustEdges) {
-      await delay(100); // 100ms delay = 10 req/s (well under 50 RPS limit)
-      const result = await retryWithBackoff(() => createTrustEdge(edge));
-      console.log(`✅ Trust edge created: ${result.key}`);
-    }
+    const trustEdgeResults = await Promise.all(trustEdges.map(edge => createTrustEdge(edge)));
+    trustEdgeResults.forEach(result => console.log(`✅ Trust edge created: ${result.key}`));
 
     console.log('\n✨ Dummy data seeding complete!');
     console.log('\n📊 Summary:');
@@ -255,6 +218,7 @@ async function seedDummyData() {
     console.log(`   - ${sessions.length} Sessions`);
     console.log(`   - ${feedbacks.length} Feedback entries`);
     console.log(`   - ${trustEdges.length} Trust edges`);
+    logWriteQueue();
 
   } catch (error: any) {
     console.error('❌ Error seeding dummy data:', error);
@@ -1,10 +1,11 @@
 import 'dotenv/config';
 import { createAsk } from '../src/arkiv/asks';
 import { createOffer } from '../src/arkiv/offers';
+import { getWriteQueueStats } from '../src/arkiv/client';
 import { CURRENT_WALLET, ARKIV_PRIVATE_KEY } from '../src/config';
 
-// Simple delay
-const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+// No manual delays: the shared write queue in src/arkiv/client.ts paces writes
+// under the rate limit and retries 429s
 
 async function seedSimple() {
   console.log('🌱 Seeding simple test data (asks & offers only)...');
@@ -28,7 +29,6 @@ async function seedSimple() {
     ];
 
     for (const ask of asks) {
-      await delay(200); // 200ms delay = 5 req/s (well under 50 RPS)
       try {
         const result = await createAsk({
           wallet,
@@ -50,7 +50,6 @@ async function seedSimple() {
     ];
 
     for (const offer of offers) {
-      await delay(200); // 200ms delay
       try {
         const result = await createOffer({
           wallet,
@@ -65,7 +64,8 @@ async function seedSimple() {
       }
     }
 
-    console.log('\n✨ Done! Check /network to see the analytics.');
+    const { sent, rateLimitRetries } = getWriteQueueStats();
+    console.log(`\n✨ Done! ${sent} transactions, ${rateLimitRetries} rate-limit retries. Check /network to see the analytics.`);
   } catch (error: any) {
     console.error('❌ Error:', error.message);
     process.exit(1);
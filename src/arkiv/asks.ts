@@ -1,7 +1,17 @@
 import { eq } from "@arkiv-network/sdk/query"
-import { getPublicClient, getWalletClientFromPrivateKey } from "./client"
-
-export const ASK_TTL_SECONDS = 3600;
+import type { Predicate } from "@arkiv-network/sdk/query"
+import { getPublicClient, resolveWalletClient, ArkivWalletClient } from "./client"
+import { decodeEntities, encodeEntity, DecodedEntity } from "./codec"
+import { getBlockTiming, getExpiresAt, BlockTiming } from "./expiry"
+import { extendListing, fetchListingStatuses, isListingOpen, recordListingStatus, ListingStatus } from "./listingStatus"
+import { collectPages, fetchPage, Page, PageParams } from "./pagination"
+import { DEFAULT_ASK_TTL_SECONDS, resolveSpace } from "./spaces"
+import { fetchTxHashes } from "./txHashes"
+import { verifyEntities } from "./verification"
+import { SPACE_ID } from "../config"
+
+// Default space TTL; other spaces set their own (see spaces.ts)
+export const ASK_TTL_SECONDS = DEFAULT_ASK_TTL_SECONDS;
 
 export type Ask = {
   key: string;
@@ -11,8 +21,39 @@ export type Ask = {
   createdAt: string;
   status: string;
   message: string;
-  ttlSeconds: number;
+  ttlSeconds: number; // Total lifetime, from createdAt to expiresAt
+  expiresAt?: string; // From the entity's expiry block; absent for entities read without metadata
   txHash?: string;
+  sessionKey?: string; // Session that fulfilled this ask, if any
+  statusChangedAt?: string;
+}
+
+export function mapAsk(
+  decoded: DecodedEntity<'ask'>,
+  txHashMap: Record<string, string> = {},
+  statusMap: Record<string, ListingStatus> = {},
+  timing?: BlockTiming
+): Ask {
+  const { attributes: attrs, payload } = decoded;
+  const transition = statusMap[decoded.key];
+  const createdAt = attrs.createdAt || payload.createdAt || '';
+  const expiresAt = timing ? getExpiresAt(decoded.raw, timing) : undefined;
+  return {
+    key: decoded.key,
+    wallet: attrs.wallet,
+    skill: attrs.skill,
+    spaceId: attrs.spaceId || payload.spaceId || SPACE_ID,
+    createdAt,
+    status: transition?.status || attrs.status || payload.status || 'open',
+    message: payload.message || '',
+    ttlSeconds: expiresAt && createdAt
+      ? Math.round((new Date(expiresAt).getTime() - new Date(createdAt).getTime()) / 1000)
+      : ASK_TTL_SECONDS,
+    expiresAt,
+    txHash: txHashMap[decoded.key] || attrs.txHash || payload.txHash || decoded.raw.txHash || undefined,
+    sessionKey: transition?.sessionKey,
+    statusChangedAt: transition?.changedAt,
+  };
 }
 
 export async function createAsk({
@@ -20,249 +61,160 @@ export async function createAsk({
   skill,
   message,
   privateKey,
+  walletClient: providedWalletClient,
   expiresIn,
+  spaceId,
 }: {
   wallet: string;
   skill: string;
   message: string;
-  privateKey: `0x${string}`;
+  privateKey?: `0x${string}`;
+  walletClient?: ArkivWalletClient; // signs instead of privateKey
   expiresIn?: number;
+  spaceId?: string;
 }): Promise<{ key: string; txHash: string }> {
-  const walletClient = getWalletClientFromPrivateKey(privateKey);
-  const enc = new TextEncoder();
-  const spaceId = 'local-dev';
+  const walletClient = resolveWalletClient({ privateKey, walletClient: providedWalletClient });
+  const space = await resolveSpace(spaceId);
   const status = 'open';
   const createdAt = new Date().toISOString();
-  // Use expiresIn if provided and valid, otherwise use default
-  const ttl = (expiresIn !== undefined && expiresIn !== null && typeof expiresIn === 'number' && expiresIn > 0) ? expiresIn : ASK_TTL_SECONDS;
+  // Use expiresIn if provided and valid, otherwise the space's default
+  const ttl = (expiresIn !== undefined && expiresIn !== null && typeof expiresIn === 'number' && expiresIn > 0) ? expiresIn : space.askTtlSeconds;
 
-  const { entityKey, txHash } = await walletClient.createEntity({
-    payload: enc.encode(JSON.stringify({
+  const { entityKey, txHash } = await walletClient.createEntity(encodeEntity('ask', {
+    payload: {
       message,
-    })),
-    contentType: 'application/json',
+    },
     attributes: [
-      { key: 'type', value: 'ask' },
       { key: 'wallet', value: wallet },
       { key: 'skill', value: skill },
-      { key: 'spaceId', value: spaceId },
+      { key: 'spaceId', value: space.spaceId },
       { key: 'createdAt', value: createdAt },
       { key: 'status', value: status },
     ],
     expiresIn: ttl,
-  });
-
-  await walletClient.createEntity({
-    payload: enc.encode(JSON.stringify({
-      txHash,
-    })),
-    contentType: 'application/json',
-    attributes: [
-      { key: 'type', value: 'ask_txhash' },
-      { key: 'askKey', value: entityKey },
-      { key: 'wallet', value: wallet },
-      { key: 'spaceId', value: spaceId },
-    ],
-    expiresIn: ttl,
-  });
+  }));
 
   return { key: entityKey, txHash };
 }
 
-export async function listAsks(params?: { skill?: string; spaceId?: string }): Promise<Ask[]> {
+/**
+ * Fetch one page of asks matching `where`, with their transaction hashes and
+ * current lifecycle status and expiry.
+ */
+async function fetchAsksPage(where: Predicate[], page: PageParams = {}): Promise<Page<Ask>> {
   const publicClient = getPublicClient();
-  const query = publicClient.buildQuery();
-  let queryBuilder = query.where(eq('type', 'ask')).where(eq('status', 'open'));
-  
-  if (params?.spaceId) {
-    queryBuilder = queryBuilder.where(eq('spaceId', params.spaceId));
-  }
-  
-  const [result, txHashResult] = await Promise.all([
-    queryBuilder.withAttributes(true).withPayload(true).limit(100).fetch(),
-    publicClient.buildQuery()
-      .where(eq('type', 'ask_txhash'))
-      .withAttributes(true)
-      .withPayload(true)
-      .limit(100)
-      .fetch(),
-  ]);
+  const result = await fetchPage(
+    publicClient.buildQuery().where(where).withAttributes(true).withPayload(true).withMetadata(true),
+    page
+  );
+  const decoded = await verifyEntities(decodeEntities('ask', result.entities));
+  const timing = await getBlockTiming(publicClient);
 
-  const txHashMap: Record<string, string> = {};
-  txHashResult.entities.forEach((entity: any) => {
-    const attrs = entity.attributes || {};
-    const getAttr = (key: string): string => {
-      if (Array.isArray(attrs)) {
-        const attr = attrs.find((a: any) => a.key === key);
-        return String(attr?.value || '');
-      }
-      return String(attrs[key] || '');
-    };
-    const askKey = getAttr('askKey');
-    if (askKey) {
-      let payload: any = {};
-      try {
-        if (entity.payload) {
-          const decoded = entity.payload instanceof Uint8Array
-            ? new TextDecoder().decode(entity.payload)
-            : typeof entity.payload === 'string'
-            ? entity.payload
-            : JSON.stringify(entity.payload);
-          payload = JSON.parse(decoded);
-        }
-      } catch (e) {
-        console.error('Error decoding txHash payload:', e);
-      }
-      if (payload.txHash) {
-        txHashMap[askKey] = payload.txHash;
-      }
-    }
-  });
+  const keys = decoded.map(d => d.key);
 
-  let asks = result.entities.map((entity: any) => {
-    let payload: any = {};
-    try {
-      if (entity.payload) {
-        const decoded = entity.payload instanceof Uint8Array
-          ? new TextDecoder().decode(entity.payload)
-          : typeof entity.payload === 'string'
-          ? entity.payload
-          : JSON.stringify(entity.payload);
-        payload = JSON.parse(decoded);
-      }
-    } catch (e) {
-      console.error('Error decoding payload:', e);
-    }
+  const txHashMap = await fetchTxHashes(publicClient, 'ask_txhash', decoded.map(d => d.raw));
 
-    const attrs = entity.attributes || {};
-    const getAttr = (key: string): string => {
-      if (Array.isArray(attrs)) {
-        const attr = attrs.find((a: any) => a.key === key);
-        return String(attr?.value || '');
-      }
-      return String(attrs[key] || '');
-    };
-    
-    return {
-      key: entity.key,
-      wallet: getAttr('wallet') || payload.wallet || '',
-      skill: getAttr('skill') || payload.skill || '',
-      spaceId: getAttr('spaceId') || payload.spaceId || 'local-dev',
-      createdAt: getAttr('createdAt') || payload.createdAt || '',
-      status: getAttr('status') || payload.status || 'open',
-      message: payload.message || '',
-      ttlSeconds: ASK_TTL_SECONDS,
-      txHash: txHashMap[entity.key] || getAttr('txHash') || payload.txHash || (entity as any).txHash || undefined,
-    };
-  });
+  const statusMap = await fetchListingStatuses(publicClient, 'ask', keys);
 
-  if (params?.skill) {
+  return {
+    items: decoded.map(d => mapAsk(d, txHashMap, statusMap, timing)),
+    cursor: result.cursor,
+  };
+}
+
+export async function listAsksPage(params: { skill?: string; spaceId?: string } & PageParams = {}): Promise<Page<Ask>> {
+  const where = [eq('type', 'ask'), eq('status', 'open')];
+  if (params.spaceId) {
+    where.push(eq('spaceId', params.spaceId));
+  }
+
+  const page = await fetchAsksPage(where, params);
+
+  // Drop asks that have since been closed or withdrawn
+  page.items = page.items.filter(ask => isListingOpen('ask', ask.status));
+
+  if (params.skill) {
     const skillLower = params.skill.toLowerCase();
-    asks = asks.filter(ask => ask.skill.toLowerCase().includes(skillLower));
+    page.items = page.items.filter(ask => ask.skill.toLowerCase().includes(skillLower));
   }
 
-  return asks;
+  return page;
 }
 
-export async function listAsksForWallet(wallet: string): Promise<Ask[]> {
-  const publicClient = getPublicClient();
-  const query = publicClient.buildQuery();
-  
-  // Use Promise.allSettled to handle timeouts gracefully
-  const [result, txHashResult] = await Promise.allSettled([
-    query
-      .where(eq('type', 'ask'))
-      .where(eq('wallet', wallet))
-      .withAttributes(true)
-      .withPayload(true)
-      .limit(100)
-      .fetch(),
-    publicClient.buildQuery()
-      .where(eq('type', 'ask_txhash'))
-      .where(eq('wallet', wallet))
-      .withAttributes(true)
-      .withPayload(true)
-      .limit(100)
-      .fetch(),
-  ]);
+export async function listAsks(params?: { skill?: string; spaceId?: string }): Promise<Ask[]> {
+  return collectPages(page => listAsksPage({ ...params, ...page }));
+}
 
-  // Handle failures gracefully
-  const askResult = result.status === 'fulfilled' ? result.value : { entities: [] };
-  const txHashResultValue = txHashResult.status === 'fulfilled' ? txHashResult.value : { entities: [] };
-  
-  if (result.status === 'rejected') {
-    console.error('Error fetching asks for wallet:', result.reason);
+export async function listAsksForWalletPage(wallet: string, page: PageParams = {}, spaceId?: string): Promise<Page<Ask>> {
+  const where = [eq('type', 'ask'), eq('wallet', wallet)];
+  if (spaceId) {
+    where.push(eq('spaceId', spaceId));
   }
-  if (txHashResult.status === 'rejected') {
-    console.error('Error fetching ask_txhash for wallet:', txHashResult.reason);
+  try {
+    return await fetchAsksPage(where, page);
+  } catch (e) {
+    // Handle timeouts gracefully
+    console.error('Error fetching asks for wallet:', e);
+    return { items: [], cursor: null };
   }
+}
+
+export async function listAsksForWallet(wallet: string, spaceId?: string): Promise<Ask[]> {
+  return collectPages(page => listAsksForWalletPage(wallet, page, spaceId));
+}
 
-  const txHashMap: Record<string, string> = {};
-  txHashResultValue.entities.forEach((entity: any) => {
-    const attrs = entity.attributes || {};
-    const getAttr = (key: string): string => {
-      if (Array.isArray(attrs)) {
-        const attr = attrs.find((a: any) => a.key === key);
-        return String(attr?.value || '');
-      }
-      return String(attrs[key] || '');
-    };
-    const askKey = getAttr('askKey');
-    if (askKey) {
-      let payload: any = {};
-      try {
-        if (entity.payload) {
-          const decoded = entity.payload instanceof Uint8Array
-            ? new TextDecoder().decode(entity.payload)
-            : typeof entity.payload === 'string'
-            ? entity.payload
-            : JSON.stringify(entity.payload);
-          payload = JSON.parse(decoded);
-        }
-      } catch (e) {
-        console.error('Error decoding txHash payload:', e);
-      }
-      if (payload.txHash) {
-        txHashMap[askKey] = payload.txHash;
-      }
-    }
-  });
+export async function fulfillAsk({
+  askKey,
+  wallet,
+  sessionKey,
+  privateKey,
+}: {
+  askKey: string;
+  wallet: string;
+  sessionKey?: string;
+  privateKey: `0x${string}`;
+}): Promise<{ key: string; txHash: string; status: string }> {
+  return recordListingStatus({ kind: 'ask', listingKey: askKey, wallet, status: 'fulfilled', sessionKey, privateKey });
+}
 
-  return askResult.entities.map((entity: any) => {
-    let payload: any = {};
-    try {
-      if (entity.payload) {
-        const decoded = entity.payload instanceof Uint8Array
-          ? new TextDecoder().decode(entity.payload)
-          : typeof entity.payload === 'string'
-          ? entity.payload
-          : JSON.stringify(entity.payload);
-        payload = JSON.parse(decoded);
-      }
-    } catch (e) {
-      console.error('Error decoding payload:', e);
-    }
+export async function withdrawAsk({
+  askKey,
+  wallet,
+  reason,
+  privateKey,
+}: {
+  askKey: string;
+  wallet: string;
+  reason?: string;
+  privateKey: `0x${string}`;
+}): Promise<{ key: string; txHash: string; status: string }> {
+  return recordListingStatus({ kind: 'ask', listingKey: askKey, wallet, status: 'withdrawn', reason, privateKey });
+}
 
-    const attrs = entity.attributes || {};
-    const getAttr = (key: string): string => {
-      if (Array.isArray(attrs)) {
-        const attr = attrs.find((a: any) => a.key === key);
-        return String(attr?.value || '');
-      }
-      return String(attrs[key] || '');
-    };
-    
-    return {
-      key: entity.key,
-      wallet: getAttr('wallet') || payload.wallet || '',
-      skill: getAttr('skill') || payload.skill || '',
-      spaceId: getAttr('spaceId') || payload.spaceId || 'local-dev',
-      createdAt: getAttr('createdAt') || payload.createdAt || '',
-      status: getAttr('status') || payload.status || 'open',
-      message: payload.message || '',
-      ttlSeconds: ASK_TTL_SECONDS,
-      txHash: txHashMap[entity.key] || getAttr('txHash') || payload.txHash || (entity as any).txHash || undefined,
-    };
-  });
+export async function reopenAsk({
+  askKey,
+  wallet,
+  privateKey,
+}: {
+  askKey: string;
+  wallet: string;
+  privateKey: `0x${string}`;
+}): Promise<{ key: string; txHash: string; status: string }> {
+  return recordListingStatus({ kind: 'ask', listingKey: askKey, wallet, status: 'open', privateKey });
 }
 
+export async function extendAsk({
+  askKey,
+  wallet,
+  hours,
+  privateKey,
+  walletClient,
+}: {
+  askKey: string;
+  wallet: string;
+  hours: number;
+  privateKey: `0x${string}`;
+  walletClient?: ArkivWalletClient; // extends asks created with the user's wallet
+}): Promise<{ key: string; txHash: string; expiresAt?: string }> {
+  return extendListing({ kind: 'ask', listingKey: askKey, wallet, hours, privateKey, walletClient });
+}
@@ -0,0 +1,101 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { privateKeyToAccount } from 'viem/accounts';
+import { expandAvailability, listOpenSlots, setAvailability, setBusyCalendar, validateAvailability, zonedTimeToUtc } from './availability';
+import { getWalletClientFromPrivateKey } from './client';
+import { encodeEntity } from './codec';
+import { createSession } from './sessions';
+
+process.env.ARKIV_BACKEND = 'memory';
+process.env.ARKIV_READ_CACHE = 'off';
+
+const MENTOR_KEY = `0x${'44'.repeat(32)}` as const;
+const mentor = privateKeyToAccount(MENTOR_KEY).address.toLowerCase();
+const learner = privateKeyToAccount(`0x${'55'.repeat(32)}`).address.toLowerCase();
+
+const utc = (iso: string) => new Date(iso).getTime();
+const iso = ([start, end]: [number, number]) => [new Date(start).toISOString(), new Date(end).toISOString()];
+
+test('wall-clock times convert to UTC on both sides of a DST change', () => {
+  assert.equal(zonedTimeToUtc('2026-03-28', '09:00', 'Europe/Berlin'), utc('2026-03-28T08:00:00Z'));
+  assert.equal(zonedTimeToUtc('2026-03-30', '09:00', 'Europe/Berlin'), utc('2026-03-30T07:00:00Z'));
+  assert.equal(zonedTimeToUtc('2026-11-02', '09:00', 'America/New_York'), utc('2026-11-02T14:00:00Z'));
+  assert.equal(zonedTimeToUtc('2026-10-31', '09:00', 'America/New_York'), utc('2026-10-31T13:00:00Z'));
+  assert.equal(zonedTimeToUtc('2026-03-02', '24:00', 'UTC'), utc('2026-03-03T00:00:00Z'));
+});
+
+test('weekly slots keep their local time across DST', () => {
+  // Mondays 09:00-10:00 in Berlin, the week before and after clocks go forward
+  const intervals = expandAvailability(
+    { weekly: [{ day: 1, start: '09:00', end: '10:00', timezone: 'Europe/Berlin' }], oneOff: [] },
+    utc('2026-03-22T00:00:00Z'),
+    utc('2026-04-05T00:00:00Z')
+  );
+  assert.deepEqual(intervals.map(iso), [
+    ['2026-03-23T08:00:00.000Z', '2026-03-23T09:00:00.000Z'],
+    ['2026-03-30T07:00:00.000Z', '2026-03-30T08:00:00.000Z'],
+  ]);
+});
+
+test('weekly slots fall on their local day, whatever the UTC date', () => {
+  // Tuesday 08:00 in Tokyo is still Monday in UTC
+  const intervals = expandAvailability(
+    { weekly: [{ day: 2, start: '08:00', end: '09:00', timezone: 'Asia/Tokyo' }], oneOff: [] },
+    utc('2026-03-02T00:00:00Z'),
+    utc('2026-03-09T00:00:00Z')
+  );
+  assert.deepEqual(intervals.map(iso), [['2026-03-02T23:00:00.000Z', '2026-03-03T00:00:00.000Z']]);
+});
+
+test('expanded slots are clipped to the range and merged', () => {
+  const intervals = expandAvailability({
+    weekly: [{ day: 1, start: '09:00', end: '12:00', timezone: 'UTC' }],
+    oneOff: [
+      { date: '2026-03-02', start: '11:00', end: '14:00', timezone: 'UTC' },
+      { date: '2026-03-03', start: '09:00', end: '10:00', timezone: 'UTC' },
+    ],
+  }, utc('2026-03-02T10:00:00Z'), utc('2026-03-03T09:30:00Z'));
+  assert.deepEqual(intervals.map(iso), [
+    ['2026-03-02T10:00:00.000Z', '2026-03-02T14:00:00.000Z'],
+    ['2026-03-03T09:00:00.000Z', '2026-03-03T09:30:00.000Z'],
+  ]);
+});
+
+test('invalid slots are reported', () => {
+  const slot = { day: 1, start: '09:00', end: '10:00', timezone: 'Europe/Berlin' };
+  assert.equal(validateAvailability({ weekly: [slot], oneOff: [] }), null);
+  assert.match(validateAvailability({ weekly: [{ ...slot, end: '08:00' }], oneOff: [] })!, /end after/);
+  assert.match(validateAvailability({ weekly: [{ ...slot, timezone: 'Mars/Olympus' }], oneOff: [] })!, /Unknown timezone/);
+  assert.match(validateAvailability({ weekly: [{ ...slot, day: 7 }], oneOff: [] })!, /0 \(Sunday\)/);
+  assert.match(validateAvailability({ weekly: [], oneOff: [{ ...slot, date: '2026-13-40' }] })!, /YYYY-MM-DD/);
+  assert.match(validateAvailability({ weekly: 'mondays', oneOff: [] })!, /must be arrays/);
+});
+
+test('open slots leave out sessions and busy blocks', async () => {
+  await setAvailability({
+    wallet: mentor,
+    weekly: [],
+    oneOff: [{ date: '2027-01-05', start: '09:00', end: '13:00', timezone: 'UTC' }],
+    privateKey: MENTOR_KEY,
+  });
+  await createSession({ mentorWallet: mentor, learnerWallet: learner, skill: 'rust', sessionDate: '2027-01-05T10:00:00.000Z', privateKey: MENTOR_KEY });
+  await setBusyCalendar({ wallet: mentor, blocks: [{ start: '2027-01-05T12:15:00.000Z', end: '2027-01-05T12:45:00.000Z' }], privateKey: MENTOR_KEY });
+
+  const { slots } = await listOpenSlots({ wallet: mentor, from: '2027-01-05T00:00:00Z', to: '2027-01-06T00:00:00Z', duration: 30 });
+  assert.deepEqual(slots.map(slot => slot.start.slice(11, 16)), ['09:00', '09:30', '11:00', '11:30']);
+});
+
+test('busy blocks with invalid dates are ignored', async () => {
+  const key = `0x${'66'.repeat(32)}` as const;
+  const wallet = privateKeyToAccount(key).address.toLowerCase();
+  await setAvailability({ wallet, weekly: [], oneOff: [{ date: '2027-01-06', start: '09:00', end: '10:00', timezone: 'UTC' }], privateKey: key });
+  // Written around setBusyCalendar, which would refuse it
+  await getWalletClientFromPrivateKey(key).createEntity(encodeEntity('busy_calendar', {
+    payload: { blocks: [{ start: 'yesterday', end: '2027-01-07T00:00:00.000Z' }], source: '' },
+    attributes: [{ key: 'wallet', value: wallet }, { key: 'createdAt', value: new Date().toISOString() }],
+    expiresIn: 3600,
+  }));
+
+  const { slots } = await listOpenSlots({ wallet, from: '2027-01-06T00:00:00Z', to: '2027-01-07T00:00:00Z' });
+  assert.deepEqual(slots.map(slot => slot.start), ['2027-01-06T09:00:00.000Z']);
+});
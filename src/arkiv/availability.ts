@@ -0,0 +1,374 @@
+import { eq } from "@arkiv-network/sdk/query"
+import { getPublicClient, resolveWalletClient, ArkivWalletClient } from "./client"
+import { decodeEntities, encodeEntity, DecodedEntity } from "./codec"
+import { fetchAllEntities } from "./pagination"
+import { listActiveSessionsForWallets } from "./sessions"
+import { verifyEntities } from "./verification"
+
+/**
+ * When a wallet can be booked.
+ *
+ * Each wallet publishes `availability` entities holding recurring weekly slots
+ * and one-off slots; the latest one replaces earlier ones. Slot times are
+ * wall-clock times in the slot's own IANA timezone, so a weekly slot stays at
+ * 09:00 in Berlin across daylight saving changes. Open slots are the
+ * availability for a date range minus the wallet's pending, scheduled and
+ * in-progress sessions, and minus the busy blocks it imported from its own
+ * calendar (`busy_calendar` entities, latest wins, see icalImport.ts).
+ */
+
+export type WeeklySlot = {
+  day: number; // 0 = Sunday ... 6 = Saturday
+  start: string; // HH:MM
+  end: string; // HH:MM, or 24:00 for midnight
+  timezone: string; // IANA, e.g. Europe/Berlin
+};
+
+export type OneOffSlot = {
+  date: string; // YYYY-MM-DD
+  start: string;
+  end: string;
+  timezone: string;
+};
+
+export type Availability = {
+  key: string;
+  wallet: string;
+  weekly: WeeklySlot[];
+  oneOff: OneOffSlot[];
+  updatedAt: string;
+};
+
+export type OpenSlot = {
+  start: string; // ISO timestamp
+  end: string;
+};
+
+export type BusyBlock = {
+  start: string; // ISO timestamp
+  end: string;
+};
+
+export type BusyCalendar = {
+  key: string;
+  wallet: string;
+  blocks: BusyBlock[];
+  source: string;
+  importedAt: string;
+};
+
+const AVAILABILITY_TTL_SECONDS = 31536000; // 1 year, like profiles
+export const BUSY_IMPORT_DAYS = 90; // Imported calendars cover, and live for, this long
+export const MAX_BUSY_BLOCKS = 500;
+const MAX_SLOTS = 50;
+const MAX_RANGE_DAYS = 31;
+const SLOT_STEP_MINUTES = 30;
+const TIME_PATTERN = /^(([01]\d|2[0-3]):[0-5]\d|24:00)$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return Boolean(timezone);
+  } catch {
+    return false;
+  }
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Why the slots can't be published, or null if they are valid.
+ */
+export function validateAvailability({ weekly, oneOff }: { weekly: unknown; oneOff: unknown }): string | null {
+  if (!Array.isArray(weekly) || !Array.isArray(oneOff)) return 'weekly and oneOff must be arrays';
+  if (weekly.length + oneOff.length > MAX_SLOTS) return `At most ${MAX_SLOTS} slots`;
+
+  for (const slot of [...weekly, ...oneOff]) {
+    if (!slot || typeof slot !== 'object') return 'Each slot must be an object';
+    if (!TIME_PATTERN.test(slot.start) || !TIME_PATTERN.test(slot.end)) return 'Slot times must be HH:MM';
+    if (toMinutes(slot.end) <= toMinutes(slot.start)) return 'Slots must end after they start';
+    if (typeof slot.timezone !== 'string' || !isValidTimezone(slot.timezone)) return `Unknown timezone '${slot.timezone}'`;
+  }
+  if (weekly.some(slot => !Number.isInteger(slot.day) || slot.day < 0 || slot.day > 6)) {
+    return 'Weekly slot days must be 0 (Sunday) to 6 (Saturday)';
+  }
+  if (oneOff.some(slot => !DATE_PATTERN.test(slot.date) || isNaN(new Date(`${slot.date}T00:00:00Z`).getTime()))) {
+    return 'One-off slot dates must be YYYY-MM-DD';
+  }
+  return null;
+}
+
+// Offset of `timezone` from UTC at the instant `utcMs`, in ms
+function timezoneOffset(utcMs: number, timezone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(new Date(utcMs));
+  const part = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  const wallClock = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+  return wallClock - Math.floor(utcMs / 1000) * 1000;
+}
+
+/**
+ * UTC instant of a wall-clock `date` and `time` in `timezone`.
+ */
+export function zonedTimeToUtc(date: string, time: string, timezone: string): number {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hours, minutes);
+  // The offset at the wall-clock time read as UTC is off by at most one DST
+  // shift, so correct it once with the offset at the resulting instant
+  const guess = wallClock - timezoneOffset(wallClock, timezone);
+  return wallClock - timezoneOffset(guess, timezone);
+}
+
+// YYYY-MM-DD of the instant in `timezone`
+function zonedDate(utcMs: number, timezone: string): string {
+  return new Date(utcMs + timezoneOffset(utcMs, timezone)).toISOString().slice(0, 10);
+}
+
+type Interval = [number, number];
+
+function mergeIntervals(intervals: Interval[]): Interval[] {
+  const merged: Interval[] = [];
+  [...intervals].sort((a, b) => a[0] - b[0]).forEach(([start, end]) => {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  });
+  return merged;
+}
+
+function subtractIntervals(intervals: Interval[], busy: Interval[]): Interval[] {
+  return busy.reduce((free, [busyStart, busyEnd]) => free.flatMap(([start, end]): Interval[] => {
+    if (busyEnd <= start || busyStart >= end) return [[start, end]];
+    return ([[start, busyStart], [busyEnd, end]] as Interval[]).filter(([a, b]) => b > a);
+  }), intervals);
+}
+
+/**
+ * Concrete intervals covered by the availability between `from` and `to`.
+ */
+export function expandAvailability(availability: Pick<Availability, 'weekly' | 'oneOff'>, from: number, to: number): Interval[] {
+  const intervals: Interval[] = [];
+
+  availability.weekly.forEach(slot => {
+    // Walk the slot's local calendar days, with a day of margin for the offset
+    const firstDay = new Date(`${zonedDate(from - DAY_MS, slot.timezone)}T00:00:00Z`).getTime();
+    for (let day = firstDay; day <= to + DAY_MS; day += DAY_MS) {
+      if (new Date(day).getUTCDay() !== slot.day) continue;
+      const date = new Date(day).toISOString().slice(0, 10);
+      intervals.push([zonedTimeToUtc(date, slot.start, slot.timezone), zonedTimeToUtc(date, slot.end, slot.timezone)]);
+    }
+  });
+  availability.oneOff.forEach(slot => {
+    intervals.push([zonedTimeToUtc(slot.date, slot.start, slot.timezone), zonedTimeToUtc(slot.date, slot.end, slot.timezone)]);
+  });
+
+  return mergeIntervals(intervals
+    .map(([start, end]): Interval => [Math.max(start, from), Math.min(end, to)])
+    .filter(([start, end]) => end > start));
+}
+
+function mapAvailability(decoded: DecodedEntity<'availability'>): Availability {
+  const { attributes: attrs, payload } = decoded;
+  return {
+    key: decoded.key,
+    wallet: attrs.wallet,
+    weekly: payload.weekly || [],
+    oneOff: payload.oneOff || [],
+    updatedAt: attrs.createdAt || '',
+  };
+}
+
+/**
+ * The wallet's latest published availability, or null if it never published any.
+ */
+export async function getAvailability(wallet: string): Promise<Availability | null> {
+  const publicClient = getPublicClient();
+  const entities = await fetchAllEntities(
+    publicClient.buildQuery()
+      .where([eq('type', 'availability'), eq('wallet', wallet.toLowerCase())])
+      .withAttributes(true)
+      .withPayload(true)
+      .withMetadata(true)
+  );
+  const versions = (await verifyEntities(decodeEntities('availability', entities)))
+    .map(mapAvailability)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  return versions[0] || null;
+}
+
+/**
+ * Publish the wallet's availability, replacing what it published before.
+ */
+export async function setAvailability({
+  wallet,
+  weekly,
+  oneOff,
+  privateKey,
+  walletClient: providedWalletClient,
+}: {
+  wallet: string;
+  weekly: WeeklySlot[];
+  oneOff: OneOffSlot[];
+  privateKey?: `0x${string}`;
+  walletClient?: ArkivWalletClient; // signs instead of privateKey
+}): Promise<{ key: string; txHash: string }> {
+  const error = validateAvailability({ weekly, oneOff });
+  if (error) {
+    throw new Error(error);
+  }
+
+  const walletClient = resolveWalletClient({ privateKey, walletClient: providedWalletClient });
+  const createdAt = new Date().toISOString();
+
+  const { entityKey, txHash } = await walletClient.createEntity(encodeEntity('availability', {
+    payload: {
+      weekly: weekly.map(({ day, start, end, timezone }) => ({ day, start, end, timezone })),
+      oneOff: oneOff.map(({ date, start, end, timezone }) => ({ date, start, end, timezone })),
+    },
+    attributes: [
+      { key: 'wallet', value: wallet.toLowerCase() },
+      { key: 'createdAt', value: createdAt },
+    ],
+    expiresIn: AVAILABILITY_TTL_SECONDS,
+  }));
+
+  return { key: entityKey, txHash };
+}
+
+function mapBusyCalendar(decoded: DecodedEntity<'busy_calendar'>): BusyCalendar {
+  const { attributes: attrs, payload } = decoded;
+  return {
+    key: decoded.key,
+    wallet: attrs.wallet,
+    blocks: payload.blocks || [],
+    source: payload.source || '',
+    importedAt: attrs.createdAt || '',
+  };
+}
+
+/**
+ * The busy blocks the wallet last imported from its calendar, or null.
+ */
+export async function getBusyCalendar(wallet: string): Promise<BusyCalendar | null> {
+  const publicClient = getPublicClient();
+  const entities = await fetchAllEntities(
+    publicClient.buildQuery()
+      .where([eq('type', 'busy_calendar'), eq('wallet', wallet.toLowerCase())])
+      .withAttributes(true)
+      .withPayload(true)
+      .withMetadata(true)
+  );
+  const versions = (await verifyEntities(decodeEntities('busy_calendar', entities)))
+    .map(mapBusyCalendar)
+    .sort((a, b) => b.importedAt.localeCompare(a.importedAt));
+  return versions[0] || null;
+}
+
+/**
+ * Publish busy blocks imported from the wallet's calendar, replacing the
+ * previous import. An empty list clears it.
+ */
+export async function setBusyCalendar({
+  wallet,
+  blocks,
+  source,
+  privateKey,
+  walletClient: providedWalletClient,
+}: {
+  wallet: string;
+  blocks: BusyBlock[];
+  source?: string;
+  privateKey?: `0x${string}`;
+  walletClient?: ArkivWalletClient; // signs instead of privateKey
+}): Promise<{ key: string; txHash: string }> {
+  if (blocks.length > MAX_BUSY_BLOCKS) {
+    throw new Error(`At most ${MAX_BUSY_BLOCKS} busy blocks`);
+  }
+  if (blocks.some(block => isNaN(new Date(block.start).getTime()) || !(new Date(block.end) > new Date(block.start)))) {
+    throw new Error('Busy blocks must end after they start');
+  }
+
+  const walletClient = resolveWalletClient({ privateKey, walletClient: providedWalletClient });
+  const createdAt = new Date().toISOString();
+
+  const { entityKey, txHash } = await walletClient.createEntity(encodeEntity('busy_calendar', {
+    payload: {
+      blocks: blocks.map(({ start, end }) => ({ start, end })),
+      source: source || '',
+    },
+    attributes: [
+      { key: 'wallet', value: wallet.toLowerCase() },
+      { key: 'createdAt', value: createdAt },
+    ],
+    expiresIn: BUSY_IMPORT_DAYS * 24 * 60 * 60,
+  }));
+
+  return { key: entityKey, txHash };
+}
+
+/**
+ * Bookable `duration`-minute slots of the wallet between `from` and `to`: its
+ * availability minus its active sessions and imported busy blocks, starting
+ * on the hour or half hour, and only in the future.
+ */
+export async function listOpenSlots({
+  wallet,
+  from,
+  to,
+  duration = 60,
+}: {
+  wallet: string;
+  from: string; // ISO timestamp
+  to: string;
+  duration?: number; // minutes
+}): Promise<{ availability: Availability | null; busyCalendar: BusyCalendar | null; slots: OpenSlot[] }> {
+  const fromMs = Math.max(new Date(from).getTime(), Date.now());
+  const toMs = Math.min(new Date(to).getTime(), fromMs + MAX_RANGE_DAYS * DAY_MS);
+  if (isNaN(fromMs) || isNaN(toMs)) {
+    throw new Error('from and to must be valid dates');
+  }
+
+  const [availability, sessions, busyCalendar] = await Promise.all([
+    getAvailability(wallet),
+    listActiveSessionsForWallets([wallet]),
+    getBusyCalendar(wallet),
+  ]);
+  if (!availability || toMs <= fromMs) return { availability, busyCalendar, slots: [] };
+
+  const busy = [
+    ...sessions.map(s => {
+      const start = new Date(s.sessionDate).getTime();
+      return [start, start + (s.duration || 60) * 60 * 1000] as Interval;
+    }),
+    ...(busyCalendar?.blocks || []).map(block => [new Date(block.start).getTime(), new Date(block.end).getTime()] as Interval),
+  // A malformed date would otherwise swallow the free time around it
+  ].filter(([start, end]) => Number.isFinite(start) && Number.isFinite(end));
+  const free = subtractIntervals(expandAvailability(availability, fromMs, toMs), busy);
+
+  const durationMs = duration * 60 * 1000;
+  const stepMs = SLOT_STEP_MINUTES * 60 * 1000;
+  const slots: OpenSlot[] = [];
+  free.forEach(([start, end]) => {
+    for (let slotStart = Math.ceil(start / stepMs) * stepMs; slotStart + durationMs <= end; slotStart += stepMs) {
+      slots.push({ start: new Date(slotStart).toISOString(), end: new Date(slotStart + durationMs).toISOString() });
+    }
+  });
+  return { availability, busyCalendar, slots };
+}
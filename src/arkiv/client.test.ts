@@ -0,0 +1,112 @@
+import { test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { eq } from '@arkiv-network/sdk/query';
+import { ArkivBackend, ArkivWalletClient, getWalletClientFromPrivateKey, getWriteQueueStats, setBackend } from './client';
+import { createMemoryBackend } from './memoryBackend';
+
+const KEY = `0x${'11'.repeat(32)}` as const;
+
+// The memory backend, with a hook in front of every write and a log of them
+function instrumentedBackend(name: string, hook: (call: string, params: any) => void = () => {}) {
+  globalThis.__mentorGraphMemoryStore = undefined;
+  const memory = createMemoryBackend();
+  const calls: Array<{ call: string; params: any }> = [];
+  const backend: ArkivBackend = {
+    name,
+    getPublicClient: memory.getPublicClient,
+    getWalletClient(privateKey): ArkivWalletClient {
+      const inner = memory.getWalletClient(privateKey);
+      const wrap = <K extends keyof ArkivWalletClient>(call: K) => (async (params: any) => {
+        calls.push({ call, params });
+        hook(call, params);
+        return (inner[call] as any)(params);
+      }) as ArkivWalletClient[K];
+      return { createEntity: wrap('createEntity'), extendEntity: wrap('extendEntity'), mutateEntities: wrap('mutateEntities') };
+    },
+  };
+  setBackend(backend);
+  return { calls, publicClient: memory.getPublicClient() };
+}
+
+function ask(skill: string) {
+  return {
+    payload: new TextEncoder().encode('{}'),
+    contentType: 'application/json' as const,
+    attributes: [{ key: 'type', value: 'ask' }, { key: 'skill', value: skill }],
+    expiresIn: 3600,
+  };
+}
+
+function namedError(name: string, message = name) {
+  const error = new Error(message);
+  error.name = name;
+  return error;
+}
+
+beforeEach(() => {
+  console.warn = () => {};
+  console.error = () => {};
+});
+
+test('writes queued behind one in flight share a transaction', async () => {
+  const { calls } = instrumentedBackend('memory');
+  const before = getWriteQueueStats();
+  const wallet = getWalletClientFromPrivateKey(KEY);
+
+  const results = await Promise.all(['go', 'rust', 'zig'].map(skill => wallet.createEntity(ask(skill))));
+
+  assert.deepEqual(calls.map(c => c.call), ['createEntity', 'mutateEntities']);
+  assert.equal(calls[1].params.creates.length, 2);
+  assert.equal(new Set(results.map(r => r.entityKey)).size, 3);
+  assert.equal(results[1].txHash, results[2].txHash);
+  assert.equal(getWriteQueueStats().coalesced - before.coalesced, 1);
+});
+
+test('rate-limited writes are retried', async () => {
+  let limited = 2;
+  const { calls } = instrumentedBackend('memory', () => {
+    if (limited-- > 0) throw Object.assign(new Error('Too many requests'), { status: 429 });
+  });
+  const random = Math.random;
+  Math.random = () => 0;
+  try {
+    const before = getWriteQueueStats();
+    const { entityKey } = await getWalletClientFromPrivateKey(KEY).createEntity(ask('go'));
+    assert.ok(entityKey);
+    assert.equal(calls.length, 3);
+    assert.equal(getWriteQueueStats().rateLimitRetries - before.rateLimitRetries, 2);
+  } finally {
+    Math.random = random;
+  }
+});
+
+test('a batch that was rejected before writing is resent one by one', async () => {
+  const { publicClient } = instrumentedBackend('arkiv', (call, params) => {
+    if (call === 'mutateEntities') throw new Error('batch failed', { cause: namedError('TransactionExecutionError') });
+    if (params.attributes?.some((attr: any) => attr.value === 'bad')) throw new Error('bad write');
+  });
+  const wallet = getWalletClientFromPrivateKey(KEY);
+
+  const results = await Promise.allSettled(['first', 'go', 'bad', 'rust'].map(skill => wallet.createEntity(ask(skill))));
+
+  assert.deepEqual(results.map(r => r.status), ['fulfilled', 'fulfilled', 'rejected', 'fulfilled']);
+  const stored = await publicClient.buildQuery().where(eq('type', 'ask')).fetch();
+  assert.equal(stored.entities.length, 3);
+});
+
+test('a batch that may have been written is not resent', async () => {
+  const { calls } = instrumentedBackend('arkiv', call => {
+    if (call === 'mutateEntities') throw new Error('no receipt', { cause: namedError('WaitForTransactionReceiptTimeoutError') });
+  });
+  const wallet = getWalletClientFromPrivateKey(KEY);
+
+  const results = await Promise.allSettled(['first', 'go', 'rust'].map(skill => wallet.createEntity(ask(skill))));
+
+  assert.deepEqual(results.map(r => r.status), ['fulfilled', 'rejected', 'rejected']);
+  assert.deepEqual(calls.map(c => c.call), ['createEntity', 'mutateEntities']);
+});
+
+test('the queue is shared through globalThis', () => {
+  assert.ok(globalThis.__mentorGraphWriteQueue);
+  assert.deepEqual(getWriteQueueStats(), globalThis.__mentorGraphWriteQueue.stats());
+});
@@ -1,6 +1,70 @@
 import { createPublicClient, createWalletClient, http, custom } from "@arkiv-network/sdk"
+import type {
+  CreateEntityParameters,
+  CreateEntityReturnType,
+  Entity,
+  ExtendEntityParameters,
+  ExtendEntityReturnType,
+  MutateEntitiesParameters,
+  MutateEntitiesReturnType,
+  PublicArkivClient,
+} from "@arkiv-network/sdk"
 import { privateKeyToAccount } from "@arkiv-network/sdk/accounts"
 import { mendoza } from "@arkiv-network/sdk/chains"
+import type { Predicate } from "@arkiv-network/sdk/query"
+import { createMemoryBackend } from "./memoryBackend"
+import { invalidateForWrite, isReadCacheEnabled, withReadCache } from "./readCache"
+
+/**
+ * Storage backend abstraction.
+ *
+ * Everything in src/arkiv talks to these interfaces rather than to the SDK
+ * clients directly, so the app can run against the Mendoza RPC (`arkiv`) or a
+ * process-local stand-in (`memory`). Select with `ARKIV_BACKEND`.
+ *
+ * Server-side writes go through a shared write queue (see `getWalletClientFromPrivateKey`)
+ * that keeps the process under the RPC rate limit, and queries are served from
+ * a per-process read cache (see readCache.ts).
+ */
+
+export type EntityEventHandlers = Parameters<PublicArkivClient['subscribeEntityEvents']>[0];
+
+export interface ArkivQueryResult {
+  entities: Entity[];
+  readonly cursor: string | undefined;
+  hasNextPage(): boolean;
+  next(): Promise<void>;
+}
+
+export interface ArkivQueryBuilder {
+  where(predicates: Predicate[] | Predicate): ArkivQueryBuilder;
+  withAttributes(withAttributes?: boolean): ArkivQueryBuilder;
+  withPayload(withPayload?: boolean): ArkivQueryBuilder;
+  withMetadata(withMetadata?: boolean): ArkivQueryBuilder;
+  limit(limit: number): ArkivQueryBuilder;
+  cursor(cursor: string): ArkivQueryBuilder;
+  fetch(): Promise<ArkivQueryResult>;
+}
+
+export interface ArkivPublicClient {
+  buildQuery(): ArkivQueryBuilder;
+  getEntity(key: `0x${string}`): Promise<Entity>;
+  getBlockTiming(): Promise<{ currentBlock: bigint; currentBlockTime: number; blockDuration: number }>;
+  getTransaction(args: { blockNumber: bigint; index: number }): Promise<{ hash: `0x${string}` }>;
+  subscribeEntityEvents(handlers: EntityEventHandlers, pollingInterval?: number, fromBlock?: bigint): Promise<() => void>;
+}
+
+export interface ArkivWalletClient {
+  createEntity(data: CreateEntityParameters): Promise<CreateEntityReturnType>;
+  extendEntity(data: ExtendEntityParameters): Promise<ExtendEntityReturnType>;
+  mutateEntities(data: MutateEntitiesParameters): Promise<MutateEntitiesReturnType>;
+}
+
+export interface ArkivBackend {
+  name: string;
+  getPublicClient(): ArkivPublicClient;
+  getWalletClient(privateKey: `0x${string}`): ArkivWalletClient;
+}
 
 // Get RPC URL from environment, fallback to Mendoza default
 const getRpcUrl = () => {
@@ -16,19 +80,331 @@ const getHttpTransport = () => {
   });
 };
 
-export function getPublicClient() {
-  return createPublicClient({
-    chain: mendoza,
-    transport: getHttpTransport(),
-  });
+const arkivBackend: ArkivBackend = {
+  name: 'arkiv',
+  getPublicClient() {
+    return createPublicClient({
+      chain: mendoza,
+      transport: getHttpTransport(),
+    });
+  },
+  getWalletClient(privateKey) {
+    return createWalletClient({
+      chain: mendoza,
+      transport: getHttpTransport(),
+      account: privateKeyToAccount(privateKey),
+    });
+  },
+};
+
+let activeBackend: ArkivBackend | null = null;
+
+/**
+ * Resolve the backend selected by `ARKIV_BACKEND` (`arkiv` by default, or `memory`).
+ */
+export function getBackend(): ArkivBackend {
+  if (!activeBackend) {
+    const selected = (process.env.ARKIV_BACKEND || 'arkiv').toLowerCase();
+    if (selected === 'memory') {
+      activeBackend = createMemoryBackend({ persistPath: process.env.ARKIV_MEMORY_FILE });
+    } else if (selected === 'arkiv') {
+      activeBackend = arkivBackend;
+    } else {
+      throw new Error(`Unknown ARKIV_BACKEND "${selected}". Expected "arkiv" or "memory".`);
+    }
+  }
+  return activeBackend;
 }
 
-export function getWalletClientFromPrivateKey(privateKey: `0x${string}`) {
-  return createWalletClient({
-    chain: mendoza,
-    transport: getHttpTransport(),
-    account: privateKeyToAccount(privateKey),
-  });
+/**
+ * Override the active backend (e.g. to inject a fresh in-memory store).
+ */
+export function setBackend(backend: ArkivBackend | null) {
+  activeBackend = backend;
+}
+
+export function getPublicClient(): ArkivPublicClient {
+  const publicClient = getBackend().getPublicClient();
+  return isReadCacheEnabled() ? withReadCache(publicClient) : publicClient;
+}
+
+/**
+ * Write scheduler.
+ *
+ * The Mendoza RPC allows 50 requests per second and answers bursts with
+ * HTTP 429 / `-32016 over rate limit` (docs/development/rate-limits.md).
+ * Every write from this process is queued per wallet and sent one
+ * transaction at a time, which also keeps nonces from racing:
+ * - transactions are paced across all wallets at `ARKIV_WRITES_PER_SECOND`
+ *   (default 10; each write costs several RPC calls: nonce, gas, send, receipt)
+ * - rate-limit errors are retried with jittered exponential backoff
+ * - creates and extensions queued while a transaction is in flight are
+ *   coalesced into a single `mutateEntities` transaction, and sent again one
+ *   by one if it failed without writing anything
+ */
+
+const WRITES_PER_SECOND = Number(process.env.ARKIV_WRITES_PER_SECOND) || 10;
+const MAX_BATCH_SIZE = 20;
+const MAX_RATE_LIMIT_RETRIES = 6;
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 15000;
+
+export type WriteQueueStats = {
+  depth: number; // writes waiting to be sent
+  inFlight: number; // writes in transactions currently being sent
+  sent: number;
+  coalesced: number; // writes that shared a transaction with an earlier one
+  rateLimitRetries: number;
+  failed: number;
+};
+
+type QueuedWrite =
+  | { kind: 'create'; params: CreateEntityParameters; resolve: (result: CreateEntityReturnType) => void; reject: (error: unknown) => void }
+  | { kind: 'extend'; params: ExtendEntityParameters; resolve: (result: ExtendEntityReturnType) => void; reject: (error: unknown) => void }
+  | { kind: 'mutate'; params: MutateEntitiesParameters; resolve: (result: MutateEntitiesReturnType) => void; reject: (error: unknown) => void };
+
+type WriteLane = {
+  privateKey: `0x${string}`;
+  pending: QueuedWrite[];
+  draining: boolean;
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Reads after a write should see it without waiting for the entity event
+function invalidateAfterWrite(write: QueuedWrite) {
+  if (write.kind === 'create') {
+    invalidateForWrite({ creates: [write.params] });
+  } else if (write.kind === 'extend') {
+    invalidateForWrite({ entityKeys: [write.params.entityKey] });
+  } else {
+    const { creates = [], updates = [], deletes = [], extensions = [], ownershipChanges = [] } = write.params;
+    invalidateForWrite({
+      creates: [...creates, ...updates],
+      entityKeys: [...updates, ...deletes, ...extensions, ...ownershipChanges].map(change => change.entityKey),
+    });
+  }
+}
+
+/**
+ * True for the RPC's rate-limit responses, wherever viem nested them.
+ */
+export function isRateLimitError(error: any): boolean {
+  for (let e = error, depth = 0; e && depth < 8; e = e.cause, depth++) {
+    if (e.status === 429 || e.code === -32016) return true;
+    if (typeof e.message === 'string' && /rate limit/i.test(e.message)) return true;
+    if (typeof e.details === 'string' && /rate limit/i.test(e.details)) return true;
+  }
+  return false;
+}
+
+/**
+ * True when a failed write certainly left nothing on chain, so sending its
+ * writes again can't duplicate them: viem failed to build, estimate or send
+ * the transaction (`TransactionExecutionError`), or it was mined but reverted.
+ * A timeout may hide a transaction that went through, so it never counts. The
+ * memory backend applies writes all-or-nothing.
+ */
+function failedWithoutWriting(error: any): boolean {
+  if (getBackend().name === 'memory') return true;
+  let rejected = false;
+  for (let e = error, depth = 0; e && depth < 8; e = e.cause, depth++) {
+    if (e.name === 'TimeoutError' || e.name === 'WaitForTransactionReceiptTimeoutError') return false;
+    if (e.name === 'TransactionExecutionError' || e.name === 'TransactionReceiptRevertedError') rejected = true;
+  }
+  return rejected;
+}
+
+class WriteQueue {
+  private lanes = new Map<string, WriteLane>();
+  private nextSlotAt = 0;
+  private inFlight = 0;
+  private counters = { sent: 0, coalesced: 0, rateLimitRetries: 0, failed: 0 };
+
+  enqueue(privateKey: `0x${string}`, write: QueuedWrite) {
+    const wallet = privateKeyToAccount(privateKey).address.toLowerCase();
+    let lane = this.lanes.get(wallet);
+    if (!lane) {
+      lane = { privateKey, pending: [], draining: false };
+      this.lanes.set(wallet, lane);
+    }
+    lane.pending.push(write);
+    if (!lane.draining) {
+      this.drain(lane);
+    }
+  }
+
+  stats(): WriteQueueStats {
+    let depth = 0;
+    this.lanes.forEach(lane => { depth += lane.pending.length; });
+    return { depth, inFlight: this.inFlight, ...this.counters };
+  }
+
+  private async drain(lane: WriteLane) {
+    lane.draining = true;
+    try {
+      while (lane.pending.length > 0) {
+        const batch = this.takeBatch(lane);
+        this.inFlight += batch.length;
+        try {
+          await this.sendBatch(lane.privateKey, batch);
+        } finally {
+          this.inFlight -= batch.length;
+        }
+      }
+    } finally {
+      lane.draining = false;
+    }
+  }
+
+  // A raw mutateEntities call goes out alone; creates and extensions are coalesced
+  private takeBatch(lane: WriteLane): QueuedWrite[] {
+    if (lane.pending[0].kind === 'mutate') {
+      return lane.pending.splice(0, 1);
+    }
+    let size = 0;
+    while (size < lane.pending.length && size < MAX_BATCH_SIZE && lane.pending[size].kind !== 'mutate') {
+      size++;
+    }
+    return lane.pending.splice(0, size);
+  }
+
+  private async sendBatch(privateKey: `0x${string}`, batch: QueuedWrite[]) {
+    try {
+      if (batch.length === 1) {
+        await this.sendOne(privateKey, batch[0]);
+        return;
+      }
+
+      const creates = batch.filter(write => write.kind === 'create');
+      const extensions = batch.filter(write => write.kind === 'extend');
+      const result = await this.send(() => getBackend().getWalletClient(privateKey).mutateEntities({
+        creates: creates.map(write => write.params as CreateEntityParameters),
+        extensions: extensions.map(write => write.params as ExtendEntityParameters),
+      }));
+      batch.forEach(invalidateAfterWrite);
+      this.counters.coalesced += batch.length - 1;
+      creates.forEach((write, i) => {
+        (write.resolve as (r: CreateEntityReturnType) => void)({ entityKey: result.createdEntities[i], txHash: result.txHash });
+      });
+      extensions.forEach(write => {
+        const { entityKey } = write.params as ExtendEntityParameters;
+        (write.resolve as (r: ExtendEntityReturnType) => void)({ entityKey, txHash: result.txHash });
+      });
+    } catch (error) {
+      // One bad write should not fail the writes it was coalesced with, but
+      // they are only sent again when the batch surely wrote nothing
+      if (batch.length === 1 || !failedWithoutWriting(error)) {
+        this.counters.failed += batch.length;
+        batch.forEach(write => write.reject(error));
+        return;
+      }
+      console.error(`[writeQueue] Batch of ${batch.length} writes failed, sending them one by one:`, error);
+      for (const write of batch) {
+        try {
+          await this.sendOne(privateKey, write);
+        } catch (e) {
+          this.counters.failed++;
+          write.reject(e);
+        }
+      }
+    }
+  }
+
+  private async sendOne(privateKey: `0x${string}`, write: QueuedWrite) {
+    const walletClient = getBackend().getWalletClient(privateKey);
+    if (write.kind === 'create') {
+      const result = await this.send(() => walletClient.createEntity(write.params));
+      invalidateAfterWrite(write);
+      write.resolve(result);
+    } else if (write.kind === 'extend') {
+      const result = await this.send(() => walletClient.extendEntity(write.params));
+      invalidateAfterWrite(write);
+      write.resolve(result);
+    } else {
+      const result = await this.send(() => walletClient.mutateEntities(write.params));
+      invalidateAfterWrite(write);
+      write.resolve(result);
+    }
+  }
+
+  private async send<T>(fn: () => Promise<T>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      await this.waitForSlot();
+      try {
+        const result = await fn();
+        this.counters.sent++;
+        return result;
+      } catch (error) {
+        if (!isRateLimitError(error) || attempt >= MAX_RATE_LIMIT_RETRIES) {
+          throw error;
+        }
+        this.counters.rateLimitRetries++;
+        // Full jitter, so concurrent processes don't retry in lockstep
+        const backoff = Math.random() * Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt);
+        console.warn(`[writeQueue] Rate limited, retrying in ${Math.round(backoff)}ms (attempt ${attempt + 1}/${MAX_RATE_LIMIT_RETRIES})`);
+        await sleep(backoff);
+      }
+    }
+  }
+
+  // Space transactions at least 1/WRITES_PER_SECOND apart across all wallets
+  private async waitForSlot() {
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlotAt);
+    this.nextSlotAt = slot + 1000 / WRITES_PER_SECOND;
+    if (slot > now) {
+      await sleep(slot - now);
+    }
+  }
+}
+
+declare global {
+  var __mentorGraphWriteQueue: WriteQueue | undefined;
+}
+
+// One queue per process, however many bundles load this module
+function getWriteQueue(): WriteQueue {
+  if (!globalThis.__mentorGraphWriteQueue) {
+    globalThis.__mentorGraphWriteQueue = new WriteQueue();
+  }
+  return globalThis.__mentorGraphWriteQueue;
+}
+
+export function getWriteQueueStats(): WriteQueueStats {
+  return getWriteQueue().stats();
+}
+
+/**
+ * Wallet client whose writes go through the shared write queue.
+ */
+export function getWalletClientFromPrivateKey(privateKey: `0x${string}`): ArkivWalletClient {
+  return {
+    createEntity: (params) => new Promise((resolve, reject) => {
+      getWriteQueue().enqueue(privateKey, { kind: 'create', params, resolve, reject });
+    }),
+    extendEntity: (params) => new Promise((resolve, reject) => {
+      getWriteQueue().enqueue(privateKey, { kind: 'extend', params, resolve, reject });
+    }),
+    mutateEntities: (params) => new Promise((resolve, reject) => {
+      getWriteQueue().enqueue(privateKey, { kind: 'mutate', params, resolve, reject });
+    }),
+  };
+}
+
+/**
+ * Wallet client for a write: the caller's own if given (e.g. one preparing
+ * writes for the user's wallet to sign), otherwise the server key's.
+ */
+export function resolveWalletClient({ privateKey, walletClient }: {
+  privateKey?: `0x${string}`;
+  walletClient?: ArkivWalletClient;
+}): ArkivWalletClient {
+  if (walletClient) return walletClient;
+  if (!privateKey) {
+    throw new Error('Either privateKey or walletClient is required to write');
+  }
+  return getWalletClientFromPrivateKey(privateKey);
 }
 
 // Client-side: Create wallet client from MetaMask
@@ -37,11 +413,10 @@ export function getWalletClientFromMetaMask(account: `0x${string}`) {
   if (typeof window === 'undefined' || !window.ethereum) {
     throw new Error('MetaMask not available - this function must be called in browser context');
   }
-  
+
   return createWalletClient({
     chain: mendoza,
     transport: custom(window.ethereum),
     account,
   });
 }
-
@@ -0,0 +1,129 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  collectTxHashes,
+  decodeEntities,
+  decodeEntity,
+  decodePayload,
+  encodeEntity,
+  EntityCodecError,
+  readAttributes,
+  SCHEMA_VERSION,
+  tryDecodeEntity,
+} from './codec';
+
+const WALLET = '0x' + 'ab'.repeat(20);
+
+function asStored(key: string, params: ReturnType<typeof encodeEntity>) {
+  return { key, attributes: params.attributes, payload: params.payload };
+}
+
+test('encoded entities are tagged and decode back to the same payload', () => {
+  const params = encodeEntity('ask', {
+    attributes: [{ key: 'wallet', value: WALLET }, { key: 'skill', value: 'rust' }],
+    payload: { message: 'Help me with lifetimes' },
+    expiresIn: 3600,
+  });
+
+  assert.equal(params.contentType, 'application/json');
+  assert.equal(params.expiresIn, 3600);
+  assert.deepEqual(params.attributes.slice(0, 2), [
+    { key: 'type', value: 'ask' },
+    { key: 'schemaVersion', value: String(SCHEMA_VERSION) },
+  ]);
+
+  const decoded = decodeEntity('ask', asStored('0x01', params));
+  assert.equal(decoded.key, '0x01');
+  assert.equal(decoded.type, 'ask');
+  assert.equal(decoded.schemaVersion, SCHEMA_VERSION);
+  assert.equal(decoded.attributes.skill, 'rust');
+  assert.deepEqual(decoded.payload, { message: 'Help me with lifetimes' });
+});
+
+test('callers cannot override the type or schema version', () => {
+  const params = encodeEntity('ask', {
+    attributes: [
+      { key: 'type', value: 'offer' },
+      { key: 'schemaVersion', value: '99' },
+      { key: 'wallet', value: WALLET },
+      { key: 'skill', value: 'go' },
+    ],
+    payload: {},
+    expiresIn: 60,
+  });
+  assert.equal(readAttributes(params).type, 'ask');
+  assert.equal(readAttributes(params).schemaVersion, String(SCHEMA_VERSION));
+});
+
+test('encoding rejects entities that do not match their schema', () => {
+  assert.throws(() => encodeEntity('ask', {
+    attributes: [{ key: 'wallet', value: WALLET }],
+    payload: {},
+    expiresIn: 60,
+  }), (e: unknown) => e instanceof EntityCodecError && /missing attribute\(s\) skill/.test(e.message));
+
+  assert.throws(() => encodeEntity('ask', {
+    attributes: [{ key: 'wallet', value: WALLET }, { key: 'skill', value: 'go' }],
+    payload: { message: 42 as any },
+    expiresIn: 60,
+  }), /payload field message should be string/);
+});
+
+test('decoding checks the type, the payload and the schema version', () => {
+  const params = encodeEntity('ask', {
+    attributes: [{ key: 'wallet', value: WALLET }, { key: 'skill', value: 'go' }],
+    payload: {},
+    expiresIn: 60,
+  });
+
+  assert.throws(() => decodeEntity('offer', asStored('0x01', params)), /unexpected type ask/);
+  assert.throws(() => decodeEntity('ask', { ...asStored('0x01', params), payload: '[1]' }), /invalid payload/);
+  assert.throws(() => decodeEntity('ask', { ...asStored('0x01', params), key: undefined }), /missing entity key/);
+
+  const future = {
+    ...asStored('0x01', params),
+    attributes: params.attributes.map(attr => attr.key === 'schemaVersion' ? { ...attr, value: String(SCHEMA_VERSION + 1) } : attr),
+  };
+  assert.throws(() => decodeEntity('ask', future), /unsupported schemaVersion/);
+});
+
+test('untagged entities decode as version 1 and a missing payload as empty', () => {
+  const decoded = decodeEntity('ask', {
+    key: '0x02',
+    attributes: { wallet: WALLET, skill: 'zig' },
+  });
+  assert.equal(decoded.schemaVersion, 1);
+  assert.deepEqual(decoded.payload, {});
+  assert.deepEqual(decodePayload({ payload: new TextEncoder().encode('  ') }), {});
+});
+
+test('malformed entities are reported and skipped', () => {
+  const reported: EntityCodecError[] = [];
+  const decoded = decodeEntities('ask', [
+    { key: '0x01', attributes: { wallet: WALLET, skill: 'go' } },
+    { key: '0x02', attributes: { wallet: WALLET } },
+  ], error => reported.push(error));
+
+  assert.deepEqual(decoded.map(d => d.key), ['0x01']);
+  assert.equal(reported.length, 1);
+  assert.equal(reported[0].entityKey, '0x02');
+});
+
+test('tryDecodeEntity returns null for a malformed entity', () => {
+  const original = console.error;
+  console.error = () => {};
+  try {
+    assert.equal(tryDecodeEntity('ask', { key: '0x03', attributes: {} }), null);
+  } finally {
+    console.error = original;
+  }
+});
+
+test('txHash companions map to the entity they refer to', () => {
+  const companion = encodeEntity('ask_txhash', {
+    attributes: [{ key: 'askKey', value: '0xa5c' }],
+    payload: { txHash: '0xfeed' },
+    expiresIn: 60,
+  });
+  assert.deepEqual(collectTxHashes('ask_txhash', [asStored('0x04', companion)]), { '0xa5c': '0xfeed' });
+});
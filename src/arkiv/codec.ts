@@ -0,0 +1,617 @@
+import type { CreateEntityParameters } from "@arkiv-network/sdk"
+
+/**
+ * Typed codec for every Arkiv entity type MentorGraph reads or writes.
+ *
+ * Each entity type has one schema describing the attributes it must carry and
+ * the shape of its JSON payload. Writers go through `encodeEntity`, which tags
+ * the entity with `type` and `schemaVersion`; readers go through `decodeEntity`
+ * / `decodeEntities`, which reject malformed entities instead of mapping them
+ * to empty strings.
+ */
+
+export const SCHEMA_VERSION = 1;
+
+export type Attribute = { key: string; value: string };
+
+export type ContactLinks = {
+  twitter?: string;
+  github?: string;
+  telegram?: string;
+  discord?: string;
+};
+
+export type ProfilePayload = {
+  wallet?: string;
+  displayName?: string;
+  username?: string;
+  profileImage?: string;
+  bio?: string;
+  bioShort?: string;
+  bioLong?: string;
+  skills?: string;
+  skillsArray?: string[];
+  timezone?: string;
+  languages?: string[];
+  contactLinks?: ContactLinks;
+  seniority?: 'beginner' | 'intermediate' | 'advanced' | 'expert';
+  domainsOfInterest?: string[];
+  mentorRoles?: string[];
+  learnerRoles?: string[];
+  spaceId?: string;
+  createdAt?: string;
+  lastActiveTimestamp?: string;
+  sessionsCompleted?: number;
+  sessionsGiven?: number;
+  sessionsReceived?: number;
+  avgRating?: number;
+  npsScore?: number;
+  topSkillsUsage?: Array<{ skill: string; count: number }>;
+  peerTestimonials?: Array<{ text: string; timestamp: string; fromWallet: string }>;
+  // Legacy profiles stored trust edges as a plain list of wallets
+  trustEdges?: Array<{ toWallet: string; strength: number; createdAt: string } | string>;
+  communityAffiliations?: string[];
+  reputationScore?: number;
+  // Key of the older revision this profile republishes, if it is a revert
+  revertedFrom?: string;
+  txHash?: string;
+};
+
+export type AskPayload = {
+  message?: string;
+  wallet?: string;
+  skill?: string;
+  spaceId?: string;
+  createdAt?: string;
+  status?: string;
+  txHash?: string;
+};
+
+export type OfferPayload = AskPayload & {
+  availabilityWindow?: string;
+};
+
+export type ListingStatusPayload = {
+  changedAt?: string;
+  sessionKey?: string;
+  reason?: string;
+};
+
+export type SessionPayload = {
+  sessionDate?: string;
+  duration?: number;
+  notes?: string;
+  feedbackKey?: string;
+  status?: string;
+};
+
+export type SessionConfirmationPayload = {
+  confirmedAt?: string;
+};
+
+export type SessionRejectionPayload = {
+  rejectedAt?: string;
+};
+
+export type SessionCompletionPayload = {
+  completedAt?: string;
+  notes?: string;
+};
+
+// Calling off a scheduled session; `late` is derived from `cancelledAt` (see sessions.ts)
+export type SessionCancellationPayload = {
+  reason?: string;
+  cancelledAt?: string;
+};
+
+export type SessionReschedulePayload = {
+  sessionDate?: string;
+  duration?: number;
+  previousSessionDate?: string;
+  note?: string;
+};
+
+export type SessionRescheduleResponsePayload = {
+  respondedAt?: string;
+};
+
+// Archive of a completed session, kept long after the session itself expires
+export type SessionRecordPayload = {
+  duration?: number;
+  notes?: string;
+  sessionTxHash?: string;
+  confirmedBy?: string[];
+  completedBy?: string[];
+  completedAt?: string;
+  feedbackKeys?: string[];
+  revision?: number; // The session's revision when archived, for calendar feeds
+  noShows?: string[]; // Set instead of the completion fields when a participant never joined
+  // Set instead of the completion fields when the session was cancelled
+  cancellation?: {
+    cancelledBy: string;
+    reason: string;
+    cancelledAt: string;
+    late: boolean;
+  };
+};
+
+// A participant joining or leaving the session's meeting, as seen by the app
+// (see recordSessionPresence in sessions.ts)
+export type SessionPresencePayload = {
+  at?: string;
+};
+
+export type SessionJitsiPayload = {
+  videoProvider?: string;
+  // Legacy: older entities published the room publicly; rooms are now derived
+  // from a server secret and these are ignored (src/lib/video.ts)
+  videoRoomName?: string;
+  videoJoinUrl?: string;
+  videoJwtToken?: string;
+  generatedAt?: string;
+};
+
+export type FeedbackPayload = {
+  rating?: number;
+  npsScore?: number;
+  text?: string;
+  skills?: string[];
+  wouldRecommend?: boolean;
+};
+
+export type TrustEdgePayload = {
+  strength?: number;
+  context?: string;
+  sessionKey?: string;
+};
+
+// When a wallet can be booked; times are wall-clock in each slot's IANA timezone
+export type AvailabilityPayload = {
+  weekly?: Array<{ day: number; start: string; end: string; timezone: string }>;
+  oneOff?: Array<{ date: string; start: string; end: string; timezone: string }>;
+};
+
+// Busy time imported from the wallet's own calendar, as UTC intervals
+export type BusyCalendarPayload = {
+  blocks?: Array<{ start: string; end: string }>;
+  source?: string; // Name of the imported file
+};
+
+export type SpacePayload = {
+  description?: string;
+  askTtlSeconds?: number;
+  offerTtlSeconds?: number;
+};
+
+// `*_txhash` companions are no longer written (see txHashes.ts) but are still
+// read for entities created before the hash became derivable
+export type TxHashPayload = {
+  txHash: string;
+};
+
+export interface EntityPayloads {
+  space: SpacePayload;
+  user_profile: ProfilePayload;
+  user_profile_txhash: TxHashPayload;
+  ask: AskPayload;
+  ask_txhash: TxHashPayload;
+  ask_status: ListingStatusPayload;
+  offer: OfferPayload;
+  offer_txhash: TxHashPayload;
+  offer_status: ListingStatusPayload;
+  availability: AvailabilityPayload;
+  busy_calendar: BusyCalendarPayload;
+  session: SessionPayload;
+  session_txhash: TxHashPayload;
+  session_confirmation: SessionConfirmationPayload;
+  session_rejection: SessionRejectionPayload;
+  session_completion: SessionCompletionPayload;
+  session_cancellation: SessionCancellationPayload;
+  session_reschedule: SessionReschedulePayload;
+  session_reschedule_response: SessionRescheduleResponsePayload;
+  session_record: SessionRecordPayload;
+  session_jitsi: SessionJitsiPayload;
+  session_presence: SessionPresencePayload;
+  feedback: FeedbackPayload;
+  feedback_txhash: TxHashPayload;
+  trust_edge: TrustEdgePayload;
+  trust_edge_txhash: TxHashPayload;
+}
+
+export type EntityType = keyof EntityPayloads;
+
+export type TxHashEntityType = {
+  [T in EntityType]: EntityPayloads[T] extends TxHashPayload ? T : never
+}[EntityType];
+
+type FieldKind = 'string' | 'number' | 'boolean' | 'string[]' | 'array' | 'object';
+
+type EntitySchema = {
+  // Attributes every entity of this type was written with
+  requiredAttributes: string[];
+  // Payload fields that must be present
+  requiredPayload?: string[];
+  // Type checks for payload fields, applied only when the field is set
+  payloadFields: Record<string, FieldKind>;
+  // For *_txhash companions: the attribute holding the primary entity key
+  refAttribute?: string;
+};
+
+const txHashSchema = (refAttribute: string): EntitySchema => ({
+  requiredAttributes: [refAttribute],
+  requiredPayload: ['txHash'],
+  payloadFields: { txHash: 'string' },
+  refAttribute,
+});
+
+const listingStatusSchema = (refAttribute: string): EntitySchema => ({
+  requiredAttributes: [refAttribute, 'status', 'changedBy'],
+  payloadFields: { changedAt: 'string', sessionKey: 'string', reason: 'string' },
+});
+
+export const ENTITY_SCHEMAS: Record<EntityType, EntitySchema> = {
+  space: {
+    requiredAttributes: ['spaceId', 'name', 'createdBy'],
+    payloadFields: { description: 'string', askTtlSeconds: 'number', offerTtlSeconds: 'number' },
+  },
+  user_profile: {
+    requiredAttributes: ['wallet', 'displayName'],
+    payloadFields: {
+      displayName: 'string',
+      username: 'string',
+      profileImage: 'string',
+      bio: 'string',
+      bioShort: 'string',
+      bioLong: 'string',
+      skills: 'string',
+      skillsArray: 'string[]',
+      timezone: 'string',
+      languages: 'string[]',
+      contactLinks: 'object',
+      seniority: 'string',
+      domainsOfInterest: 'string[]',
+      mentorRoles: 'string[]',
+      learnerRoles: 'string[]',
+      sessionsCompleted: 'number',
+      sessionsGiven: 'number',
+      sessionsReceived: 'number',
+      avgRating: 'number',
+      npsScore: 'number',
+      topSkillsUsage: 'array',
+      peerTestimonials: 'array',
+      trustEdges: 'array',
+      communityAffiliations: 'string[]',
+      reputationScore: 'number',
+      revertedFrom: 'string',
+    },
+  },
+  user_profile_txhash: txHashSchema('profileKey'),
+  ask: {
+    requiredAttributes: ['wallet', 'skill'],
+    payloadFields: { message: 'string' },
+  },
+  ask_txhash: txHashSchema('askKey'),
+  ask_status: listingStatusSchema('askKey'),
+  offer: {
+    requiredAttributes: ['wallet', 'skill'],
+    payloadFields: { message: 'string', availabilityWindow: 'string' },
+  },
+  availability: {
+    requiredAttributes: ['wallet'],
+    payloadFields: { weekly: 'array', oneOff: 'array' },
+  },
+  busy_calendar: {
+    requiredAttributes: ['wallet'],
+    payloadFields: { blocks: 'array', source: 'string' },
+  },
+  offer_txhash: txHashSchema('offerKey'),
+  offer_status: listingStatusSchema('offerKey'),
+  session: {
+    requiredAttributes: ['mentorWallet', 'learnerWallet', 'sessionDate'],
+    payloadFields: { sessionDate: 'string', duration: 'number', notes: 'string', feedbackKey: 'string' },
+  },
+  session_txhash: txHashSchema('sessionKey'),
+  session_confirmation: {
+    requiredAttributes: ['sessionKey', 'confirmedBy'],
+    payloadFields: { confirmedAt: 'string' },
+  },
+  session_rejection: {
+    requiredAttributes: ['sessionKey', 'rejectedBy'],
+    payloadFields: { rejectedAt: 'string' },
+  },
+  session_completion: {
+    requiredAttributes: ['sessionKey', 'completedBy'],
+    payloadFields: { completedAt: 'string', notes: 'string' },
+  },
+  session_cancellation: {
+    requiredAttributes: ['sessionKey', 'cancelledBy'],
+    payloadFields: { reason: 'string', cancelledAt: 'string' },
+  },
+  session_reschedule: {
+    requiredAttributes: ['sessionKey', 'proposedBy', 'sessionDate'],
+    payloadFields: { sessionDate: 'string', duration: 'number', previousSessionDate: 'string', note: 'string' },
+  },
+  session_reschedule_response: {
+    requiredAttributes: ['rescheduleKey', 'sessionKey', 'respondedBy', 'response'],
+    payloadFields: { respondedAt: 'string' },
+  },
+  session_record: {
+    requiredAttributes: ['sessionKey', 'mentorWallet', 'learnerWallet', 'sessionDate'],
+    payloadFields: {
+      duration: 'number',
+      notes: 'string',
+      sessionTxHash: 'string',
+      confirmedBy: 'string[]',
+      completedBy: 'string[]',
+      completedAt: 'string',
+      feedbackKeys: 'string[]',
+      revision: 'number',
+      noShows: 'string[]',
+      cancellation: 'object',
+    },
+  },
+  session_jitsi: {
+    requiredAttributes: ['sessionKey'],
+    payloadFields: {
+      videoProvider: 'string',
+      videoRoomName: 'string',
+      videoJoinUrl: 'string',
+      videoJwtToken: 'string',
+      generatedAt: 'string',
+    },
+  },
+  session_presence: {
+    requiredAttributes: ['sessionKey', 'wallet', 'event'],
+    payloadFields: { at: 'string' },
+  },
+  feedback: {
+    requiredAttributes: ['sessionKey', 'fromWallet', 'toWallet'],
+    payloadFields: { rating: 'number', npsScore: 'number', text: 'string', skills: 'string[]', wouldRecommend: 'boolean' },
+  },
+  feedback_txhash: txHashSchema('feedbackKey'),
+  trust_edge: {
+    requiredAttributes: ['fromWallet', 'toWallet'],
+    payloadFields: { strength: 'number', context: 'string', sessionKey: 'string' },
+  },
+  trust_edge_txhash: txHashSchema('trustEdgeKey'),
+};
+
+export class EntityCodecError extends Error {
+  entityType: string;
+  entityKey?: string;
+
+  constructor(entityType: string, message: string, entityKey?: string) {
+    super(`Malformed ${entityType} entity${entityKey ? ` ${entityKey}` : ''}: ${message}`);
+    this.name = 'EntityCodecError';
+    this.entityType = entityType;
+    this.entityKey = entityKey;
+  }
+}
+
+export type DecodedEntity<T extends EntityType> = {
+  key: string;
+  type: T;
+  schemaVersion: number;
+  attributes: Record<string, string>;
+  payload: EntityPayloads[T];
+  // Raw entity as returned by the client, for metadata the codec doesn't model
+  raw: any;
+};
+
+/**
+ * Normalise entity attributes (array of `{ key, value }` or plain object) into a record.
+ */
+export function readAttributes(entity: any): Record<string, string> {
+  const attrs = entity?.attributes || {};
+  const record: Record<string, string> = {};
+  if (Array.isArray(attrs)) {
+    attrs.forEach((attr: any) => {
+      if (attr?.key !== undefined && attr.value !== undefined && attr.value !== null) {
+        record[attr.key] = String(attr.value);
+      }
+    });
+  } else {
+    Object.entries(attrs).forEach(([key, value]) => {
+      if (value !== undefined && value !== null) {
+        record[key] = String(value);
+      }
+    });
+  }
+  return record;
+}
+
+/**
+ * Read a single attribute, returning '' when it is missing.
+ */
+export function getAttr(entity: any, key: string): string {
+  return readAttributes(entity)[key] || '';
+}
+
+/**
+ * Decode an entity's JSON payload. A missing payload (e.g. a query without
+ * `withPayload`) decodes to `{}`; a payload that isn't a JSON object throws.
+ */
+export function decodePayload(entity: any): Record<string, unknown> {
+  const raw = entity?.payload;
+  if (raw === undefined || raw === null) return {};
+
+  let text: string;
+  if (raw instanceof Uint8Array) {
+    text = new TextDecoder().decode(raw);
+  } else if (typeof raw === 'string') {
+    text = raw;
+  } else if (typeof raw === 'object') {
+    return raw;
+  } else {
+    throw new Error(`unsupported payload type ${typeof raw}`);
+  }
+
+  if (text.trim() === '') return {};
+  const parsed = JSON.parse(text);
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('payload is not a JSON object');
+  }
+  return parsed;
+}
+
+function matchesKind(value: unknown, kind: FieldKind): boolean {
+  switch (kind) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && !isNaN(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'string[]':
+      return Array.isArray(value) && value.every(v => typeof v === 'string');
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return typeof value === 'object' && !Array.isArray(value);
+  }
+}
+
+function validate(type: EntityType, attributes: Record<string, string>, payload: Record<string, unknown>, key?: string) {
+  const schema = ENTITY_SCHEMAS[type];
+  if (!schema) {
+    throw new EntityCodecError(type, 'unknown entity type', key);
+  }
+
+  const missingAttrs = schema.requiredAttributes.filter(attr => !attributes[attr]);
+  if (missingAttrs.length > 0) {
+    throw new EntityCodecError(type, `missing attribute(s) ${missingAttrs.join(', ')}`, key);
+  }
+
+  const missingPayload = (schema.requiredPayload || []).filter(field => payload[field] === undefined || payload[field] === null);
+  if (missingPayload.length > 0) {
+    throw new EntityCodecError(type, `missing payload field(s) ${missingPayload.join(', ')}`, key);
+  }
+
+  for (const [field, kind] of Object.entries(schema.payloadFields)) {
+    const value = payload[field];
+    if (value === undefined || value === null) continue;
+    if (!matchesKind(value, kind)) {
+      throw new EntityCodecError(type, `payload field ${field} should be ${kind}`, key);
+    }
+  }
+}
+
+/**
+ * Build `createEntity` parameters for an entity type, validating against its schema
+ * and tagging it with `type` and `schemaVersion`.
+ */
+export function encodeEntity<T extends EntityType>(
+  type: T,
+  {
+    attributes,
+    payload,
+    expiresIn,
+  }: {
+    attributes: Attribute[];
+    payload: EntityPayloads[T];
+    expiresIn: number;
+  }
+): CreateEntityParameters {
+  const tagged: Attribute[] = [
+    { key: 'type', value: type },
+    { key: 'schemaVersion', value: String(SCHEMA_VERSION) },
+    ...attributes.filter(attr => attr.key !== 'type' && attr.key !== 'schemaVersion'),
+  ];
+
+  const record: Record<string, string> = {};
+  tagged.forEach(attr => { record[attr.key] = attr.value; });
+  validate(type, record, payload as Record<string, unknown>);
+
+  return {
+    payload: new TextEncoder().encode(JSON.stringify(payload)),
+    contentType: 'application/json',
+    attributes: tagged,
+    expiresIn,
+  };
+}
+
+/**
+ * Decode and validate a single entity. Throws `EntityCodecError` when the entity
+ * is not of the expected type or doesn't match its schema.
+ */
+export function decodeEntity<T extends EntityType>(type: T, entity: any): DecodedEntity<T> {
+  const key = entity?.key ? String(entity.key) : undefined;
+  if (!key) {
+    throw new EntityCodecError(type, 'missing entity key');
+  }
+
+  const attributes = readAttributes(entity);
+  if (attributes.type && attributes.type !== type) {
+    throw new EntityCodecError(type, `unexpected type ${attributes.type}`, key);
+  }
+
+  let payload: Record<string, unknown>;
+  try {
+    payload = decodePayload(entity);
+  } catch (e: any) {
+    throw new EntityCodecError(type, `invalid payload (${e?.message || e})`, key);
+  }
+
+  validate(type, attributes, payload, key);
+
+  // Entities written before schema tagging are treated as version 1
+  const schemaVersion = attributes.schemaVersion ? parseInt(attributes.schemaVersion, 10) : 1;
+  if (isNaN(schemaVersion) || schemaVersion > SCHEMA_VERSION) {
+    throw new EntityCodecError(type, `unsupported schemaVersion ${attributes.schemaVersion}`, key);
+  }
+
+  return {
+    key,
+    type,
+    schemaVersion,
+    attributes,
+    payload: payload as EntityPayloads[T],
+    raw: entity,
+  };
+}
+
+/**
+ * Decode a list of entities, reporting and skipping malformed ones.
+ */
+export function decodeEntities<T extends EntityType>(
+  type: T,
+  entities: any[],
+  onMalformed: (error: EntityCodecError) => void = reportMalformedEntity
+): DecodedEntity<T>[] {
+  const decoded: DecodedEntity<T>[] = [];
+  entities.forEach(entity => {
+    try {
+      decoded.push(decodeEntity(type, entity));
+    } catch (e) {
+      if (e instanceof EntityCodecError) {
+        onMalformed(e);
+      } else {
+        throw e;
+      }
+    }
+  });
+  return decoded;
+}
+
+/**
+ * Decode a single entity, returning null (and reporting) when it is malformed.
+ */
+export function tryDecodeEntity<T extends EntityType>(type: T, entity: any): DecodedEntity<T> | null {
+  return decodeEntities(type, [entity])[0] || null;
+}
+
+/**
+ * Build a primaryKey -> txHash map from `*_txhash` companion entities.
+ */
+export function collectTxHashes(type: TxHashEntityType, entities: any[]): Record<string, string> {
+  const refAttribute = ENTITY_SCHEMAS[type].refAttribute!;
+  const txHashMap: Record<string, string> = {};
+  decodeEntities(type, entities).forEach(companion => {
+    txHashMap[companion.attributes[refAttribute]] = companion.payload.txHash;
+  });
+  return txHashMap;
+}
+
+export function reportMalformedEntity(error: EntityCodecError) {
+  console.error(`[arkiv] ${error.message}`);
+}
@@ -0,0 +1,40 @@
+import type { ArkivPublicClient } from "./client"
+
+/**
+ * Entity expiry helpers.
+ *
+ * Arkiv records expiry as a block number (`expiresAtBlock`). Converting it to
+ * wall-clock time needs the current block and block duration, which callers
+ * fetch once per request with `getBlockTiming` and pass around.
+ */
+
+export type BlockTiming = {
+  currentBlock: bigint;
+  blockDuration: number; // seconds
+  fetchedAt: number; // ms timestamp the timing was read at
+};
+
+export async function getBlockTiming(publicClient: ArkivPublicClient): Promise<BlockTiming> {
+  const { currentBlock, blockDuration } = await publicClient.getBlockTiming();
+  return { currentBlock, blockDuration, fetchedAt: Date.now() };
+}
+
+/**
+ * Seconds until the entity expires (negative once expired), or undefined when
+ * the entity was read without expiry metadata.
+ */
+export function getRemainingSeconds(entity: { expiresAtBlock?: bigint }, timing: BlockTiming): number | undefined {
+  if (entity.expiresAtBlock === undefined || entity.expiresAtBlock === null) return undefined;
+  const blocksLeft = Number(BigInt(entity.expiresAtBlock) - timing.currentBlock);
+  const elapsed = (Date.now() - timing.fetchedAt) / 1000;
+  return Math.floor(blocksLeft * timing.blockDuration - elapsed);
+}
+
+/**
+ * ISO timestamp the entity expires at, or undefined without expiry metadata.
+ */
+export function getExpiresAt(entity: { expiresAtBlock?: bigint }, timing: BlockTiming): string | undefined {
+  if (entity.expiresAtBlock === undefined || entity.expiresAtBlock === null) return undefined;
+  const blocksLeft = Number(BigInt(entity.expiresAtBlock) - timing.currentBlock);
+  return new Date(timing.fetchedAt + blocksLeft * timing.blockDuration * 1000).toISOString();
+}
@@ -1,5 +1,11 @@
 import { eq } from "@arkiv-network/sdk/query"
-import { getPublicClient, getWalletClientFromPrivateKey } from "./client"
+import { getPublicClient, resolveWalletClient, ArkivWalletClient } from "./client"
+import { decodeEntities, encodeEntity, DecodedEntity, FeedbackPayload } from "./codec"
+import { collectPages, fetchPage, mergePages, Page, PageParams } from "./pagination"
+import { fetchTxHashes } from "./txHashes"
+import { tryDecodeVerifiedEntity, verifyEntities } from "./verification"
+import { resolveSpace } from "./spaces"
+import { SPACE_ID } from "../config"
 
 export type Feedback = {
   key: string;
@@ -17,6 +23,25 @@ export type Feedback = {
   txHash?: string;
 }
 
+export function mapFeedback(decoded: DecodedEntity<'feedback'>, txHashMap: Record<string, string> = {}): Feedback {
+  const { attributes: attrs, payload } = decoded;
+  return {
+    key: decoded.key,
+    sessionKey: attrs.sessionKey,
+    fromWallet: attrs.fromWallet,
+    toWallet: attrs.toWallet,
+    role: (attrs.role || 'learner') as Feedback['role'],
+    spaceId: attrs.spaceId || SPACE_ID,
+    createdAt: attrs.createdAt || '',
+    rating: payload.rating || undefined,
+    npsScore: payload.npsScore || undefined,
+    text: payload.text || undefined,
+    skills: payload.skills || undefined,
+    wouldRecommend: payload.wouldRecommend || undefined,
+    txHash: txHashMap[decoded.key],
+  };
+}
+
 export async function createFeedback({
   sessionKey,
   fromWallet,
@@ -28,6 +53,8 @@ export async function createFeedback({
   skills,
   wouldRecommend,
   privateKey,
+  walletClient: providedWalletClient,
+  spaceId,
 }: {
   sessionKey: string;
   fromWallet: string;
@@ -38,14 +65,15 @@ export async function createFeedback({
   text?: string;
   skills?: string[];
   wouldRecommend?: boolean;
-  privateKey: `0x${string}`;
+  privateKey?: `0x${string}`;
+  walletClient?: ArkivWalletClient; // signs instead of privateKey
+  spaceId?: string; // space of the session
 }): Promise<{ key: string; txHash: string }> {
-  const walletClient = getWalletClientFromPrivateKey(privateKey);
-  const enc = new TextEncoder();
-  const spaceId = 'local-dev';
+  const walletClient = resolveWalletClient({ privateKey, walletClient: providedWalletClient });
+  const space = await resolveSpace(spaceId);
   const createdAt = new Date().toISOString();
 
-  const payload = {
+  const payload: FeedbackPayload = {
     rating: rating || undefined,
     npsScore: npsScore || undefined,
     text: text || '',
@@ -53,167 +81,79 @@ export async function createFeedback({
     wouldRecommend: wouldRecommend || undefined,
   };
 
-  const { entityKey, txHash } = await walletClient.createEntity({
-    payload: enc.encode(JSON.stringify(payload)),
-    contentType: 'application/json',
+  const { entityKey, txHash } = await walletClient.createEntity(encodeEntity('feedback', {
+    payload,
     attributes: [
-      { key: 'type', value: 'feedback' },
       { key: 'sessionKey', value: sessionKey },
       { key: 'fromWallet', value: fromWallet },
       { key: 'toWallet', value: toWallet },
       { key: 'role', value: role },
-      { key: 'spaceId', value: spaceId },
+      { key: 'spaceId', value: space.spaceId },
       { key: 'createdAt', value: createdAt },
     ],
     expiresIn: 31536000, // 1 year (feedback is long-lived)
-  });
-
-  // Store txHash in a separate entity for verifiability
-  await walletClient.createEntity({
-    payload: enc.encode(JSON.stringify({
-      txHash,
-    })),
-    contentType: 'application/json',
-    attributes: [
-      { key: 'type', value: 'feedback_txhash' },
-      { key: 'feedbackKey', value: entityKey },
-      { key: 'sessionKey', value: sessionKey },
-      { key: 'fromWallet', value: fromWallet },
-      { key: 'toWallet', value: toWallet },
-      { key: 'spaceId', value: spaceId },
-    ],
-    expiresIn: 31536000,
-  });
+  }));
 
   return { key: entityKey, txHash };
 }
 
-export async function listFeedback(params?: { 
+type FeedbackListParams = {
   sessionKey?: string;
   fromWallet?: string; 
   toWallet?: string; 
   role?: 'mentor' | 'learner';
   spaceId?: string;
-}): Promise<Feedback[]> {
+};
+
+export async function listFeedbackPage(params: FeedbackListParams & PageParams = {}): Promise<Page<Feedback>> {
   const publicClient = getPublicClient();
   const query = publicClient.buildQuery();
   let queryBuilder = query.where(eq('type', 'feedback'));
   
-  if (params?.spaceId) {
+  if (params.spaceId) {
     queryBuilder = queryBuilder.where(eq('spaceId', params.spaceId));
   }
-  if (params?.sessionKey) {
+  if (params.sessionKey) {
     queryBuilder = queryBuilder.where(eq('sessionKey', params.sessionKey));
   }
-  if (params?.fromWallet) {
+  if (params.fromWallet) {
     queryBuilder = queryBuilder.where(eq('fromWallet', params.fromWallet));
   }
-  if (params?.toWallet) {
+  if (params.toWallet) {
     queryBuilder = queryBuilder.where(eq('toWallet', params.toWallet));
   }
-  if (params?.role) {
+  if (params.role) {
     queryBuilder = queryBuilder.where(eq('role', params.role));
   }
   
-  const [result, txHashResult] = await Promise.all([
-    queryBuilder
-      .withAttributes(true)
-      .withPayload(true)
-      .limit(100)
-      .fetch(),
-    publicClient.buildQuery()
-      .where(eq('type', 'feedback_txhash'))
-      .withAttributes(true)
-      .withPayload(true)
-      .limit(100)
-      .fetch(),
-  ]);
-
-  // Build txHash map
-  const txHashMap: Record<string, string> = {};
-  txHashResult.entities.forEach((entity: any) => {
-    const attrs = entity.attributes || {};
-    const getAttr = (key: string): string => {
-      if (Array.isArray(attrs)) {
-        const attr = attrs.find((a: any) => a.key === key);
-        return String(attr?.value || '');
-      }
-      return String(attrs[key] || '');
-    };
-    const feedbackKey = getAttr('feedbackKey');
-    if (feedbackKey) {
-      try {
-        const payload = entity.payload instanceof Uint8Array
-          ? new TextDecoder().decode(entity.payload)
-          : typeof entity.payload === 'string'
-          ? entity.payload
-          : JSON.stringify(entity.payload);
-        const decoded = JSON.parse(payload);
-        if (decoded.txHash) {
-          txHashMap[feedbackKey] = decoded.txHash;
-        }
-      } catch (e) {
-        console.error('Error decoding txHash payload:', e);
-      }
-    }
-  });
+  const result = await fetchPage(queryBuilder.withAttributes(true).withPayload(true).withMetadata(true), params);
+  const decoded = await verifyEntities(decodeEntities('feedback', result.entities));
 
-  return result.entities.map((entity: any) => {
-    let payload: any = {};
-    try {
-      if (entity.payload) {
-        const decoded = entity.payload instanceof Uint8Array
-          ? new TextDecoder().decode(entity.payload)
-          : typeof entity.payload === 'string'
-          ? entity.payload
-          : JSON.stringify(entity.payload);
-        payload = JSON.parse(decoded);
-      }
-    } catch (e) {
-      console.error('Error decoding payload:', e);
-    }
+  const txHashMap = await fetchTxHashes(publicClient, 'feedback_txhash', decoded.map(d => d.raw));
 
-    const attrs = entity.attributes || {};
-    const getAttr = (key: string): string => {
-      if (Array.isArray(attrs)) {
-        const attr = attrs.find((a: any) => a.key === key);
-        return String(attr?.value || '');
-      }
-      return String(attrs[key] || '');
-    };
+  return {
+    items: decoded.map(d => mapFeedback(d, txHashMap)),
+    cursor: result.cursor,
+  };
+}
 
-    return {
-      key: entity.key,
-      sessionKey: getAttr('sessionKey'),
-      fromWallet: getAttr('fromWallet'),
-      toWallet: getAttr('toWallet'),
-      role: (getAttr('role') || 'learner') as Feedback['role'],
-      spaceId: getAttr('spaceId') || 'local-dev',
-      createdAt: getAttr('createdAt') || '',
-      rating: payload.rating || undefined,
-      npsScore: payload.npsScore || undefined,
-      text: payload.text || undefined,
-      skills: payload.skills || undefined,
-      wouldRecommend: payload.wouldRecommend || undefined,
-      txHash: txHashMap[entity.key],
-    };
-  });
+export async function listFeedback(params?: FeedbackListParams): Promise<Feedback[]> {
+  return collectPages(page => listFeedbackPage({ ...params, ...page }));
 }
 
-export async function listFeedbackForWallet(wallet: string): Promise<Feedback[]> {
+export async function listFeedbackForWalletPage(wallet: string, page: PageParams = {}, spaceId?: string): Promise<Page<Feedback>> {
   // Get feedback where wallet is either giving or receiving feedback
-  const [given, received] = await Promise.all([
-    listFeedback({ fromWallet: wallet }),
-    listFeedback({ toWallet: wallet }),
-  ]);
+  return mergePages({
+    given: p => listFeedbackPage({ fromWallet: wallet, spaceId, ...p }),
+    received: p => listFeedbackPage({ toWallet: wallet, spaceId, ...p }),
+  }, page);
+}
 
-  // Combine and deduplicate by key
-  const feedbackMap = new Map<string, Feedback>();
-  [...given, ...received].forEach(feedback => {
-    feedbackMap.set(feedback.key, feedback);
-  });
+export async function listFeedbackForWallet(wallet: string, spaceId?: string): Promise<Feedback[]> {
+  const feedback = await collectPages(page => listFeedbackForWalletPage(wallet, page, spaceId));
 
-  return Array.from(feedbackMap.values());
+  // Deduplicate by key across pages
+  return Array.from(new Map(feedback.map(f => [f.key, f])).values());
 }
 
 export async function listFeedbackForSession(sessionKey: string): Promise<Feedback[]> {
@@ -228,74 +168,14 @@ export async function getFeedbackByKey(key: string): Promise<Feedback | null> {
     .where(eq('key', key))
     .withAttributes(true)
     .withPayload(true)
+    .withMetadata(true)
     .limit(1)
     .fetch();
 
   if (result.entities.length === 0) return null;
 
-  const entity = result.entities[0];
-  let payload: any = {};
-  try {
-    if (entity.payload) {
-      const decoded = entity.payload instanceof Uint8Array
-        ? new TextDecoder().decode(entity.payload)
-        : typeof entity.payload === 'string'
-        ? entity.payload
-        : JSON.stringify(entity.payload);
-      payload = JSON.parse(decoded);
-    }
-  } catch (e) {
-    console.error('Error decoding payload:', e);
-  }
-
-  const attrs = entity.attributes || {};
-  const getAttr = (key: string): string => {
-    if (Array.isArray(attrs)) {
-      const attr = attrs.find((a: any) => a.key === key);
-      return String(attr?.value || '');
-    }
-    return String(attrs[key] || '');
-  };
-
-  // Get txHash
-  const txHashResult = await publicClient.buildQuery()
-    .where(eq('type', 'feedback_txhash'))
-    .where(eq('feedbackKey', entity.key))
-    .withAttributes(true)
-    .withPayload(true)
-    .limit(1)
-    .fetch();
+  const decoded = await tryDecodeVerifiedEntity('feedback', result.entities[0]);
+  if (!decoded) return null;
 
-  let txHash: string | undefined;
-  if (txHashResult.entities.length > 0) {
-    try {
-      const txHashEntity = txHashResult.entities[0];
-      const txHashPayload = txHashEntity.payload instanceof Uint8Array
-        ? new TextDecoder().decode(txHashEntity.payload)
-        : typeof txHashEntity.payload === 'string'
-        ? txHashEntity.payload
-        : JSON.stringify(txHashEntity.payload);
-      const decoded = JSON.parse(txHashPayload);
-      txHash = decoded.txHash;
-    } catch (e) {
-      console.error('Error decoding txHash:', e);
-    }
-  }
-
-  return {
-    key: entity.key,
-    sessionKey: getAttr('sessionKey'),
-    fromWallet: getAttr('fromWallet'),
-    toWallet: getAttr('toWallet'),
-    role: (getAttr('role') || 'learner') as Feedback['role'],
-    spaceId: getAttr('spaceId') || 'local-dev',
-    createdAt: getAttr('createdAt') || '',
-    rating: payload.rating || undefined,
-    npsScore: payload.npsScore || undefined,
-    text: payload.text || undefined,
-    skills: payload.skills || undefined,
-    wouldRecommend: payload.wouldRecommend || undefined,
-    txHash,
-  };
+  return mapFeedback(decoded, await fetchTxHashes(publicClient, 'feedback_txhash', [decoded.raw]));
 }
-
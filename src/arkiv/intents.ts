@@ -0,0 +1,150 @@
+import { mendoza } from "@arkiv-network/sdk/chains"
+import { bytesToHex, keccak256, recoverTypedDataAddress, toBytes } from "viem"
+import type { PreparedWrite } from "./preparedWrites"
+
+/**
+ * EIP-712 signed intents for relayed writes.
+ *
+ * The user signs an `EntityIntent` covering the entity type, a hash of its
+ * attributes, a hash of its payload and a nonce; the relayer (server key)
+ * submits the entity with the intent recorded in `intent*` attributes. Anyone
+ * reading the entity can recover who authorised it from those attributes
+ * alone. This module is shared by the browser and the server.
+ */
+
+export const INTENT_DOMAIN = {
+  name: 'Mentor Graph',
+  version: '1',
+  chainId: mendoza.id,
+} as const;
+
+export const INTENT_TYPES = {
+  EntityIntent: [
+    { name: 'wallet', type: 'address' },
+    { name: 'entityType', type: 'string' },
+    { name: 'attributesHash', type: 'bytes32' },
+    { name: 'payloadHash', type: 'bytes32' },
+    { name: 'nonce', type: 'bytes32' },
+    { name: 'deadline', type: 'uint64' },
+  ],
+} as const;
+
+// Attributes that record the intent; they are not covered by `attributesHash`
+export const INTENT_ATTRIBUTES = ['intentSigner', 'intentNonce', 'intentDeadline', 'intentSignature'];
+
+/**
+ * Entity types the relayer accepts, with the attribute naming the wallet the
+ * entity speaks for. That wallet must be the one that signed the intent.
+ */
+export const RELAYABLE_TYPES: Record<string, string> = {
+  user_profile: 'wallet',
+  ask: 'wallet',
+  offer: 'wallet',
+  availability: 'wallet',
+  busy_calendar: 'wallet',
+  session_confirmation: 'confirmedBy',
+  session_rejection: 'rejectedBy',
+  session_completion: 'completedBy',
+  session_cancellation: 'cancelledBy',
+  session_reschedule: 'proposedBy',
+  session_reschedule_response: 'respondedBy',
+  feedback: 'fromWallet',
+};
+
+type IntentAttribute = { key: string; value: string | number };
+
+export type EntityIntent = {
+  wallet: `0x${string}`;
+  entityType: string;
+  attributesHash: `0x${string}`;
+  payloadHash: `0x${string}`;
+  nonce: `0x${string}`;
+  deadline: bigint;
+};
+
+export function attributeValue(attributes: IntentAttribute[], key: string): string | undefined {
+  const attr = attributes.find(a => a.key === key);
+  return attr === undefined ? undefined : String(attr.value);
+}
+
+// Order-independent: attributes are sorted by key and values compared as strings
+export function hashAttributes(attributes: IntentAttribute[]): `0x${string}` {
+  const canonical = attributes
+    .filter(attr => !INTENT_ATTRIBUTES.includes(attr.key))
+    .map(attr => [attr.key, String(attr.value)])
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return keccak256(toBytes(JSON.stringify(canonical)));
+}
+
+export function hashPayload(payload: Uint8Array | `0x${string}`): `0x${string}` {
+  return keccak256(typeof payload === 'string' ? payload : bytesToHex(payload));
+}
+
+export function buildIntent(
+  write: { attributes: IntentAttribute[]; payload: Uint8Array | `0x${string}` },
+  wallet: string,
+  nonce: `0x${string}`,
+  deadline: number
+): EntityIntent {
+  return {
+    wallet: wallet as `0x${string}`,
+    entityType: attributeValue(write.attributes, 'type') || '',
+    attributesHash: hashAttributes(write.attributes),
+    payloadHash: hashPayload(write.payload),
+    nonce,
+    deadline: BigInt(deadline),
+  };
+}
+
+/**
+ * Record a signed intent in the write's attributes.
+ */
+export function withIntentAttributes(
+  write: PreparedWrite,
+  { wallet, nonce, deadline, signature }: { wallet: string; nonce: string; deadline: number; signature: string }
+): PreparedWrite {
+  return {
+    ...write,
+    attributes: [
+      ...write.attributes.filter(attr => !INTENT_ATTRIBUTES.includes(attr.key)),
+      { key: 'intentSigner', value: wallet.toLowerCase() },
+      { key: 'intentNonce', value: nonce },
+      { key: 'intentDeadline', value: String(deadline) },
+      { key: 'intentSignature', value: signature },
+    ],
+  };
+}
+
+/**
+ * Wallet that signed the intent recorded in an entity (lowercased), or null
+ * if it has none or the signature doesn't match its contents.
+ */
+export async function recoverIntentSigner(entity: {
+  attributes: IntentAttribute[];
+  payload?: Uint8Array | `0x${string}`;
+}): Promise<string | null> {
+  const signer = attributeValue(entity.attributes, 'intentSigner');
+  const nonce = attributeValue(entity.attributes, 'intentNonce');
+  const deadline = Number(attributeValue(entity.attributes, 'intentDeadline'));
+  const signature = attributeValue(entity.attributes, 'intentSignature');
+  if (!signer || !nonce || !signature || !Number.isInteger(deadline)) return null;
+
+  try {
+    const intent = buildIntent(
+      { attributes: entity.attributes, payload: entity.payload || new Uint8Array() },
+      signer,
+      nonce as `0x${string}`,
+      deadline
+    );
+    const recovered = await recoverTypedDataAddress({
+      domain: INTENT_DOMAIN,
+      types: INTENT_TYPES,
+      primaryType: 'EntityIntent',
+      message: intent,
+      signature: signature as `0x${string}`,
+    });
+    return recovered.toLowerCase() === signer.toLowerCase() ? signer.toLowerCase() : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,259 @@
+import { privateKeyToAccount } from "viem/accounts"
+import { getPublicClient, getWalletClientFromPrivateKey, ArkivPublicClient, ArkivWalletClient } from "./client"
+import { decodeEntities, encodeEntity, getAttr } from "./codec"
+import { getBlockTiming, getExpiresAt, getRemainingSeconds } from "./expiry"
+import { fetchCompanions } from "./pagination"
+import { pinCreationTxHash } from "./txHashes"
+import { verifyEntities } from "./verification"
+import { SPACE_ID } from "../config"
+
+/**
+ * Lifecycle of asks and offers.
+ *
+ * Listings are immutable, so status changes are recorded as `ask_status` /
+ * `offer_status` entities pointing at the listing. The newest transition wins;
+ * a listing without any transition keeps the status it was created with.
+ * Live listings can also be extended in place instead of being reposted.
+ */
+
+export type ListingKind = 'ask' | 'offer';
+
+export const LISTING_LIFECYCLES = {
+  ask: {
+    statusType: 'ask_status',
+    txHashType: 'ask_txhash',
+    refAttribute: 'askKey',
+    openStatus: 'open',
+    closedStatuses: ['fulfilled', 'withdrawn'],
+  },
+  offer: {
+    statusType: 'offer_status',
+    txHashType: 'offer_txhash',
+    refAttribute: 'offerKey',
+    openStatus: 'active',
+    closedStatuses: ['filled', 'withdrawn'],
+  },
+} as const;
+
+export type AskStatus = 'open' | 'fulfilled' | 'withdrawn';
+export type OfferStatus = 'active' | 'filled' | 'withdrawn';
+
+export type ListingStatus = {
+  status: string;
+  changedAt: string;
+  changedBy: string;
+  sessionKey?: string;
+  reason?: string;
+};
+
+/**
+ * Latest status transition for each listing key that has one.
+ */
+export async function fetchListingStatuses(
+  publicClient: ArkivPublicClient,
+  kind: ListingKind,
+  listingKeys: string[]
+): Promise<Record<string, ListingStatus>> {
+  const { statusType, refAttribute } = LISTING_LIFECYCLES[kind];
+  const entities = await fetchCompanions(publicClient, statusType, refAttribute, listingKeys);
+
+  const statusMap: Record<string, ListingStatus> = {};
+  (await verifyEntities(decodeEntities(statusType, entities))).forEach(({ attributes, payload }) => {
+    const listingKey = attributes[refAttribute];
+    const changedAt = payload.changedAt || attributes.createdAt || '';
+    const existing = statusMap[listingKey];
+    if (existing && existing.changedAt > changedAt) return;
+    statusMap[listingKey] = {
+      status: attributes.status,
+      changedAt,
+      changedBy: attributes.changedBy,
+      sessionKey: payload.sessionKey || attributes.sessionKey || undefined,
+      reason: payload.reason || undefined,
+    };
+  });
+
+  return statusMap;
+}
+
+export function isListingOpen(kind: ListingKind, status: string): boolean {
+  return status === LISTING_LIFECYCLES[kind].openStatus;
+}
+
+/**
+ * Open listings can be closed (fulfilled/filled or withdrawn); closed
+ * listings can only be reopened.
+ */
+export function canTransitionListing(kind: ListingKind, from: string, to: string): boolean {
+  const { openStatus, closedStatuses } = LISTING_LIFECYCLES[kind];
+  const closed: readonly string[] = closedStatuses;
+  if (from === openStatus) return closed.includes(to);
+  if (closed.includes(from)) return to === openStatus;
+  return false;
+}
+
+export async function recordListingStatus({
+  kind,
+  listingKey,
+  wallet,
+  status,
+  sessionKey,
+  reason,
+  privateKey,
+}: {
+  kind: ListingKind;
+  listingKey: string;
+  wallet: string;
+  status: string;
+  sessionKey?: string;
+  reason?: string;
+  privateKey: `0x${string}`;
+}): Promise<{ key: string; txHash: string; status: string }> {
+  const { statusType, refAttribute, openStatus } = LISTING_LIFECYCLES[kind];
+  const publicClient = getPublicClient();
+
+  let listing;
+  try {
+    listing = await publicClient.getEntity(listingKey as `0x${string}`);
+  } catch {
+    listing = null;
+  }
+  if (!listing || getAttr(listing, 'type') !== kind) {
+    throw new Error(`${kind} ${listingKey} not found (it may have expired)`);
+  }
+
+  const owner = getAttr(listing, 'wallet');
+  if (owner.toLowerCase() !== wallet.toLowerCase()) {
+    throw new Error(`Only the wallet that created this ${kind} can change its status`);
+  }
+
+  const current = (await fetchListingStatuses(publicClient, kind, [listingKey]))[listingKey]?.status
+    || getAttr(listing, 'status')
+    || openStatus;
+  if (!canTransitionListing(kind, current, status)) {
+    throw new Error(`Cannot change ${kind} from '${current}' to '${status}'`);
+  }
+
+  // The transition only matters while the listing exists, so let it expire with it
+  const remainingSeconds = getRemainingSeconds(listing, await getBlockTiming(publicClient)) ?? 0;
+  if (remainingSeconds <= 0) {
+    throw new Error(`${kind} ${listingKey} has expired`);
+  }
+
+  const walletClient = getWalletClientFromPrivateKey(privateKey);
+  const changedAt = new Date().toISOString();
+  const attributes = [
+    { key: refAttribute, value: listingKey },
+    { key: 'status', value: status },
+    { key: 'changedBy', value: wallet },
+    { key: 'spaceId', value: getAttr(listing, 'spaceId') || SPACE_ID },
+    { key: 'createdAt', value: changedAt },
+  ];
+  if (sessionKey) {
+    attributes.push({ key: 'sessionKey', value: sessionKey });
+  }
+
+  const { entityKey, txHash } = await walletClient.createEntity(encodeEntity(statusType, {
+    payload: {
+      changedAt,
+      sessionKey,
+      reason,
+    },
+    attributes,
+    expiresIn: remainingSeconds,
+  }));
+
+  return { key: entityKey, txHash, status };
+}
+
+// Upper bound for a single extension, to keep accidental huge TTLs (and their cost) out
+export const MAX_EXTENSION_HOURS = 24 * 7;
+
+/**
+ * Prolong a live listing by `hours`, together with its txhash and status
+ * companions so they keep resolving for as long as the listing does. Each
+ * entity is extended by whoever owns it: the server key, or (for listings
+ * created with the user's wallet) `walletClient`, e.g. one preparing the
+ * extension for the user to sign.
+ */
+export async function extendListing({
+  kind,
+  listingKey,
+  wallet,
+  hours,
+  privateKey,
+  walletClient,
+}: {
+  kind: ListingKind;
+  listingKey: string;
+  wallet: string;
+  hours: number;
+  privateKey: `0x${string}`;
+  walletClient?: ArkivWalletClient; // signs for entities `wallet` owns
+}): Promise<{ key: string; txHash: string; expiresAt?: string }> {
+  if (!Number.isFinite(hours) || hours <= 0 || hours > MAX_EXTENSION_HOURS) {
+    throw new Error(`hours must be greater than 0 and at most ${MAX_EXTENSION_HOURS}`);
+  }
+
+  const { statusType, txHashType, refAttribute } = LISTING_LIFECYCLES[kind];
+  const publicClient = getPublicClient();
+
+  let listing;
+  try {
+    listing = await publicClient.getEntity(listingKey as `0x${string}`);
+  } catch {
+    listing = null;
+  }
+  if (!listing || getAttr(listing, 'type') !== kind) {
+    throw new Error(`${kind} ${listingKey} not found (it may have expired)`);
+  }
+  if (getAttr(listing, 'wallet').toLowerCase() !== wallet.toLowerCase()) {
+    throw new Error(`Only the wallet that created this ${kind} can extend it`);
+  }
+  const remainingSeconds = getRemainingSeconds(listing, await getBlockTiming(publicClient)) ?? 0;
+  if (remainingSeconds <= 0) {
+    throw new Error(`${kind} ${listingKey} has expired`);
+  }
+
+  const serverWallet = privateKeyToAccount(privateKey).address.toLowerCase();
+  const ownerOf = (entity: { owner?: string }) => String(entity.owner || '').toLowerCase();
+  const listingOwner = ownerOf(listing);
+  const listingSigner = listingOwner === serverWallet
+    ? getWalletClientFromPrivateKey(privateKey)
+    : listingOwner === wallet.toLowerCase() ? walletClient : undefined;
+  if (!listingSigner) {
+    throw new Error(listingOwner === wallet.toLowerCase()
+      ? `This ${kind} was created with your wallet, so only your wallet can extend it; switch to wallet signing`
+      : `This ${kind} was not created by this app and can't be extended here`);
+  }
+
+  const expiresIn = Math.round(hours * 3600);
+  const [txHashCompanions, statusCompanions] = await Promise.all([
+    fetchCompanions(publicClient, txHashType, refAttribute, [listingKey], { withPayload: false }),
+    fetchCompanions(publicClient, statusType, refAttribute, [listingKey], { withPayload: false }),
+  ]);
+
+  const pin = await pinCreationTxHash(publicClient, txHashType, listing, {
+    companions: txHashCompanions,
+    attributes: [
+      { key: 'wallet', value: getAttr(listing, 'wallet') },
+      { key: 'spaceId', value: getAttr(listing, 'spaceId') || SPACE_ID },
+    ],
+    expiresIn: remainingSeconds + expiresIn,
+  });
+
+  // Companions the listing's owner also owns are extended in the listing's
+  // transaction; the server key's own (status changes) in a second one
+  const companions = [...txHashCompanions, ...statusCompanions];
+  const toExtension = (entity: { key: string }) => ({ entityKey: entity.key as `0x${string}`, expiresIn });
+  const { txHash } = await listingSigner.mutateEntities({
+    creates: pin ? [pin] : [],
+    extensions: [listing, ...companions.filter(entity => ownerOf(entity) === listingOwner)].map(toExtension),
+  });
+  const serverCompanions = listingOwner === serverWallet ? [] : companions.filter(entity => ownerOf(entity) === serverWallet);
+  if (serverCompanions.length > 0) {
+    await getWalletClientFromPrivateKey(privateKey).mutateEntities({ extensions: serverCompanions.map(toExtension) });
+  }
+
+  const extended = await publicClient.getEntity(listingKey as `0x${string}`);
+  return { key: listingKey, txHash, expiresAt: getExpiresAt(extended, await getBlockTiming(publicClient)) };
+}
@@ -0,0 +1,142 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { eq, gt, or } from '@arkiv-network/sdk/query';
+import { privateKeyToAccount } from 'viem/accounts';
+import { createMemoryBackend } from './memoryBackend';
+
+const KEY = `0x${'11'.repeat(32)}` as const;
+const OTHER_KEY = `0x${'22'.repeat(32)}` as const;
+
+// Each test gets an empty store
+function freshBackend() {
+  globalThis.__mentorGraphMemoryStore = undefined;
+  return createMemoryBackend();
+}
+
+function entity(type: string, extra: Array<{ key: string; value: string | number }> = [], expiresIn = 3600) {
+  return {
+    payload: new TextEncoder().encode(JSON.stringify({ type })),
+    contentType: 'application/json' as const,
+    attributes: [{ key: 'type', value: type }, ...extra],
+    expiresIn,
+  };
+}
+
+test('created entities can be read back by key and by attributes', async () => {
+  const backend = freshBackend();
+  const wallet = backend.getWalletClient(KEY);
+  const { entityKey, txHash } = await wallet.createEntity(entity('ask', [{ key: 'skill', value: 'rust' }]));
+  await wallet.createEntity(entity('offer', [{ key: 'skill', value: 'rust' }]));
+
+  const client = backend.getPublicClient();
+  const stored = await client.getEntity(entityKey);
+  assert.equal(stored.owner, privateKeyToAccount(KEY).address);
+  assert.deepEqual(stored.toJson(), { type: 'ask' });
+
+  const asks = await client.buildQuery().where(eq('type', 'ask')).withAttributes(true).fetch();
+  assert.deepEqual(asks.entities.map(e => e.key), [entityKey]);
+  assert.deepEqual(asks.entities[0].attributes, [{ key: 'type', value: 'ask' }, { key: 'skill', value: 'rust' }]);
+
+  const either = await client.buildQuery().where(or([eq('type', 'ask'), eq('type', 'offer')])).fetch();
+  assert.equal(either.entities.length, 2);
+  // Attributes and payload only when asked for
+  assert.deepEqual(either.entities[0].attributes, []);
+  assert.equal(either.entities[0].payload, undefined);
+
+  const { hash } = await client.getTransaction({
+    blockNumber: stored.createdAtBlock!,
+    index: Number(stored.transactionIndexInBlock),
+  });
+  assert.equal(hash, txHash);
+});
+
+test('numeric predicates compare numbers', async () => {
+  const backend = freshBackend();
+  const wallet = backend.getWalletClient(KEY);
+  await wallet.createEntity(entity('rating', [{ key: 'score', value: 9 }]));
+  await wallet.createEntity(entity('rating', [{ key: 'score', value: 10 }]));
+
+  const result = await backend.getPublicClient().buildQuery().where(gt('score', 9)).withAttributes(true).fetch();
+  assert.deepEqual(result.entities.map(e => e.attributes[1].value), [10]);
+});
+
+test('queries page with a cursor until the last page', async () => {
+  const backend = freshBackend();
+  const wallet = backend.getWalletClient(KEY);
+  for (let i = 0; i < 5; i++) {
+    await wallet.createEntity(entity('ask', [{ key: 'n', value: String(i) }]));
+  }
+
+  const result = await backend.getPublicClient().buildQuery().where(eq('type', 'ask')).withAttributes(true).limit(2).fetch();
+  const seen = result.entities.map(e => e.attributes[1].value);
+  while (result.hasNextPage()) {
+    await result.next();
+    seen.push(...result.entities.map(e => e.attributes[1].value));
+  }
+  assert.deepEqual(seen, ['0', '1', '2', '3', '4']);
+  await assert.rejects(result.next(), /No more results/);
+});
+
+test('entities expire after expiresIn, and extending pushes that back', async () => {
+  const backend = freshBackend();
+  const wallet = backend.getWalletClient(KEY);
+  const client = backend.getPublicClient();
+  const { entityKey: shortLived } = await wallet.createEntity(entity('ask', [], 60));
+  const { entityKey: extended } = await wallet.createEntity(entity('ask', [], 60));
+  await wallet.extendEntity({ entityKey: extended, expiresIn: 3600 });
+
+  const realNow = Date.now;
+  const later = realNow() + 10 * 60 * 1000;
+  Date.now = () => later;
+  try {
+    await assert.rejects(client.getEntity(shortLived), /not found/);
+    const remaining = await client.buildQuery().where(eq('type', 'ask')).fetch();
+    assert.deepEqual(remaining.entities.map(e => e.key), [extended]);
+  } finally {
+    Date.now = realNow;
+  }
+});
+
+test('mutateEntities writes everything in one transaction or nothing', async () => {
+  const backend = freshBackend();
+  const mine = backend.getWalletClient(KEY);
+  const theirs = backend.getWalletClient(OTHER_KEY);
+  const { entityKey: theirEntity } = await theirs.createEntity(entity('ask'));
+  const { entityKey: myEntity } = await mine.createEntity(entity('ask'));
+
+  const result = await mine.mutateEntities({
+    creates: [entity('offer'), entity('offer')],
+    extensions: [{ entityKey: myEntity, expiresIn: 60 }],
+  });
+  assert.equal(result.createdEntities.length, 2);
+  assert.deepEqual(result.extendedEntities, [myEntity]);
+  const client = backend.getPublicClient();
+  const created = await Promise.all(result.createdEntities.map(key => client.getEntity(key)));
+  assert.equal(created[0].createdAtBlock, created[1].createdAtBlock);
+  assert.equal(created[0].transactionIndexInBlock, created[1].transactionIndexInBlock);
+
+  // Extending someone else's entity fails the whole batch
+  await assert.rejects(mine.mutateEntities({
+    creates: [entity('feedback')],
+    extensions: [{ entityKey: theirEntity, expiresIn: 60 }],
+  }), /is not owned by/);
+  const feedback = await client.buildQuery().where(eq('type', 'feedback')).fetch();
+  assert.equal(feedback.entities.length, 0);
+});
+
+test('subscribers hear about created and extended entities', async () => {
+  const backend = freshBackend();
+  const events: string[] = [];
+  const unsubscribe = await backend.getPublicClient().subscribeEntityEvents({
+    onEntityCreated: event => events.push(`created ${event.entityKey}`),
+    onEntityExpiresInExtended: event => events.push(`extended ${event.entityKey}`),
+  }, 1000);
+
+  const wallet = backend.getWalletClient(KEY);
+  const { entityKey } = await wallet.createEntity(entity('ask'));
+  await wallet.extendEntity({ entityKey, expiresIn: 60 });
+  await new Promise(resolve => setTimeout(resolve, 10));
+  unsubscribe();
+
+  assert.deepEqual(events, [`created ${entityKey}`, `extended ${entityKey}`]);
+});
@@ -0,0 +1,422 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import type { CreateEntityParameters, Entity, MimeType } from "@arkiv-network/sdk"
+import { privateKeyToAccount } from "@arkiv-network/sdk/accounts"
+import type { Predicate } from "@arkiv-network/sdk/query"
+import type {
+  ArkivBackend,
+  ArkivPublicClient,
+  ArkivQueryBuilder,
+  ArkivQueryResult,
+  ArkivWalletClient,
+  EntityEventHandlers,
+} from "./client"
+
+/**
+ * In-memory stand-in for the Arkiv network.
+ *
+ * Supports the subset of Arkiv the app relies on: entity creation with
+ * `expiresIn`, extension, batched mutations, attribute predicates, cursor
+ * pagination, `getEntity`, transaction lookup by block, block timing and
+ * entity events. State lives on `globalThis` so every API route in
+ * the same Next.js process sees the same store; set `ARKIV_MEMORY_FILE` to
+ * persist it to disk and share it with the seed scripts.
+ */
+
+const BLOCK_DURATION_SECONDS = 2;
+
+type StoredEntity = {
+  key: `0x${string}`;
+  owner: `0x${string}`;
+  contentType: MimeType;
+  attributes: Array<{ key: string; value: string | number }>;
+  payload: string; // base64
+  createdAtBlock: number;
+  expiresAtBlock: number;
+  lastModifiedAtBlock?: number;
+  txHash?: `0x${string}`; // creating transaction
+  transactionIndexInBlock?: number;
+};
+
+type MemoryStore = {
+  entities: Map<string, StoredEntity>;
+  subscribers: Set<EntityEventHandlers>;
+  persistPath?: string;
+  genesis: number; // ms timestamp of block 0
+  lastTx?: { block: number; index: number };
+};
+
+declare global {
+  var __mentorGraphMemoryStore: MemoryStore | undefined;
+}
+
+function currentBlock(store: MemoryStore): number {
+  return Math.floor((Date.now() - store.genesis) / (BLOCK_DURATION_SECONDS * 1000));
+}
+
+function randomHex(bytes: number): `0x${string}` {
+  return `0x${crypto.randomBytes(bytes).toString('hex')}`;
+}
+
+/**
+ * Allocate the next simulated transaction (hash, block and index within the block).
+ */
+function nextTransaction(store: MemoryStore): { txHash: `0x${string}`; block: number; index: number } {
+  const block = currentBlock(store);
+  const index = store.lastTx?.block === block ? store.lastTx.index + 1 : 0;
+  store.lastTx = { block, index };
+  return { txHash: randomHex(32), block, index };
+}
+
+function loadStore(persistPath?: string): MemoryStore {
+  const store: MemoryStore = {
+    entities: new Map(),
+    subscribers: new Set(),
+    persistPath,
+    genesis: Date.now(),
+  };
+
+  if (persistPath && fs.existsSync(persistPath)) {
+    try {
+      const snapshot = JSON.parse(fs.readFileSync(persistPath, 'utf8'));
+      store.genesis = snapshot.genesis ?? store.genesis;
+      (snapshot.entities || []).forEach((entity: StoredEntity) => {
+        store.entities.set(entity.key, entity);
+      });
+    } catch (e) {
+      console.error(`[memoryBackend] Could not load ${persistPath}, starting empty:`, e);
+    }
+  }
+
+  return store;
+}
+
+function saveStore(store: MemoryStore) {
+  if (!store.persistPath) return;
+  const snapshot = {
+    genesis: store.genesis,
+    entities: Array.from(store.entities.values()),
+  };
+  fs.writeFileSync(store.persistPath, JSON.stringify(snapshot));
+}
+
+function getStore(persistPath?: string): MemoryStore {
+  if (!globalThis.__mentorGraphMemoryStore) {
+    globalThis.__mentorGraphMemoryStore = loadStore(persistPath);
+  }
+  return globalThis.__mentorGraphMemoryStore;
+}
+
+/**
+ * Drop expired entities and notify subscribers.
+ */
+function sweepExpired(store: MemoryStore) {
+  const block = currentBlock(store);
+  let changed = false;
+  store.entities.forEach((entity, key) => {
+    if (entity.expiresAtBlock <= block) {
+      store.entities.delete(key);
+      changed = true;
+      store.subscribers.forEach(handlers => {
+        handlers.onEntityExpired?.({ entityKey: entity.key, owner: entity.owner });
+      });
+    }
+  });
+  if (changed) saveStore(store);
+}
+
+function toEntity(stored: StoredEntity, { withAttributes = true, withPayload = true } = {}): Entity {
+  const payload = withPayload ? new Uint8Array(Buffer.from(stored.payload, 'base64')) : undefined;
+  return {
+    key: stored.key,
+    contentType: stored.contentType,
+    owner: stored.owner,
+    expiresAtBlock: BigInt(stored.expiresAtBlock),
+    createdAtBlock: BigInt(stored.createdAtBlock),
+    lastModifiedAtBlock: BigInt(stored.lastModifiedAtBlock ?? stored.createdAtBlock),
+    transactionIndexInBlock: BigInt(stored.transactionIndexInBlock ?? 0),
+    operationIndexInTransaction: 0n,
+    payload,
+    attributes: withAttributes ? stored.attributes.map(attr => ({ ...attr })) : [],
+    toText() {
+      return payload ? new TextDecoder().decode(payload) : '';
+    },
+    toJson() {
+      return payload ? JSON.parse(new TextDecoder().decode(payload)) : {};
+    },
+  };
+}
+
+function attributeValue(entity: StoredEntity, key: string): string | number | undefined {
+  if (key === 'key' || key === '$key') return entity.key;
+  if (key === '$owner') return entity.owner;
+  return entity.attributes.find(attr => attr.key === key)?.value;
+}
+
+function compare(a: string | number, b: string | number): number {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a).localeCompare(String(b));
+}
+
+function matches(entity: StoredEntity, predicate: Predicate): boolean {
+  if ('predicates' in predicate) {
+    return predicate.type === 'and'
+      ? predicate.predicates.every(p => matches(entity, p))
+      : predicate.predicates.some(p => matches(entity, p));
+  }
+
+  const value = attributeValue(entity, predicate.key);
+  switch (predicate.type) {
+    case 'not':
+      return value === undefined;
+    case 'eq':
+      return value !== undefined && String(value) === String(predicate.value);
+    case 'neq':
+      return value === undefined || String(value) !== String(predicate.value);
+    case 'gt':
+      return value !== undefined && compare(value, predicate.value) > 0;
+    case 'gte':
+      return value !== undefined && compare(value, predicate.value) >= 0;
+    case 'lt':
+      return value !== undefined && compare(value, predicate.value) < 0;
+    case 'lte':
+      return value !== undefined && compare(value, predicate.value) <= 0;
+  }
+}
+
+class MemoryQueryBuilder implements ArkivQueryBuilder {
+  private _predicates: Predicate[] = [];
+  private _withAttributes = false;
+  private _withPayload = false;
+  private _limit: number | undefined;
+  private _cursor: string | undefined;
+
+  constructor(private store: MemoryStore) {}
+
+  where(predicates: Predicate[] | Predicate) {
+    this._predicates.push(...(Array.isArray(predicates) ? predicates : [predicates]));
+    return this;
+  }
+
+  withAttributes(withAttributes: boolean = true) {
+    this._withAttributes = withAttributes;
+    return this;
+  }
+
+  withPayload(withPayload: boolean = true) {
+    this._withPayload = withPayload;
+    return this;
+  }
+
+  withMetadata(_withMetadata: boolean = true) {
+    // Metadata (owner, blocks) is always included
+    return this;
+  }
+
+  limit(limit: number) {
+    this._limit = limit;
+    return this;
+  }
+
+  cursor(cursor: string) {
+    this._cursor = cursor;
+    return this;
+  }
+
+  async fetch(): Promise<ArkivQueryResult> {
+    sweepExpired(this.store);
+
+    const all = Array.from(this.store.entities.values())
+      .filter(entity => this._predicates.every(p => matches(entity, p)));
+    const offset = this._cursor ? parseInt(this._cursor, 10) || 0 : 0;
+    const end = this._limit !== undefined ? offset + this._limit : all.length;
+    const page = all.slice(offset, end);
+    const nextCursor = end < all.length ? String(end) : undefined;
+
+    const entities = page.map(entity => toEntity(entity, {
+      withAttributes: this._withAttributes,
+      withPayload: this._withPayload,
+    }));
+
+    return new MemoryQueryResult(this, entities, nextCursor);
+  }
+}
+
+class MemoryQueryResult implements ArkivQueryResult {
+  constructor(
+    private builder: MemoryQueryBuilder,
+    public entities: Entity[],
+    private _cursor: string | undefined,
+  ) {}
+
+  get cursor() {
+    return this._cursor;
+  }
+
+  hasNextPage() {
+    return this._cursor !== undefined;
+  }
+
+  async next() {
+    if (this._cursor === undefined) {
+      throw new Error('No more results');
+    }
+    const result = await this.builder.cursor(this._cursor).fetch();
+    this.entities = result.entities;
+    this._cursor = result.cursor;
+  }
+}
+
+export function createMemoryBackend({ persistPath }: { persistPath?: string } = {}): ArkivBackend {
+  const store = getStore(persistPath);
+
+  const publicClient: ArkivPublicClient = {
+    buildQuery: () => new MemoryQueryBuilder(store),
+
+    async getEntity(key) {
+      sweepExpired(store);
+      const stored = store.entities.get(key);
+      if (!stored) {
+        throw new Error(`Entity ${key} not found`);
+      }
+      return toEntity(stored);
+    },
+
+    async getBlockTiming() {
+      return {
+        currentBlock: BigInt(currentBlock(store)),
+        currentBlockTime: Math.floor(Date.now() / 1000),
+        blockDuration: BLOCK_DURATION_SECONDS,
+      };
+    },
+
+    async getTransaction({ blockNumber, index }) {
+      const block = Number(blockNumber);
+      for (const stored of store.entities.values()) {
+        if (stored.txHash && stored.createdAtBlock === block && stored.transactionIndexInBlock === index) {
+          return { hash: stored.txHash };
+        }
+      }
+      throw new Error(`Transaction ${index} in block ${block} not found`);
+    },
+
+    async subscribeEntityEvents(handlers, pollingInterval) {
+      store.subscribers.add(handlers);
+      // Expiry is otherwise only noticed on reads, so poll while someone is listening
+      const timer = setInterval(() => sweepExpired(store), pollingInterval ?? 1000);
+      timer.unref?.();
+      return () => {
+        clearInterval(timer);
+        store.subscribers.delete(handlers);
+      };
+    },
+  };
+
+  return {
+    name: 'memory',
+    getPublicClient: () => publicClient,
+    getWalletClient(privateKey): ArkivWalletClient {
+      const owner = privateKeyToAccount(privateKey).address;
+
+      function create(data: CreateEntityParameters, tx: ReturnType<typeof nextTransaction>): StoredEntity {
+        const block = tx.block;
+        const stored: StoredEntity = {
+          key: randomHex(32),
+          owner,
+          contentType: data.contentType,
+          attributes: data.attributes.map(attr => ({ ...attr })),
+          payload: Buffer.from(data.payload).toString('base64'),
+          createdAtBlock: block,
+          expiresAtBlock: block + Math.max(1, Math.ceil(data.expiresIn / BLOCK_DURATION_SECONDS)),
+          txHash: tx.txHash,
+          transactionIndexInBlock: tx.index,
+        };
+        store.entities.set(stored.key, stored);
+
+        // Deliver asynchronously, like events arriving from a block
+        setTimeout(() => {
+          store.subscribers.forEach(handlers => {
+            handlers.onEntityCreated?.({
+              entityKey: stored.key,
+              owner: stored.owner,
+              expirationBlock: stored.expiresAtBlock,
+              cost: 0n,
+            });
+          });
+        }, 0);
+
+        return stored;
+      }
+
+      function findOwned(entityKey: string): StoredEntity {
+        const stored = store.entities.get(entityKey);
+        if (!stored) {
+          throw new Error(`Entity ${entityKey} not found`);
+        }
+        if (stored.owner.toLowerCase() !== owner.toLowerCase()) {
+          throw new Error(`Entity ${entityKey} is not owned by ${owner}`);
+        }
+        return stored;
+      }
+
+      function extend(stored: StoredEntity, expiresIn: number, tx: ReturnType<typeof nextTransaction>) {
+        const oldExpirationBlock = stored.expiresAtBlock;
+        stored.expiresAtBlock += Math.max(1, Math.ceil(expiresIn / BLOCK_DURATION_SECONDS));
+        stored.lastModifiedAtBlock = tx.block;
+
+        setTimeout(() => {
+          store.subscribers.forEach(handlers => {
+            handlers.onEntityExpiresInExtended?.({
+              entityKey: stored.key,
+              owner: stored.owner,
+              oldExpirationBlock,
+              newExpirationBlock: stored.expiresAtBlock,
+              cost: 0n,
+            });
+          });
+        }, 0);
+      }
+
+      return {
+        async createEntity(data) {
+          const tx = nextTransaction(store);
+          const stored = create(data, tx);
+          saveStore(store);
+          return { entityKey: stored.key, txHash: tx.txHash };
+        },
+
+        async extendEntity({ entityKey, expiresIn }) {
+          sweepExpired(store);
+          const stored = findOwned(entityKey);
+          const tx = nextTransaction(store);
+          extend(stored, expiresIn, tx);
+          saveStore(store);
+          return { entityKey: stored.key, txHash: tx.txHash };
+        },
+
+        // All-or-nothing, like a single transaction; only creates and extensions are supported
+        async mutateEntities({ creates = [], extensions = [], updates, deletes, ownershipChanges }) {
+          if (updates?.length || deletes?.length || ownershipChanges?.length) {
+            throw new Error('The memory backend only supports creates and extensions in mutateEntities');
+          }
+          sweepExpired(store);
+          const toExtend = extensions.map(({ entityKey, expiresIn }) => ({ stored: findOwned(entityKey), expiresIn }));
+
+          const tx = nextTransaction(store);
+          const created = creates.map(data => create(data, tx));
+          toExtend.forEach(({ stored, expiresIn }) => extend(stored, expiresIn, tx));
+          saveStore(store);
+
+          return {
+            txHash: tx.txHash,
+            createdEntities: created.map(stored => stored.key),
+            updatedEntities: [],
+            deletedEntities: [],
+            extendedEntities: toExtend.map(({ stored }) => stored.key),
+            ownershipChanges: [],
+          };
+        },
+      };
+    },
+  };
+}
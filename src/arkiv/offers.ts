@@ -1,7 +1,17 @@
 import { eq } from "@arkiv-network/sdk/query"
-import { getPublicClient, getWalletClientFromPrivateKey } from "./client"
-
-export const OFFER_TTL_SECONDS = 7200;
+import type { Predicate } from "@arkiv-network/sdk/query"
+import { getPublicClient, resolveWalletClient, ArkivWalletClient } from "./client"
+import { decodeEntities, encodeEntity, DecodedEntity } from "./codec"
+import { getBlockTiming, getExpiresAt, BlockTiming } from "./expiry"
+import { extendListing, fetchListingStatuses, isListingOpen, recordListingStatus, ListingStatus } from "./listingStatus"
+import { collectPages, fetchPage, Page, PageParams } from "./pagination"
+import { DEFAULT_OFFER_TTL_SECONDS, resolveSpace } from "./spaces"
+import { fetchTxHashes } from "./txHashes"
+import { verifyEntities } from "./verification"
+import { SPACE_ID } from "../config"
+
+// Default space TTL; other spaces set their own (see spaces.ts)
+export const OFFER_TTL_SECONDS = DEFAULT_OFFER_TTL_SECONDS;
 
 export type Offer = {
   key: string;
@@ -11,9 +21,41 @@ export type Offer = {
   createdAt: string;
   status: string;
   message: string;
-  availabilityWindow: string;
-  ttlSeconds: number;
+  availabilityWindow: string; // Free-text note; bookable times come from the wallet's availability
+  ttlSeconds: number; // Total lifetime, from createdAt to expiresAt
+  expiresAt?: string; // From the entity's expiry block; absent for entities read without metadata
   txHash?: string;
+  sessionKey?: string; // Session that fulfilled this offer, if any
+  statusChangedAt?: string;
+}
+
+export function mapOffer(
+  decoded: DecodedEntity<'offer'>,
+  txHashMap: Record<string, string> = {},
+  statusMap: Record<string, ListingStatus> = {},
+  timing?: BlockTiming
+): Offer {
+  const { attributes: attrs, payload } = decoded;
+  const transition = statusMap[decoded.key];
+  const createdAt = attrs.createdAt || payload.createdAt || '';
+  const expiresAt = timing ? getExpiresAt(decoded.raw, timing) : undefined;
+  return {
+    key: decoded.key,
+    wallet: attrs.wallet,
+    skill: attrs.skill,
+    spaceId: attrs.spaceId || payload.spaceId || SPACE_ID,
+    createdAt,
+    status: transition?.status || attrs.status || payload.status || 'active',
+    message: payload.message || '',
+    availabilityWindow: payload.availabilityWindow || '',
+    ttlSeconds: expiresAt && createdAt
+      ? Math.round((new Date(expiresAt).getTime() - new Date(createdAt).getTime()) / 1000)
+      : OFFER_TTL_SECONDS,
+    expiresAt,
+    txHash: txHashMap[decoded.key] || attrs.txHash || payload.txHash || decoded.raw.txHash || undefined,
+    sessionKey: transition?.sessionKey,
+    statusChangedAt: transition?.changedAt,
+  };
 }
 
 export async function createOffer({
@@ -22,253 +64,162 @@ export async function createOffer({
   message,
   availabilityWindow,
   privateKey,
+  walletClient: providedWalletClient,
   expiresIn,
+  spaceId,
 }: {
   wallet: string;
   skill: string;
   message: string;
   availabilityWindow: string;
-  privateKey: `0x${string}`;
+  privateKey?: `0x${string}`;
+  walletClient?: ArkivWalletClient; // signs instead of privateKey
   expiresIn?: number;
+  spaceId?: string;
 }): Promise<{ key: string; txHash: string }> {
-  const walletClient = getWalletClientFromPrivateKey(privateKey);
-  const enc = new TextEncoder();
-  const spaceId = 'local-dev';
+  const walletClient = resolveWalletClient({ privateKey, walletClient: providedWalletClient });
+  const space = await resolveSpace(spaceId);
   const status = 'active';
   const createdAt = new Date().toISOString();
-  // Use expiresIn if provided and valid, otherwise use default
-  const ttl = (expiresIn !== undefined && expiresIn !== null && typeof expiresIn === 'number' && expiresIn > 0) ? expiresIn : OFFER_TTL_SECONDS;
+  // Use expiresIn if provided and valid, otherwise the space's default
+  const ttl = (expiresIn !== undefined && expiresIn !== null && typeof expiresIn === 'number' && expiresIn > 0) ? expiresIn : space.offerTtlSeconds;
 
-  const { entityKey, txHash } = await walletClient.createEntity({
-    payload: enc.encode(JSON.stringify({
+  const { entityKey, txHash } = await walletClient.createEntity(encodeEntity('offer', {
+    payload: {
       message,
       availabilityWindow,
-    })),
-    contentType: 'application/json',
+    },
     attributes: [
-      { key: 'type', value: 'offer' },
       { key: 'wallet', value: wallet },
       { key: 'skill', value: skill },
-      { key: 'spaceId', value: spaceId },
+      { key: 'spaceId', value: space.spaceId },
       { key: 'createdAt', value: createdAt },
       { key: 'status', value: status },
     ],
     expiresIn: ttl,
-  });
-
-  await walletClient.createEntity({
-    payload: enc.encode(JSON.stringify({
-      txHash,
-    })),
-    contentType: 'application/json',
-    attributes: [
-      { key: 'type', value: 'offer_txhash' },
-      { key: 'offerKey', value: entityKey },
-      { key: 'wallet', value: wallet },
-      { key: 'spaceId', value: spaceId },
-    ],
-    expiresIn: ttl,
-  });
+  }));
 
   return { key: entityKey, txHash };
 }
 
-export async function listOffers(params?: { skill?: string; spaceId?: string }): Promise<Offer[]> {
+/**
+ * Fetch one page of offers matching `where`, with their transaction hashes and
+ * current lifecycle status and expiry.
+ */
+async function fetchOffersPage(where: Predicate[], page: PageParams = {}): Promise<Page<Offer>> {
   const publicClient = getPublicClient();
-  const query = publicClient.buildQuery();
-  let queryBuilder = query.where(eq('type', 'offer')).where(eq('status', 'active'));
-  
-  if (params?.spaceId) {
-    queryBuilder = queryBuilder.where(eq('spaceId', params.spaceId));
-  }
-  
-  const [result, txHashResult] = await Promise.all([
-    queryBuilder.withAttributes(true).withPayload(true).limit(100).fetch(),
-    publicClient.buildQuery()
-      .where(eq('type', 'offer_txhash'))
-      .withAttributes(true)
-      .withPayload(true)
-      .limit(100)
-      .fetch(),
-  ]);
+  const result = await fetchPage(
+    publicClient.buildQuery().where(where).withAttributes(true).withPayload(true).withMetadata(true),
+    page
+  );
+  const decoded = await verifyEntities(decodeEntities('offer', result.entities));
+  const timing = await getBlockTiming(publicClient);
 
-  const txHashMap: Record<string, string> = {};
-  txHashResult.entities.forEach((entity: any) => {
-    const attrs = entity.attributes || {};
-    const getAttr = (key: string): string => {
-      if (Array.isArray(attrs)) {
-        const attr = attrs.find((a: any) => a.key === key);
-        return String(attr?.value || '');
-      }
-      return String(attrs[key] || '');
-    };
-    const offerKey = getAttr('offerKey');
-    if (offerKey) {
-      let payload: any = {};
-      try {
-        if (entity.payload) {
-          const decoded = entity.payload instanceof Uint8Array
-            ? new TextDecoder().decode(entity.payload)
-            : typeof entity.payload === 'string'
-            ? entity.payload
-            : JSON.stringify(entity.payload);
-          payload = JSON.parse(decoded);
-        }
-      } catch (e) {
-        console.error('Error decoding txHash payload:', e);
-      }
-      if (payload.txHash) {
-        txHashMap[offerKey] = payload.txHash;
-      }
-    }
-  });
+  const keys = decoded.map(d => d.key);
 
-  let offers = result.entities.map((entity: any) => {
-    let payload: any = {};
-    try {
-      if (entity.payload) {
-        const decoded = entity.payload instanceof Uint8Array
-          ? new TextDecoder().decode(entity.payload)
-          : typeof entity.payload === 'string'
-          ? entity.payload
-          : JSON.stringify(entity.payload);
-        payload = JSON.parse(decoded);
-      }
-    } catch (e) {
-      console.error('Error decoding payload:', e);
-    }
+  const txHashMap = await fetchTxHashes(publicClient, 'offer_txhash', decoded.map(d => d.raw));
 
-    const attrs = entity.attributes || {};
-    const getAttr = (key: string): string => {
-      if (Array.isArray(attrs)) {
-        const attr = attrs.find((a: any) => a.key === key);
-        return String(attr?.value || '');
-      }
-      return String(attrs[key] || '');
-    };
-    
-    return {
-      key: entity.key,
-      wallet: getAttr('wallet') || payload.wallet || '',
-      skill: getAttr('skill') || payload.skill || '',
-      spaceId: getAttr('spaceId') || payload.spaceId || 'local-dev',
-      createdAt: getAttr('createdAt') || payload.createdAt || '',
-      status: getAttr('status') || payload.status || 'active',
-      message: payload.message || '',
-      availabilityWindow: payload.availabilityWindow || '',
-      ttlSeconds: OFFER_TTL_SECONDS,
-      txHash: txHashMap[entity.key] || getAttr('txHash') || payload.txHash || (entity as any).txHash || undefined,
-    };
-  });
+  const statusMap = await fetchListingStatuses(publicClient, 'offer', keys);
 
-  if (params?.skill) {
+  return {
+    items: decoded.map(d => mapOffer(d, txHashMap, statusMap, timing)),
+    cursor: result.cursor,
+  };
+}
+
+export async function listOffersPage(params: { skill?: string; spaceId?: string } & PageParams = {}): Promise<Page<Offer>> {
+  const where = [eq('type', 'offer'), eq('status', 'active')];
+  if (params.spaceId) {
+    where.push(eq('spaceId', params.spaceId));
+  }
+
+  const page = await fetchOffersPage(where, params);
+
+  // Drop offers that have since been closed or withdrawn
+  page.items = page.items.filter(offer => isListingOpen('offer', offer.status));
+
+  if (params.skill) {
     const skillLower = params.skill.toLowerCase();
-    offers = offers.filter(offer => offer.skill.toLowerCase().includes(skillLower));
+    page.items = page.items.filter(offer => offer.skill.toLowerCase().includes(skillLower));
   }
 
-  return offers;
+  return page;
 }
 
-export async function listOffersForWallet(wallet: string): Promise<Offer[]> {
-  const publicClient = getPublicClient();
-  const query = publicClient.buildQuery();
-  
-  // Use Promise.allSettled to handle timeouts gracefully
-  const [result, txHashResult] = await Promise.allSettled([
-    query
-      .where(eq('type', 'offer'))
-      .where(eq('wallet', wallet))
-      .withAttributes(true)
-      .withPayload(true)
-      .limit(100)
-      .fetch(),
-    publicClient.buildQuery()
-      .where(eq('type', 'offer_txhash'))
-      .where(eq('wallet', wallet))
-      .withAttributes(true)
-      .withPayload(true)
-      .limit(100)
-      .fetch(),
-  ]);
+export async function listOffers(params?: { skill?: string; spaceId?: string }): Promise<Offer[]> {
+  return collectPages(page => listOffersPage({ ...params, ...page }));
+}
 
-  // Handle failures gracefully
-  const offerResult = result.status === 'fulfilled' ? result.value : { entities: [] };
-  const txHashResultValue = txHashResult.status === 'fulfilled' ? txHashResult.value : { entities: [] };
-  
-  if (result.status === 'rejected') {
-    console.error('Error fetching offers for wallet:', result.reason);
+export async function listOffersForWalletPage(wallet: string, page: PageParams = {}, spaceId?: string): Promise<Page<Offer>> {
+  const where = [eq('type', 'offer'), eq('wallet', wallet)];
+  if (spaceId) {
+    where.push(eq('spaceId', spaceId));
   }
-  if (txHashResult.status === 'rejected') {
-    console.error('Error fetching offer_txhash for wallet:', txHashResult.reason);
+  try {
+    return await fetchOffersPage(where, page);
+  } catch (e) {
+    // Handle timeouts gracefully
+    console.error('Error fetching offers for wallet:', e);
+    return { items: [], cursor: null };
   }
+}
 
-  const txHashMap: Record<string, string> = {};
-  txHashResultValue.entities.forEach((entity: any) => {
-    const attrs = entity.attributes || {};
-    const getAttr = (key: string): string => {
-      if (Array.isArray(attrs)) {
-        const attr = attrs.find((a: any) => a.key === key);
-        return String(attr?.value || '');
-      }
-      return String(attrs[key] || '');
-    };
-    const offerKey = getAttr('offerKey');
-    if (offerKey) {
-      let payload: any = {};
-      try {
-        if (entity.payload) {
-          const decoded = entity.payload instanceof Uint8Array
-            ? new TextDecoder().decode(entity.payload)
-            : typeof entity.payload === 'string'
-            ? entity.payload
-            : JSON.stringify(entity.payload);
-          payload = JSON.parse(decoded);
-        }
-      } catch (e) {
-        console.error('Error decoding txHash payload:', e);
-      }
-      if (payload.txHash) {
-        txHashMap[offerKey] = payload.txHash;
-      }
-    }
-  });
+export async function listOffersForWallet(wallet: string, spaceId?: string): Promise<Offer[]> {
+  return collectPages(page => listOffersForWalletPage(wallet, page, spaceId));
+}
 
-  return offerResult.entities.map((entity: any) => {
-    let payload: any = {};
-    try {
-      if (entity.payload) {
-        const decoded = entity.payload instanceof Uint8Array
-          ? new TextDecoder().decode(entity.payload)
-          : typeof entity.payload === 'string'
-          ? entity.payload
-          : JSON.stringify(entity.payload);
-        payload = JSON.parse(decoded);
-      }
-    } catch (e) {
-      console.error('Error decoding payload:', e);
-    }
+export async function fillOffer({
+  offerKey,
+  wallet,
+  sessionKey,
+  privateKey,
+}: {
+  offerKey: string;
+  wallet: string;
+  sessionKey?: string;
+  privateKey: `0x${string}`;
+}): Promise<{ key: string; txHash: string; status: string }> {
+  return recordListingStatus({ kind: 'offer', listingKey: offerKey, wallet, status: 'filled', sessionKey, privateKey });
+}
 
-    const attrs = entity.attributes || {};
-    const getAttr = (key: string): string => {
-      if (Array.isArray(attrs)) {
-        const attr = attrs.find((a: any) => a.key === key);
-        return String(attr?.value || '');
-      }
-      return String(attrs[key] || '');
-    };
-    
-    return {
-      key: entity.key,
-      wallet: getAttr('wallet') || payload.wallet || '',
-      skill: getAttr('skill') || payload.skill || '',
-      spaceId: getAttr('spaceId') || payload.spaceId || 'local-dev',
-      createdAt: getAttr('createdAt') || payload.createdAt || '',
-      status: getAttr('status') || payload.status || 'active',
-      message: payload.message || '',
-      availabilityWindow: payload.availabilityWindow || '',
-      ttlSeconds: OFFER_TTL_SECONDS,
-      txHash: txHashMap[entity.key] || getAttr('txHash') || payload.txHash || (entity as any).txHash || undefined,
-    };
-  });
+export async function withdrawOffer({
+  offerKey,
+  wallet,
+  reason,
+  privateKey,
+}: {
+  offerKey: string;
+  wallet: string;
+  reason?: string;
+  privateKey: `0x${string}`;
+}): Promise<{ key: string; txHash: string; status: string }> {
+  return recordListingStatus({ kind: 'offer', listingKey: offerKey, wallet, status: 'withdrawn', reason, privateKey });
 }
 
+export async function reopenOffer({
+  offerKey,
+  wallet,
+  privateKey,
+}: {
+  offerKey: string;
+  wallet: string;
+  privateKey: `0x${string}`;
+}): Promise<{ key: string; txHash: string; status: string }> {
+  return recordListingStatus({ kind: 'offer', listingKey: offerKey, wallet, status: 'active', privateKey });
+}
+
+export async function extendOffer({
+  offerKey,
+  wallet,
+  hours,
+  privateKey,
+  walletClient,
+}: {
+  offerKey: string;
+  wallet: string;
+  hours: number;
+  privateKey: `0x${string}`;
+  walletClient?: ArkivWalletClient; // extends offers created with the user's wallet
+}): Promise<{ key: string; txHash: string; expiresAt?: string }> {
+  return extendListing({ kind: 'offer', listingKey: offerKey, wallet, hours, privateKey, walletClient });
+}
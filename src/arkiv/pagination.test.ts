@@ -0,0 +1,110 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { eq } from '@arkiv-network/sdk/query';
+import { createMemoryBackend } from './memoryBackend';
+import {
+  clampPageSize,
+  collectPages,
+  decodeCompoundCursor,
+  DEFAULT_PAGE_SIZE,
+  encodeCompoundCursor,
+  fetchAllEntities,
+  fetchPage,
+  MAX_PAGE_SIZE,
+  mergePages,
+  Page,
+  PageParams,
+  parsePageParams,
+} from './pagination';
+
+const KEY = `0x${'11'.repeat(32)}` as const;
+
+async function seededClient(count: number) {
+  globalThis.__mentorGraphMemoryStore = undefined;
+  const backend = createMemoryBackend();
+  const wallet = backend.getWalletClient(KEY);
+  for (let i = 0; i < count; i++) {
+    await wallet.createEntity({
+      payload: new Uint8Array(),
+      contentType: 'application/json',
+      attributes: [{ key: 'type', value: 'ask' }, { key: 'n', value: String(i) }],
+      expiresIn: 3600,
+    });
+  }
+  return backend.getPublicClient();
+}
+
+// A paged list over `items`, with numeric cursors
+function listOf<T>(items: T[]) {
+  return async ({ cursor, pageSize = DEFAULT_PAGE_SIZE }: PageParams): Promise<Page<T>> => {
+    const offset = cursor ? Number(cursor) : 0;
+    const end = offset + pageSize;
+    return { items: items.slice(offset, end), cursor: end < items.length ? String(end) : null };
+  };
+}
+
+test('page sizes default, floor and cap', () => {
+  assert.equal(clampPageSize(undefined), DEFAULT_PAGE_SIZE);
+  assert.equal(clampPageSize(0), DEFAULT_PAGE_SIZE);
+  assert.equal(clampPageSize(NaN), DEFAULT_PAGE_SIZE);
+  assert.equal(clampPageSize(12.7), 12);
+  assert.equal(clampPageSize(10_000), MAX_PAGE_SIZE);
+});
+
+test('fetchPage follows the cursor and ends with a null cursor', async () => {
+  const client = await seededClient(5);
+  const query = () => client.buildQuery().where(eq('type', 'ask')).withAttributes(true);
+
+  const first = await fetchPage(query(), { pageSize: 3 });
+  assert.equal(first.entities.length, 3);
+  assert.ok(first.cursor);
+
+  const second = await fetchPage(query(), { pageSize: 3, cursor: first.cursor! });
+  assert.deepEqual(second.entities.map(e => e.attributes[1].value), ['3', '4']);
+  assert.equal(second.cursor, null);
+});
+
+test('fetchAllEntities reads every page', async () => {
+  const client = await seededClient(7);
+  const entities = await fetchAllEntities(client.buildQuery().where(eq('type', 'ask')), 2);
+  assert.equal(entities.length, 7);
+  assert.equal(new Set(entities.map(e => e.key)).size, 7);
+});
+
+test('collectPages walks a list function to the end', async () => {
+  const items = Array.from({ length: 250 }, (_, i) => i);
+  assert.deepEqual(await collectPages(listOf(items)), items);
+  assert.deepEqual(await collectPages(listOf(items), 7), items);
+});
+
+test('compound cursors round-trip and drop exhausted lists', () => {
+  const cursor = encodeCompoundCursor({ asMentor: '100', asLearner: null });
+  assert.ok(cursor);
+  assert.deepEqual(decodeCompoundCursor(cursor!), { asMentor: '100' });
+  assert.equal(encodeCompoundCursor({ asMentor: null, asLearner: null }), null);
+  assert.throws(() => decodeCompoundCursor('not a cursor'), /Invalid cursor/);
+  assert.throws(() => decodeCompoundCursor(Buffer.from('[1]').toString('base64url')), /Invalid cursor/);
+});
+
+test('mergePages pages lists in lockstep and deduplicates by key', async () => {
+  const asMentor = listOf([{ key: 'a' }, { key: 'b' }, { key: 'c' }]);
+  const asLearner = listOf([{ key: 'b' }, { key: 'd' }]);
+
+  const first = await mergePages({ asMentor, asLearner }, { pageSize: 2 });
+  assert.deepEqual(first.items.map(item => item.key), ['a', 'b', 'd']);
+  assert.deepEqual(decodeCompoundCursor(first.cursor!), { asMentor: '2' });
+
+  // Exhausted lists are not asked again
+  const second = await mergePages({ asMentor, asLearner: () => assert.fail('asLearner is exhausted') }, { pageSize: 2, cursor: first.cursor! });
+  assert.deepEqual(second.items.map(item => item.key), ['c']);
+  assert.equal(second.cursor, null);
+
+  const all = await collectPages(page => mergePages({ asMentor, asLearner }, page), 1);
+  assert.deepEqual(all.map(item => item.key), ['a', 'b', 'b', 'd', 'c']);
+});
+
+test('parsePageParams reads cursor and pageSize from a query string', () => {
+  assert.deepEqual(parsePageParams({}), {});
+  assert.deepEqual(parsePageParams({ cursor: 'abc', pageSize: '20' }), { cursor: 'abc', pageSize: 20 });
+  assert.deepEqual(parsePageParams({ cursor: '', pageSize: '5000' }), { pageSize: MAX_PAGE_SIZE });
+});
@@ -0,0 +1,185 @@
+import { eq, or } from "@arkiv-network/sdk/query"
+import type { Entity } from "@arkiv-network/sdk"
+import type { ArkivPublicClient, ArkivQueryBuilder } from "./client"
+
+/**
+ * Cursor pagination helpers.
+ *
+ * Arkiv caps every query at `limit` results and hands back an opaque cursor
+ * for the rest. List functions return one page at a time as `Page<T>`; the
+ * `cursor` is null once the last page has been read.
+ */
+
+export const DEFAULT_PAGE_SIZE = 100;
+export const MAX_PAGE_SIZE = 200;
+
+// Guard against a backend that keeps handing out cursors
+const MAX_PAGES = 1000;
+
+export type PageParams = {
+  cursor?: string;
+  pageSize?: number;
+};
+
+export type Page<T> = {
+  items: T[];
+  cursor: string | null;
+};
+
+export function clampPageSize(pageSize?: number): number {
+  if (!pageSize || !Number.isFinite(pageSize) || pageSize < 1) return DEFAULT_PAGE_SIZE;
+  return Math.min(Math.floor(pageSize), MAX_PAGE_SIZE);
+}
+
+/**
+ * Fetch a single page of a query.
+ */
+export async function fetchPage(
+  builder: ArkivQueryBuilder,
+  page: PageParams = {}
+): Promise<{ entities: Entity[]; cursor: string | null }> {
+  let query = builder.limit(clampPageSize(page.pageSize));
+  if (page.cursor) {
+    query = query.cursor(page.cursor);
+  }
+  const result = await query.fetch();
+  return {
+    entities: result.entities,
+    cursor: result.hasNextPage() && result.cursor ? result.cursor : null,
+  };
+}
+
+/**
+ * Fetch every page of a query.
+ */
+export async function fetchAllEntities(
+  builder: ArkivQueryBuilder,
+  pageSize: number = DEFAULT_PAGE_SIZE
+): Promise<Entity[]> {
+  const result = await builder.limit(clampPageSize(pageSize)).fetch();
+  const entities = [...result.entities];
+
+  for (let pages = 1; result.hasNextPage() && result.cursor && pages < MAX_PAGES; pages++) {
+    await result.next();
+    if (result.entities.length === 0) break;
+    entities.push(...result.entities);
+  }
+
+  return entities;
+}
+
+/**
+ * Walk a paged list function to the end and return every item.
+ */
+export async function collectPages<T>(
+  listPage: (page: PageParams) => Promise<Page<T>>,
+  pageSize: number = DEFAULT_PAGE_SIZE
+): Promise<T[]> {
+  const items: T[] = [];
+  let cursor: string | undefined;
+
+  for (let pages = 0; pages < MAX_PAGES; pages++) {
+    const page = await listPage({ cursor, pageSize });
+    items.push(...page.items);
+    if (!page.cursor) break;
+    cursor = page.cursor;
+  }
+
+  return items;
+}
+
+/**
+ * Fetch all companion entities (txhash, confirmations, ...) that point at
+ * one of `keys` through `refAttribute`. Scoping to the current page keeps
+ * companion lookups proportional to the page instead of the whole network.
+ * Metadata is always included so companions' creators can be verified.
+ */
+export async function fetchCompanions(
+  publicClient: ArkivPublicClient,
+  type: string,
+  refAttribute: string,
+  keys: string[],
+  { withPayload = true }: { withPayload?: boolean } = {}
+): Promise<Entity[]> {
+  if (keys.length === 0) return [];
+
+  return fetchAllEntities(
+    publicClient.buildQuery()
+      .where(eq('type', type))
+      .where(or(keys.map(key => eq(refAttribute, key))))
+      .withAttributes(true)
+      .withPayload(withPayload)
+      .withMetadata(true)
+  );
+}
+
+/**
+ * Pack the cursors of several lists into one opaque cursor, for endpoints
+ * that page through more than one list at once. Returns null when every
+ * list is exhausted.
+ */
+export function encodeCompoundCursor(cursors: Record<string, string | null>): string | null {
+  const remaining = Object.fromEntries(
+    Object.entries(cursors).filter(([, cursor]) => cursor !== null)
+  );
+  if (Object.keys(remaining).length === 0) return null;
+  return Buffer.from(JSON.stringify(remaining)).toString('base64url');
+}
+
+/**
+ * Unpack a compound cursor. Lists missing from the result are exhausted.
+ */
+export function decodeCompoundCursor(cursor: string): Record<string, string> {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (decoded && typeof decoded === 'object' && !Array.isArray(decoded)) {
+      return decoded;
+    }
+  } catch {
+    // fall through
+  }
+  throw new Error('Invalid cursor');
+}
+
+/**
+ * Page through several lists of the same item type in lockstep (e.g. sessions
+ * as mentor and as learner), deduplicating by key. The returned cursor is a
+ * compound cursor covering every list that still has pages.
+ */
+export async function mergePages<T extends { key: string }>(
+  lists: Record<string, (page: PageParams) => Promise<Page<T>>>,
+  page: PageParams = {}
+): Promise<Page<T>> {
+  const cursors = page.cursor ? decodeCompoundCursor(page.cursor) : null;
+  const names = Object.keys(lists).filter(name => !cursors || cursors[name]);
+
+  const pages = await Promise.all(
+    names.map(name => lists[name]({ cursor: cursors?.[name], pageSize: page.pageSize }))
+  );
+
+  const itemMap = new Map<string, T>();
+  pages.forEach(({ items }) => {
+    items.forEach(item => itemMap.set(item.key, item));
+  });
+
+  return {
+    items: Array.from(itemMap.values()),
+    cursor: encodeCompoundCursor(
+      Object.fromEntries(names.map((name, i) => [name, pages[i].cursor]))
+    ),
+  };
+}
+
+/**
+ * Read `cursor`/`pageSize` from an API request query.
+ */
+export function parsePageParams(query: Record<string, any>): PageParams {
+  const page: PageParams = {};
+  if (typeof query.cursor === 'string' && query.cursor) {
+    page.cursor = query.cursor;
+  }
+  if (query.pageSize !== undefined) {
+    page.pageSize = clampPageSize(parseInt(query.pageSize as string, 10));
+  }
+  return page;
+}
@@ -0,0 +1,95 @@
+import type { CreateEntityParameters, ExtendEntityParameters } from "@arkiv-network/sdk"
+import { bytesToHex, hexToBytes } from "viem"
+import type { ArkivWalletClient } from "./client"
+
+/**
+ * Writes prepared on the server and signed in the browser.
+ *
+ * In `wallet` signing mode the API runs the usual create helpers against a
+ * wallet client that only records what would be written. The recorded
+ * entities (and extensions of entities the user owns) are returned to the
+ * browser, which submits them in one transaction from the user's own MetaMask
+ * account, so the user owns (and pays for) them. This module is shared by both sides and has no server-only
+ * imports.
+ */
+
+// `relayed`: the user signs an intent per entity and the server key submits
+// it (see relayer.ts)
+export type SigningMode = 'server' | 'wallet' | 'relayed';
+
+export const SIGNING_MODES: SigningMode[] = ['server', 'wallet', 'relayed'];
+
+export type PreparedWrite = {
+  payload: `0x${string}`;
+  contentType: CreateEntityParameters['contentType'];
+  attributes: CreateEntityParameters['attributes'];
+  expiresIn: number;
+};
+
+export type PreparedExtension = {
+  entityKey: `0x${string}`;
+  expiresIn: number;
+};
+
+export function serializeCreates(creates: CreateEntityParameters[]): PreparedWrite[] {
+  return creates.map(create => ({
+    payload: bytesToHex(create.payload),
+    contentType: create.contentType,
+    attributes: create.attributes,
+    expiresIn: create.expiresIn,
+  }));
+}
+
+export function deserializeCreates(writes: PreparedWrite[]): CreateEntityParameters[] {
+  return writes.map(write => ({
+    payload: hexToBytes(write.payload),
+    contentType: write.contentType,
+    attributes: write.attributes,
+    expiresIn: write.expiresIn,
+  }));
+}
+
+/**
+ * Wallet client that records creates and extensions instead of sending them.
+ * Keys and hashes it returns are placeholders, so helpers that chain writes on
+ * a returned key cannot be prepared this way.
+ */
+export function createPreparingWalletClient(): {
+  walletClient: ArkivWalletClient;
+  prepared: () => PreparedWrite[];
+  preparedExtensions: () => PreparedExtension[];
+} {
+  const creates: CreateEntityParameters[] = [];
+  const extensions: ExtendEntityParameters[] = [];
+  const placeholder = '0x' as `0x${string}`;
+
+  return {
+    walletClient: {
+      createEntity: async (params) => {
+        creates.push(params);
+        return { entityKey: placeholder, txHash: placeholder };
+      },
+      extendEntity: async (params) => {
+        extensions.push(params);
+        return { entityKey: params.entityKey, txHash: placeholder };
+      },
+      mutateEntities: async (params) => {
+        if (params.updates?.length || params.deletes?.length || params.ownershipChanges?.length) {
+          throw new Error('Only creates and extensions are supported when signing with your wallet');
+        }
+        creates.push(...(params.creates || []));
+        extensions.push(...(params.extensions || []));
+        return {
+          txHash: placeholder,
+          createdEntities: (params.creates || []).map(() => placeholder),
+          updatedEntities: [],
+          deletedEntities: [],
+          extendedEntities: (params.extensions || []).map(extension => extension.entityKey),
+          ownershipChanges: [],
+        };
+      },
+    },
+    prepared: () => serializeCreates(creates),
+    preparedExtensions: () => extensions.map(({ entityKey, expiresIn }) => ({ entityKey, expiresIn })),
+  };
+}
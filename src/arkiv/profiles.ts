@@ -1,5 +1,11 @@
 import { eq } from "@arkiv-network/sdk/query"
-import { getPublicClient, getWalletClientFromPrivateKey } from "./client"
+import { getPublicClient, resolveWalletClient, ArkivWalletClient } from "./client"
+import { decodeEntities, encodeEntity, DecodedEntity, ProfilePayload } from "./codec"
+import { collectPages, fetchAllEntities, fetchPage, Page, PageParams } from "./pagination"
+import { resolveSpace } from "./spaces"
+import { fetchTxHashes } from "./txHashes"
+import { verifyEntities } from "./verification"
+import { SPACE_ID } from "../config"
 
 export type UserProfile = {
   key: string;
@@ -40,12 +46,72 @@ export type UserProfile = {
   lastActiveTimestamp?: string;
   communityAffiliations?: string[];
   reputationScore?: number;
+  // Reliability, computed from cancellations and no-shows (see computeReliability in sessions.ts)
+  sessionsCancelled?: number;
+  lateCancellations?: number;
+  sessionsDeclined?: number;
+  sessionsMissed?: number;
+  reliabilityScore?: number;
+  // Revision history
+  revertedFrom?: string; // Key of the older revision this one republishes
   // Legacy fields
   spaceId: string;
   createdAt?: string;
   txHash?: string;
 }
 
+export function mapProfile(decoded: DecodedEntity<'user_profile'>, txHashMap: Record<string, string> = {}): UserProfile {
+  const { attributes: attrs, payload } = decoded;
+
+  // Parse skills array from skill_N attributes, falling back to the payload
+  const attrSkills = Object.entries(attrs)
+    .filter(([key]) => key.startsWith('skill_'))
+    .map(([, value]) => value);
+  const finalSkillsArray = payload.skillsArray || (attrSkills.length > 0
+    ? attrSkills
+    : (payload.skills ? payload.skills.split(',').map(s => s.trim()).filter(Boolean) : []));
+
+  // Handle trustEdges: convert legacy string[] to object[] if needed
+  const trustEdges = (payload.trustEdges || []).map(edge => typeof edge === 'string'
+    ? { toWallet: edge, strength: 1, createdAt: new Date().toISOString() }
+    : edge);
+
+  return {
+    key: decoded.key,
+    wallet: attrs.wallet,
+    displayName: attrs.displayName,
+    username: payload.username || attrs.username || undefined,
+    profileImage: payload.profileImage || undefined,
+    bio: payload.bio || attrs.bio || undefined, // Legacy
+    bioShort: payload.bioShort || payload.bio || attrs.bio || undefined,
+    bioLong: payload.bioLong || undefined,
+    skills: attrs.skills || payload.skills || '',
+    skillsArray: finalSkillsArray,
+    timezone: attrs.timezone || payload.timezone || '',
+    languages: payload.languages || [],
+    contactLinks: payload.contactLinks || {},
+    seniority: payload.seniority || (attrs.seniority as UserProfile['seniority']) || undefined,
+    domainsOfInterest: payload.domainsOfInterest || [],
+    mentorRoles: payload.mentorRoles || [],
+    learnerRoles: payload.learnerRoles || [],
+    sessionsCompleted: payload.sessionsCompleted || 0,
+    sessionsGiven: payload.sessionsGiven || 0,
+    sessionsReceived: payload.sessionsReceived || 0,
+    avgRating: payload.avgRating || 0,
+    npsScore: payload.npsScore || 0,
+    topSkillsUsage: payload.topSkillsUsage || [],
+    peerTestimonials: payload.peerTestimonials || [],
+    trustEdges,
+    lastActiveTimestamp: payload.lastActiveTimestamp || undefined,
+    communityAffiliations: payload.communityAffiliations || [],
+    reputationScore: payload.reputationScore || 0,
+    revertedFrom: payload.revertedFrom || undefined,
+    spaceId: attrs.spaceId || payload.spaceId || SPACE_ID,
+    createdAt: attrs.createdAt || payload.createdAt,
+    txHash: txHashMap[decoded.key] || payload.txHash,
+  };
+}
+
 export async function createUserProfile({
   wallet,
   displayName,
@@ -63,7 +129,10 @@ export async function createUserProfile({
   domainsOfInterest,
   mentorRoles,
   learnerRoles,
+  revertedFrom,
   privateKey,
+  walletClient: providedWalletClient,
+  spaceId,
 }: {
   wallet: string;
   displayName: string;
@@ -86,18 +155,20 @@ export async function createUserProfile({
   domainsOfInterest?: string[];
   mentorRoles?: string[];
   learnerRoles?: string[];
-  privateKey: `0x${string}`;
+  revertedFrom?: string;
+  privateKey?: `0x${string}`;
+  walletClient?: ArkivWalletClient; // signs instead of privateKey
+  spaceId?: string;
 }): Promise<{ key: string; txHash: string }> {
-  const walletClient = getWalletClientFromPrivateKey(privateKey);
-  const enc = new TextEncoder();
-  const spaceId = 'local-dev';
+  const walletClient = resolveWalletClient({ privateKey, walletClient: providedWalletClient });
+  const space = await resolveSpace(spaceId);
   const createdAt = new Date().toISOString();
   const lastActiveTimestamp = new Date().toISOString();
 
   // Use skillsArray if provided, otherwise parse skills string
   const finalSkillsArray = skillsArray || (skills ? skills.split(',').map(s => s.trim()).filter(Boolean) : []);
 
-  const payload = {
+  const payload: ProfilePayload = {
     displayName,
     username,
     profileImage,
@@ -113,7 +184,7 @@ export async function createUserProfile({
     domainsOfInterest: domainsOfInterest || [],
     mentorRoles: mentorRoles || [],
     learnerRoles: learnerRoles || [],
-    spaceId,
+    spaceId: space.spaceId,
     createdAt,
     lastActiveTimestamp,
     // Initialize reputation fields
@@ -127,14 +198,14 @@ export async function createUserProfile({
     trustEdges: [], // Array of { toWallet, strength, createdAt } objects
     communityAffiliations: [],
     reputationScore: 0,
+    revertedFrom,
   };
 
   const attributes: Array<{ key: string; value: string }> = [
-    { key: 'type', value: 'user_profile' },
     { key: 'wallet', value: wallet },
     { key: 'displayName', value: displayName },
     { key: 'timezone', value: timezone },
-    { key: 'spaceId', value: spaceId },
+    { key: 'spaceId', value: space.spaceId },
     { key: 'createdAt', value: createdAt },
   ];
 
@@ -148,220 +219,75 @@ export async function createUserProfile({
     });
   }
 
-  const { entityKey, txHash } = await walletClient.createEntity({
-    payload: enc.encode(JSON.stringify(payload)),
-    contentType: 'application/json',
+  const { entityKey, txHash } = await walletClient.createEntity(encodeEntity('user_profile', {
+    payload,
     attributes,
     expiresIn: 31536000, // 1 year
-  });
+  }));
 
   return { key: entityKey, txHash };
 }
 
-export async function listUserProfiles(params?: { 
-  skill?: string; 
+export async function listUserProfilesPage(params: {
+  skill?: string;
   seniority?: string;
   spaceId?: string;
-}): Promise<UserProfile[]> {
+} & PageParams = {}): Promise<Page<UserProfile>> {
   const publicClient = getPublicClient();
   const query = publicClient.buildQuery();
   let queryBuilder = query.where(eq('type', 'user_profile'));
   
-  if (params?.skill) {
+  if (params.skill) {
     queryBuilder = queryBuilder.where(eq('skills', params.skill));
   }
   
-  if (params?.seniority) {
+  if (params.seniority) {
     queryBuilder = queryBuilder.where(eq('seniority', params.seniority));
   }
   
-  if (params?.spaceId) {
+  if (params.spaceId) {
     queryBuilder = queryBuilder.where(eq('spaceId', params.spaceId));
   }
   
-  const result = await queryBuilder
-    .withAttributes(true)
-    .withPayload(true)
-    .limit(100)
-    .fetch();
-
-  return result.entities.map((entity: any) => {
-    let payload: any = {};
-    try {
-      if (entity.payload) {
-        const decoded = entity.payload instanceof Uint8Array
-          ? new TextDecoder().decode(entity.payload)
-          : typeof entity.payload === 'string'
-          ? entity.payload
-          : JSON.stringify(entity.payload);
-        payload = JSON.parse(decoded);
-      }
-    } catch (e) {
-      console.error('Error decoding payload:', e);
-    }
-
-    const attrs = entity.attributes || {};
-    const getAttr = (key: string): string => {
-      if (Array.isArray(attrs)) {
-        const attr = attrs.find((a: any) => a.key === key);
-        return String(attr?.value || '');
-      }
-      return String(attrs[key] || '');
-    };
-
-    // Parse skills array from attributes or payload
-    const skillsArray: string[] = [];
-    if (Array.isArray(attrs)) {
-      attrs.forEach((attr: any) => {
-        if (attr.key?.startsWith('skill_')) {
-          skillsArray.push(attr.value);
-        }
-      });
-    }
-    const finalSkillsArray = payload.skillsArray || skillsArray.length > 0 ? skillsArray : (payload.skills ? payload.skills.split(',').map((s: string) => s.trim()).filter(Boolean) : []);
-
-    // Handle trustEdges: convert legacy string[] to object[] if needed
-    let trustEdges = payload.trustEdges || [];
-    if (Array.isArray(trustEdges) && trustEdges.length > 0 && typeof trustEdges[0] === 'string') {
-      // Legacy format: convert string[] to object[]
-      trustEdges = trustEdges.map((wallet: string) => ({
-        toWallet: wallet,
-        strength: 1,
-        createdAt: new Date().toISOString(),
-      }));
-    }
-
-    return {
-      key: entity.key,
-      wallet: getAttr('wallet') || payload.wallet || '',
-      displayName: getAttr('displayName') || payload.displayName || '',
-      username: payload.username || getAttr('username') || undefined,
-      profileImage: payload.profileImage || undefined,
-      bio: payload.bio || getAttr('bio') || undefined, // Legacy
-      bioShort: payload.bioShort || payload.bio || getAttr('bio') || undefined,
-      bioLong: payload.bioLong || undefined,
-      skills: getAttr('skills') || payload.skills || '',
-      skillsArray: finalSkillsArray,
-      timezone: getAttr('timezone') || payload.timezone || '',
-      languages: payload.languages || [],
-      contactLinks: payload.contactLinks || {},
-      seniority: payload.seniority || getAttr('seniority') || undefined,
-      domainsOfInterest: payload.domainsOfInterest || [],
-      mentorRoles: payload.mentorRoles || [],
-      learnerRoles: payload.learnerRoles || [],
-      sessionsCompleted: payload.sessionsCompleted || 0,
-      sessionsGiven: payload.sessionsGiven || 0,
-      sessionsReceived: payload.sessionsReceived || 0,
-      avgRating: payload.avgRating || 0,
-      npsScore: payload.npsScore || 0,
-      topSkillsUsage: payload.topSkillsUsage || [],
-      peerTestimonials: payload.peerTestimonials || [],
-      trustEdges: trustEdges as Array<{ toWallet: string; strength: number; createdAt: string }>,
-      lastActiveTimestamp: payload.lastActiveTimestamp || undefined,
-      communityAffiliations: payload.communityAffiliations || [],
-      reputationScore: payload.reputationScore || 0,
-      spaceId: getAttr('spaceId') || payload.spaceId || 'local-dev',
-      createdAt: getAttr('createdAt') || payload.createdAt,
-      txHash: payload.txHash,
-    };
-  });
+  const result = await fetchPage(queryBuilder.withAttributes(true).withPayload(true).withMetadata(true), params);
+  const decoded = await verifyEntities(decodeEntities('user_profile', result.entities));
+  const txHashMap = await fetchTxHashes(publicClient, 'user_profile_txhash', decoded.map(d => d.raw));
+
+  return {
+    items: decoded.map(d => mapProfile(d, txHashMap)),
+    cursor: result.cursor,
+  };
+}
+
+export async function listUserProfiles(params?: { 
+  skill?: string; 
+  seniority?: string;
+  spaceId?: string;
+}): Promise<UserProfile[]> {
+  return collectPages(page => listUserProfilesPage({ ...params, ...page }));
 }
 
-export async function listUserProfilesForWallet(wallet: string): Promise<UserProfile[]> {
+export async function listUserProfilesForWallet(wallet: string, spaceId?: string): Promise<UserProfile[]> {
   const publicClient = getPublicClient();
-  const query = publicClient.buildQuery();
-  const result = await query
-    .where(eq('type', 'user_profile'))
-    .where(eq('wallet', wallet))
-    .withAttributes(true)
-    .withPayload(true)
-    .limit(100)
-    .fetch();
-
-  return result.entities.map((entity: any) => {
-    let payload: any = {};
-    try {
-      if (entity.payload) {
-        const decoded = entity.payload instanceof Uint8Array
-          ? new TextDecoder().decode(entity.payload)
-          : typeof entity.payload === 'string'
-          ? entity.payload
-          : JSON.stringify(entity.payload);
-        payload = JSON.parse(decoded);
-      }
-    } catch (e) {
-      console.error('Error decoding payload:', e);
-    }
-
-    const attrs = entity.attributes || {};
-    const getAttr = (key: string): string => {
-      if (Array.isArray(attrs)) {
-        const attr = attrs.find((a: any) => a.key === key);
-        return String(attr?.value || '');
-      }
-      return String(attrs[key] || '');
-    };
-
-    // Parse skills array from attributes or payload
-    const skillsArray: string[] = [];
-    if (Array.isArray(attrs)) {
-      attrs.forEach((attr: any) => {
-        if (attr.key?.startsWith('skill_')) {
-          skillsArray.push(attr.value);
-        }
-      });
-    }
-    const finalSkillsArray = payload.skillsArray || skillsArray.length > 0 ? skillsArray : (payload.skills ? payload.skills.split(',').map((s: string) => s.trim()).filter(Boolean) : []);
-
-    // Handle trustEdges: convert legacy string[] to object[] if needed
-    let trustEdges = payload.trustEdges || [];
-    if (Array.isArray(trustEdges) && trustEdges.length > 0 && typeof trustEdges[0] === 'string') {
-      // Legacy format: convert string[] to object[]
-      trustEdges = trustEdges.map((wallet: string) => ({
-        toWallet: wallet,
-        strength: 1,
-        createdAt: new Date().toISOString(),
-      }));
-    }
-
-    return {
-      key: entity.key,
-      wallet: getAttr('wallet') || payload.wallet || '',
-      displayName: getAttr('displayName') || payload.displayName || '',
-      username: payload.username || getAttr('username') || undefined,
-      profileImage: payload.profileImage || undefined,
-      bio: payload.bio || getAttr('bio') || undefined, // Legacy
-      bioShort: payload.bioShort || payload.bio || getAttr('bio') || undefined,
-      bioLong: payload.bioLong || undefined,
-      skills: getAttr('skills') || payload.skills || '',
-      skillsArray: finalSkillsArray,
-      timezone: getAttr('timezone') || payload.timezone || '',
-      languages: payload.languages || [],
-      contactLinks: payload.contactLinks || {},
-      seniority: payload.seniority || getAttr('seniority') || undefined,
-      domainsOfInterest: payload.domainsOfInterest || [],
-      mentorRoles: payload.mentorRoles || [],
-      learnerRoles: payload.learnerRoles || [],
-      sessionsCompleted: payload.sessionsCompleted || 0,
-      sessionsGiven: payload.sessionsGiven || 0,
-      sessionsReceived: payload.sessionsReceived || 0,
-      avgRating: payload.avgRating || 0,
-      npsScore: payload.npsScore || 0,
-      topSkillsUsage: payload.topSkillsUsage || [],
-      peerTestimonials: payload.peerTestimonials || [],
-      trustEdges: trustEdges as Array<{ toWallet: string; strength: number; createdAt: string }>,
-      lastActiveTimestamp: payload.lastActiveTimestamp || undefined,
-      communityAffiliations: payload.communityAffiliations || [],
-      reputationScore: payload.reputationScore || 0,
-      spaceId: getAttr('spaceId') || payload.spaceId || 'local-dev',
-      createdAt: getAttr('createdAt') || payload.createdAt,
-      txHash: payload.txHash,
-    };
-  });
+  const where = [eq('type', 'user_profile'), eq('wallet', wallet)];
+  if (spaceId) {
+    where.push(eq('spaceId', spaceId));
+  }
+  const entities = await fetchAllEntities(
+    publicClient.buildQuery()
+      .where(where)
+      .withAttributes(true)
+      .withPayload(true)
+      .withMetadata(true)
+  );
+  const decoded = await verifyEntities(decodeEntities('user_profile', entities));
+  const txHashMap = await fetchTxHashes(publicClient, 'user_profile_txhash', decoded.map(d => d.raw));
+
+  return decoded.map(d => mapProfile(d, txHashMap));
 }
 
-export async function getProfileByWallet(wallet: string): Promise<UserProfile | null> {
-  const profiles = await listUserProfilesForWallet(wallet);
+export async function getProfileByWallet(wallet: string, spaceId?: string): Promise<UserProfile | null> {
+  const profiles = await listUserProfilesForWallet(wallet, spaceId);
   if (profiles.length === 0) return null;
   
   // Return the most recent profile (sorted by createdAt descending)
@@ -392,6 +318,8 @@ export async function updateUserProfile({
   mentorRoles,
   learnerRoles,
   privateKey,
+  walletClient: providedWalletClient,
+  spaceId,
 }: {
   wallet: string;
   displayName: string;
@@ -414,7 +342,9 @@ export async function updateUserProfile({
   domainsOfInterest?: string[];
   mentorRoles?: string[];
   learnerRoles?: string[];
-  privateKey: `0x${string}`;
+  privateKey?: `0x${string}`;
+  walletClient?: ArkivWalletClient; // signs instead of privateKey
+  spaceId?: string;
 }): Promise<{ key: string; txHash: string }> {
   // Since Arkiv entities are immutable, we create a new profile entity
   return createUserProfile({
@@ -435,6 +365,155 @@ export async function updateUserProfile({
     mentorRoles,
     learnerRoles,
     privateKey,
+    walletClient: providedWalletClient,
+    spaceId,
   });
 }
 
+
+/**
+ * Profile revision history.
+ *
+ * Every edit publishes a new `user_profile` entity, so a wallet's history in
+ * a space is simply its profile entities there, ordered by `createdAt`. Reverting
+ * republishes an older revision's fields as a new, current revision.
+ */
+
+export type ProfileRevision = {
+  key: string;
+  revision: number; // 1 = oldest
+  createdAt?: string;
+  txHash?: string;
+  revertedFrom?: string;
+  isCurrent: boolean;
+  profile: UserProfile;
+};
+
+export type ProfileFieldChange = {
+  field: ProfileDiffField;
+  from: unknown;
+  to: unknown;
+};
+
+// User-editable fields compared by diffProfiles; reputation fields are
+// recomputed on read and would only add noise
+export const PROFILE_DIFF_FIELDS = [
+  'displayName',
+  'username',
+  'profileImage',
+  'bioShort',
+  'bioLong',
+  'skillsArray',
+  'timezone',
+  'languages',
+  'contactLinks',
+  'seniority',
+  'domainsOfInterest',
+  'mentorRoles',
+  'learnerRoles',
+] as const;
+
+export type ProfileDiffField = typeof PROFILE_DIFF_FIELDS[number];
+
+function isEmptyValue(value: unknown): boolean {
+  if (value === undefined || value === null || value === '') return true;
+  if (Array.isArray(value)) return value.length === 0;
+  if (typeof value === 'object') return Object.values(value as object).every(isEmptyValue);
+  return false;
+}
+
+export function diffProfiles(from: UserProfile, to: UserProfile): ProfileFieldChange[] {
+  return PROFILE_DIFF_FIELDS
+    .filter(field => {
+      const a = from[field];
+      const b = to[field];
+      // Treat missing and empty values as the same so legacy revisions don't
+      // show spurious changes
+      if (isEmptyValue(a) && isEmptyValue(b)) return false;
+      return JSON.stringify(a) !== JSON.stringify(b);
+    })
+    .map(field => ({ field, from: from[field], to: to[field] }));
+}
+
+export async function listProfileRevisions(wallet: string, spaceId?: string): Promise<ProfileRevision[]> {
+  const profiles = await listUserProfilesForWallet(wallet, spaceId);
+
+  // Oldest first, so revision numbers are stable as new revisions are added
+  profiles.sort((a, b) => {
+    const aTime = a.createdAt ? new Date(a.createdAt).getTime() : 0;
+    const bTime = b.createdAt ? new Date(b.createdAt).getTime() : 0;
+    return aTime - bTime;
+  });
+
+  return profiles.map((profile, idx) => ({
+    key: profile.key,
+    revision: idx + 1,
+    createdAt: profile.createdAt,
+    txHash: profile.txHash,
+    revertedFrom: profile.revertedFrom,
+    isCurrent: idx === profiles.length - 1,
+    profile,
+  }));
+}
+
+export async function diffProfileRevisions(
+  wallet: string,
+  fromKey: string,
+  toKey: string,
+  spaceId?: string
+): Promise<ProfileFieldChange[]> {
+  const revisions = await listProfileRevisions(wallet, spaceId);
+  const from = revisions.find(r => r.key === fromKey);
+  const to = revisions.find(r => r.key === toKey);
+  if (!from || !to) {
+    throw new Error('Profile revision not found for this wallet');
+  }
+  return diffProfiles(from.profile, to.profile);
+}
+
+export async function revertUserProfile({
+  wallet,
+  revisionKey,
+  privateKey,
+  walletClient: providedWalletClient,
+  spaceId,
+}: {
+  wallet: string;
+  revisionKey: string;
+  privateKey?: `0x${string}`;
+  walletClient?: ArkivWalletClient; // signs instead of privateKey
+  spaceId?: string;
+}): Promise<{ key: string; txHash: string }> {
+  const revisions = await listProfileRevisions(wallet, spaceId);
+  const target = revisions.find(r => r.key === revisionKey);
+  if (!target) {
+    throw new Error('Profile revision not found for this wallet');
+  }
+  if (target.isCurrent) {
+    throw new Error('Revision is already the current profile');
+  }
+
+  const { profile } = target;
+  return createUserProfile({
+    wallet,
+    displayName: profile.displayName,
+    username: profile.username,
+    profileImage: profile.profileImage,
+    bio: profile.bio,
+    bioShort: profile.bioShort,
+    bioLong: profile.bioLong,
+    skills: profile.skills,
+    skillsArray: profile.skillsArray,
+    timezone: profile.timezone,
+    languages: profile.languages,
+    contactLinks: profile.contactLinks,
+    seniority: profile.seniority,
+    domainsOfInterest: profile.domainsOfInterest,
+    mentorRoles: profile.mentorRoles,
+    learnerRoles: profile.learnerRoles,
+    revertedFrom: profile.key,
+    privateKey,
+    walletClient: providedWalletClient,
+    spaceId: profile.spaceId,
+  });
+}
@@ -0,0 +1,91 @@
+import { test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { eq } from '@arkiv-network/sdk/query';
+import { privateKeyToAccount } from 'viem/accounts';
+import { createMemoryBackend } from './memoryBackend';
+
+const SERVER_KEY = `0x${'33'.repeat(32)}` as const;
+const USER_KEY = `0x${'44'.repeat(32)}` as const;
+
+// Trusted writers are read when verification.ts loads
+process.env.ARKIV_TRUSTED_WRITERS = privateKeyToAccount(SERVER_KEY).address;
+const { clearReadCache, invalidateForEntity, invalidateForWrite, withReadCache } = await import('./readCache');
+
+globalThis.__mentorGraphMemoryStore = undefined;
+const backend = createMemoryBackend();
+const cached = withReadCache(backend.getPublicClient());
+const server = backend.getWalletClient(SERVER_KEY);
+const user = backend.getWalletClient(USER_KEY);
+
+function entity(type: string) {
+  return {
+    payload: new TextEncoder().encode('{}'),
+    contentType: 'application/json' as const,
+    attributes: [{ key: 'type', value: type }],
+    expiresIn: 3600,
+  };
+}
+
+async function keysOf(type?: string) {
+  const query = cached.buildQuery();
+  const result = await (type ? query.where(eq('type', type)) : query).fetch();
+  return result.entities.map(e => e.key);
+}
+
+// Entity events are delivered after the write returns
+function eventsDelivered() {
+  return new Promise(resolve => setTimeout(resolve, 10));
+}
+
+beforeEach(() => {
+  clearReadCache();
+});
+
+test('queries are served from the cache until something invalidates them', async () => {
+  const { entityKey: first } = await user.createEntity(entity('ask'));
+  assert.deepEqual(await keysOf('ask'), [first]);
+
+  const { entityKey: second } = await user.createEntity(entity('ask'));
+  await eventsDelivered();
+  // Users' own creates only show up once reported, or after the TTL
+  assert.deepEqual(await keysOf('ask'), [first]);
+
+  await invalidateForEntity(backend.getPublicClient(), second as `0x${string}`);
+  assert.deepEqual(await keysOf('ask'), [first, second]);
+});
+
+test('creates by trusted writers are followed from the event stream', async () => {
+  const before = await keysOf('session_record');
+  const unrelated = await keysOf('offer');
+
+  const { entityKey } = await server.createEntity(entity('session_record'));
+  await eventsDelivered();
+
+  assert.deepEqual(await keysOf('session_record'), [...before, entityKey]);
+  assert.deepEqual(await keysOf('offer'), unrelated);
+});
+
+test('writes from this process drop queries of their type and unrestricted queries', async () => {
+  const offers = await keysOf('offer');
+  const everything = await keysOf();
+  const asks = await keysOf('ask');
+
+  const write = entity('offer');
+  const { entityKey } = await user.createEntity(write);
+  invalidateForWrite({ creates: [write] });
+
+  assert.deepEqual(await keysOf('offer'), [...offers, entityKey]);
+  assert.deepEqual(await keysOf(), [...everything, entityKey]);
+  assert.deepEqual(await keysOf('ask'), asks);
+});
+
+test('extending an entity drops the queries that contain it', async () => {
+  const { entityKey } = await user.createEntity(entity('trust_edge'));
+  const expiry = async () => (await cached.buildQuery().where(eq('type', 'trust_edge')).fetch()).entities[0].expiresAtBlock;
+  const before = await expiry();
+
+  await user.extendEntity({ entityKey, expiresIn: 3600 });
+  await eventsDelivered();
+
+  assert.ok((await expiry())! > before!);
+});
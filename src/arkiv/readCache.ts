@@ -0,0 +1,310 @@
+import type { CreateEntityParameters, Entity } from "@arkiv-network/sdk"
+import type { Predicate } from "@arkiv-network/sdk/query"
+import type { ArkivPublicClient, ArkivQueryBuilder, ArkivQueryResult } from "./client"
+import { isTrustedWriter } from "./verification"
+
+/**
+ * Per-process cache of query results.
+ *
+ * Entries are keyed by query shape (predicates, requested fields, page size
+ * and cursor) and live until the first entity in them expires, capped at
+ * `ARKIV_READ_CACHE_TTL_SECONDS` (default 60). They are invalidated early by
+ * the entity event stream and by writes made from this process:
+ * - a created or updated entity drops entries querying its `type` (and
+ *   entries without a type predicate)
+ * - an updated, extended, deleted or expired entity drops entries containing it
+ *
+ * Looking up a new entity's type costs an RPC, so only creates and updates by
+ * trusted writers (`isTrustedWriter`) are followed from the event stream;
+ * entities users sign in their browser are invalidated when the browser
+ * reports them (`invalidateForEntity`), and anyone else's within the TTL.
+ *
+ * Set `ARKIV_READ_CACHE=off` to disable.
+ */
+
+const MAX_ENTRY_TTL_MS = (Number(process.env.ARKIV_READ_CACHE_TTL_SECONDS) || 60) * 1000;
+const MAX_ENTRIES = 500;
+const BLOCK_TIMING_TTL_MS = 10000;
+const EVENT_POLLING_INTERVAL_MS = 2000;
+
+type QueryShape = {
+  predicates: Predicate[];
+  withAttributes: boolean;
+  withPayload: boolean;
+  limit?: number;
+  cursor?: string;
+};
+
+type CacheEntry = {
+  entities: Entity[];
+  cursor: string | undefined;
+  expiresAt: number; // ms timestamp
+  types: string[] | null; // `type` values the query is restricted to, null if unrestricted
+  keys: Set<string>;
+};
+
+type ReadCache = {
+  entries: Map<string, CacheEntry>;
+  blockTiming?: { currentBlock: bigint; blockDuration: number; fetchedAt: number };
+  subscribed: boolean;
+};
+
+declare global {
+  var __mentorGraphReadCache: ReadCache | undefined;
+}
+
+function getCache(): ReadCache {
+  if (!globalThis.__mentorGraphReadCache) {
+    globalThis.__mentorGraphReadCache = { entries: new Map(), subscribed: false };
+  }
+  return globalThis.__mentorGraphReadCache;
+}
+
+export function isReadCacheEnabled(): boolean {
+  return (process.env.ARKIV_READ_CACHE || 'on').toLowerCase() !== 'off';
+}
+
+function typesOf(predicates: Predicate[]): string[] | null {
+  for (const predicate of predicates) {
+    if (!('predicates' in predicate) && predicate.type === 'eq' && predicate.key === 'type') {
+      return [String(predicate.value)];
+    }
+  }
+  return null;
+}
+
+function invalidate(shouldDrop: (entry: CacheEntry) => boolean) {
+  const { entries } = getCache();
+  entries.forEach((entry, key) => {
+    if (shouldDrop(entry)) entries.delete(key);
+  });
+}
+
+/**
+ * Drop entries that a new (or changed) entity of `type` could now appear in.
+ */
+export function invalidateEntityType(type: string) {
+  invalidate(entry => entry.types === null || entry.types.includes(type));
+}
+
+/**
+ * Drop entries that contain `entityKey`.
+ */
+export function invalidateEntityKey(entityKey: string) {
+  invalidate(entry => entry.keys.has(entityKey));
+}
+
+/**
+ * Invalidate for a write made from this process, without waiting for its event.
+ */
+export function invalidateForWrite({ creates = [], entityKeys = [] }: {
+  creates?: CreateEntityParameters[];
+  entityKeys?: string[];
+}) {
+  creates.forEach(({ attributes }) => {
+    const type = attributes.find(attr => attr.key === 'type')?.value;
+    if (type !== undefined) {
+      invalidateEntityType(String(type));
+    } else {
+      invalidate(() => true);
+    }
+  });
+  entityKeys.forEach(invalidateEntityKey);
+}
+
+/**
+ * Invalidate for an entity created or updated elsewhere (e.g. signed in the
+ * user's browser), without waiting for its event.
+ */
+export async function invalidateForEntity(publicClient: Pick<ArkivPublicClient, 'getEntity'>, entityKey: `0x${string}`) {
+  invalidateEntityKey(entityKey);
+  try {
+    const entity = await publicClient.getEntity(entityKey);
+    const type = entity.attributes.find(attr => attr.key === 'type')?.value;
+    if (type !== undefined) {
+      invalidateEntityType(String(type));
+      return;
+    }
+  } catch {
+    // Already gone or unreadable: fall through and drop everything it could affect
+  }
+  invalidate(() => true);
+}
+
+export function clearReadCache() {
+  getCache().entries.clear();
+}
+
+/**
+ * Follow the entity event stream for as long as the process lives.
+ */
+async function ensureSubscribed(inner: ArkivPublicClient) {
+  const cache = getCache();
+  if (cache.subscribed) return;
+  cache.subscribed = true;
+
+  try {
+    await inner.subscribeEntityEvents({
+      onEntityCreated: (event) => {
+        if (isTrustedWriter(event.owner)) invalidateForEntity(inner, event.entityKey);
+      },
+      onEntityUpdated: (event) => {
+        invalidateEntityKey(event.entityKey);
+        if (isTrustedWriter(event.owner)) invalidateForEntity(inner, event.entityKey);
+      },
+      onEntityDeleted: (event) => invalidateEntityKey(event.entityKey),
+      onEntityExpired: (event) => invalidateEntityKey(event.entityKey),
+      onEntityExpiresInExtended: (event) => invalidateEntityKey(event.entityKey),
+      onError: (error) => console.error('[readCache] Entity event stream error:', error),
+    }, EVENT_POLLING_INTERVAL_MS);
+  } catch (e) {
+    // Entries still expire on their own; try subscribing again on the next miss
+    console.error('[readCache] Could not subscribe to entity events:', e);
+    cache.subscribed = false;
+  }
+}
+
+async function getBlockTiming(inner: ArkivPublicClient) {
+  const cache = getCache();
+  if (!cache.blockTiming || Date.now() - cache.blockTiming.fetchedAt > BLOCK_TIMING_TTL_MS) {
+    const { currentBlock, blockDuration } = await inner.getBlockTiming();
+    cache.blockTiming = { currentBlock, blockDuration, fetchedAt: Date.now() };
+  }
+  return cache.blockTiming;
+}
+
+// An entry is only as fresh as its shortest-lived entity
+async function entryExpiry(inner: ArkivPublicClient, entities: Entity[]): Promise<number> {
+  const now = Date.now();
+  const blocks = entities
+    .map(entity => entity.expiresAtBlock)
+    .filter((block): block is bigint => block !== undefined);
+  if (blocks.length === 0) return now + MAX_ENTRY_TTL_MS;
+
+  const earliest = blocks.reduce((min, block) => (block < min ? block : min));
+  const { currentBlock, blockDuration, fetchedAt } = await getBlockTiming(inner);
+  const expiresAt = fetchedAt + Number(earliest - currentBlock) * blockDuration * 1000;
+  return Math.min(expiresAt, now + MAX_ENTRY_TTL_MS);
+}
+
+async function fetchCached(inner: ArkivPublicClient, shape: QueryShape): Promise<CacheEntry> {
+  const { entries } = getCache();
+  const key = JSON.stringify(shape, (_, value) => (typeof value === 'bigint' ? value.toString() : value));
+
+  const cached = entries.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached;
+  }
+  entries.delete(key);
+
+  ensureSubscribed(inner);
+
+  // Metadata is always requested so the entry knows when its entities expire
+  let builder = inner.buildQuery()
+    .where(shape.predicates)
+    .withAttributes(shape.withAttributes)
+    .withPayload(shape.withPayload)
+    .withMetadata(true);
+  if (shape.limit !== undefined) builder = builder.limit(shape.limit);
+  if (shape.cursor !== undefined) builder = builder.cursor(shape.cursor);
+  const result = await builder.fetch();
+
+  const entry: CacheEntry = {
+    entities: result.entities,
+    cursor: result.hasNextPage() ? result.cursor : undefined,
+    expiresAt: await entryExpiry(inner, result.entities),
+    types: typesOf(shape.predicates),
+    keys: new Set(result.entities.map(entity => entity.key)),
+  };
+
+  if (entries.size >= MAX_ENTRIES) {
+    // Maps iterate in insertion order, so this evicts the oldest entry
+    entries.delete(entries.keys().next().value!);
+  }
+  entries.set(key, entry);
+  return entry;
+}
+
+class CachedQueryResult implements ArkivQueryResult {
+  constructor(
+    private inner: ArkivPublicClient,
+    private shape: QueryShape,
+    public entities: Entity[],
+    private _cursor: string | undefined,
+  ) {}
+
+  get cursor() {
+    return this._cursor;
+  }
+
+  hasNextPage() {
+    return this._cursor !== undefined;
+  }
+
+  async next() {
+    if (this._cursor === undefined) {
+      throw new Error('No more results');
+    }
+    this.shape = { ...this.shape, cursor: this._cursor };
+    const entry = await fetchCached(this.inner, this.shape);
+    this.entities = [...entry.entities];
+    this._cursor = entry.cursor;
+  }
+}
+
+class CachedQueryBuilder implements ArkivQueryBuilder {
+  private shape: QueryShape = { predicates: [], withAttributes: false, withPayload: false };
+
+  constructor(private inner: ArkivPublicClient) {}
+
+  where(predicates: Predicate[] | Predicate) {
+    this.shape.predicates.push(...(Array.isArray(predicates) ? predicates : [predicates]));
+    return this;
+  }
+
+  withAttributes(withAttributes: boolean = true) {
+    this.shape.withAttributes = withAttributes;
+    return this;
+  }
+
+  withPayload(withPayload: boolean = true) {
+    this.shape.withPayload = withPayload;
+    return this;
+  }
+
+  withMetadata(_withMetadata: boolean = true) {
+    // Cached queries always include metadata
+    return this;
+  }
+
+  limit(limit: number) {
+    this.shape.limit = limit;
+    return this;
+  }
+
+  cursor(cursor: string) {
+    this.shape.cursor = cursor;
+    return this;
+  }
+
+  async fetch(): Promise<ArkivQueryResult> {
+    const shape = { ...this.shape, predicates: [...this.shape.predicates] };
+    const entry = await fetchCached(this.inner, shape);
+    return new CachedQueryResult(this.inner, shape, [...entry.entities], entry.cursor);
+  }
+}
+
+/**
+ * Wrap a public client so its queries are served from the read cache.
+ * `getEntity`, block timing and subscriptions go straight to the backend.
+ */
+export function withReadCache(inner: ArkivPublicClient): ArkivPublicClient {
+  return {
+    buildQuery: () => new CachedQueryBuilder(inner),
+    getEntity: (key) => inner.getEntity(key),
+    getBlockTiming: () => inner.getBlockTiming(),
+    getTransaction: (args) => inner.getTransaction(args),
+    subscribeEntityEvents: (handlers, pollingInterval, fromBlock) =>
+      inner.subscribeEntityEvents(handlers, pollingInterval, fromBlock),
+  };
+}
@@ -0,0 +1,101 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { bytesToHex, toHex } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { encodeEntity } from './codec';
+import { buildIntent, INTENT_DOMAIN, INTENT_TYPES } from './intents';
+import { PreparedWrite, serializeCreates } from './preparedWrites';
+import { getRelayQuota, relayIntents, RELAYER_DAILY_QUOTA, SignedIntent } from './relayer';
+
+process.env.ARKIV_BACKEND = 'memory';
+process.env.ARKIV_READ_CACHE = 'off';
+
+const SERVER_KEY = `0x${'33'.repeat(32)}` as const;
+const user = privateKeyToAccount(`0x${'44'.repeat(32)}`);
+const wallet = user.address.toLowerCase();
+let nonceCounter = 0;
+
+function askWrite(skill = 'rust'): PreparedWrite {
+  return serializeCreates([encodeEntity('ask', {
+    attributes: [{ key: 'wallet', value: wallet }, { key: 'skill', value: skill }],
+    payload: { message: `Help with ${skill}` },
+    expiresIn: 3600,
+  })])[0];
+}
+
+async function sign(write: PreparedWrite, nonce = toHex(++nonceCounter, { size: 32 })): Promise<SignedIntent> {
+  const deadline = Math.floor(Date.now() / 1000) + 600;
+  const signature = await user.signTypedData({
+    domain: INTENT_DOMAIN,
+    types: INTENT_TYPES,
+    primaryType: 'EntityIntent',
+    message: buildIntent(write, wallet, nonce, deadline),
+  });
+  return { write, nonce, deadline, signature };
+}
+
+function relay(intents: SignedIntent[]) {
+  return relayIntents({ wallet, intents, privateKey: SERVER_KEY });
+}
+
+test('a signed intent is relayed once and counts against the quota', async () => {
+  const intent = await sign(askWrite());
+  const before = getRelayQuota(wallet).used;
+
+  const result = await relay([intent]);
+  assert.equal(result.keys.length, 1);
+  assert.equal(getRelayQuota(wallet).used, before + 1);
+
+  await assert.rejects(relay([intent]), { name: 'RelayError', status: 409 });
+  assert.equal(getRelayQuota(wallet).used, before + 1);
+});
+
+test('concurrent requests with the same nonce relay it only once', async () => {
+  const intent = await sign(askWrite());
+  const results = await Promise.allSettled([relay([intent]), relay([intent])]);
+
+  assert.equal(results.filter(result => result.status === 'fulfilled').length, 1);
+  assert.equal(results.filter(result => result.status === 'rejected').length, 1);
+});
+
+test('the same nonce twice in one request is rejected without using quota', async () => {
+  const nonce = toHex(++nonceCounter, { size: 32 });
+  const intents = [await sign(askWrite('go'), nonce), await sign(askWrite('zig'), nonce)];
+  const before = getRelayQuota(wallet).used;
+
+  await assert.rejects(relay(intents), { status: 409 });
+  assert.equal(getRelayQuota(wallet).used, before);
+});
+
+test('concurrent requests cannot overspend the daily quota', async () => {
+  const left = RELAYER_DAILY_QUOTA - getRelayQuota(wallet).used;
+  const batches = await Promise.all(Array.from({ length: Math.ceil(left / 10) + 1 }, async () =>
+    Promise.all(Array.from({ length: 10 }, () => sign(askWrite())))));
+
+  const results = await Promise.allSettled(batches.map(relay));
+  const relayed = results.reduce((sum, result, i) => sum + (result.status === 'fulfilled' ? batches[i].length : 0), 0);
+  assert.ok(relayed <= left);
+  assert.equal(getRelayQuota(wallet).used, RELAYER_DAILY_QUOTA - left + relayed);
+  assert.ok(results.some(result => result.status === 'rejected' && (result.reason as any).status === 429));
+});
+
+test('writes must be valid entities of a relayable type', async () => {
+  const invalid = askWrite();
+  invalid.attributes = invalid.attributes.filter(attr => attr.key !== 'skill');
+  await assert.rejects(relay([await sign(invalid)]), /skill/);
+
+  const toString = askWrite();
+  toString.attributes = toString.attributes.map(attr => attr.key === 'type' ? { ...attr, value: 'toString' } : attr);
+  await assert.rejects(relay([await sign(toString)]), /cannot be relayed/);
+
+  const binary = { ...askWrite(), contentType: 'application/octet-stream' } as PreparedWrite;
+  await assert.rejects(relay([await sign(binary)]), /JSON/);
+
+  const duplicated = askWrite();
+  duplicated.attributes = [...duplicated.attributes, { key: 'skill', value: 'go' }];
+  await assert.rejects(relay([await sign(duplicated)]), /Duplicate attribute skill/);
+
+  const large = askWrite();
+  large.payload = bytesToHex(new TextEncoder().encode(JSON.stringify({ message: 'x'.repeat(70 * 1024) })));
+  await assert.rejects(relay([await sign(large)]), /limited/);
+});
@@ -0,0 +1,305 @@
+import { eq } from "@arkiv-network/sdk/query"
+import { hexToBytes, recoverTypedDataAddress } from "viem"
+import { getPublicClient, getWalletClientFromPrivateKey } from "./client"
+import { decodeEntity, EntityType } from "./codec"
+import {
+  attributeValue,
+  buildIntent,
+  INTENT_ATTRIBUTES,
+  INTENT_DOMAIN,
+  INTENT_TYPES,
+  RELAYABLE_TYPES,
+  withIntentAttributes,
+} from "./intents"
+import { deserializeCreates, PreparedWrite } from "./preparedWrites"
+import { followUpSessionWrite, getSessionByKey } from "./sessions"
+import { BUSY_IMPORT_DAYS } from "./availability"
+
+/**
+ * Gasless writes: the server key submits entities on behalf of a wallet that
+ * signed an EIP-712 intent for each of them (see intents.ts).
+ *
+ * - the intent must be signed by the session wallet, which must also be the
+ *   wallet the entity speaks for (`RELAYABLE_TYPES`)
+ * - the entity must be valid for its schema, JSON, and at most
+ *   `MAX_PAYLOAD_BYTES` of payload
+ * - each nonce is accepted once, and only until the intent's deadline
+ * - entities live no longer than the app would keep them (`MAX_EXPIRES_IN`)
+ * - entities about a session must come from one of its participants and
+ *   repeat its participants and space
+ * - each wallet gets `RELAYER_DAILY_QUOTA` relayed entities per UTC day
+ *
+ * Nonces and quotas are tracked per process; nonces are also checked against
+ * entities already on Arkiv, so a restart doesn't reopen replays.
+ */
+
+export const RELAYER_DAILY_QUOTA = Number(process.env.RELAYER_DAILY_QUOTA) || 50;
+const MAX_INTENTS_PER_REQUEST = 10;
+const MAX_DEADLINE_SECONDS = 3600;
+const NONCE_PATTERN = /^0x[0-9a-f]{64}$/i;
+const HEX_PATTERN = /^0x([0-9a-f]{2})*$/i;
+// What a relayed entity may carry: what the app's own forms write, with room to spare
+const MAX_PAYLOAD_BYTES = 64 * 1024;
+const MAX_ATTRIBUTES = 32;
+const MAX_ATTRIBUTE_LENGTH = 1024;
+
+const DAY_SECONDS = 24 * 60 * 60;
+const YEAR_SECONDS = 365 * DAY_SECONDS;
+// Longest lifetime the relayer pays for, per type: what the app writes itself.
+// Session entities follow the session (confirmations fall back to a year
+// when the session can't be read).
+const MAX_EXPIRES_IN: Record<string, number> = {
+  user_profile: YEAR_SECONDS,
+  ask: 30 * DAY_SECONDS,
+  offer: 30 * DAY_SECONDS,
+  availability: YEAR_SECONDS,
+  busy_calendar: BUSY_IMPORT_DAYS * DAY_SECONDS,
+  session_confirmation: YEAR_SECONDS,
+  session_rejection: YEAR_SECONDS,
+  session_completion: YEAR_SECONDS,
+  session_cancellation: YEAR_SECONDS,
+  session_reschedule: YEAR_SECONDS,
+  session_reschedule_response: YEAR_SECONDS,
+  feedback: YEAR_SECONDS,
+};
+
+export class RelayError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'RelayError';
+  }
+}
+
+export type SignedIntent = {
+  write: PreparedWrite;
+  nonce: `0x${string}`;
+  deadline: number; // unix seconds
+  signature: `0x${string}`;
+};
+
+type RelayerState = {
+  usedNonces: Map<string, number>; // nonce -> deadline (unix seconds)
+  quotas: Map<string, number>; // `${wallet}:${day}` -> relayed entities
+};
+
+declare global {
+  var __mentorGraphRelayer: RelayerState | undefined;
+}
+
+function getState(): RelayerState {
+  if (!globalThis.__mentorGraphRelayer) {
+    globalThis.__mentorGraphRelayer = { usedNonces: new Map(), quotas: new Map() };
+  }
+  return globalThis.__mentorGraphRelayer;
+}
+
+function quotaKey(wallet: string): string {
+  return `${wallet.toLowerCase()}:${new Date().toISOString().slice(0, 10)}`;
+}
+
+export function getRelayQuota(wallet: string): { used: number; limit: number } {
+  return { used: getState().quotas.get(quotaKey(wallet)) || 0, limit: RELAYER_DAILY_QUOTA };
+}
+
+// Forget nonces past their deadline and quotas of past days
+function pruneNonces(nowSeconds: number) {
+  const { usedNonces, quotas } = getState();
+  usedNonces.forEach((deadline, nonce) => {
+    if (deadline < nowSeconds) usedNonces.delete(nonce);
+  });
+  const today = new Date(nowSeconds * 1000).toISOString().slice(0, 10);
+  quotas.forEach((_, key) => {
+    if (!key.endsWith(`:${today}`)) quotas.delete(key);
+  });
+}
+
+// The entity as the app itself would have written it
+function validateWrite(write: PreparedWrite, entityType: string) {
+  if (write.contentType !== 'application/json') {
+    throw new RelayError('Relayed entities must have a JSON payload');
+  }
+  if (!Array.isArray(write.attributes) || write.attributes.length > MAX_ATTRIBUTES) {
+    throw new RelayError(`At most ${MAX_ATTRIBUTES} attributes per entity`);
+  }
+  const keys = new Set<string>();
+  write.attributes.forEach(attr => {
+    if (typeof attr?.key !== 'string' || typeof attr.value !== 'string' || attr.value.length > MAX_ATTRIBUTE_LENGTH) {
+      throw new RelayError(`Attributes must be strings of at most ${MAX_ATTRIBUTE_LENGTH} characters`);
+    }
+    if (keys.has(attr.key)) {
+      throw new RelayError(`Duplicate attribute ${attr.key}`);
+    }
+    keys.add(attr.key);
+  });
+  if (typeof write.payload !== 'string' || !HEX_PATTERN.test(write.payload)) {
+    throw new RelayError('payload must be hex');
+  }
+  if ((write.payload.length - 2) / 2 > MAX_PAYLOAD_BYTES) {
+    throw new RelayError(`Relayed payloads are limited to ${MAX_PAYLOAD_BYTES / 1024} KB`);
+  }
+  try {
+    decodeEntity(entityType as EntityType, { key: 'relayed', attributes: write.attributes, payload: hexToBytes(write.payload) });
+  } catch (e: any) {
+    throw new RelayError(e.message);
+  }
+}
+
+async function verifyIntent(intent: SignedIntent, wallet: string, nowSeconds: number) {
+  const { write, nonce, deadline, signature } = intent;
+  const entityType = attributeValue(write.attributes, 'type') || '';
+
+  const claimAttribute = Object.prototype.hasOwnProperty.call(RELAYABLE_TYPES, entityType) ? RELAYABLE_TYPES[entityType] : undefined;
+  if (!claimAttribute) {
+    throw new RelayError(`Entity type '${entityType}' cannot be relayed`);
+  }
+  validateWrite(write, entityType);
+  if ((attributeValue(write.attributes, claimAttribute) || '').toLowerCase() !== wallet) {
+    throw new RelayError(`${entityType} must be written for the signed-in wallet`, 403);
+  }
+  if (write.attributes.some(attr => INTENT_ATTRIBUTES.includes(attr.key))) {
+    throw new RelayError('Intent attributes are set by the relayer');
+  }
+  if (!NONCE_PATTERN.test(nonce)) {
+    throw new RelayError('nonce must be 32 bytes of hex');
+  }
+  if (!Number.isInteger(deadline) || deadline < nowSeconds || deadline > nowSeconds + MAX_DEADLINE_SECONDS) {
+    throw new RelayError(`deadline must be within the next ${MAX_DEADLINE_SECONDS / 60} minutes`);
+  }
+  const maxExpiresIn = MAX_EXPIRES_IN[entityType] || DAY_SECONDS;
+  if (!Number.isInteger(write.expiresIn) || write.expiresIn <= 0 || write.expiresIn > maxExpiresIn) {
+    throw new RelayError(`${entityType} can be relayed for at most ${Math.round(maxExpiresIn / DAY_SECONDS)} days`);
+  }
+  const sessionKey = attributeValue(write.attributes, 'sessionKey');
+  if (sessionKey) {
+    await verifySessionWrite(write, entityType, sessionKey, wallet);
+  }
+
+  let signer: string;
+  try {
+    signer = await recoverTypedDataAddress({
+      domain: INTENT_DOMAIN,
+      types: INTENT_TYPES,
+      primaryType: 'EntityIntent',
+      message: buildIntent(write, wallet, nonce, deadline),
+      signature,
+    });
+  } catch {
+    throw new RelayError('Malformed intent signature');
+  }
+  if (signer.toLowerCase() !== wallet) {
+    throw new RelayError('Intent was not signed by the signed-in wallet', 403);
+  }
+}
+
+// Entities about a session only from its participants, naming the session's own participants and space
+async function verifySessionWrite(write: PreparedWrite, entityType: string, sessionKey: string, wallet: string) {
+  const session = await getSessionByKey(sessionKey);
+  if (!session) {
+    throw new RelayError(`${entityType} refers to an unknown session`, 404);
+  }
+  const expected: Record<string, string> = {
+    mentorWallet: session.mentorWallet.toLowerCase(),
+    learnerWallet: session.learnerWallet.toLowerCase(),
+    spaceId: session.spaceId,
+  };
+  if (wallet !== expected.mentorWallet && wallet !== expected.learnerWallet) {
+    throw new RelayError(`${entityType} can only be written by the session's participants`, 403);
+  }
+  Object.entries(expected).forEach(([key, value]) => {
+    const claimed = attributeValue(write.attributes, key);
+    if (claimed !== undefined && claimed.toLowerCase() !== value.toLowerCase()) {
+      throw new RelayError(`${entityType} ${key} does not match the session`);
+    }
+  });
+}
+
+/**
+ * Verify signed intents and submit their entities, with the intents recorded
+ * in them, in one transaction from the server key.
+ */
+export async function relayIntents({
+  wallet,
+  intents,
+  privateKey,
+}: {
+  wallet: string;
+  intents: SignedIntent[];
+  privateKey: `0x${string}`;
+}): Promise<{ txHash: string; keys: string[]; quota: { used: number; limit: number } }> {
+  const normalizedWallet = wallet.toLowerCase();
+  if (!Array.isArray(intents) || intents.length === 0) {
+    throw new RelayError('intents are required');
+  }
+  if (intents.length > MAX_INTENTS_PER_REQUEST) {
+    throw new RelayError(`At most ${MAX_INTENTS_PER_REQUEST} intents per request`);
+  }
+
+  const nowSeconds = Math.floor(Date.now() / 1000);
+  for (const intent of intents) {
+    await verifyIntent(intent, normalizedWallet, nowSeconds);
+  }
+
+  // Replay protection: unique within the request, unused in this process and on Arkiv.
+  // Nonces and quota are checked and reserved with no await in between, so
+  // concurrent requests can't replay an intent or overspend; failures release them
+  const state = getState();
+  pruneNonces(nowSeconds);
+  const nonces = intents.map(intent => intent.nonce.toLowerCase());
+  if (new Set(nonces).size !== nonces.length || nonces.some(nonce => state.usedNonces.has(nonce))) {
+    throw new RelayError('Intent nonce already used', 409);
+  }
+  const key = quotaKey(normalizedWallet);
+  const used = state.quotas.get(key) || 0;
+  if (used + intents.length > RELAYER_DAILY_QUOTA) {
+    throw new RelayError(`Daily relay quota of ${RELAYER_DAILY_QUOTA} writes reached; try again tomorrow or sign with your wallet`, 429);
+  }
+  intents.forEach(intent => state.usedNonces.set(intent.nonce.toLowerCase(), intent.deadline));
+  state.quotas.set(key, used + intents.length);
+  const release = () => {
+    nonces.forEach(nonce => state.usedNonces.delete(nonce));
+    state.quotas.set(key, Math.max(0, (state.quotas.get(key) || 0) - intents.length));
+  };
+
+  const publicClient = getPublicClient();
+  const onChain = await Promise.all(nonces.map(nonce => publicClient.buildQuery()
+    .where(eq('intentNonce', nonce))
+    .limit(1)
+    .fetch())).catch(e => {
+    release();
+    throw e;
+  });
+  if (onChain.some(result => result.entities.length > 0)) {
+    release();
+    throw new RelayError('Intent nonce already used', 409);
+  }
+
+  const writes = intents.map(intent => withIntentAttributes(intent.write, {
+    wallet: normalizedWallet,
+    nonce: intent.nonce.toLowerCase(),
+    deadline: intent.deadline,
+    signature: intent.signature,
+  }));
+
+  const walletClient = getWalletClientFromPrivateKey(privateKey);
+  let result;
+  try {
+    result = await walletClient.mutateEntities({ creates: deserializeCreates(writes) });
+  } catch (e) {
+    release();
+    throw e;
+  }
+
+  // Relayed confirmations (the session's meeting), completions, cancellations,
+  // feedback or reschedule answers may need server-key follow-up
+  const followedUp = new Set<string>();
+  for (const write of writes) {
+    const type = attributeValue(write.attributes, 'type')!;
+    const sessionKey = attributeValue(write.attributes, 'sessionKey');
+    if (!sessionKey || followedUp.has(`${type}:${sessionKey}`)) continue;
+    followedUp.add(`${type}:${sessionKey}`);
+    await followUpSessionWrite({ type, sessionKey, privateKey })
+      .catch(e => console.error('[relayer] Could not follow up session write:', e));
+  }
+
+  return { txHash: result.txHash, keys: result.createdEntities, quota: getRelayQuota(normalizedWallet) };
+}
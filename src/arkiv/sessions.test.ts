@@ -0,0 +1,236 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { eq } from '@arkiv-network/sdk/query';
+import { privateKeyToAccount } from 'viem/accounts';
+
+const SERVER_KEY = `0x${'33'.repeat(32)}` as const;
+const MENTOR_KEY = `0x${'44'.repeat(32)}` as const;
+const LEARNER_KEY = `0x${'55'.repeat(32)}` as const;
+const mentor = privateKeyToAccount(MENTOR_KEY).address.toLowerCase();
+const learner = privateKeyToAccount(LEARNER_KEY).address.toLowerCase();
+
+// Read when config.ts and verification.ts load
+process.env.VIDEO_ROOM_SECRET = 'test-secret';
+process.env.ARKIV_TRUSTED_WRITERS = privateKeyToAccount(SERVER_KEY).address;
+process.env.ARKIV_BACKEND = 'memory';
+process.env.ARKIV_READ_CACHE = 'off';
+const {
+  archiveSession,
+  cancelSession,
+  computeReliability,
+  confirmSession,
+  createSession,
+  deriveSessionStatus,
+  findNoShows,
+  findSessionConflicts,
+  followUpSessionWrite,
+  getSessionByKey,
+  getSessionRecord,
+  SessionConflictError,
+  suggestFreeSlots,
+} = await import('./sessions');
+const { getPublicClient } = await import('./client');
+const { buildJitsiRoomName } = await import('../lib/jitsi');
+type Session = import('./sessions').Session;
+
+const START = '2026-03-02T10:00:00.000Z';
+const startMs = new Date(START).getTime();
+const MINUTE = 60 * 1000;
+
+// A session confirmed by both participants, seen `minutes` after it starts
+function confirmedAt(minutes: number, overrides: Partial<Parameters<typeof deriveSessionStatus>[0]> = {}) {
+  return deriveSessionStatus({
+    sessionDate: START,
+    duration: 60,
+    confirmed: true,
+    rejected: false,
+    completed: false,
+    now: startMs + minutes * MINUTE,
+    ...overrides,
+  });
+}
+
+test('sessions are pending until both participants confirm', () => {
+  assert.equal(confirmedAt(-60, { confirmed: false }), 'pending');
+  assert.equal(confirmedAt(120, { confirmed: false }), 'pending');
+  assert.equal(confirmedAt(-60), 'scheduled');
+});
+
+test('confirmed sessions start at their time or when someone joins', () => {
+  assert.equal(confirmedAt(-1), 'scheduled');
+  assert.equal(confirmedAt(-5, { joined: 1 }), 'in-progress');
+  assert.equal(confirmedAt(0), 'in-progress');
+  // Without a known start, only joining starts it
+  assert.equal(confirmedAt(0, { sessionDate: 'someday' }), 'scheduled');
+  assert.equal(confirmedAt(0, { sessionDate: 'someday', joined: 1 }), 'in-progress');
+});
+
+test('sessions complete when both attest, or both joined and it has ended', () => {
+  assert.equal(confirmedAt(10, { completed: true }), 'completed');
+  assert.equal(confirmedAt(59, { joined: 2 }), 'in-progress');
+  assert.equal(confirmedAt(60, { joined: 2 }), 'completed');
+  assert.equal(confirmedAt(90, { joined: 2, duration: 120 }), 'in-progress');
+  // One participant joining isn't enough
+  assert.equal(confirmedAt(600, { joined: 1 }), 'in-progress');
+});
+
+test('rejected or cancelled sessions are cancelled, and stored final statuses stick', () => {
+  assert.equal(confirmedAt(-60, { confirmed: false, rejected: true }), 'cancelled');
+  assert.equal(confirmedAt(30, { cancelled: true, joined: 2 }), 'cancelled');
+  assert.equal(confirmedAt(-60, { storedStatus: 'completed', confirmed: false }), 'completed');
+  assert.equal(confirmedAt(-60, { storedStatus: 'cancelled' }), 'cancelled');
+  assert.equal(confirmedAt(-60, { storedStatus: 'scheduled', confirmed: false }), 'pending');
+});
+
+// A session both participants confirmed, `hoursAhead` from now
+async function scheduledSession(hoursAhead = 48) {
+  const { key } = await createSession({
+    mentorWallet: mentor,
+    learnerWallet: learner,
+    skill: 'rust',
+    sessionDate: new Date(Date.now() + hoursAhead * 60 * MINUTE).toISOString(),
+    privateKey: SERVER_KEY,
+  });
+  await confirmSession({ sessionKey: key, confirmedByWallet: mentor, privateKey: MENTOR_KEY });
+  await confirmSession({ sessionKey: key, confirmedByWallet: learner, privateKey: LEARNER_KEY });
+  return key;
+}
+
+test('cancelled sessions are archived once, by the server key', async () => {
+  const sessionKey = await scheduledSession();
+  assert.equal(await archiveSession({ sessionKey, privateKey: SERVER_KEY }), null);
+
+  await cancelSession({ sessionKey, cancelledByWallet: learner, reason: 'Sick', privateKey: LEARNER_KEY });
+  const [first, second] = await Promise.all([
+    archiveSession({ sessionKey, privateKey: SERVER_KEY }),
+    archiveSession({ sessionKey, privateKey: SERVER_KEY }),
+  ]);
+  assert.ok(first);
+  assert.equal(second, null);
+
+  const record = await getSessionRecord(sessionKey);
+  assert.equal(record?.recordKey, first.key);
+  assert.equal(record?.status, 'cancelled');
+  assert.equal(record?.cancellation?.cancelledBy, learner);
+  assert.equal(record?.cancellation?.reason, 'Sick');
+  assert.equal(record?.revision, 2);
+  assert.equal((await getSessionByKey(sessionKey))?.status, 'cancelled');
+});
+
+test('records written by other keys are ignored', async () => {
+  const sessionKey = await scheduledSession(72);
+  await cancelSession({ sessionKey, cancelledByWallet: mentor, reason: 'Travel', privateKey: MENTOR_KEY });
+
+  await archiveSession({ sessionKey, privateKey: MENTOR_KEY });
+  assert.equal(await getSessionRecord(sessionKey), null);
+});
+
+function booked(sessionDate: string, duration?: number) {
+  return { key: sessionDate, sessionDate, duration } as Session;
+}
+
+test('sessions conflict when they overlap, not when back to back', () => {
+  const sessions = [booked('2026-03-02T10:00:00.000Z'), booked('2026-03-02T14:00:00.000Z', 90)];
+
+  assert.deepEqual(findSessionConflicts(sessions, '2026-03-02T10:30:00.000Z', 30).map(s => s.key), ['2026-03-02T10:00:00.000Z']);
+  assert.deepEqual(findSessionConflicts(sessions, '2026-03-02T09:00:00.000Z'), []);
+  assert.deepEqual(findSessionConflicts(sessions, '2026-03-02T11:00:00.000Z', 180), []);
+  assert.equal(findSessionConflicts(sessions, '2026-03-02T15:00:00.000Z').length, 1);
+  assert.equal(findSessionConflicts(sessions, '2026-03-02T09:30:00.000Z', 360).length, 2);
+});
+
+test('suggested slots are the nearest free ones on the half hour', () => {
+  const start = Date.now() + 24 * 60 * MINUTE;
+  const at = (minutes: number) => new Date(start + minutes * MINUTE).toISOString();
+  const sessions = [booked(at(-90)), booked(at(0))];
+
+  assert.deepEqual(suggestFreeSlots(sessions, at(0), 60, 3), [at(60), at(90), at(120)]);
+  assert.deepEqual(suggestFreeSlots(sessions, at(0), 30, 2), [at(-30), at(60)]);
+});
+
+test('a participant cannot be booked into two sessions at once', async () => {
+  const sessionDate = new Date(Date.now() + 96 * 60 * MINUTE).toISOString();
+  const { key } = await createSession({ mentorWallet: mentor, learnerWallet: learner, skill: 'go', sessionDate, privateKey: SERVER_KEY });
+  const otherLearner = privateKeyToAccount(`0x${'66'.repeat(32)}`).address;
+
+  await assert.rejects(
+    createSession({ mentorWallet: otherLearner, learnerWallet: learner, skill: 'zig', sessionDate, duration: 30, privateKey: SERVER_KEY }),
+    (e: unknown) => e instanceof SessionConflictError && e.conflicts[0].key === key && e.suggestedSlots.length === 3
+  );
+});
+
+// Wallets are matched case-insensitively
+function upperCase(wallet: string) {
+  return `0x${wallet.slice(2).toUpperCase()}`;
+}
+
+// An unfinished session with a meeting, joined by `joined`
+function meeting(joined: string[]) {
+  return {
+    status: 'in-progress' as const,
+    sessionDate: START,
+    duration: 60,
+    videoProvider: 'jitsi' as const,
+    mentorWallet: upperCase(mentor),
+    learnerWallet: learner,
+    presence: joined.map(wallet => ({ wallet, firstJoinedAt: START, inMeeting: false })),
+  };
+}
+
+test('participants who never joined are no-shows once joining has closed', () => {
+  // Joining closes 30 minutes after the scheduled end
+  assert.deepEqual(findNoShows(meeting([learner]), startMs + 90 * MINUTE), []);
+  assert.deepEqual(findNoShows(meeting([learner]), startMs + 91 * MINUTE), [mentor]);
+  assert.deepEqual(findNoShows(meeting([]), startMs + 91 * MINUTE), [mentor, learner]);
+  assert.deepEqual(findNoShows(meeting([mentor, learner]), startMs + 91 * MINUTE), []);
+});
+
+test('only unfinished sessions with a meeting have no-shows', () => {
+  const later = startMs + 24 * 60 * MINUTE;
+  assert.deepEqual(findNoShows({ ...meeting([]), status: 'completed' }, later), []);
+  assert.deepEqual(findNoShows({ ...meeting([]), status: 'scheduled' }, later), []);
+  assert.deepEqual(findNoShows({ ...meeting([]), videoProvider: undefined }, later), []);
+});
+
+test('reliability counts missed sessions and late cancellations twice', () => {
+  const sessions = [
+    { status: 'completed' },
+    { status: 'completed' },
+    { status: 'in-progress', noShows: [mentor] },
+    { status: 'cancelled', cancellation: { cancelledBy: mentor, reason: 'Late', cancelledAt: START, late: true } },
+    { status: 'cancelled', declinedBy: mentor },
+    { status: 'in-progress', noShows: [learner] },
+  ] as Session[];
+
+  assert.deepEqual(computeReliability(upperCase(mentor), sessions), {
+    sessionsCancelled: 1,
+    lateCancellations: 1,
+    sessionsDeclined: 1,
+    sessionsMissed: 1,
+    reliabilityScore: 33,
+  });
+  assert.equal(computeReliability(learner, sessions).sessionsMissed, 1);
+  assert.equal(computeReliability(mentor, []).reliabilityScore, undefined);
+});
+
+test('meetings are recorded by the server key, without their room', async () => {
+  const sessionKey = await scheduledSession(120);
+  // Confirming with a participant's key can't vouch for the meeting
+  assert.equal((await getSessionByKey(sessionKey))?.videoProvider, undefined);
+
+  await followUpSessionWrite({ type: 'session_confirmation', sessionKey, privateKey: SERVER_KEY });
+  assert.equal((await getSessionByKey(sessionKey))?.videoProvider, 'jitsi');
+
+  const meetings = await getPublicClient().buildQuery()
+    .where(eq('type', 'session_jitsi'))
+    .where(eq('sessionKey', sessionKey))
+    .withAttributes(true)
+    .withPayload(true)
+    .fetch();
+  assert.equal(meetings.entities.length, 2);
+  const room = buildJitsiRoomName(sessionKey);
+  meetings.entities.forEach(entity => {
+    assert.ok(!JSON.stringify(entity.attributes).includes(room));
+    assert.ok(!new TextDecoder().decode(entity.payload).includes(room));
+  });
+});
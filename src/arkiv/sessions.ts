@@ -1,7 +1,16 @@
 import { eq } from "@arkiv-network/sdk/query"
-import { getPublicClient, getWalletClientFromPrivateKey } from "./client"
-import { generateJitsiMeeting } from "../lib/jitsi"
-import { JITSI_BASE_URL } from "../config"
+import { privateKeyToAccount } from "viem/accounts"
+import { getPublicClient, getWalletClientFromPrivateKey, resolveWalletClient, ArkivWalletClient } from "./client"
+import { decodeEntities, encodeEntity, tryDecodeEntity, DecodedEntity, SessionRecordPayload } from "./codec"
+import { collectPages, fetchCompanions, fetchPage, mergePages, Page, PageParams } from "./pagination"
+import { fetchTxHashes, pinCreationTxHash } from "./txHashes"
+import { getBlockTiming, getRemainingSeconds } from "./expiry"
+import { getMeetingProvider } from "../lib/video"
+import { joinWindow } from "../lib/meetingWindow"
+import { resolveSpace } from "./spaces"
+import { tryDecodeVerifiedEntity, verifyEntities } from "./verification"
+import { listFeedbackForSession } from "./feedback"
+import { CANCELLATION_NOTICE_HOURS, SPACE_ID } from "../config"
 
 export type Session = {
   key: string;
@@ -18,11 +27,426 @@ export type Session = {
   txHash?: string;
   mentorConfirmed?: boolean;
   learnerConfirmed?: boolean;
-  // Jitsi video meeting fields
+  mentorCompleted?: boolean; // Attested the session took place
+  learnerCompleted?: boolean;
+  recordKey?: string; // Archived session_record, once the session is completed
+  completedAt?: string; // From the session record
+  feedbackKeys?: string[]; // From the session record
+  originalSessionDate?: string; // Set once the session has been moved by an accepted reschedule
+  pendingReschedule?: SessionReschedule; // Latest proposal awaiting the other participant
+  declinedBy?: string; // Set when a participant rejected the request before it was scheduled
+  cancellation?: SessionCancellation; // Set when a participant called off the scheduled session
+  // Set once the session has a video meeting (see src/lib/video.ts). Its room
+  // and join link are private: participants get them from /api/video/join
   videoProvider?: 'jitsi' | 'none' | 'custom';
-  videoRoomName?: string;
-  videoJoinUrl?: string;
-  videoJwtToken?: string; // For future JWT-secured deployments
+  presence?: SessionPresence[]; // Participants seen in the meeting
+  noShows?: string[]; // Participants who never joined, once the meeting has closed
+  revision?: number; // Visible changes so far (confirmed, each accepted move, cancelled); only grows
+}
+
+export type SessionPresence = {
+  wallet: string;
+  firstJoinedAt: string;
+  lastLeftAt?: string;
+  inMeeting: boolean; // Last seen joining rather than leaving
+};
+
+export type SessionReschedule = {
+  key: string;
+  sessionKey: string;
+  proposedBy: string;
+  sessionDate: string;
+  duration?: number;
+  note?: string;
+  createdAt: string;
+};
+
+export type SessionCancellation = {
+  key?: string; // Unset once read back from a session record
+  cancelledBy: string;
+  reason: string;
+  cancelledAt: string;
+  late: boolean; // Less than CANCELLATION_NOTICE_HOURS before the session started
+};
+
+/**
+ * Whether cancelling at `cancelledAt` gave less notice than the policy asks
+ * for. Derived when read, so the flag follows the session's current time.
+ */
+export function isLateCancellation(sessionDate: string, cancelledAt: string): boolean {
+  const start = new Date(sessionDate).getTime();
+  const cancelled = new Date(cancelledAt).getTime();
+  if (isNaN(start) || isNaN(cancelled)) return false;
+  return start - cancelled < CANCELLATION_NOTICE_HOURS * 60 * 60 * 1000;
+}
+
+/**
+ * Group verified cancellations by session, keeping the first one from a
+ * participant: once cancelled, later cancellations change nothing.
+ */
+async function buildCancellationMap(
+  cancellationEntities: any[],
+  participantsBySession: Record<string, string[]>
+): Promise<Record<string, DecodedEntity<'session_cancellation'>>> {
+  const cancellations = (await verifyEntities(decodeEntities('session_cancellation', cancellationEntities)))
+    .sort((a, b) => cancelledAt(a).localeCompare(cancelledAt(b)));
+
+  const cancellationMap: Record<string, DecodedEntity<'session_cancellation'>> = {};
+  cancellations.forEach(decoded => {
+    const { sessionKey, cancelledBy } = decoded.attributes;
+    if (!participantsBySession[sessionKey]?.includes(cancelledBy.toLowerCase())) return;
+    if (!cancellationMap[sessionKey]) cancellationMap[sessionKey] = decoded;
+  });
+  return cancellationMap;
+}
+
+function cancelledAt(decoded: DecodedEntity<'session_cancellation'>): string {
+  return decoded.payload.cancelledAt || decoded.attributes.createdAt || '';
+}
+
+function mapCancellation(decoded: DecodedEntity<'session_cancellation'>, sessionDate: string): SessionCancellation {
+  return {
+    key: decoded.key,
+    cancelledBy: decoded.attributes.cancelledBy.toLowerCase(),
+    reason: decoded.payload.reason || '',
+    cancelledAt: cancelledAt(decoded),
+    late: isLateCancellation(sessionDate, cancelledAt(decoded)),
+  };
+}
+
+type RescheduleState = {
+  accepted?: SessionReschedule; // Latest accepted proposal: the session's current time
+  acceptedCount?: number;
+  pending?: SessionReschedule;
+};
+
+function mapReschedule(decoded: DecodedEntity<'session_reschedule'>): SessionReschedule {
+  const { attributes: attrs, payload } = decoded;
+  return {
+    key: decoded.key,
+    sessionKey: attrs.sessionKey,
+    proposedBy: attrs.proposedBy.toLowerCase(),
+    sessionDate: payload.sessionDate || attrs.sessionDate,
+    duration: payload.duration || undefined,
+    note: payload.note || undefined,
+    createdAt: attrs.createdAt || '',
+  };
+}
+
+/**
+ * Group verified reschedule proposals and responses by session. A response
+ * only counts when it comes from the participant who didn't make the
+ * proposal, and a newer proposal supersedes older unanswered ones.
+ */
+async function buildRescheduleMap(
+  proposalEntities: any[],
+  responseEntities: any[],
+  participantsBySession: Record<string, string[]>
+): Promise<Record<string, RescheduleState>> {
+  const [proposals, responses] = await Promise.all([
+    verifyEntities(decodeEntities('session_reschedule', proposalEntities)),
+    verifyEntities(decodeEntities('session_reschedule_response', responseEntities)),
+  ]);
+
+  const proposalsBySession: Record<string, SessionReschedule[]> = {};
+  proposals.map(mapReschedule).forEach(proposal => {
+    const participants = participantsBySession[proposal.sessionKey];
+    if (!participants?.includes(proposal.proposedBy)) return;
+    (proposalsBySession[proposal.sessionKey] ||= []).push(proposal);
+  });
+
+  const responseByProposal: Record<string, string> = {};
+  responses.forEach(({ attributes }) => {
+    const respondedBy = attributes.respondedBy.toLowerCase();
+    if (!participantsBySession[attributes.sessionKey]?.includes(respondedBy)) return;
+    const responseKey = `${attributes.rescheduleKey}:${respondedBy}`;
+    if (!responseByProposal[responseKey]) responseByProposal[responseKey] = attributes.response;
+  });
+
+  const rescheduleMap: Record<string, RescheduleState> = {};
+  Object.entries(proposalsBySession).forEach(([sessionKey, sessionProposals]) => {
+    const state: RescheduleState = {};
+    sessionProposals
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .forEach(proposal => {
+        const other = participantsBySession[sessionKey].find(wallet => wallet !== proposal.proposedBy);
+        const response = responseByProposal[`${proposal.key}:${other}`];
+        if (response === 'accepted') {
+          state.accepted = proposal;
+          state.acceptedCount = (state.acceptedCount || 0) + 1;
+        }
+        state.pending = response ? undefined : proposal;
+      });
+    rescheduleMap[sessionKey] = state;
+  });
+  return rescheduleMap;
+}
+
+/**
+ * Fold verified presence events into one entry per participant and session.
+ * Events from anyone else are ignored.
+ */
+async function buildPresenceMap(
+  presenceEntities: any[],
+  participantsBySession: Record<string, string[]>
+): Promise<Record<string, SessionPresence[]>> {
+  const events = (await verifyEntities(decodeEntities('session_presence', presenceEntities)))
+    .sort((a, b) => presenceAt(a).localeCompare(presenceAt(b)));
+
+  const byWallet: Record<string, Record<string, SessionPresence>> = {};
+  events.forEach(decoded => {
+    const { sessionKey, event } = decoded.attributes;
+    const wallet = decoded.attributes.wallet.toLowerCase();
+    if (!participantsBySession[sessionKey]?.includes(wallet)) return;
+    const sessionPresence = byWallet[sessionKey] ||= {};
+    const current = sessionPresence[wallet];
+    if (event === 'join') {
+      sessionPresence[wallet] = { ...current, wallet, firstJoinedAt: current?.firstJoinedAt || presenceAt(decoded), inMeeting: true };
+    } else if (event === 'leave' && current) {
+      sessionPresence[wallet] = { ...current, lastLeftAt: presenceAt(decoded), inMeeting: false };
+    }
+  });
+  return Object.fromEntries(Object.entries(byWallet).map(([sessionKey, entries]) => [sessionKey, Object.values(entries)]));
+}
+
+function presenceAt(decoded: DecodedEntity<'session_presence'>): string {
+  return decoded.payload.at || decoded.attributes.createdAt || '';
+}
+
+type JitsiInfo = {
+  videoProvider?: string;
+};
+
+function mapJitsiInfo(decoded: DecodedEntity<'session_jitsi'>): JitsiInfo {
+  const { attributes: attrs, payload } = decoded;
+  return {
+    videoProvider: payload.videoProvider || attrs.videoProvider,
+  };
+}
+
+/**
+ * Derive a session's lifecycle status from its participants' attestations,
+ * their presence in the meeting and its time window:
+ * - `cancelled`: either participant rejected it, or cancelled it once scheduled
+ * - `pending`: not yet confirmed by both participants
+ * - `scheduled`: confirmed by both, not started and nobody in the meeting yet
+ * - `in-progress`: started or joined, and not yet completed
+ * - `completed`: both participants attested that it took place, or both
+ *   joined the meeting and its scheduled end has passed
+ *
+ * A stored `cancelled` or `completed` status (older entities) is final.
+ */
+export function deriveSessionStatus({
+  storedStatus,
+  sessionDate,
+  duration,
+  confirmed,
+  rejected,
+  cancelled,
+  completed,
+  joined = 0,
+  now = Date.now(),
+}: {
+  storedStatus?: string;
+  sessionDate: string;
+  duration?: number;
+  confirmed: boolean; // by both participants
+  rejected: boolean; // by either participant
+  cancelled?: boolean; // by either participant
+  completed: boolean; // by both participants
+  joined?: number; // participants seen in the meeting
+  now?: number;
+}): Session['status'] {
+  if (storedStatus === 'cancelled' || storedStatus === 'completed') return storedStatus;
+  if (rejected || cancelled) return 'cancelled';
+  if (!confirmed) return 'pending';
+  if (completed) return 'completed';
+
+  const start = new Date(sessionDate).getTime();
+  if (isNaN(start)) return joined > 0 ? 'in-progress' : 'scheduled';
+  const end = start + (duration || 60) * 60 * 1000;
+  if (joined >= 2 && now >= end) return 'completed';
+  return now >= start || joined > 0 ? 'in-progress' : 'scheduled';
+}
+
+/**
+ * Participants who never joined a session's meeting, once joining has
+ * closed (see `joinWindow`). Only sessions that are still unfinished and had
+ * a meeting to join can have no-shows.
+ */
+export function findNoShows(
+  session: Pick<Session, 'status' | 'sessionDate' | 'duration' | 'videoProvider' | 'mentorWallet' | 'learnerWallet' | 'presence'>,
+  now = Date.now()
+): string[] {
+  if (session.status !== 'in-progress' || !session.videoProvider) return [];
+  if (now <= joinWindow(session).closesAt.getTime()) return [];
+  const joined = new Set((session.presence || []).map(p => p.wallet));
+  return [session.mentorWallet, session.learnerWallet]
+    .map(wallet => wallet.toLowerCase())
+    .filter(wallet => !joined.has(wallet));
+}
+
+function mapSession(
+  decoded: DecodedEntity<'session'>,
+  {
+    txHash,
+    confirmations,
+    rejections,
+    completions,
+    cancellation,
+    reschedules,
+    jitsiInfo,
+    presence,
+  }: {
+    txHash?: string;
+    confirmations: Set<string>;
+    rejections: Set<string>;
+    completions: Set<string>;
+    cancellation?: DecodedEntity<'session_cancellation'>;
+    reschedules: RescheduleState;
+    jitsiInfo: JitsiInfo;
+    presence: SessionPresence[];
+  }
+): Session {
+  const { attributes: attrs, payload } = decoded;
+  const mentorWallet = attrs.mentorWallet;
+  const learnerWallet = attrs.learnerWallet;
+  const originalSessionDate = attrs.sessionDate || payload.sessionDate || '';
+  // An accepted reschedule moves the session
+  const { accepted, acceptedCount = 0, pending } = reschedules;
+  const sessionDate = accepted?.sessionDate || originalSessionDate;
+
+  // Accepting a proposal is both participants agreeing to the new time
+  const mentorConfirmed = confirmations.has(mentorWallet.toLowerCase()) || Boolean(accepted);
+  const learnerConfirmed = confirmations.has(learnerWallet.toLowerCase()) || Boolean(accepted);
+  const mentorRejected = rejections.has(mentorWallet.toLowerCase());
+  const learnerRejected = rejections.has(learnerWallet.toLowerCase());
+  const mentorCompleted = completions.has(mentorWallet.toLowerCase());
+  const learnerCompleted = completions.has(learnerWallet.toLowerCase());
+  const duration = accepted?.duration || payload.duration || undefined;
+
+  const finalStatus = deriveSessionStatus({
+    storedStatus: attrs.status || payload.status,
+    sessionDate,
+    duration,
+    confirmed: mentorConfirmed && learnerConfirmed,
+    rejected: mentorRejected || learnerRejected,
+    cancelled: Boolean(cancellation),
+    completed: mentorCompleted && learnerCompleted,
+    joined: presence.length,
+  });
+
+  const session: Session = {
+    key: decoded.key,
+    mentorWallet,
+    learnerWallet,
+    skill: attrs.skill || '',
+    spaceId: attrs.spaceId || SPACE_ID,
+    createdAt: attrs.createdAt || '',
+    sessionDate,
+    status: finalStatus,
+    duration,
+    notes: payload.notes || undefined,
+    feedbackKey: payload.feedbackKey || undefined,
+    txHash,
+    mentorConfirmed,
+    learnerConfirmed,
+    mentorCompleted,
+    learnerCompleted,
+    originalSessionDate: accepted ? originalSessionDate : undefined,
+    pendingReschedule: finalStatus === 'cancelled' ? undefined : pending,
+    declinedBy: mentorRejected ? mentorWallet.toLowerCase() : learnerRejected ? learnerWallet.toLowerCase() : undefined,
+    cancellation: cancellation ? mapCancellation(cancellation, sessionDate) : undefined,
+    videoProvider: jitsiInfo.videoProvider as Session['videoProvider'],
+    presence: presence.length > 0 ? presence : undefined,
+    revision: (finalStatus !== 'pending' ? 1 : 0) + acceptedCount + (finalStatus === 'cancelled' ? 1 : 0),
+  };
+  const noShows = findNoShows(session);
+  return noShows.length > 0 ? { ...session, noShows } : session;
+}
+
+// Sessions that still hold their slot
+const ACTIVE_STATUSES: Session['status'][] = ['pending', 'scheduled', 'in-progress'];
+const SLOT_STEP_MINUTES = 30;
+const SLOT_SEARCH_DAYS = 7;
+
+export class SessionConflictError extends Error {
+  constructor(public conflicts: Session[], public suggestedSlots: string[]) {
+    super(`This time overlaps ${conflicts.length} existing session${conflicts.length === 1 ? '' : 's'}`);
+    this.name = 'SessionConflictError';
+  }
+}
+
+export class SessionNotFoundError extends Error {
+  constructor(public sessionKey: string) {
+    super('Session not found');
+    this.name = 'SessionNotFoundError';
+  }
+}
+
+// The stored session, for one of its participants
+async function getParticipantSession(sessionKey: string, wallet: string): Promise<Session> {
+  const session = await getSessionByKey(sessionKey);
+  if (!session) {
+    throw new SessionNotFoundError(sessionKey);
+  }
+  const normalizedWallet = wallet.toLowerCase();
+  if (session.mentorWallet.toLowerCase() !== normalizedWallet && session.learnerWallet.toLowerCase() !== normalizedWallet) {
+    throw new Error('Wallet is not part of this session');
+  }
+  return session;
+}
+
+function sessionInterval(sessionDate: string, duration?: number): [number, number] {
+  const start = new Date(sessionDate).getTime();
+  return [start, start + (duration || 60) * 60 * 1000];
+}
+
+/**
+ * Pending, scheduled and in-progress sessions of any of the wallets, in any
+ * space: a participant can't be in two sessions at once wherever they are.
+ */
+export async function listActiveSessionsForWallets(wallets: string[]): Promise<Session[]> {
+  const lists = await Promise.all(wallets.map(wallet => listSessionsForWallet(wallet)));
+  const byKey = new Map<string, Session>();
+  lists.flat().forEach(s => {
+    if (ACTIVE_STATUSES.includes(s.status)) byKey.set(s.key, s);
+  });
+  return Array.from(byKey.values());
+}
+
+/**
+ * Sessions overlapping `[sessionDate, sessionDate + duration)`. Back-to-back
+ * sessions don't overlap.
+ */
+export function findSessionConflicts(sessions: Session[], sessionDate: string, duration?: number): Session[] {
+  const [start, end] = sessionInterval(sessionDate, duration);
+  return sessions.filter(s => {
+    const [otherStart, otherEnd] = sessionInterval(s.sessionDate, s.duration);
+    return start < otherEnd && otherStart < end;
+  });
+}
+
+/**
+ * The `count` free slots nearest to `sessionDate`, earlier or later, on a
+ * 30-minute grid within a week either way. Slots are in the future and
+ * returned in chronological order.
+ */
+export function suggestFreeSlots(sessions: Session[], sessionDate: string, duration?: number, count = 3): string[] {
+  const requested = new Date(sessionDate).getTime();
+  const stepMs = SLOT_STEP_MINUTES * 60 * 1000;
+  const maxSteps = (SLOT_SEARCH_DAYS * 24 * 60) / SLOT_STEP_MINUTES;
+  const now = Date.now();
+  const slots: number[] = [];
+
+  for (let step = 1; step <= maxSteps && slots.length < count; step++) {
+    for (const candidate of [requested - step * stepMs, requested + step * stepMs]) {
+      if (slots.length >= count || candidate <= now) continue;
+      const candidateDate = new Date(candidate).toISOString();
+      if (findSessionConflicts(sessions, candidateDate, duration).length === 0) slots.push(candidate);
+    }
+  }
+  return slots.sort((a, b) => a - b).map(slot => new Date(slot).toISOString());
 }
 
 export async function createSession({
@@ -33,6 +457,7 @@ export async function createSession({
   duration,
   notes,
   privateKey,
+  spaceId,
 }: {
   mentorWallet: string;
   learnerWallet: string;
@@ -41,6 +466,7 @@ export async function createSession({
   duration?: number;
   notes?: string;
   privateKey: `0x${string}`;
+  spaceId?: string;
 }): Promise<{ key: string; txHash: string }> {
   // Normalize wallet addresses to lowercase for consistency
   const normalizedMentorWallet = mentorWallet.toLowerCase();
@@ -50,10 +476,16 @@ export async function createSession({
   if (normalizedMentorWallet === normalizedLearnerWallet) {
     throw new Error('Mentor and learner must be different wallets');
   }
+
+  // Neither participant can be double-booked
+  const activeSessions = await listActiveSessionsForWallets([normalizedMentorWallet, normalizedLearnerWallet]);
+  const conflicts = findSessionConflicts(activeSessions, sessionDate, duration);
+  if (conflicts.length > 0) {
+    throw new SessionConflictError(conflicts, suggestFreeSlots(activeSessions, sessionDate, duration));
+  }
   
   const walletClient = getWalletClientFromPrivateKey(privateKey);
-  const enc = new TextEncoder();
-  const spaceId = 'local-dev';
+  const space = await resolveSpace(spaceId);
   const status = 'pending'; // Start as pending, requires confirmation
   const createdAt = new Date().toISOString();
 
@@ -71,303 +503,159 @@ export async function createSession({
   const now = Date.now();
   const expiresInSeconds = Math.max(1, Math.floor((expirationTime - now) / 1000)); // Ensure at least 1 second
 
-  const { entityKey, txHash } = await walletClient.createEntity({
-    payload: enc.encode(JSON.stringify(payload)),
-    contentType: 'application/json',
+  const { entityKey, txHash } = await walletClient.createEntity(encodeEntity('session', {
+    payload,
     attributes: [
-      { key: 'type', value: 'session' },
       { key: 'mentorWallet', value: normalizedMentorWallet },
       { key: 'learnerWallet', value: normalizedLearnerWallet },
       { key: 'skill', value: skill },
-      { key: 'spaceId', value: spaceId },
+      { key: 'spaceId', value: space.spaceId },
       { key: 'createdAt', value: createdAt },
       { key: 'sessionDate', value: sessionDate },
       { key: 'status', value: status },
     ],
     expiresIn: expiresInSeconds,
-  });
-
-  // Store txHash in a separate entity for verifiability (same expiration)
-  await walletClient.createEntity({
-    payload: enc.encode(JSON.stringify({
-      txHash,
-    })),
-    contentType: 'application/json',
-    attributes: [
-      { key: 'type', value: 'session_txhash' },
-      { key: 'sessionKey', value: entityKey },
-      { key: 'mentorWallet', value: normalizedMentorWallet },
-      { key: 'learnerWallet', value: normalizedLearnerWallet },
-      { key: 'spaceId', value: spaceId },
-    ],
-    expiresIn: expiresInSeconds,
-  });
+  }));
 
   return { key: entityKey, txHash };
 }
 
-export async function listSessions(params?: { 
+type SessionListParams = {
   mentorWallet?: string; 
   learnerWallet?: string; 
   skill?: string; 
   status?: string;
   spaceId?: string;
-}): Promise<Session[]> {
+};
+
+export async function listSessionsPage(params: SessionListParams & PageParams = {}): Promise<Page<Session>> {
   const publicClient = getPublicClient();
   const query = publicClient.buildQuery();
   let queryBuilder = query.where(eq('type', 'session'));
   
-  if (params?.spaceId) {
+  if (params.spaceId) {
     queryBuilder = queryBuilder.where(eq('spaceId', params.spaceId));
   }
-  if (params?.mentorWallet) {
+  if (params.mentorWallet) {
     // Normalize wallet address to lowercase for querying
     queryBuilder = queryBuilder.where(eq('mentorWallet', params.mentorWallet.toLowerCase()));
   }
-  if (params?.learnerWallet) {
+  if (params.learnerWallet) {
     // Normalize wallet address to lowercase for querying
     queryBuilder = queryBuilder.where(eq('learnerWallet', params.learnerWallet.toLowerCase()));
   }
-  if (params?.skill) {
+  if (params.skill) {
     queryBuilder = queryBuilder.where(eq('skill', params.skill));
   }
-  if (params?.status) {
+  if (params.status) {
     queryBuilder = queryBuilder.where(eq('status', params.status));
   }
   
-  const [result, txHashResult] = await Promise.all([
-    queryBuilder
-      .withAttributes(true)
-      .withPayload(true)
-      .limit(100)
-      .fetch(),
-    publicClient.buildQuery()
-      .where(eq('type', 'session_txhash'))
-      .withAttributes(true)
-      .withPayload(true)
-      .limit(100)
-      .fetch(),
-  ]);
-
-  // Build txHash map
-  const txHashMap: Record<string, string> = {};
-  txHashResult.entities.forEach((entity: any) => {
-    const attrs = entity.attributes || {};
-    const getAttr = (key: string): string => {
-      if (Array.isArray(attrs)) {
-        const attr = attrs.find((a: any) => a.key === key);
-        return String(attr?.value || '');
-      }
-      return String(attrs[key] || '');
-    };
-    const sessionKey = getAttr('sessionKey');
-    if (sessionKey) {
-      try {
-        const payload = entity.payload instanceof Uint8Array
-          ? new TextDecoder().decode(entity.payload)
-          : typeof entity.payload === 'string'
-          ? entity.payload
-          : JSON.stringify(entity.payload);
-        const decoded = JSON.parse(payload);
-        if (decoded.txHash) {
-          txHashMap[sessionKey] = decoded.txHash;
-        }
-      } catch (e) {
-        console.error('Error decoding txHash payload:', e);
-      }
-    }
-  });
+  const result = await fetchPage(queryBuilder.withAttributes(true).withPayload(true).withMetadata(true), params);
+  const sessions = decodeEntities('session', result.entities);
 
-  // Get all confirmations, rejections, and Jitsi info for these sessions
-  const sessionKeys = result.entities.map((e: any) => e.key);
+  // Get txHashes, confirmations, rejections, completions, and Jitsi info for the sessions on this page
+  const sessionKeys = sessions.map(s => s.key);
   
-  const [confirmationsResult, rejectionsResult, jitsiResult] = await Promise.all([
-    sessionKeys.length > 0
-      ? publicClient.buildQuery()
-          .where(eq('type', 'session_confirmation'))
-          .withAttributes(true)
-          .limit(100)
-          .fetch()
-      : { entities: [] },
-    sessionKeys.length > 0
-      ? publicClient.buildQuery()
-          .where(eq('type', 'session_rejection'))
-          .withAttributes(true)
-          .limit(100)
-          .fetch()
-      : { entities: [] },
-    sessionKeys.length > 0
-      ? publicClient.buildQuery()
-          .where(eq('type', 'session_jitsi'))
-          .withAttributes(true)
-          .limit(100)
-          .fetch()
-      : { entities: [] },
+  const [txHashMap, confirmationEntities, rejectionEntities, completionEntities, cancellationEntities, proposalEntities, responseEntities, jitsiEntities, presenceEntities] = await Promise.all([
+    fetchTxHashes(publicClient, 'session_txhash', sessions.map(s => s.raw)),
+    fetchCompanions(publicClient, 'session_confirmation', 'sessionKey', sessionKeys),
+    fetchCompanions(publicClient, 'session_rejection', 'sessionKey', sessionKeys),
+    fetchCompanions(publicClient, 'session_completion', 'sessionKey', sessionKeys),
+    fetchCompanions(publicClient, 'session_cancellation', 'sessionKey', sessionKeys),
+    fetchCompanions(publicClient, 'session_reschedule', 'sessionKey', sessionKeys),
+    fetchCompanions(publicClient, 'session_reschedule_response', 'sessionKey', sessionKeys),
+    fetchCompanions(publicClient, 'session_jitsi', 'sessionKey', sessionKeys),
+    fetchCompanions(publicClient, 'session_presence', 'sessionKey', sessionKeys),
   ]);
 
-  // Build confirmation map: sessionKey -> Set of confirmedBy wallets
+  // Build confirmation map: sessionKey -> Set of confirmedBy wallets (verified only)
   const confirmationMap: Record<string, Set<string>> = {};
-  confirmationsResult.entities.forEach((entity: any) => {
-    const attrs = entity.attributes || {};
-    const getAttr = (key: string): string => {
-      if (Array.isArray(attrs)) {
-        const attr = attrs.find((a: any) => a.key === key);
-        return String(attr?.value || '');
-      }
-      return String(attrs[key] || '');
-    };
-    const sessionKey = getAttr('sessionKey');
-    const confirmedBy = getAttr('confirmedBy');
-    if (sessionKey && confirmedBy && sessionKeys.includes(sessionKey)) {
-      if (!confirmationMap[sessionKey]) {
-        confirmationMap[sessionKey] = new Set();
-      }
-      confirmationMap[sessionKey].add(confirmedBy.toLowerCase());
+  (await verifyEntities(decodeEntities('session_confirmation', confirmationEntities))).forEach(({ attributes }) => {
+    const { sessionKey, confirmedBy } = attributes;
+    if (!confirmationMap[sessionKey]) {
+      confirmationMap[sessionKey] = new Set();
     }
+    confirmationMap[sessionKey].add(confirmedBy.toLowerCase());
   });
 
-  // Build rejection map: sessionKey -> Set of rejectedBy wallets
+  // Build rejection map: sessionKey -> Set of rejectedBy wallets (verified only)
   const rejectionMap: Record<string, Set<string>> = {};
-  rejectionsResult.entities.forEach((entity: any) => {
-    const attrs = entity.attributes || {};
-    const getAttr = (key: string): string => {
-      if (Array.isArray(attrs)) {
-        const attr = attrs.find((a: any) => a.key === key);
-        return String(attr?.value || '');
-      }
-      return String(attrs[key] || '');
-    };
-    const sessionKey = getAttr('sessionKey');
-    const rejectedBy = getAttr('rejectedBy');
-    if (sessionKey && rejectedBy && sessionKeys.includes(sessionKey)) {
-      if (!rejectionMap[sessionKey]) {
-        rejectionMap[sessionKey] = new Set();
-      }
-      rejectionMap[sessionKey].add(rejectedBy.toLowerCase());
+  (await verifyEntities(decodeEntities('session_rejection', rejectionEntities))).forEach(({ attributes }) => {
+    const { sessionKey, rejectedBy } = attributes;
+    if (!rejectionMap[sessionKey]) {
+      rejectionMap[sessionKey] = new Set();
     }
+    rejectionMap[sessionKey].add(rejectedBy.toLowerCase());
   });
 
-  // Build Jitsi info map: sessionKey -> Jitsi info
-  const jitsiMap: Record<string, { videoProvider?: string; videoRoomName?: string; videoJoinUrl?: string; videoJwtToken?: string }> = {};
-  jitsiResult.entities.forEach((entity: any) => {
-    const attrs = entity.attributes || {};
-    const getAttr = (key: string): string => {
-      if (Array.isArray(attrs)) {
-        const attr = attrs.find((a: any) => a.key === key);
-        return String(attr?.value || '');
-      }
-      return String(attrs[key] || '');
-    };
-    let payload: any = {};
-    try {
-      if (entity.payload) {
-        const decoded = entity.payload instanceof Uint8Array
-          ? new TextDecoder().decode(entity.payload)
-          : typeof entity.payload === 'string'
-          ? entity.payload
-          : JSON.stringify(entity.payload);
-        payload = JSON.parse(decoded);
-      }
-    } catch (e) {
-      console.error('Error decoding Jitsi payload:', e);
-    }
-    const sessionKey = getAttr('sessionKey');
-    if (sessionKey && sessionKeys.includes(sessionKey)) {
-      jitsiMap[sessionKey] = {
-        videoProvider: payload.videoProvider || getAttr('videoProvider'),
-        videoRoomName: payload.videoRoomName || getAttr('videoRoomName'),
-        videoJoinUrl: payload.videoJoinUrl || getAttr('videoJoinUrl'),
-        videoJwtToken: payload.videoJwtToken || getAttr('videoJwtToken'),
-      };
+  // Build completion map: sessionKey -> Set of completedBy wallets (verified only)
+  const completionMap: Record<string, Set<string>> = {};
+  (await verifyEntities(decodeEntities('session_completion', completionEntities))).forEach(({ attributes }) => {
+    const { sessionKey, completedBy } = attributes;
+    if (!completionMap[sessionKey]) {
+      completionMap[sessionKey] = new Set();
     }
+    completionMap[sessionKey].add(completedBy.toLowerCase());
   });
 
-  return result.entities.map((entity: any) => {
-    let payload: any = {};
-    try {
-      if (entity.payload) {
-        const decoded = entity.payload instanceof Uint8Array
-          ? new TextDecoder().decode(entity.payload)
-          : typeof entity.payload === 'string'
-          ? entity.payload
-          : JSON.stringify(entity.payload);
-        payload = JSON.parse(decoded);
-      }
-    } catch (e) {
-      console.error('Error decoding payload:', e);
-    }
+  // Build reschedule, cancellation and presence maps from participants' entities only
+  const participantsBySession = Object.fromEntries(
+    sessions.map(({ key, attributes }) => [key, [attributes.mentorWallet.toLowerCase(), attributes.learnerWallet.toLowerCase()]])
+  );
+  const [rescheduleMap, cancellationMap, presenceMap] = await Promise.all([
+    buildRescheduleMap(proposalEntities, responseEntities, participantsBySession),
+    buildCancellationMap(cancellationEntities, participantsBySession),
+    buildPresenceMap(presenceEntities, participantsBySession),
+  ]);
 
-  const attrs = entity.attributes || {};
-  const getAttr = (key: string): string => {
-    if (Array.isArray(attrs)) {
-      const attr = attrs.find((a: any) => a.key === key);
-      return String(attr?.value || '');
-    }
-    return String(attrs[key] || '');
-  };
+  // Build Jitsi info map: sessionKey -> Jitsi info (written by the app's key only)
+  const jitsiMap: Record<string, JitsiInfo> = {};
+  (await verifyEntities(decodeEntities('session_jitsi', jitsiEntities))).forEach(decoded => {
+    jitsiMap[decoded.attributes.sessionKey] = mapJitsiInfo(decoded);
+  });
 
-  const mentorWallet = getAttr('mentorWallet');
-  const learnerWallet = getAttr('learnerWallet');
-  const sessionKey = entity.key;
-  const confirmations = confirmationMap[sessionKey] || new Set();
-  const rejections = rejectionMap[sessionKey] || new Set();
-  const jitsiInfo = jitsiMap[sessionKey] || {};
-  
-  const mentorConfirmed = confirmations.has(mentorWallet.toLowerCase());
-  const learnerConfirmed = confirmations.has(learnerWallet.toLowerCase());
-  const mentorRejected = rejections.has(mentorWallet.toLowerCase());
-  const learnerRejected = rejections.has(learnerWallet.toLowerCase());
-  
-  // Determine final status:
-  // - If either party rejected, mark as cancelled
-  // - If both confirmed and was pending, mark as scheduled
-  let finalStatus = (getAttr('status') || payload.status || 'pending') as Session['status'];
-  if (mentorRejected || learnerRejected) {
-    finalStatus = 'cancelled';
-  } else if (finalStatus === 'pending' && mentorConfirmed && learnerConfirmed) {
-    finalStatus = 'scheduled';
-  }
+  const items = sessions.map(decoded => mapSession(decoded, {
+    txHash: txHashMap[decoded.key],
+    confirmations: confirmationMap[decoded.key] || new Set(),
+    rejections: rejectionMap[decoded.key] || new Set(),
+    completions: completionMap[decoded.key] || new Set(),
+    cancellation: cancellationMap[decoded.key],
+    reschedules: rescheduleMap[decoded.key] || {},
+    jitsiInfo: jitsiMap[decoded.key] || {},
+    presence: presenceMap[decoded.key] || [],
+  }));
 
-  return {
-    key: sessionKey,
-    mentorWallet,
-    learnerWallet,
-    skill: getAttr('skill'),
-    spaceId: getAttr('spaceId') || 'local-dev',
-    createdAt: getAttr('createdAt'),
-      sessionDate: getAttr('sessionDate') || payload.sessionDate || '',
-      status: finalStatus,
-      duration: payload.duration || undefined,
-      notes: payload.notes || undefined,
-      feedbackKey: payload.feedbackKey || undefined,
-      txHash: txHashMap[sessionKey],
-      mentorConfirmed,
-      learnerConfirmed,
-      videoProvider: jitsiInfo.videoProvider as 'jitsi' | 'none' | 'custom' | undefined,
-      videoRoomName: jitsiInfo.videoRoomName,
-      videoJoinUrl: jitsiInfo.videoJoinUrl,
-      videoJwtToken: jitsiInfo.videoJwtToken,
-    };
-  });
+  return { items, cursor: result.cursor };
 }
 
-export async function listSessionsForWallet(wallet: string): Promise<Session[]> {
+export async function listSessions(params?: SessionListParams): Promise<Session[]> {
+  return collectPages(page => listSessionsPage({ ...params, ...page }));
+}
+
+export async function listSessionsForWalletPage(wallet: string, page: PageParams = {}, spaceId?: string): Promise<Page<Session>> {
   // Normalize wallet address to lowercase
   const normalizedWallet = wallet.toLowerCase();
   
-  // Get sessions where wallet is either mentor or learner
-  const [asMentor, asLearner] = await Promise.all([
-    listSessions({ mentorWallet: normalizedWallet }),
-    listSessions({ learnerWallet: normalizedWallet }),
-  ]);
+  // Get sessions where wallet is either mentor or learner, live or archived.
+  // Archived records come last so they replace the live session they archive.
+  return mergePages({
+    asMentor: p => listSessionsPage({ mentorWallet: normalizedWallet, spaceId, ...p }),
+    asLearner: p => listSessionsPage({ learnerWallet: normalizedWallet, spaceId, ...p }),
+    archivedAsMentor: p => listSessionRecordsPage({ mentorWallet: normalizedWallet, spaceId, ...p }),
+    archivedAsLearner: p => listSessionRecordsPage({ learnerWallet: normalizedWallet, spaceId, ...p }),
+  }, page);
+}
 
-  // Combine and deduplicate by key
-  const sessionMap = new Map<string, Session>();
-  [...asMentor, ...asLearner].forEach(session => {
-    sessionMap.set(session.key, session);
-  });
+export async function listSessionsForWallet(wallet: string, spaceId?: string): Promise<Session[]> {
+  const sessions = await collectPages(page => listSessionsForWalletPage(wallet, page, spaceId));
 
-  return Array.from(sessionMap.values());
+  // Deduplicate by key across pages, preferring archived records
+  const byKey = new Map<string, Session>();
+  sessions.forEach(s => {
+    if (!byKey.has(s.key) || s.recordKey) byKey.set(s.key, s);
+  });
+  return Array.from(byKey.values());
 }
 
 export async function getSessionByKey(key: string): Promise<Session | null> {
@@ -378,441 +666,1035 @@ export async function getSessionByKey(key: string): Promise<Session | null> {
     .where(eq('key', key))
     .withAttributes(true)
     .withPayload(true)
+    .withMetadata(true)
     .limit(1)
     .fetch();
 
-  if (result.entities.length === 0) return null;
+  // Once the session has expired, its archived record (if any) stands in for it
+  if (result.entities.length === 0) return getSessionRecord(key);
 
-  const entity = result.entities[0];
-  let payload: any = {};
-  try {
-    if (entity.payload) {
-      const decoded = entity.payload instanceof Uint8Array
-        ? new TextDecoder().decode(entity.payload)
-        : typeof entity.payload === 'string'
-        ? entity.payload
-        : JSON.stringify(entity.payload);
-      payload = JSON.parse(decoded);
-    }
-  } catch (e) {
-    console.error('Error decoding payload:', e);
-  }
+  const decoded = tryDecodeEntity('session', result.entities[0]);
+  if (!decoded) return null;
 
-  const attrs = entity.attributes || {};
-  const getAttr = (key: string): string => {
-    if (Array.isArray(attrs)) {
-      const attr = attrs.find((a: any) => a.key === key);
-      return String(attr?.value || '');
-    }
-    return String(attrs[key] || '');
-  };
+  const { mentorWallet, learnerWallet } = decoded.attributes;
 
-  // Get txHash
-  const txHashResult = await publicClient.buildQuery()
-    .where(eq('type', 'session_txhash'))
-    .where(eq('sessionKey', entity.key))
-    .withAttributes(true)
-    .withPayload(true)
-    .limit(1)
-    .fetch();
+  const txHashMap = await fetchTxHashes(publicClient, 'session_txhash', [decoded.raw]);
 
-  let txHash: string | undefined;
-  if (txHashResult.entities.length > 0) {
-    try {
-      const txHashEntity = txHashResult.entities[0];
-      const txHashPayload = txHashEntity.payload instanceof Uint8Array
-        ? new TextDecoder().decode(txHashEntity.payload)
-        : typeof txHashEntity.payload === 'string'
-        ? txHashEntity.payload
-        : JSON.stringify(txHashEntity.payload);
-      const decoded = JSON.parse(txHashPayload);
-      txHash = decoded.txHash;
-    } catch (e) {
-      console.error('Error decoding txHash:', e);
-    }
-  }
-
-  // Check for confirmations, rejections, and Jitsi info
-  const [mentorConfirmations, learnerConfirmations, mentorRejections, learnerRejections, jitsiInfo] = await Promise.all([
+  // Check for confirmations, rejections, and Jitsi info. Each wallet's
+  // confirmations are all read, since forged ones are dropped below.
+  const [mentorConfirmations, learnerConfirmations, mentorRejections, learnerRejections, completionResult, cancellationResult, proposalResult, responseResult, jitsiResult, presenceResult] = await Promise.all([
     publicClient.buildQuery()
       .where(eq('type', 'session_confirmation'))
-      .where(eq('sessionKey', entity.key))
-      .where(eq('confirmedBy', getAttr('mentorWallet')))
+      .where(eq('sessionKey', decoded.key))
+      .where(eq('confirmedBy', mentorWallet))
       .withAttributes(true)
-      .limit(1)
+      .withPayload(true)
+      .withMetadata(true)
       .fetch(),
     publicClient.buildQuery()
       .where(eq('type', 'session_confirmation'))
-      .where(eq('sessionKey', entity.key))
-      .where(eq('confirmedBy', getAttr('learnerWallet')))
+      .where(eq('sessionKey', decoded.key))
+      .where(eq('confirmedBy', learnerWallet))
       .withAttributes(true)
-      .limit(1)
+      .withPayload(true)
+      .withMetadata(true)
       .fetch(),
     publicClient.buildQuery()
       .where(eq('type', 'session_rejection'))
-      .where(eq('sessionKey', entity.key))
-      .where(eq('rejectedBy', getAttr('mentorWallet')))
+      .where(eq('sessionKey', decoded.key))
+      .where(eq('rejectedBy', mentorWallet))
       .withAttributes(true)
-      .limit(1)
+      .withPayload(true)
+      .withMetadata(true)
       .fetch(),
     publicClient.buildQuery()
       .where(eq('type', 'session_rejection'))
-      .where(eq('sessionKey', entity.key))
-      .where(eq('rejectedBy', getAttr('learnerWallet')))
+      .where(eq('sessionKey', decoded.key))
+      .where(eq('rejectedBy', learnerWallet))
       .withAttributes(true)
-      .limit(1)
+      .withPayload(true)
+      .withMetadata(true)
       .fetch(),
     publicClient.buildQuery()
-      .where(eq('type', 'session_jitsi'))
-      .where(eq('sessionKey', entity.key))
+      .where(eq('type', 'session_completion'))
+      .where(eq('sessionKey', decoded.key))
       .withAttributes(true)
-      .limit(1)
+      .withPayload(true)
+      .withMetadata(true)
       .fetch(),
+    fetchCompanions(publicClient, 'session_cancellation', 'sessionKey', [decoded.key]),
+    fetchCompanions(publicClient, 'session_reschedule', 'sessionKey', [decoded.key]),
+    fetchCompanions(publicClient, 'session_reschedule_response', 'sessionKey', [decoded.key]),
+    fetchCompanions(publicClient, 'session_jitsi', 'sessionKey', [decoded.key]),
+    fetchCompanions(publicClient, 'session_presence', 'sessionKey', [decoded.key]),
   ]);
 
-  const mentorConfirmed = mentorConfirmations.entities.length > 0;
-  const learnerConfirmed = learnerConfirmations.entities.length > 0;
-  const mentorRejected = mentorRejections.entities.length > 0;
-  const learnerRejected = learnerRejections.entities.length > 0;
-  
-  // Determine final status:
-  // - If either party rejected, mark as cancelled
-  // - If both confirmed and was pending, mark as scheduled
-  let finalStatus = (getAttr('status') || payload.status || 'pending') as Session['status'];
-  if (mentorRejected || learnerRejected) {
-    finalStatus = 'cancelled';
-  } else if (finalStatus === 'pending' && mentorConfirmed && learnerConfirmed) {
-    finalStatus = 'scheduled';
-  }
-
-  // Extract Jitsi info if available
-  let jitsiData: { videoProvider?: string; videoRoomName?: string; videoJoinUrl?: string; videoJwtToken?: string } = {};
-  if (jitsiInfo.entities.length > 0) {
-    const jitsiEntity = jitsiInfo.entities[0];
-    let jitsiPayload: any = {};
-    try {
-      if (jitsiEntity.payload) {
-        const decoded = jitsiEntity.payload instanceof Uint8Array
-          ? new TextDecoder().decode(jitsiEntity.payload)
-          : typeof jitsiEntity.payload === 'string'
-          ? jitsiEntity.payload
-          : JSON.stringify(jitsiEntity.payload);
-        jitsiPayload = JSON.parse(decoded);
-      }
-    } catch (e) {
-      console.error('Error decoding Jitsi payload:', e);
-    }
-    const jitsiAttrs = jitsiEntity.attributes || {};
-    const getJitsiAttr = (key: string): string => {
-      if (Array.isArray(jitsiAttrs)) {
-        const attr = jitsiAttrs.find((a: any) => a.key === key);
-        return String(attr?.value || '');
-      }
-      return String(jitsiAttrs[key] || '');
-    };
-    jitsiData = {
-      videoProvider: jitsiPayload.videoProvider || getJitsiAttr('videoProvider'),
-      videoRoomName: jitsiPayload.videoRoomName || getJitsiAttr('videoRoomName'),
-      videoJoinUrl: jitsiPayload.videoJoinUrl || getJitsiAttr('videoJoinUrl'),
-      videoJwtToken: jitsiPayload.videoJwtToken || getJitsiAttr('videoJwtToken'),
-    };
-  }
+  const confirmations = new Set(
+    (await verifyEntities(decodeEntities('session_confirmation', [...mentorConfirmations.entities, ...learnerConfirmations.entities])))
+      .map(c => c.attributes.confirmedBy.toLowerCase())
+  );
+  const rejections = new Set(
+    (await verifyEntities(decodeEntities('session_rejection', [...mentorRejections.entities, ...learnerRejections.entities])))
+      .map(r => r.attributes.rejectedBy.toLowerCase())
+  );
+  const completions = new Set(
+    (await verifyEntities(decodeEntities('session_completion', completionResult.entities)))
+      .map(c => c.attributes.completedBy.toLowerCase())
+  );
+  const participantsBySession = { [decoded.key]: [mentorWallet.toLowerCase(), learnerWallet.toLowerCase()] };
+  const [rescheduleMap, cancellationMap, presenceMap] = await Promise.all([
+    buildRescheduleMap(proposalResult, responseResult, participantsBySession),
+    buildCancellationMap(cancellationResult, participantsBySession),
+    buildPresenceMap(presenceResult, participantsBySession),
+  ]);
+  const [jitsi] = await verifyEntities(decodeEntities('session_jitsi', jitsiResult));
 
-  return {
-    key: entity.key,
-    mentorWallet: getAttr('mentorWallet'),
-    learnerWallet: getAttr('learnerWallet'),
-    skill: getAttr('skill'),
-    spaceId: getAttr('spaceId') || 'local-dev',
-    createdAt: getAttr('createdAt'),
-    sessionDate: getAttr('sessionDate') || payload.sessionDate || '',
-    status: finalStatus,
-    duration: payload.duration || undefined,
-    notes: payload.notes || undefined,
-    feedbackKey: payload.feedbackKey || undefined,
-    txHash,
-    mentorConfirmed,
-    learnerConfirmed,
-    videoProvider: jitsiData.videoProvider as 'jitsi' | 'none' | 'custom' | undefined,
-    videoRoomName: jitsiData.videoRoomName,
-    videoJoinUrl: jitsiData.videoJoinUrl,
-    videoJwtToken: jitsiData.videoJwtToken,
-  };
+  return mapSession(decoded, {
+    txHash: txHashMap[decoded.key],
+    confirmations,
+    rejections,
+    completions,
+    cancellation: cancellationMap[decoded.key],
+    reschedules: rescheduleMap[decoded.key] || {},
+    jitsiInfo: jitsi ? mapJitsiInfo(jitsi) : {},
+    presence: presenceMap[decoded.key] || [],
+  });
 }
 
 export async function confirmSession({
   sessionKey,
   confirmedByWallet,
   privateKey,
-  mentorWallet,
-  learnerWallet,
-  spaceId: providedSpaceId,
+  walletClient: providedWalletClient,
 }: {
   sessionKey: string;
   confirmedByWallet: string;
-  privateKey: `0x${string}`;
-  mentorWallet?: string;
-  learnerWallet?: string;
-  spaceId?: string;
+  privateKey?: `0x${string}`;
+  walletClient?: ArkivWalletClient; // signs instead of privateKey
 }): Promise<{ key: string; txHash: string }> {
-  // Try to get the session, but if not found, use provided wallet info
-  let session: Session | null = null;
-  let spaceId = providedSpaceId || 'local-dev';
-  let verifiedMentorWallet = mentorWallet;
-  let verifiedLearnerWallet = learnerWallet;
-
-  try {
-    session = await getSessionByKey(sessionKey);
-    if (session) {
-      spaceId = session.spaceId;
-      verifiedMentorWallet = session.mentorWallet;
-      verifiedLearnerWallet = session.learnerWallet;
-    }
-  } catch (e) {
-    console.warn('Could not fetch session by key, using provided info:', e);
-  }
-
-  // If we have wallet info (either from session or provided), verify the wallet is part of the session
-  if (verifiedMentorWallet && verifiedLearnerWallet) {
-    const isMentor = verifiedMentorWallet.toLowerCase() === confirmedByWallet.toLowerCase();
-    const isLearner = verifiedLearnerWallet.toLowerCase() === confirmedByWallet.toLowerCase();
-    
-    if (!isMentor && !isLearner) {
-      throw new Error('Wallet is not part of this session');
-    }
-  } else if (!session) {
-    // If we don't have session and no wallet info provided, try to query by wallet
-    const publicClient = getPublicClient();
-    const sessionsAsMentor = await listSessions({ mentorWallet: confirmedByWallet });
-    const sessionsAsLearner = await listSessions({ learnerWallet: confirmedByWallet });
-    const allSessions = [...sessionsAsMentor, ...sessionsAsLearner];
-    const matchingSession = allSessions.find(s => s.key === sessionKey);
-    
-    if (matchingSession) {
-      spaceId = matchingSession.spaceId;
-      verifiedMentorWallet = matchingSession.mentorWallet;
-      verifiedLearnerWallet = matchingSession.learnerWallet;
-    } else {
-      throw new Error('Session not found and could not verify wallet ownership');
-    }
+  const session = await getParticipantSession(sessionKey, confirmedByWallet);
+  if (session.status === 'cancelled') {
+    throw new Error('Cannot confirm a cancelled session');
   }
+  const { mentorWallet, learnerWallet, spaceId } = session;
 
-  if (!verifiedMentorWallet || !verifiedLearnerWallet) {
-    throw new Error('Could not determine session participants');
-  }
-
-  // Check if already confirmed
+  // Check if already confirmed (a forged confirmation doesn't count)
   const publicClient = getPublicClient();
   const existingConfirmations = await publicClient.buildQuery()
     .where(eq('type', 'session_confirmation'))
     .where(eq('sessionKey', sessionKey))
     .where(eq('confirmedBy', confirmedByWallet))
     .withAttributes(true)
-    .limit(1)
+    .withPayload(true)
+    .withMetadata(true)
     .fetch();
 
-  if (existingConfirmations.entities.length > 0) {
+  if ((await verifyEntities(decodeEntities('session_confirmation', existingConfirmations.entities))).length > 0) {
     throw new Error('Session already confirmed by this wallet');
   }
 
-  // Get session to calculate expiration based on sessionDate + duration
-  let sessionExpiration = 31536000; // Default 1 year fallback
-  try {
-    const session = await getSessionByKey(sessionKey);
-    if (session && session.sessionDate) {
-      const sessionStartTime = new Date(session.sessionDate).getTime();
-      const sessionDurationMs = (session.duration || 60) * 60 * 1000;
-      const bufferMs = 60 * 60 * 1000; // 1 hour buffer
-      const expirationTime = sessionStartTime + sessionDurationMs + bufferMs;
-      const now = Date.now();
-      sessionExpiration = Math.max(1, Math.floor((expirationTime - now) / 1000));
-    }
-  } catch (e) {
-    console.warn('Could not fetch session for expiration calculation, using default:', e);
-  }
+  const sessionExpiration = sessionExpiresIn(session.sessionDate, session.duration);
 
-  const walletClient = getWalletClientFromPrivateKey(privateKey);
-  const enc = new TextEncoder();
+  const walletClient = resolveWalletClient({ privateKey, walletClient: providedWalletClient });
   const createdAt = new Date().toISOString();
 
-  const { entityKey, txHash } = await walletClient.createEntity({
-    payload: enc.encode(JSON.stringify({
+  const { entityKey, txHash } = await walletClient.createEntity(encodeEntity('session_confirmation', {
+    payload: {
       confirmedAt: createdAt,
-    })),
-    contentType: 'application/json',
+    },
     attributes: [
-      { key: 'type', value: 'session_confirmation' },
       { key: 'sessionKey', value: sessionKey },
       { key: 'confirmedBy', value: confirmedByWallet },
-      { key: 'mentorWallet', value: verifiedMentorWallet },
-      { key: 'learnerWallet', value: verifiedLearnerWallet },
+      { key: 'mentorWallet', value: mentorWallet },
+      { key: 'learnerWallet', value: learnerWallet },
       { key: 'spaceId', value: spaceId },
       { key: 'createdAt', value: createdAt },
     ],
     expiresIn: sessionExpiration,
-  });
+  }));
+
+  // If both parties have now confirmed, generate the Jitsi meeting. A confirmation
+  // the user still has to send gets its meeting in followUpSessionWrite instead
+  if (privateKey) {
+    await ensureSessionJitsi({
+      sessionKey,
+      mentorWallet,
+      learnerWallet,
+      spaceId,
+      expiresIn: sessionExpiration, // Same expiration as the confirmation
+      confirmedByWallet,
+      privateKey,
+    });
+  }
 
-  // Check if both parties have now confirmed - if so, generate Jitsi meeting
+  return { key: entityKey, txHash };
+}
+
+/**
+ * Store the video meeting for a session once both participants have confirmed
+ * it, unless it already exists or the configured provider makes none. Meetings
+ * are written with the server key: readers ignore any written by another.
+ */
+export async function ensureSessionJitsi({
+  sessionKey,
+  mentorWallet,
+  learnerWallet,
+  spaceId,
+  expiresIn,
+  confirmedByWallet,
+  privateKey,
+}: {
+  sessionKey: string;
+  mentorWallet: string;
+  learnerWallet: string;
+  spaceId: string;
+  expiresIn: number;
+  confirmedByWallet?: string; // counted even if its confirmation isn't readable yet
+  privateKey: `0x${string}`;
+}): Promise<void> {
+  const publicClient = getPublicClient();
   const allConfirmations = await publicClient.buildQuery()
     .where(eq('type', 'session_confirmation'))
     .where(eq('sessionKey', sessionKey))
     .withAttributes(true)
+    .withPayload(true)
+    .withMetadata(true)
     .fetch();
 
+  // A confirmation still to be signed in the user's wallet isn't readable yet
   const confirmedWallets = new Set(
-    allConfirmations.entities.map((e: any) => {
-      const attrs = e.attributes || {};
-      const getAttr = (key: string): string => {
-        if (Array.isArray(attrs)) {
-          const attr = attrs.find((a: any) => a.key === key);
-          return String(attr?.value || '');
-        }
-        return String(attrs[key] || '');
-      };
-      return getAttr('confirmedBy').toLowerCase();
-    })
+    (await verifyEntities(decodeEntities('session_confirmation', allConfirmations.entities)))
+      .map(c => c.attributes.confirmedBy.toLowerCase())
   );
+  if (confirmedByWallet) {
+    confirmedWallets.add(confirmedByWallet.toLowerCase());
+  }
 
-  const mentorConfirmed = confirmedWallets.has(verifiedMentorWallet.toLowerCase());
-  const learnerConfirmed = confirmedWallets.has(verifiedLearnerWallet.toLowerCase());
+  const mentorConfirmed = confirmedWallets.has(mentorWallet.toLowerCase());
+  const learnerConfirmed = confirmedWallets.has(learnerWallet.toLowerCase());
+  if (!mentorConfirmed || !learnerConfirmed) return;
 
-  // If both confirmed, generate Jitsi meeting and store it
-  if (mentorConfirmed && learnerConfirmed) {
-    // Check if Jitsi info already exists
-    const existingJitsi = await publicClient.buildQuery()
-      .where(eq('type', 'session_jitsi'))
-      .where(eq('sessionKey', sessionKey))
-      .withAttributes(true)
-      .limit(1)
-      .fetch();
-
-    if (existingJitsi.entities.length === 0) {
-      // Generate Jitsi meeting info
-      const jitsiInfo = generateJitsiMeeting(sessionKey, JITSI_BASE_URL);
-
-      // Use the same expiration as the session (calculated above)
-      await walletClient.createEntity({
-        payload: enc.encode(JSON.stringify({
-          videoProvider: jitsiInfo.videoProvider,
-          videoRoomName: jitsiInfo.videoRoomName,
-          videoJoinUrl: jitsiInfo.videoJoinUrl,
-          generatedAt: createdAt,
-        })),
-        contentType: 'application/json',
-        attributes: [
-          { key: 'type', value: 'session_jitsi' },
-          { key: 'sessionKey', value: sessionKey },
-          { key: 'mentorWallet', value: verifiedMentorWallet },
-          { key: 'learnerWallet', value: verifiedLearnerWallet },
-          { key: 'spaceId', value: spaceId },
-          { key: 'createdAt', value: createdAt },
-        ],
-        expiresIn: sessionExpiration, // Same expiration as session
-      });
-    }
-  }
+  // Check if Jitsi info already exists (a forged one doesn't count)
+  const existingJitsi = await fetchCompanions(publicClient, 'session_jitsi', 'sessionKey', [sessionKey], { withPayload: false });
+  if ((await verifyEntities(decodeEntities('session_jitsi', existingJitsi))).length > 0) return;
 
-  return { key: entityKey, txHash };
+  const meeting = sessionJitsiEntity({ sessionKey, mentorWallet, learnerWallet, spaceId, expiresIn });
+  if (meeting) await getWalletClientFromPrivateKey(privateKey).createEntity(meeting);
+}
+
+function sessionJitsiEntity({
+  sessionKey,
+  mentorWallet,
+  learnerWallet,
+  spaceId,
+  expiresIn,
+}: {
+  sessionKey: string;
+  mentorWallet: string;
+  learnerWallet: string;
+  spaceId: string;
+  expiresIn: number;
+}) {
+  // Entities are public, so only the provider is recorded, never the room
+  const room = getMeetingProvider().roomFor(sessionKey);
+  if (!room) return null;
+  const createdAt = new Date().toISOString();
+  return encodeEntity('session_jitsi', {
+    payload: {
+      videoProvider: room.videoProvider,
+      generatedAt: createdAt,
+    },
+    attributes: [
+      { key: 'sessionKey', value: sessionKey },
+      { key: 'mentorWallet', value: mentorWallet },
+      { key: 'learnerWallet', value: learnerWallet },
+      { key: 'spaceId', value: spaceId },
+      { key: 'createdAt', value: createdAt },
+    ],
+    expiresIn,
+  });
 }
 
 export async function rejectSession({
   sessionKey,
   rejectedByWallet,
   privateKey,
-  mentorWallet,
-  learnerWallet,
-  spaceId: providedSpaceId,
+  walletClient: providedWalletClient,
 }: {
   sessionKey: string;
   rejectedByWallet: string;
+  privateKey?: `0x${string}`;
+  walletClient?: ArkivWalletClient; // signs instead of privateKey
+}): Promise<{ key: string; txHash: string }> {
+  const session = await getParticipantSession(sessionKey, rejectedByWallet);
+  if (session.status === 'cancelled') {
+    throw new Error('Cannot reject a cancelled session');
+  }
+  const { mentorWallet, learnerWallet, spaceId } = session;
+
+  const sessionExpiration = sessionExpiresIn(session.sessionDate, session.duration);
+
+  const walletClient = resolveWalletClient({ privateKey, walletClient: providedWalletClient });
+  const createdAt = new Date().toISOString();
+
+  const { entityKey, txHash } = await walletClient.createEntity(encodeEntity('session_rejection', {
+    payload: {
+      rejectedAt: createdAt,
+    },
+    attributes: [
+      { key: 'sessionKey', value: sessionKey },
+      { key: 'rejectedBy', value: rejectedByWallet },
+      { key: 'mentorWallet', value: mentorWallet },
+      { key: 'learnerWallet', value: learnerWallet },
+      { key: 'spaceId', value: spaceId },
+      { key: 'createdAt', value: createdAt },
+    ],
+    expiresIn: sessionExpiration,
+  }));
+
+  return { key: entityKey, txHash };
+}
+
+/**
+ * Attest that a session took place. Only participants can complete a session,
+ * and only once both have confirmed it and it has started; it is `completed`
+ * once both participants have attested.
+ */
+export async function completeSession({
+  sessionKey,
+  completedByWallet,
+  notes,
+  privateKey,
+  walletClient: providedWalletClient,
+}: {
+  sessionKey: string;
+  completedByWallet: string;
+  notes?: string;
+  privateKey?: `0x${string}`;
+  walletClient?: ArkivWalletClient; // signs instead of privateKey
+}): Promise<{ key: string; txHash: string }> {
+  const normalizedWallet = completedByWallet.toLowerCase();
+  const session = await getSessionByKey(sessionKey);
+  if (!session) {
+    throw new SessionNotFoundError(sessionKey);
+  }
+
+  const isMentor = session.mentorWallet.toLowerCase() === normalizedWallet;
+  const isLearner = session.learnerWallet.toLowerCase() === normalizedWallet;
+  if (!isMentor && !isLearner) {
+    throw new Error('Wallet is not part of this session');
+  }
+  if (session.status !== 'in-progress') {
+    throw new Error(session.status === 'scheduled'
+      ? 'Session has not started yet'
+      : `Cannot complete a ${session.status} session`);
+  }
+  if (isMentor ? session.mentorCompleted : session.learnerCompleted) {
+    throw new Error('Session already marked complete by this wallet');
+  }
+
+  const walletClient = resolveWalletClient({ privateKey, walletClient: providedWalletClient });
+  const createdAt = new Date().toISOString();
+
+  const { entityKey, txHash } = await walletClient.createEntity(encodeEntity('session_completion', {
+    payload: {
+      completedAt: createdAt,
+      notes: notes || undefined,
+    },
+    attributes: [
+      { key: 'sessionKey', value: sessionKey },
+      { key: 'completedBy', value: normalizedWallet },
+      { key: 'mentorWallet', value: session.mentorWallet },
+      { key: 'learnerWallet', value: session.learnerWallet },
+      { key: 'spaceId', value: session.spaceId },
+      { key: 'createdAt', value: createdAt },
+    ],
+    expiresIn: 31536000, // 1 year, like the feedback that follows it
+  }));
+
+  return { key: entityKey, txHash };
+}
+
+// Join and leave events kept per participant and session, so a flaky connection can't flood Arkiv
+export const MAX_PRESENCE_EVENTS = 40;
+
+/**
+ * Record a participant joining or leaving a session's meeting. The app
+ * reports what it sees in the embedded call (`/sessions/[key]`), so presence
+ * is always written by the server key; readers ignore it from anyone else.
+ * Participants can only join a scheduled or in-progress session's meeting
+ * while joining is open (see `joinWindow`). Returns null when the event
+ * changes nothing: joining while already in the meeting, or leaving without
+ * being in it.
+ */
+export async function recordSessionPresence({
+  sessionKey,
+  wallet,
+  event,
+  privateKey,
+}: {
+  sessionKey: string;
+  wallet: string;
+  event: 'join' | 'leave';
   privateKey: `0x${string}`;
+}): Promise<{ key: string; txHash: string } | null> {
+  const normalizedWallet = wallet.toLowerCase();
+  const session = await getSessionByKey(sessionKey);
+  if (!session || session.recordKey) {
+    throw new SessionNotFoundError(sessionKey);
+  }
+  if (session.mentorWallet.toLowerCase() !== normalizedWallet && session.learnerWallet.toLowerCase() !== normalizedWallet) {
+    throw new Error('Wallet is not part of this session');
+  }
+  if (!session.videoProvider) {
+    throw new Error('This session has no meeting');
+  }
+
+  const current = session.presence?.find(p => p.wallet === normalizedWallet);
+  if (event === 'leave') {
+    if (!current?.inMeeting) return null;
+  } else {
+    if (session.status !== 'scheduled' && session.status !== 'in-progress') {
+      throw new Error(`Cannot join a ${session.status} session`);
+    }
+    const { opensAt, closesAt } = joinWindow(session);
+    if (Date.now() < opensAt.getTime() || Date.now() > closesAt.getTime()) {
+      throw new Error('The meeting for this session is not open');
+    }
+    if (current?.inMeeting) return null;
+  }
+
+  const publicClient = getPublicClient();
+  const existing = await publicClient.buildQuery()
+    .where(eq('type', 'session_presence'))
+    .where(eq('sessionKey', sessionKey))
+    .where(eq('wallet', normalizedWallet))
+    .withAttributes(true)
+    .withPayload(true)
+    .withMetadata(true)
+    .fetch();
+  if ((await verifyEntities(decodeEntities('session_presence', existing.entities))).length >= MAX_PRESENCE_EVENTS) {
+    throw new Error('Too many presence updates for this session');
+  }
+
+  const walletClient = getWalletClientFromPrivateKey(privateKey);
+  const createdAt = new Date().toISOString();
+
+  const { entityKey, txHash } = await walletClient.createEntity(encodeEntity('session_presence', {
+    payload: {
+      at: createdAt,
+    },
+    attributes: [
+      { key: 'sessionKey', value: sessionKey },
+      { key: 'wallet', value: normalizedWallet },
+      { key: 'event', value: event },
+      { key: 'mentorWallet', value: session.mentorWallet.toLowerCase() },
+      { key: 'learnerWallet', value: session.learnerWallet.toLowerCase() },
+      { key: 'spaceId', value: session.spaceId },
+      { key: 'createdAt', value: createdAt },
+    ],
+    expiresIn: sessionExpiresIn(session.sessionDate, session.duration),
+  }));
+
+  return { key: entityKey, txHash };
+}
+
+/**
+ * Call off a scheduled session, giving a reason. Pending requests are
+ * declined with `rejectSession` instead. Cancelling with less than
+ * CANCELLATION_NOTICE_HOURS notice counts as late in reliability stats;
+ * `archiveSession` keeps the cancellation once the session expires.
+ */
+export async function cancelSession({
+  sessionKey,
+  cancelledByWallet,
+  reason,
+  privateKey,
+  walletClient: providedWalletClient,
+}: {
+  sessionKey: string;
+  cancelledByWallet: string;
+  reason: string;
+  privateKey?: `0x${string}`;
+  walletClient?: ArkivWalletClient; // signs instead of privateKey
+}): Promise<{ key: string; txHash: string; late: boolean }> {
+  const normalizedWallet = cancelledByWallet.toLowerCase();
+  if (!reason || !reason.trim()) {
+    throw new Error('A reason is required to cancel a session');
+  }
+  const session = await getSessionByKey(sessionKey);
+  if (!session) {
+    throw new SessionNotFoundError(sessionKey);
+  }
+  if (session.mentorWallet.toLowerCase() !== normalizedWallet && session.learnerWallet.toLowerCase() !== normalizedWallet) {
+    throw new Error('Wallet is not part of this session');
+  }
+  if (session.status !== 'scheduled') {
+    throw new Error(session.status === 'pending'
+      ? 'Session is not scheduled yet; reject the request instead'
+      : `Cannot cancel a ${session.status} session`);
+  }
+
+  const walletClient = resolveWalletClient({ privateKey, walletClient: providedWalletClient });
+  const createdAt = new Date().toISOString();
+
+  const { entityKey, txHash } = await walletClient.createEntity(encodeEntity('session_cancellation', {
+    payload: {
+      reason: reason.trim(),
+      cancelledAt: createdAt,
+    },
+    attributes: [
+      { key: 'sessionKey', value: sessionKey },
+      { key: 'cancelledBy', value: normalizedWallet },
+      { key: 'mentorWallet', value: session.mentorWallet.toLowerCase() },
+      { key: 'learnerWallet', value: session.learnerWallet.toLowerCase() },
+      { key: 'spaceId', value: session.spaceId },
+      { key: 'createdAt', value: createdAt },
+    ],
+    expiresIn: sessionExpiresIn(session.sessionDate, session.duration),
+  }));
+
+  return { key: entityKey, txHash, late: isLateCancellation(session.sessionDate, createdAt) };
+}
+
+export type SessionReliability = {
+  sessionsCancelled: number; // Scheduled sessions this wallet called off
+  lateCancellations: number; // ...with less notice than CANCELLATION_NOTICE_HOURS
+  sessionsDeclined: number; // Requests this wallet rejected before they were scheduled
+  sessionsMissed: number; // Sessions whose meeting this wallet never joined
+  reliabilityScore?: number; // 0-100; undefined without completed, cancelled or missed sessions
+};
+
+/**
+ * Reliability of a wallet across its sessions: the share of sessions it
+ * committed to that took place, with late cancellations and no-shows counting
+ * twice. Declining a request isn't held against anyone.
+ */
+export function computeReliability(wallet: string, sessions: Session[]): SessionReliability {
+  const normalizedWallet = wallet.toLowerCase();
+  const cancellations = sessions
+    .map(s => s.cancellation)
+    .filter((c): c is SessionCancellation => c?.cancelledBy === normalizedWallet);
+  const lateCancellations = cancellations.filter(c => c.late).length;
+  const completed = sessions.filter(s => s.status === 'completed').length;
+  const missed = sessions.filter(s => s.noShows?.includes(normalizedWallet)).length;
+
+  const weighted = completed + cancellations.length + lateCancellations + 2 * missed;
+  return {
+    sessionsCancelled: cancellations.length,
+    lateCancellations,
+    sessionsDeclined: sessions.filter(s => s.declinedBy === normalizedWallet).length,
+    sessionsMissed: missed,
+    reliabilityScore: weighted > 0 ? Math.round((completed / weighted) * 100) : undefined,
+  };
+}
+
+/**
+ * Seconds until a session starting at `sessionDate` ends, plus an hour for
+ * wrap-up: how long its entities need to live.
+ */
+export function sessionExpiresIn(sessionDate: string, duration?: number): number {
+  const end = new Date(sessionDate).getTime() + (duration || 60) * 60 * 1000;
+  return Math.max(1, Math.floor((end + 60 * 60 * 1000 - Date.now()) / 1000));
+}
+
+/**
+ * Propose moving a session to a new time. Either participant can propose
+ * while the session is pending or scheduled; the other participant accepts
+ * or declines with `respondToReschedule`. A newer proposal replaces an
+ * unanswered older one.
+ */
+export async function proposeReschedule({
+  sessionKey,
+  proposedByWallet,
+  sessionDate,
+  duration,
+  note,
+  privateKey,
+  walletClient: providedWalletClient,
+}: {
+  sessionKey: string;
+  proposedByWallet: string;
+  sessionDate: string; // ISO timestamp
+  duration?: number; // minutes; defaults to the session's current duration
+  note?: string;
+  privateKey?: `0x${string}`;
+  walletClient?: ArkivWalletClient; // signs instead of privateKey
+}): Promise<{ key: string; txHash: string }> {
+  const normalizedWallet = proposedByWallet.toLowerCase();
+  const session = await getSessionByKey(sessionKey);
+  if (!session) {
+    throw new SessionNotFoundError(sessionKey);
+  }
+  if (session.mentorWallet.toLowerCase() !== normalizedWallet && session.learnerWallet.toLowerCase() !== normalizedWallet) {
+    throw new Error('Wallet is not part of this session');
+  }
+  if (session.status !== 'pending' && session.status !== 'scheduled') {
+    throw new Error(`Cannot reschedule a ${session.status} session`);
+  }
+
+  const start = new Date(sessionDate).getTime();
+  if (isNaN(start)) {
+    throw new Error('sessionDate must be a valid date');
+  }
+  if (start <= Date.now()) {
+    throw new Error('The new time must be in the future');
+  }
+  const newDuration = duration || session.duration || 60;
+  if (!Number.isInteger(newDuration) || newDuration <= 0) {
+    throw new Error('duration must be a positive number of minutes');
+  }
+
+  const walletClient = resolveWalletClient({ privateKey, walletClient: providedWalletClient });
+  const newSessionDate = new Date(start).toISOString();
+  const createdAt = new Date().toISOString();
+
+  const { entityKey, txHash } = await walletClient.createEntity(encodeEntity('session_reschedule', {
+    payload: {
+      sessionDate: newSessionDate,
+      duration: newDuration,
+      previousSessionDate: session.sessionDate,
+      note: note || undefined,
+    },
+    attributes: [
+      { key: 'sessionKey', value: sessionKey },
+      { key: 'proposedBy', value: normalizedWallet },
+      { key: 'sessionDate', value: newSessionDate },
+      { key: 'mentorWallet', value: session.mentorWallet.toLowerCase() },
+      { key: 'learnerWallet', value: session.learnerWallet.toLowerCase() },
+      { key: 'spaceId', value: session.spaceId },
+      { key: 'createdAt', value: createdAt },
+    ],
+    // Lives as long as the session would at its new time
+    expiresIn: sessionExpiresIn(newSessionDate, newDuration),
+  }));
+
+  return { key: entityKey, txHash };
+}
+
+/**
+ * Accept or decline the pending reschedule proposal of a session. Only the
+ * participant who didn't propose it can respond. An accepted proposal moves
+ * the session once `applyReschedule` has run.
+ */
+export async function respondToReschedule({
+  rescheduleKey,
+  respondedByWallet,
+  response,
+  privateKey,
+  walletClient: providedWalletClient,
+}: {
+  rescheduleKey: string;
+  respondedByWallet: string;
+  response: 'accepted' | 'declined';
+  privateKey?: `0x${string}`;
+  walletClient?: ArkivWalletClient; // signs instead of privateKey
+}): Promise<{ key: string; txHash: string; sessionKey: string }> {
+  if (response !== 'accepted' && response !== 'declined') {
+    throw new Error("response must be 'accepted' or 'declined'");
+  }
+  const normalizedWallet = respondedByWallet.toLowerCase();
+
+  const publicClient = getPublicClient();
+  const result = await publicClient.buildQuery()
+    .where(eq('type', 'session_reschedule'))
+    .where(eq('key', rescheduleKey))
+    .withAttributes(true)
+    .withPayload(true)
+    .withMetadata(true)
+    .limit(1)
+    .fetch();
+  const decoded = result.entities.length > 0
+    ? await tryDecodeVerifiedEntity('session_reschedule', result.entities[0])
+    : null;
+  if (!decoded) {
+    throw new Error('Reschedule proposal not found');
+  }
+  const proposal = mapReschedule(decoded);
+
+  const session = await getSessionByKey(proposal.sessionKey);
+  if (!session) {
+    throw new SessionNotFoundError(proposal.sessionKey);
+  }
+  if (session.mentorWallet.toLowerCase() !== normalizedWallet && session.learnerWallet.toLowerCase() !== normalizedWallet) {
+    throw new Error('Wallet is not part of this session');
+  }
+  if (proposal.proposedBy === normalizedWallet) {
+    throw new Error('You cannot respond to your own proposal');
+  }
+  if (session.pendingReschedule?.key !== rescheduleKey) {
+    throw new Error('This proposal is no longer pending');
+  }
+
+  const walletClient = resolveWalletClient({ privateKey, walletClient: providedWalletClient });
+  const createdAt = new Date().toISOString();
+
+  const { entityKey, txHash } = await walletClient.createEntity(encodeEntity('session_reschedule_response', {
+    payload: {
+      respondedAt: createdAt,
+    },
+    attributes: [
+      { key: 'rescheduleKey', value: rescheduleKey },
+      { key: 'sessionKey', value: proposal.sessionKey },
+      { key: 'respondedBy', value: normalizedWallet },
+      { key: 'response', value: response },
+      { key: 'mentorWallet', value: session.mentorWallet.toLowerCase() },
+      { key: 'learnerWallet', value: session.learnerWallet.toLowerCase() },
+      { key: 'spaceId', value: session.spaceId },
+      { key: 'createdAt', value: createdAt },
+    ],
+    expiresIn: sessionExpiresIn(proposal.sessionDate, proposal.duration),
+  }));
+
+  return { key: entityKey, txHash, sessionKey: proposal.sessionKey };
+}
+
+/**
+ * Move a rescheduled session's entities to its new time: extend the session,
+ * its confirmations and its Jitsi meeting so they live until the new end
+ * (plus wrap-up), and create the meeting if the session didn't have one yet.
+ * Only entities owned by `privateKey` can be extended; a user-signed
+ * confirmation doesn't need to be, since the accepted proposal stands in for
+ * it. Returns null when there is nothing to move.
+ */
+export async function applyReschedule({
+  sessionKey,
+  privateKey,
+}: {
+  sessionKey: string;
+  privateKey: `0x${string}`;
+}): Promise<{ txHash: string } | null> {
+  const session = await getSessionByKey(sessionKey);
+  if (!session || !session.originalSessionDate || session.recordKey || session.status === 'cancelled') return null;
+
+  const publicClient = getPublicClient();
+  const owner = privateKeyToAccount(privateKey).address.toLowerCase();
+  const [sessionEntity, txHashCompanions, confirmations, jitsiEntities] = await Promise.all([
+    publicClient.getEntity(sessionKey as `0x${string}`),
+    fetchCompanions(publicClient, 'session_txhash', 'sessionKey', [sessionKey], { withPayload: false }),
+    fetchCompanions(publicClient, 'session_confirmation', 'sessionKey', [sessionKey], { withPayload: false }),
+    fetchCompanions(publicClient, 'session_jitsi', 'sessionKey', [sessionKey], { withPayload: false }),
+  ]);
+
+  const expiresIn = sessionExpiresIn(session.sessionDate, session.duration);
+  const timing = await getBlockTiming(publicClient);
+  // A minute of slack, so re-running this doesn't extend by a few seconds each time
+  const extensions = [sessionEntity, ...txHashCompanions, ...confirmations, ...jitsiEntities]
+    .filter(entity => String(entity.owner || '').toLowerCase() === owner)
+    .map(entity => ({ entityKey: entity.key, expiresIn: expiresIn - (getRemainingSeconds(entity, timing) ?? 0) }))
+    .filter(extension => extension.expiresIn > 60);
+
+  const creates = [];
+  if (extensions.some(extension => extension.entityKey === sessionEntity.key)) {
+    const pin = await pinCreationTxHash(publicClient, 'session_txhash', sessionEntity, {
+      companions: txHashCompanions,
+      attributes: [{ key: 'spaceId', value: session.spaceId }],
+      expiresIn,
+    });
+    if (pin) creates.push(pin);
+  }
+  // Both participants agreed on the new time, so the session gets its meeting
+  const hasMeeting = (await verifyEntities(decodeEntities('session_jitsi', jitsiEntities))).length > 0;
+  const meeting = !hasMeeting && sessionJitsiEntity({
+    sessionKey,
+    mentorWallet: session.mentorWallet,
+    learnerWallet: session.learnerWallet,
+    spaceId: session.spaceId,
+    expiresIn,
+  });
+  if (meeting) creates.push(meeting);
+
+  if (creates.length === 0 && extensions.length === 0) return null;
+
+  const walletClient = getWalletClientFromPrivateKey(privateKey);
+  const { txHash } = await walletClient.mutateEntities({ creates, extensions });
+  return { txHash };
+}
+
+/**
+ * Server-key work that follows a session write made by or for a user:
+ * adding the meeting once both participants confirmed, archiving completed or
+ * cancelled sessions, moving accepted reschedules and scheduling the archive of
+ * sessions presence may still complete (`scheduleSessionArchive`). Safe to
+ * run more than once, since it re-reads everything from Arkiv.
+ */
+export async function followUpSessionWrite({
+  type,
+  sessionKey,
+  privateKey,
+}: {
+  type: string; // entity type that was written
+  sessionKey: string;
+  privateKey: `0x${string}`;
+}): Promise<void> {
+  if (type === 'session_completion' || type === 'session_cancellation' || type === 'session_presence' || type === 'feedback') {
+    await archiveSession({ sessionKey, privateKey });
+  } else if (type === 'session_reschedule_response') {
+    await applyReschedule({ sessionKey, privateKey });
+  } else if (type === 'session_confirmation') {
+    const session = await getSessionByKey(sessionKey);
+    if (!session) return;
+    await ensureSessionJitsi({
+      sessionKey,
+      mentorWallet: session.mentorWallet,
+      learnerWallet: session.learnerWallet,
+      spaceId: session.spaceId,
+      expiresIn: sessionExpiresIn(session.sessionDate, session.duration),
+      privateKey,
+    });
+  }
+
+  // Presence may still complete the session, or leave no-shows, once joining closes
+  if (type === 'session_confirmation' || type === 'session_presence' || type === 'session_reschedule_response') {
+    const session = await getSessionByKey(sessionKey);
+    if (session) scheduleSessionArchive(session, privateKey);
+  }
+}
+
+// Records outlive the session by years, so reputation keeps its history
+export const SESSION_RECORD_TTL_SECONDS = 5 * 365 * 24 * 60 * 60;
+
+function mapSessionRecord(decoded: DecodedEntity<'session_record'>): Session {
+  const { attributes: attrs, payload } = decoded;
+  const confirmedBy = payload.confirmedBy || [];
+  const completedBy = payload.completedBy || [];
+  return {
+    key: attrs.sessionKey,
+    mentorWallet: attrs.mentorWallet,
+    learnerWallet: attrs.learnerWallet,
+    skill: attrs.skill || '',
+    spaceId: attrs.spaceId || SPACE_ID,
+    createdAt: attrs.sessionCreatedAt || '',
+    sessionDate: attrs.sessionDate,
+    // A session missed by a participant stays as it was read: unfinished, with its no-shows
+    status: payload.cancellation ? 'cancelled' : payload.noShows?.length ? 'in-progress' : 'completed',
+    duration: payload.duration || undefined,
+    notes: payload.notes || undefined,
+    txHash: payload.sessionTxHash || undefined,
+    mentorConfirmed: confirmedBy.includes(attrs.mentorWallet),
+    learnerConfirmed: confirmedBy.includes(attrs.learnerWallet),
+    mentorCompleted: completedBy.includes(attrs.mentorWallet),
+    learnerCompleted: completedBy.includes(attrs.learnerWallet),
+    recordKey: decoded.key,
+    completedAt: payload.completedAt || undefined,
+    feedbackKeys: payload.feedbackKeys || [],
+    cancellation: payload.cancellation,
+    noShows: payload.noShows?.length ? payload.noShows : undefined,
+    // Older records didn't keep it, nor how often the session was moved
+    revision: payload.revision ?? (payload.cancellation ? 2 : 1),
+  };
+}
+
+type SessionRecordListParams = {
+  sessionKey?: string;
   mentorWallet?: string;
   learnerWallet?: string;
   spaceId?: string;
-}): Promise<{ key: string; txHash: string }> {
-  // Try to get the session, but if not found, use provided wallet info
-  let session: Session | null = null;
-  let spaceId = providedSpaceId || 'local-dev';
-  let verifiedMentorWallet = mentorWallet;
-  let verifiedLearnerWallet = learnerWallet;
+};
+
+/**
+ * One page of archived sessions. A record is rewritten when feedback arrives,
+ * so only the latest record of each session on the page is returned.
+ */
+export async function listSessionRecordsPage(params: SessionRecordListParams & PageParams = {}): Promise<Page<Session>> {
+  const publicClient = getPublicClient();
+  let queryBuilder = publicClient.buildQuery().where(eq('type', 'session_record'));
 
+  if (params.sessionKey) {
+    queryBuilder = queryBuilder.where(eq('sessionKey', params.sessionKey));
+  }
+  if (params.spaceId) {
+    queryBuilder = queryBuilder.where(eq('spaceId', params.spaceId));
+  }
+  if (params.mentorWallet) {
+    queryBuilder = queryBuilder.where(eq('mentorWallet', params.mentorWallet.toLowerCase()));
+  }
+  if (params.learnerWallet) {
+    queryBuilder = queryBuilder.where(eq('learnerWallet', params.learnerWallet.toLowerCase()));
+  }
+
+  const result = await fetchPage(queryBuilder.withAttributes(true).withPayload(true).withMetadata(true), params);
+  const records = (await verifyEntities(decodeEntities('session_record', result.entities)))
+    .sort((a, b) => (a.attributes.createdAt || '').localeCompare(b.attributes.createdAt || ''));
+
+  const latest = new Map<string, Session>();
+  records.forEach(record => latest.set(record.attributes.sessionKey, mapSessionRecord(record)));
+
+  return { items: Array.from(latest.values()), cursor: result.cursor };
+}
+
+export async function getSessionRecord(sessionKey: string): Promise<Session | null> {
+  const records = await collectPages(page => listSessionRecordsPage({ sessionKey, ...page }));
+  return records[records.length - 1] || null;
+}
+
+/**
+ * Archive a completed, cancelled or missed session into a long-lived
+ * `session_record`, or refresh a completed session's record when feedback has
+ * been left since it was written. Records are
+ * always written by the server key; readers ignore records from anyone else.
+ * Runs one at a time per session, so overlapping follow-ups don't write the
+ * same record twice. Returns null when there is nothing (new) to archive.
+ */
+export async function archiveSession({
+  sessionKey,
+  privateKey,
+}: {
+  sessionKey: string;
+  privateKey: `0x${string}`;
+}): Promise<{ key: string; txHash: string } | null> {
+  const { archiving } = getArchiverState();
+  const previous = archiving.get(sessionKey) || Promise.resolve(null);
+  const run = previous.catch(() => null).then(() => archiveSessionNow(sessionKey, privateKey));
+  archiving.set(sessionKey, run);
   try {
-    session = await getSessionByKey(sessionKey);
-    if (session) {
-      spaceId = session.spaceId;
-      verifiedMentorWallet = session.mentorWallet;
-      verifiedLearnerWallet = session.learnerWallet;
-    }
-  } catch (e) {
-    console.warn('Could not fetch session by key, using provided info:', e);
+    return await run;
+  } finally {
+    if (archiving.get(sessionKey) === run) archiving.delete(sessionKey);
   }
+}
 
-  // If we have wallet info (either from session or provided), verify the wallet is part of the session
-  if (verifiedMentorWallet && verifiedLearnerWallet) {
-    const isMentor = verifiedMentorWallet.toLowerCase() === rejectedByWallet.toLowerCase();
-    const isLearner = verifiedLearnerWallet.toLowerCase() === rejectedByWallet.toLowerCase();
-    
-    if (!isMentor && !isLearner) {
-      throw new Error('Wallet is not part of this session');
-    }
-  } else if (!session) {
-    // If we don't have session and no wallet info provided, try to query by wallet
-    const publicClient = getPublicClient();
-    const sessionsAsMentor = await listSessions({ mentorWallet: rejectedByWallet });
-    const sessionsAsLearner = await listSessions({ learnerWallet: rejectedByWallet });
-    const allSessions = [...sessionsAsMentor, ...sessionsAsLearner];
-    const matchingSession = allSessions.find(s => s.key === sessionKey);
-    
-    if (matchingSession) {
-      spaceId = matchingSession.spaceId;
-      verifiedMentorWallet = matchingSession.mentorWallet;
-      verifiedLearnerWallet = matchingSession.learnerWallet;
-    } else {
-      throw new Error('Session not found and could not verify wallet ownership');
-    }
+async function archiveSessionNow(sessionKey: string, privateKey: `0x${string}`): Promise<{ key: string; txHash: string } | null> {
+  const [session, record, feedback] = await Promise.all([
+    getSessionByKey(sessionKey),
+    getSessionRecord(sessionKey),
+    listFeedbackForSession(sessionKey),
+  ]);
+  if (!session) return null;
+  // A cancellation is final, so its record never needs refreshing
+  if (session.status === 'cancelled' && session.cancellation) {
+    if (record?.status === 'cancelled') return null;
+    return writeSessionRecord(session, {
+      confirmedBy: [session.mentorWallet, session.learnerWallet].map(w => w.toLowerCase()),
+      cancellation: {
+        cancelledBy: session.cancellation.cancelledBy,
+        reason: session.cancellation.reason,
+        cancelledAt: session.cancellation.cancelledAt,
+        late: session.cancellation.late,
+      },
+    }, privateKey);
   }
+  const participants = [session.mentorWallet.toLowerCase(), session.learnerWallet.toLowerCase()];
+  // Joining has closed without a participant: keep who missed it
+  if (session.noShows) {
+    if (record && (record.noShows || []).join() === session.noShows.join()) return null;
+    return writeSessionRecord(session, { confirmedBy: participants, noShows: session.noShows }, privateKey);
+  }
+  if (session.status !== 'completed') return null;
+
+  const feedbackKeys = feedback
+    .filter(f => participants.includes(f.fromWallet.toLowerCase()))
+    .map(f => f.key)
+    .sort();
+  if (record?.status === 'completed' && (record.feedbackKeys || []).join() === feedbackKeys.join()) return null;
 
-  if (!verifiedMentorWallet || !verifiedLearnerWallet) {
-    throw new Error('Could not determine session participants');
+  // Completed, so both participants confirmed it and attested it or were in the meeting
+  return writeSessionRecord(session, {
+    confirmedBy: participants,
+    completedBy: participants,
+    completedAt: record?.completedAt || new Date().toISOString(),
+    feedbackKeys,
+  }, privateKey);
+}
+
+type ArchiverState = {
+  archiving: Map<string, Promise<{ key: string; txHash: string } | null>>; // sessionKey -> latest run
+  timers: Map<string, { due: number; timer: ReturnType<typeof setTimeout> }>; // sessionKey -> next check
+  archived: Set<string>; // sessions this process has archived for good
+};
+
+declare global {
+  var __mentorGraphSessionArchiver: ArchiverState | undefined;
+}
+
+function getArchiverState(): ArchiverState {
+  if (!globalThis.__mentorGraphSessionArchiver) {
+    globalThis.__mentorGraphSessionArchiver = { archiving: new Map(), timers: new Map(), archived: new Set() };
   }
+  return globalThis.__mentorGraphSessionArchiver;
+}
 
-  // Get session to calculate expiration based on sessionDate + duration
-  let sessionExpiration = 31536000; // Default 1 year fallback
-  try {
-    const session = await getSessionByKey(sessionKey);
-    if (session && session.sessionDate) {
-      const sessionStartTime = new Date(session.sessionDate).getTime();
-      const sessionDurationMs = (session.duration || 60) * 60 * 1000;
-      const bufferMs = 60 * 60 * 1000; // 1 hour buffer
-      const expirationTime = sessionStartTime + sessionDurationMs + bufferMs;
-      const now = Date.now();
-      sessionExpiration = Math.max(1, Math.floor((expirationTime - now) / 1000));
-    }
-  } catch (e) {
-    console.warn('Could not fetch session for expiration calculation, using default:', e);
+// Presence events still in flight when joining closes get this long to land
+const ARCHIVE_GRACE_MS = 60 * 1000;
+// Longest setTimeout delay; a check that fires early schedules the next one
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+/**
+ * Archive a session with a meeting once joining it has closed. By then
+ * presence has either completed it or left no-shows, with no write of
+ * anyone's to follow up. One timer per session, in process: follow-ups
+ * schedule it, and reads schedule the sessions they see, so a restart only
+ * delays archiving until the session is next read. Never writes itself, and
+ * does nothing without a server key.
+ */
+export function scheduleSessionArchive(
+  session: Pick<Session, 'key' | 'status' | 'sessionDate' | 'duration' | 'videoProvider' | 'recordKey'>,
+  privateKey: `0x${string}` | undefined
+): void {
+  if (!privateKey || session.recordKey || !session.videoProvider) return;
+  if (session.status !== 'scheduled' && session.status !== 'in-progress' && session.status !== 'completed') return;
+  const { timers, archived } = getArchiverState();
+  if (archived.has(session.key)) return;
+
+  const due = session.status === 'completed'
+    ? Date.now()
+    : joinWindow(session).closesAt.getTime() + ARCHIVE_GRACE_MS;
+  const existing = timers.get(session.key);
+  // An earlier check re-reads the session and schedules the next one
+  if (existing && existing.due <= due) return;
+  if (existing) clearTimeout(existing.timer);
+
+  const timer = setTimeout(() => {
+    timers.delete(session.key);
+    runScheduledArchive(session.key, privateKey)
+      .catch(e => console.error(`[arkiv] Could not archive session ${session.key}:`, e));
+  }, Math.min(Math.max(0, due - Date.now()), MAX_TIMER_MS));
+  timer.unref?.();
+  timers.set(session.key, { due, timer });
+}
+
+async function runScheduledArchive(sessionKey: string, privateKey: `0x${string}`) {
+  const session = await getSessionByKey(sessionKey);
+  if (!session || session.recordKey) return;
+  // Moved or not over yet
+  if ((session.status === 'scheduled' || session.status === 'in-progress') && !session.noShows) {
+    scheduleSessionArchive(session, privateKey);
+    return;
   }
+  await archiveSession({ sessionKey, privateKey });
+  getArchiverState().archived.add(sessionKey);
+}
 
+async function writeSessionRecord(
+  session: Session,
+  outcome: Omit<SessionRecordPayload, 'duration' | 'notes' | 'sessionTxHash' | 'revision'>,
+  privateKey: `0x${string}`
+): Promise<{ key: string; txHash: string }> {
+  const participants = [session.mentorWallet.toLowerCase(), session.learnerWallet.toLowerCase()];
   const walletClient = getWalletClientFromPrivateKey(privateKey);
-  const enc = new TextEncoder();
   const createdAt = new Date().toISOString();
 
-  const { entityKey, txHash } = await walletClient.createEntity({
-    payload: enc.encode(JSON.stringify({
-      rejectedAt: createdAt,
-    })),
-    contentType: 'application/json',
+  const { entityKey, txHash } = await walletClient.createEntity(encodeEntity('session_record', {
+    payload: {
+      duration: session.duration,
+      notes: session.notes,
+      sessionTxHash: session.txHash,
+      revision: session.revision,
+      ...outcome,
+    },
     attributes: [
-      { key: 'type', value: 'session_rejection' },
-      { key: 'sessionKey', value: sessionKey },
-      { key: 'rejectedBy', value: rejectedByWallet },
-      { key: 'mentorWallet', value: verifiedMentorWallet },
-      { key: 'learnerWallet', value: verifiedLearnerWallet },
-      { key: 'spaceId', value: spaceId },
+      { key: 'sessionKey', value: session.key },
+      { key: 'mentorWallet', value: participants[0] },
+      { key: 'learnerWallet', value: participants[1] },
+      { key: 'skill', value: session.skill },
+      { key: 'spaceId', value: session.spaceId },
+      { key: 'sessionDate', value: session.sessionDate },
+      { key: 'sessionCreatedAt', value: session.createdAt },
+      { key: 'status', value: outcome.cancellation ? 'cancelled' : outcome.noShows ? 'missed' : 'completed' },
       { key: 'createdAt', value: createdAt },
     ],
-    expiresIn: sessionExpiration,
-  });
+    expiresIn: SESSION_RECORD_TTL_SECONDS,
+  }));
 
   return { key: entityKey, txHash };
 }
-
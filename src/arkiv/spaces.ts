@@ -0,0 +1,154 @@
+import { eq } from "@arkiv-network/sdk/query"
+import { getPublicClient, getWalletClientFromPrivateKey } from "./client"
+import { decodeEntities, encodeEntity, DecodedEntity } from "./codec"
+import { fetchAllEntities } from "./pagination"
+import { verifyEntities } from "./verification"
+import { SPACE_ID } from "../config"
+
+/**
+ * Spaces: separate mentoring communities sharing one Arkiv network.
+ *
+ * Every entity carries a `spaceId` attribute and every list query is scoped
+ * to one space, so each space's graph stays isolated. A `space` entity
+ * describes a space (name, description, default TTLs for asks and offers).
+ * The default space (`SPACE_ID`) works without one.
+ */
+
+export const DEFAULT_ASK_TTL_SECONDS = 3600;
+export const DEFAULT_OFFER_TTL_SECONDS = 7200;
+const SPACE_TTL_SECONDS = 31536000; // 1 year
+
+const SPACE_ID_PATTERN = /^[a-z0-9][a-z0-9-]{1,39}$/;
+
+export type Space = {
+  key?: string; // absent for the default space when it has no entity
+  spaceId: string;
+  name: string;
+  description: string;
+  askTtlSeconds: number;
+  offerTtlSeconds: number;
+  createdBy?: string;
+  createdAt?: string;
+};
+
+function mapSpace(decoded: DecodedEntity<'space'>): Space {
+  const { attributes: attrs, payload } = decoded;
+  return {
+    key: decoded.key,
+    spaceId: attrs.spaceId,
+    name: attrs.name,
+    description: payload.description || '',
+    askTtlSeconds: payload.askTtlSeconds || DEFAULT_ASK_TTL_SECONDS,
+    offerTtlSeconds: payload.offerTtlSeconds || DEFAULT_OFFER_TTL_SECONDS,
+    createdBy: attrs.createdBy,
+    createdAt: attrs.createdAt,
+  };
+}
+
+function defaultSpace(): Space {
+  return {
+    spaceId: SPACE_ID,
+    name: SPACE_ID,
+    description: 'Default space',
+    askTtlSeconds: DEFAULT_ASK_TTL_SECONDS,
+    offerTtlSeconds: DEFAULT_OFFER_TTL_SECONDS,
+  };
+}
+
+export function isValidSpaceId(spaceId: string): boolean {
+  return SPACE_ID_PATTERN.test(spaceId);
+}
+
+/**
+ * All spaces, oldest first. The first `space` entity published for a
+ * spaceId is the one that counts; later duplicates are ignored.
+ */
+export async function listSpaces(): Promise<Space[]> {
+  const publicClient = getPublicClient();
+  const entities = await fetchAllEntities(
+    publicClient.buildQuery()
+      .where(eq('type', 'space'))
+      .withAttributes(true)
+      .withPayload(true)
+      .withMetadata(true)
+  );
+
+  const spaces = (await verifyEntities(decodeEntities('space', entities)))
+    .map(mapSpace)
+    .sort((a, b) => (a.createdAt || '').localeCompare(b.createdAt || ''));
+
+  const bySpaceId = new Map<string, Space>();
+  spaces.forEach(space => {
+    if (!bySpaceId.has(space.spaceId)) bySpaceId.set(space.spaceId, space);
+  });
+  if (!bySpaceId.has(SPACE_ID)) {
+    return [defaultSpace(), ...bySpaceId.values()];
+  }
+  return Array.from(bySpaceId.values());
+}
+
+export async function getSpace(spaceId: string): Promise<Space | null> {
+  const spaces = await listSpaces();
+  return spaces.find(space => space.spaceId === spaceId) || null;
+}
+
+/**
+ * Resolve the space a write targets, defaulting to `SPACE_ID`.
+ * Throws for spaces that have not been created.
+ */
+export async function resolveSpace(spaceId?: string): Promise<Space> {
+  const targetSpaceId = spaceId || SPACE_ID;
+  const space = await getSpace(targetSpaceId);
+  if (!space) {
+    throw new Error(`Unknown space "${targetSpaceId}"`);
+  }
+  return space;
+}
+
+export async function createSpace({
+  spaceId,
+  name,
+  description,
+  askTtlSeconds,
+  offerTtlSeconds,
+  wallet,
+  privateKey,
+}: {
+  spaceId: string;
+  name: string;
+  description?: string;
+  askTtlSeconds?: number;
+  offerTtlSeconds?: number;
+  wallet: string;
+  privateKey: `0x${string}`;
+}): Promise<{ key: string; txHash: string }> {
+  if (!isValidSpaceId(spaceId)) {
+    throw new Error('spaceId must be 2-40 lowercase letters, digits or dashes');
+  }
+  for (const ttl of [askTtlSeconds, offerTtlSeconds]) {
+    if (ttl !== undefined && (!Number.isFinite(ttl) || ttl <= 0)) {
+      throw new Error('Default TTLs must be positive numbers of seconds');
+    }
+  }
+  if (await getSpace(spaceId)) {
+    throw new Error(`Space "${spaceId}" already exists`);
+  }
+
+  const walletClient = getWalletClientFromPrivateKey(privateKey);
+  const { entityKey, txHash } = await walletClient.createEntity(encodeEntity('space', {
+    payload: {
+      description: description || '',
+      askTtlSeconds: askTtlSeconds || DEFAULT_ASK_TTL_SECONDS,
+      offerTtlSeconds: offerTtlSeconds || DEFAULT_OFFER_TTL_SECONDS,
+    },
+    attributes: [
+      { key: 'spaceId', value: spaceId },
+      { key: 'name', value: name },
+      { key: 'createdBy', value: wallet },
+      { key: 'createdAt', value: new Date().toISOString() },
+    ],
+    expiresIn: SPACE_TTL_SECONDS,
+  }));
+
+  return { key: entityKey, txHash };
+}
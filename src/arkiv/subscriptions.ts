@@ -1,85 +1,16 @@
-import { createPublicClient, http } from "@arkiv-network/sdk"
-import { mendoza } from "@arkiv-network/sdk/chains"
-import { Ask, ASK_TTL_SECONDS } from "./asks"
-import { Offer, OFFER_TTL_SECONDS } from "./offers"
+import { Ask, mapAsk } from "./asks"
+import { Offer, mapOffer } from "./offers"
 import { getPublicClient } from "./client"
-
-function mapEntityToAsk(entity: any, txHashMap: Record<string, string> = {}): Ask {
-  let payload: any = {};
-  try {
-    if (entity.payload) {
-      const decoded = entity.payload instanceof Uint8Array
-        ? new TextDecoder().decode(entity.payload)
-        : typeof entity.payload === 'string'
-        ? entity.payload
-        : JSON.stringify(entity.payload);
-      payload = JSON.parse(decoded);
-    }
-  } catch (e) {
-    console.error('Error decoding payload:', e);
-  }
-
-  const attrs = entity.attributes || {};
-  const getAttr = (key: string): string => {
-    if (Array.isArray(attrs)) {
-      const attr = attrs.find((a: any) => a.key === key);
-      return String(attr?.value || '');
-    }
-    return String(attrs[key] || '');
-  };
-  
-  return {
-    key: entity.key,
-    wallet: getAttr('wallet') || payload.wallet || '',
-    skill: getAttr('skill') || payload.skill || '',
-    spaceId: getAttr('spaceId') || payload.spaceId || 'local-dev',
-    createdAt: getAttr('createdAt') || payload.createdAt || '',
-    status: getAttr('status') || payload.status || 'open',
-    message: payload.message || '',
-    ttlSeconds: ASK_TTL_SECONDS,
-    txHash: txHashMap[entity.key] || getAttr('txHash') || payload.txHash || (entity as any).txHash || undefined,
-  };
-}
-
-function mapEntityToOffer(entity: any, txHashMap: Record<string, string> = {}): Offer {
-  let payload: any = {};
-  try {
-    if (entity.payload) {
-      const decoded = entity.payload instanceof Uint8Array
-        ? new TextDecoder().decode(entity.payload)
-        : typeof entity.payload === 'string'
-        ? entity.payload
-        : JSON.stringify(entity.payload);
-      payload = JSON.parse(decoded);
-    }
-  } catch (e) {
-    console.error('Error decoding payload:', e);
-  }
-
-  const attrs = entity.attributes || {};
-  const getAttr = (key: string): string => {
-    if (Array.isArray(attrs)) {
-      const attr = attrs.find((a: any) => a.key === key);
-      return String(attr?.value || '');
-    }
-    return String(attrs[key] || '');
-  };
-  
-  return {
-    key: entity.key,
-    wallet: getAttr('wallet') || payload.wallet || '',
-    skill: getAttr('skill') || payload.skill || '',
-    spaceId: getAttr('spaceId') || payload.spaceId || 'local-dev',
-    createdAt: getAttr('createdAt') || payload.createdAt || '',
-    status: getAttr('status') || payload.status || 'active',
-    message: payload.message || '',
-    availabilityWindow: payload.availabilityWindow || '',
-    ttlSeconds: OFFER_TTL_SECONDS,
-    txHash: txHashMap[entity.key] || getAttr('txHash') || payload.txHash || (entity as any).txHash || undefined,
-  };
-}
-
-export function subscribeToAsks(onAsk: (ask: Ask) => void): () => void {
+import { getBlockTiming } from "./expiry"
+import { fetchListingStatuses } from "./listingStatus"
+import { deriveTxHash } from "./txHashes"
+import { collectTxHashes, getAttr } from "./codec"
+import { tryDecodeVerifiedEntity } from "./verification"
+
+export function subscribeToAsks(
+  onAsk: (ask: Ask) => void,
+  onAskStatusChange?: (ask: Ask) => void
+): () => void {
   const publicClient = getPublicClient();
   const txHashMap: Record<string, string> = {};
 
@@ -92,49 +23,53 @@ export function subscribeToAsks(onAsk: (ask: Ask) => void): () => void {
         const entity = await publicClient.getEntity(event.entityKey);
         if (!entity) return;
 
-        const attrs = entity.attributes || {};
-        const getAttr = (key: string) => {
-          if (Array.isArray(attrs)) {
-            const attr = attrs.find((a: any) => a.key === key);
-            return attr?.value || '';
-          }
-          return attrs[key] || '';
-        };
-
-        const entityType = getAttr('type');
-        const entityStatus = getAttr('status');
+        const entityType = getAttr(entity, 'type');
+        const entityStatus = getAttr(entity, 'status');
 
         if (entityType === 'ask' && entityStatus === 'open') {
           console.log('[subscribeToAsks] New ask detected:', entity.key);
-          const ask = mapEntityToAsk(entity, txHashMap);
-          onAsk(ask);
+          const decoded = await tryDecodeVerifiedEntity('ask', entity);
+          if (decoded) {
+            const txHash = await deriveTxHash(publicClient, entity).catch(() => undefined);
+            if (txHash) txHashMap[entity.key] = txHash;
+            onAsk(mapAsk(decoded, txHashMap, {}, await getBlockTiming(publicClient)));
+          }
         }
 
         if (entityType === 'ask_txhash') {
-          const askKey = getAttr('askKey');
-          if (askKey) {
-            let payload: any = {};
-            try {
-              if (entity.payload) {
-                const decoded = entity.payload instanceof Uint8Array
-                  ? new TextDecoder().decode(entity.payload)
-                  : typeof entity.payload === 'string'
-                  ? entity.payload
-                  : JSON.stringify(entity.payload);
-                payload = JSON.parse(decoded);
-              }
-            } catch (e) {
-              console.error('Error decoding txHash payload:', e);
-            }
-            if (payload.txHash) {
-              txHashMap[askKey] = payload.txHash;
-            }
+          Object.assign(txHashMap, collectTxHashes('ask_txhash', [entity]));
+        }
+
+        // A fulfil/withdraw/reopen transition: re-emit the ask with its new status
+        if (entityType === 'ask_status' && onAskStatusChange) {
+          const askKey = getAttr(entity, 'askKey');
+          const askEntity = await publicClient.getEntity(askKey as `0x${string}`);
+          const decoded = await tryDecodeVerifiedEntity('ask', askEntity);
+          if (decoded) {
+            const statusMap = await fetchListingStatuses(publicClient, 'ask', [askKey]);
+            console.log('[subscribeToAsks] Ask status changed:', askKey, statusMap[askKey]?.status);
+            onAskStatusChange(mapAsk(decoded, txHashMap, statusMap, await getBlockTiming(publicClient)));
           }
         }
       } catch (error) {
         console.error('Error processing entity created event:', error);
       }
     },
+    // An extended ask is re-emitted like a status change so clients pick up the new expiry
+    onEntityExpiresInExtended: async (event) => {
+      if (!onAskStatusChange) return;
+      try {
+        const entity = await publicClient.getEntity(event.entityKey);
+        if (getAttr(entity, 'type') !== 'ask') return;
+        const decoded = await tryDecodeVerifiedEntity('ask', entity);
+        if (decoded) {
+          const statusMap = await fetchListingStatuses(publicClient, 'ask', [entity.key]);
+          onAskStatusChange(mapAsk(decoded, txHashMap, statusMap, await getBlockTiming(publicClient)));
+        }
+      } catch (error) {
+        console.error('Error processing entity extended event:', error);
+      }
+    },
     onError: (error) => {
       console.error('Error in subscribeToAsks:', error);
     },
@@ -152,7 +87,10 @@ export function subscribeToAsks(onAsk: (ask: Ask) => void): () => void {
   };
 }
 
-export function subscribeToOffers(onOffer: (offer: Offer) => void): () => void {
+export function subscribeToOffers(
+  onOffer: (offer: Offer) => void,
+  onOfferStatusChange?: (offer: Offer) => void
+): () => void {
   const publicClient = getPublicClient();
   const txHashMap: Record<string, string> = {};
 
@@ -165,49 +103,53 @@ export function subscribeToOffers(onOffer: (offer: Offer) => void): () => void {
         const entity = await publicClient.getEntity(event.entityKey);
         if (!entity) return;
 
-        const attrs = entity.attributes || {};
-        const getAttr = (key: string) => {
-          if (Array.isArray(attrs)) {
-            const attr = attrs.find((a: any) => a.key === key);
-            return attr?.value || '';
-          }
-          return attrs[key] || '';
-        };
-
-        const entityType = getAttr('type');
-        const entityStatus = getAttr('status');
+        const entityType = getAttr(entity, 'type');
+        const entityStatus = getAttr(entity, 'status');
 
         if (entityType === 'offer' && entityStatus === 'active') {
           console.log('[subscribeToOffers] New offer detected:', entity.key);
-          const offer = mapEntityToOffer(entity, txHashMap);
-          onOffer(offer);
+          const decoded = await tryDecodeVerifiedEntity('offer', entity);
+          if (decoded) {
+            const txHash = await deriveTxHash(publicClient, entity).catch(() => undefined);
+            if (txHash) txHashMap[entity.key] = txHash;
+            onOffer(mapOffer(decoded, txHashMap, {}, await getBlockTiming(publicClient)));
+          }
         }
 
         if (entityType === 'offer_txhash') {
-          const offerKey = getAttr('offerKey');
-          if (offerKey) {
-            let payload: any = {};
-            try {
-              if (entity.payload) {
-                const decoded = entity.payload instanceof Uint8Array
-                  ? new TextDecoder().decode(entity.payload)
-                  : typeof entity.payload === 'string'
-                  ? entity.payload
-                  : JSON.stringify(entity.payload);
-                payload = JSON.parse(decoded);
-              }
-            } catch (e) {
-              console.error('Error decoding txHash payload:', e);
-            }
-            if (payload.txHash) {
-              txHashMap[offerKey] = payload.txHash;
-            }
+          Object.assign(txHashMap, collectTxHashes('offer_txhash', [entity]));
+        }
+
+        // A fulfil/withdraw/reopen transition: re-emit the offer with its new status
+        if (entityType === 'offer_status' && onOfferStatusChange) {
+          const offerKey = getAttr(entity, 'offerKey');
+          const offerEntity = await publicClient.getEntity(offerKey as `0x${string}`);
+          const decoded = await tryDecodeVerifiedEntity('offer', offerEntity);
+          if (decoded) {
+            const statusMap = await fetchListingStatuses(publicClient, 'offer', [offerKey]);
+            console.log('[subscribeToOffers] Offer status changed:', offerKey, statusMap[offerKey]?.status);
+            onOfferStatusChange(mapOffer(decoded, txHashMap, statusMap, await getBlockTiming(publicClient)));
           }
         }
       } catch (error) {
         console.error('Error processing entity created event:', error);
       }
     },
+    // An extended offer is re-emitted like a status change so clients pick up the new expiry
+    onEntityExpiresInExtended: async (event) => {
+      if (!onOfferStatusChange) return;
+      try {
+        const entity = await publicClient.getEntity(event.entityKey);
+        if (getAttr(entity, 'type') !== 'offer') return;
+        const decoded = await tryDecodeVerifiedEntity('offer', entity);
+        if (decoded) {
+          const statusMap = await fetchListingStatuses(publicClient, 'offer', [entity.key]);
+          onOfferStatusChange(mapOffer(decoded, txHashMap, statusMap, await getBlockTiming(publicClient)));
+        }
+      } catch (error) {
+        console.error('Error processing entity extended event:', error);
+      }
+    },
     onError: (error) => {
       console.error('Error in subscribeToOffers:', error);
     },
@@ -1,5 +1,11 @@
 import { eq } from "@arkiv-network/sdk/query"
 import { getPublicClient, getWalletClientFromPrivateKey } from "./client"
+import { decodeEntities, encodeEntity, DecodedEntity } from "./codec"
+import { collectPages, fetchPage, Page, PageParams } from "./pagination"
+import { fetchTxHashes } from "./txHashes"
+import { resolveSpace } from "./spaces"
+import { tryDecodeVerifiedEntity, verifyEntities } from "./verification"
+import { SPACE_ID } from "../config"
 
 export type TrustEdge = {
   key: string;
@@ -13,6 +19,25 @@ export type TrustEdge = {
   txHash?: string;
 }
 
+export function mapTrustEdge(decoded: DecodedEntity<'trust_edge'>, txHashMap: Record<string, string> = {}): TrustEdge {
+  const { attributes: attrs, payload } = decoded;
+  const strength = payload.strength !== undefined
+    ? payload.strength
+    : (attrs.strength ? parseInt(attrs.strength, 10) : 0);
+
+  return {
+    key: decoded.key,
+    fromWallet: attrs.fromWallet,
+    toWallet: attrs.toWallet,
+    strength,
+    spaceId: attrs.spaceId || SPACE_ID,
+    createdAt: attrs.createdAt || '',
+    context: payload.context || undefined,
+    sessionKey: payload.sessionKey || undefined,
+    txHash: txHashMap[decoded.key],
+  };
+}
+
 export async function createTrustEdge({
   fromWallet,
   toWallet,
@@ -20,6 +45,7 @@ export async function createTrustEdge({
   context,
   sessionKey,
   privateKey,
+  spaceId,
 }: {
   fromWallet: string;
   toWallet: string;
@@ -27,10 +53,10 @@ export async function createTrustEdge({
   context?: string;
   sessionKey?: string;
   privateKey: `0x${string}`;
+  spaceId?: string;
 }): Promise<{ key: string; txHash: string }> {
   const walletClient = getWalletClientFromPrivateKey(privateKey);
-  const enc = new TextEncoder();
-  const spaceId = 'local-dev';
+  const space = await resolveSpace(spaceId);
   const createdAt = new Date().toISOString();
 
   // Clamp strength to 0-100
@@ -42,157 +68,70 @@ export async function createTrustEdge({
     sessionKey: sessionKey || undefined,
   };
 
-  const { entityKey, txHash } = await walletClient.createEntity({
-    payload: enc.encode(JSON.stringify(payload)),
-    contentType: 'application/json',
+  const { entityKey, txHash } = await walletClient.createEntity(encodeEntity('trust_edge', {
+    payload,
     attributes: [
-      { key: 'type', value: 'trust_edge' },
       { key: 'fromWallet', value: fromWallet },
       { key: 'toWallet', value: toWallet },
-      { key: 'spaceId', value: spaceId },
+      { key: 'spaceId', value: space.spaceId },
       { key: 'createdAt', value: createdAt },
       { key: 'strength', value: clampedStrength.toString() },
     ],
     expiresIn: 31536000, // 1 year (trust edges are long-lived)
-  });
-
-  // Store txHash in a separate entity for verifiability
-  await walletClient.createEntity({
-    payload: enc.encode(JSON.stringify({
-      txHash,
-    })),
-    contentType: 'application/json',
-    attributes: [
-      { key: 'type', value: 'trust_edge_txhash' },
-      { key: 'trustEdgeKey', value: entityKey },
-      { key: 'fromWallet', value: fromWallet },
-      { key: 'toWallet', value: toWallet },
-      { key: 'spaceId', value: spaceId },
-    ],
-    expiresIn: 31536000,
-  });
+  }));
 
   return { key: entityKey, txHash };
 }
 
-export async function listTrustEdges(params?: { 
+type TrustEdgeListParams = {
   fromWallet?: string; 
   toWallet?: string; 
   spaceId?: string;
   minStrength?: number;
-}): Promise<TrustEdge[]> {
+};
+
+export async function listTrustEdgesPage(params: TrustEdgeListParams & PageParams = {}): Promise<Page<TrustEdge>> {
   const publicClient = getPublicClient();
   const query = publicClient.buildQuery();
   let queryBuilder = query.where(eq('type', 'trust_edge'));
   
-  if (params?.spaceId) {
+  if (params.spaceId) {
     queryBuilder = queryBuilder.where(eq('spaceId', params.spaceId));
   }
-  if (params?.fromWallet) {
+  if (params.fromWallet) {
     queryBuilder = queryBuilder.where(eq('fromWallet', params.fromWallet));
   }
-  if (params?.toWallet) {
+  if (params.toWallet) {
     queryBuilder = queryBuilder.where(eq('toWallet', params.toWallet));
   }
   
-  const [result, txHashResult] = await Promise.all([
-    queryBuilder
-      .withAttributes(true)
-      .withPayload(true)
-      .limit(100)
-      .fetch(),
-    publicClient.buildQuery()
-      .where(eq('type', 'trust_edge_txhash'))
-      .withAttributes(true)
-      .withPayload(true)
-      .limit(100)
-      .fetch(),
-  ]);
+  const result = await fetchPage(queryBuilder.withAttributes(true).withPayload(true).withMetadata(true), params);
+  const decoded = await verifyEntities(decodeEntities('trust_edge', result.entities));
 
-  // Build txHash map
-  const txHashMap: Record<string, string> = {};
-  txHashResult.entities.forEach((entity: any) => {
-    const attrs = entity.attributes || {};
-    const getAttr = (key: string): string => {
-      if (Array.isArray(attrs)) {
-        const attr = attrs.find((a: any) => a.key === key);
-        return String(attr?.value || '');
-      }
-      return String(attrs[key] || '');
-    };
-    const trustEdgeKey = getAttr('trustEdgeKey');
-    if (trustEdgeKey) {
-      try {
-        const payload = entity.payload instanceof Uint8Array
-          ? new TextDecoder().decode(entity.payload)
-          : typeof entity.payload === 'string'
-          ? entity.payload
-          : JSON.stringify(entity.payload);
-        const decoded = JSON.parse(payload);
-        if (decoded.txHash) {
-          txHashMap[trustEdgeKey] = decoded.txHash;
-        }
-      } catch (e) {
-        console.error('Error decoding txHash payload:', e);
-      }
-    }
-  });
+  const txHashMap = await fetchTxHashes(publicClient, 'trust_edge_txhash', decoded.map(d => d.raw));
 
-  return result.entities
-    .map((entity: any) => {
-      let payload: any = {};
-      try {
-        if (entity.payload) {
-          const decoded = entity.payload instanceof Uint8Array
-            ? new TextDecoder().decode(entity.payload)
-            : typeof entity.payload === 'string'
-            ? entity.payload
-            : JSON.stringify(entity.payload);
-          payload = JSON.parse(decoded);
-        }
-      } catch (e) {
-        console.error('Error decoding payload:', e);
-      }
-
-  const attrs = entity.attributes || {};
-  const getAttr = (key: string): string => {
-    if (Array.isArray(attrs)) {
-      const attr = attrs.find((a: any) => a.key === key);
-      return String(attr?.value || '');
-    }
-    return String(attrs[key] || '');
-  };
-
-  const strength = payload.strength !== undefined 
-    ? payload.strength 
-    : (getAttr('strength') ? parseInt(getAttr('strength'), 10) : 0);
-
-  return {
-    key: entity.key,
-    fromWallet: getAttr('fromWallet'),
-    toWallet: getAttr('toWallet'),
-        strength,
-        spaceId: getAttr('spaceId') || 'local-dev',
-        createdAt: getAttr('createdAt') || '',
-        context: payload.context || undefined,
-        sessionKey: payload.sessionKey || undefined,
-        txHash: txHashMap[entity.key],
-      };
-    })
+  const items = decoded
+    .map(d => mapTrustEdge(d, txHashMap))
     .filter((edge: TrustEdge) => {
       // Filter by minStrength if provided
-      if (params?.minStrength !== undefined) {
+      if (params.minStrength !== undefined) {
         return edge.strength >= params.minStrength;
       }
       return true;
     });
+
+  return { items, cursor: result.cursor };
+}
+
+export async function listTrustEdges(params?: TrustEdgeListParams): Promise<TrustEdge[]> {
+  return collectPages(page => listTrustEdgesPage({ ...params, ...page }));
 }
 
-export async function listTrustEdgesForWallet(wallet: string): Promise<TrustEdge[]> {
+export async function listTrustEdgesForWallet(wallet: string, spaceId?: string): Promise<TrustEdge[]> {
   // Get trust edges where wallet is either giving or receiving trust
   const [given, received] = await Promise.all([
-    listTrustEdges({ fromWallet: wallet }),
-    listTrustEdges({ toWallet: wallet }),
+    listTrustEdges({ fromWallet: wallet, spaceId }),
+    listTrustEdges({ toWallet: wallet, spaceId }),
   ]);
 
   // Combine and deduplicate by key
@@ -212,75 +151,14 @@ export async function getTrustEdgeByKey(key: string): Promise<TrustEdge | null>
     .where(eq('key', key))
     .withAttributes(true)
     .withPayload(true)
+    .withMetadata(true)
     .limit(1)
     .fetch();
 
   if (result.entities.length === 0) return null;
 
-  const entity = result.entities[0];
-  let payload: any = {};
-  try {
-    if (entity.payload) {
-      const decoded = entity.payload instanceof Uint8Array
-        ? new TextDecoder().decode(entity.payload)
-        : typeof entity.payload === 'string'
-        ? entity.payload
-        : JSON.stringify(entity.payload);
-      payload = JSON.parse(decoded);
-    }
-  } catch (e) {
-    console.error('Error decoding payload:', e);
-  }
-
-  const attrs = entity.attributes || {};
-  const getAttr = (key: string): string => {
-    if (Array.isArray(attrs)) {
-      const attr = attrs.find((a: any) => a.key === key);
-      return String(attr?.value || '');
-    }
-    return String(attrs[key] || '');
-  };
+  const decoded = await tryDecodeVerifiedEntity('trust_edge', result.entities[0]);
+  if (!decoded) return null;
 
-  // Get txHash
-  const txHashResult = await publicClient.buildQuery()
-    .where(eq('type', 'trust_edge_txhash'))
-    .where(eq('trustEdgeKey', entity.key))
-    .withAttributes(true)
-    .withPayload(true)
-    .limit(1)
-    .fetch();
-
-  let txHash: string | undefined;
-  if (txHashResult.entities.length > 0) {
-    try {
-      const txHashEntity = txHashResult.entities[0];
-      const txHashPayload = txHashEntity.payload instanceof Uint8Array
-        ? new TextDecoder().decode(txHashEntity.payload)
-        : typeof txHashEntity.payload === 'string'
-        ? txHashEntity.payload
-        : JSON.stringify(txHashEntity.payload);
-      const decoded = JSON.parse(txHashPayload);
-      txHash = decoded.txHash;
-    } catch (e) {
-      console.error('Error decoding txHash:', e);
-    }
-  }
-
-  const strengthStr = getAttr('strength');
-  const strength = payload.strength !== undefined 
-    ? payload.strength 
-    : (strengthStr ? parseInt(strengthStr, 10) : 0);
-
-  return {
-    key: entity.key,
-    fromWallet: getAttr('fromWallet') || '',
-    toWallet: getAttr('toWallet') || '',
-    strength,
-    spaceId: getAttr('spaceId') || 'local-dev',
-    createdAt: getAttr('createdAt') || '',
-    context: payload.context || undefined,
-    sessionKey: payload.sessionKey || undefined,
-    txHash,
-  };
+  return mapTrustEdge(decoded, await fetchTxHashes(publicClient, 'trust_edge_txhash', [decoded.raw]));
 }
-
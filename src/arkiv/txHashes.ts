@@ -0,0 +1,120 @@
+import type { CreateEntityParameters, Entity } from "@arkiv-network/sdk"
+import type { ArkivPublicClient } from "./client"
+import { collectTxHashes, encodeEntity, Attribute, ENTITY_SCHEMAS, TxHashEntityType } from "./codec"
+import { fetchCompanions } from "./pagination"
+
+/**
+ * Transaction hashes of primary entities.
+ *
+ * An entity does not store the hash of the transaction that created it, but
+ * its metadata names the block and the transaction's index in that block, so
+ * the hash can be looked up without a second write. Older entities carry an
+ * `*_txhash` companion instead (as do listings that were extended, see
+ * `extendListing`); both sources are read, and an entity with neither simply
+ * has no hash.
+ */
+
+// An entity's creation transaction never changes, so hashes are cached by
+// entity key for the process lifetime (and still known after an extension)
+const MAX_CACHED_HASHES = 5000;
+const txHashCache = new Map<string, `0x${string}`>();
+// Lookups for a page run this many at a time, well within the RPC's rate limit
+const LOOKUP_CONCURRENCY = 5;
+
+/**
+ * Hash of the transaction that created `entity`, or undefined when it can't be
+ * derived (metadata not fetched, or the entity was modified before its hash
+ * was first looked up, so its transaction index points at the later
+ * transaction).
+ */
+export async function deriveTxHash(
+  publicClient: ArkivPublicClient,
+  entity: Entity
+): Promise<string | undefined> {
+  const cached = txHashCache.get(entity.key);
+  if (cached) return cached;
+
+  const { createdAtBlock, lastModifiedAtBlock, transactionIndexInBlock } = entity;
+  if (createdAtBlock === undefined || transactionIndexInBlock === undefined) return undefined;
+  if (lastModifiedAtBlock !== undefined && lastModifiedAtBlock !== createdAtBlock) return undefined;
+
+  const { hash } = await publicClient.getTransaction({
+    blockNumber: createdAtBlock,
+    index: Number(transactionIndexInBlock),
+  });
+  if (txHashCache.size >= MAX_CACHED_HASHES) {
+    txHashCache.clear();
+  }
+  txHashCache.set(entity.key, hash);
+  return hash;
+}
+
+/**
+ * A `*_txhash` companion pinning `entity`'s creation hash, to be written in the
+ * transaction that extends it: extending moves the entity's last-modified
+ * block, after which its hash can no longer be derived. Null when the entity
+ * already has a companion (`companions`) or its hash can't be derived.
+ */
+export async function pinCreationTxHash(
+  publicClient: ArkivPublicClient,
+  type: TxHashEntityType,
+  entity: Entity,
+  {
+    companions,
+    attributes,
+    expiresIn,
+  }: {
+    companions: Entity[];
+    attributes: Attribute[]; // besides the reference to `entity`
+    expiresIn: number;
+  }
+): Promise<CreateEntityParameters | null> {
+  if (companions.length > 0) return null;
+  const txHash = await deriveTxHash(publicClient, entity).catch(() => undefined);
+  if (!txHash) return null;
+  return encodeEntity(type, {
+    payload: { txHash },
+    attributes: [{ key: ENTITY_SCHEMAS[type].refAttribute!, value: entity.key }, ...attributes],
+    expiresIn,
+  });
+}
+
+/**
+ * Transaction hashes for a page of primary entities (queried with metadata),
+ * keyed by entity key. Companions win where present; the rest are derived.
+ * Failures are logged and leave the affected entities without a hash.
+ */
+export async function fetchTxHashes(
+  publicClient: ArkivPublicClient,
+  type: TxHashEntityType,
+  entities: Entity[]
+): Promise<Record<string, string>> {
+  let txHashMap: Record<string, string> = {};
+  try {
+    const companions = await fetchCompanions(
+      publicClient,
+      type,
+      ENTITY_SCHEMAS[type].refAttribute!,
+      entities.map(entity => entity.key)
+    );
+    txHashMap = collectTxHashes(type, companions);
+  } catch (e) {
+    console.error(`Error fetching ${type}:`, e);
+  }
+
+  const missing = entities.filter(entity => !txHashMap[entity.key]);
+  for (let i = 0; i < missing.length; i += LOOKUP_CONCURRENCY) {
+    await Promise.all(missing.slice(i, i + LOOKUP_CONCURRENCY).map(async entity => {
+      try {
+        const txHash = await deriveTxHash(publicClient, entity);
+        if (txHash) {
+          txHashMap[entity.key] = txHash;
+        }
+      } catch (e) {
+        console.error(`Error deriving txHash for ${entity.key}:`, e);
+      }
+    }));
+  }
+
+  return txHashMap;
+}
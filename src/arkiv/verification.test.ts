@@ -0,0 +1,101 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { hexToBytes, toHex } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { decodeEntity, DecodedEntity, encodeEntity, EntityType } from './codec';
+import { buildIntent, INTENT_DOMAIN, INTENT_TYPES, withIntentAttributes } from './intents';
+import { serializeCreates } from './preparedWrites';
+
+// Trusted writers are read when verification.ts loads
+const serverAccount = privateKeyToAccount(`0x${'66'.repeat(32)}`);
+const server = serverAccount.address.toLowerCase();
+process.env.ARKIV_TRUSTED_WRITERS = server;
+const { isTrustedWriter, verifyCreator, verifyEntities } = await import('./verification');
+
+const user = privateKeyToAccount(`0x${'77'.repeat(32)}`);
+const wallet = user.address.toLowerCase();
+const stranger = privateKeyToAccount(`0x${'88'.repeat(32)}`).address.toLowerCase();
+let keyCounter = 0;
+
+function stored<T extends EntityType>(type: T, attributes: Array<{ key: string; value: string }>, payload: Record<string, unknown>, owner: string) {
+  const params = encodeEntity(type, { attributes, payload: payload as any, expiresIn: 3600 });
+  return decodeEntity(type, { key: toHex(++keyCounter), attributes: params.attributes, payload: params.payload, owner });
+}
+
+function ask(owner: string, claimed = wallet) {
+  return stored('ask', [{ key: 'wallet', value: claimed }, { key: 'skill', value: 'rust' }], { message: 'Help' }, owner);
+}
+
+// An ask signed by `signer` and submitted by the relayer
+async function relayedAsk(signer = user, nonce = toHex(1, { size: 32 })) {
+  const [write] = serializeCreates([encodeEntity('ask', {
+    attributes: [{ key: 'wallet', value: wallet }, { key: 'skill', value: 'rust' }],
+    payload: { message: 'Help' },
+    expiresIn: 3600,
+  })]);
+  const deadline = Math.floor(Date.now() / 1000) + 600;
+  const signature = await signer.signTypedData({
+    domain: INTENT_DOMAIN,
+    types: INTENT_TYPES,
+    primaryType: 'EntityIntent',
+    message: buildIntent(write, wallet, nonce, deadline),
+  });
+  const signed = withIntentAttributes(write, { wallet, nonce, deadline, signature });
+  return decodeEntity('ask', { key: toHex(++keyCounter), attributes: signed.attributes, payload: hexToBytes(signed.payload), owner: stranger });
+}
+
+function presence(owner: string) {
+  return stored('session_presence', [
+    { key: 'sessionKey', value: '0x01' },
+    { key: 'wallet', value: wallet },
+    { key: 'event', value: 'join' },
+  ], { at: new Date().toISOString() }, owner);
+}
+
+test('trusted writers are matched case-insensitively', () => {
+  assert.ok(isTrustedWriter(serverAccount.address));
+  assert.ok(!isTrustedWriter(stranger));
+});
+
+test('the owner, a trusted writer or nobody can vouch for a claim', async () => {
+  assert.equal(await verifyCreator(ask(wallet)), 'owner');
+  assert.equal(await verifyCreator(ask(user.address)), 'owner');
+  assert.equal(await verifyCreator(ask(server)), 'server');
+  assert.equal(await verifyCreator(ask(stranger)), 'forged');
+});
+
+test('a relayed entity is vouched for by the intent its wallet signed', async () => {
+  assert.equal(await verifyCreator(await relayedAsk()), 'signature');
+
+  const forger = privateKeyToAccount(`0x${'99'.repeat(32)}`);
+  assert.equal(await verifyCreator(await relayedAsk(forger)), 'forged');
+
+  const tampered = await relayedAsk();
+  tampered.attributes.skill = 'go';
+  tampered.raw.attributes = tampered.raw.attributes.map((attr: any) => attr.key === 'skill' ? { ...attr, value: 'go' } : attr);
+  assert.equal(await verifyCreator(tampered), 'forged');
+});
+
+test('entities written for the app only count from trusted writers', async () => {
+  assert.equal(await verifyCreator(presence(server)), 'server');
+  // Even when the participant owns it
+  assert.equal(await verifyCreator(presence(wallet)), 'forged');
+});
+
+test('types that make no claim are not checked', async () => {
+  const companion = stored('ask_txhash', [{ key: 'askKey', value: '0x01' }], { txHash: '0xfeed' }, stranger);
+  assert.equal(await verifyCreator(companion), null);
+});
+
+test('verifyEntities drops forged entities and replayed intents', async () => {
+  const forged: DecodedEntity<'ask'>[] = [];
+  const genuine = ask(wallet);
+  const relayed = await relayedAsk(user, toHex(2, { size: 32 }));
+  const replayed = await relayedAsk(user, toHex(2, { size: 32 }));
+
+  const verified = await verifyEntities([genuine, ask(stranger), relayed, replayed], decoded => forged.push(decoded));
+
+  assert.deepEqual(verified.map(decoded => decoded.key), [genuine.key, relayed.key]);
+  assert.equal(forged.length, 1);
+  assert.equal(forged[0].raw.owner, stranger);
+});
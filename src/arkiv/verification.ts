@@ -0,0 +1,137 @@
+import { tryDecodeEntity, DecodedEntity, EntityType } from "./codec"
+import { recoverIntentSigner } from "./intents"
+import { CURRENT_WALLET } from "../config"
+
+/**
+ * Creator verification for entities read from Arkiv.
+ *
+ * Most entities speak for a wallet named in one of their attributes
+ * (`wallet`, `fromWallet`, `confirmedBy`, ...), but anyone who can write to
+ * Arkiv can set any attribute. Readers only keep an entity when the claimed
+ * wallet is vouched for by one of:
+ *
+ * - `owner`: the entity's on-chain owner is the claimed wallet (wallet signing)
+ * - `signature`: it carries an intent signed by the claimed wallet (relayed
+ *   writes, see intents.ts)
+ * - `server`: it is owned by this app's key, or another key listed in
+ *   `ARKIV_TRUSTED_WRITERS`; the app only writes for signed-in wallets
+ *
+ * Entities that speak for the app itself (`SERVER_WRITTEN_TYPES`) only count
+ * when written by a trusted key. Anything else is forged and dropped. Owners come from entity metadata, so
+ * readers must query `withMetadata(true)`; relayed entities also need their
+ * payload to check the signature.
+ */
+
+export type CreatorVerification = 'owner' | 'signature' | 'server' | 'forged';
+
+// Attribute naming the wallet each entity type speaks for. Types not listed
+// (sessions, txhash companions) make no claim and aren't checked.
+export const CLAIM_ATTRIBUTES: Partial<Record<EntityType, string>> = {
+  space: 'createdBy',
+  user_profile: 'wallet',
+  ask: 'wallet',
+  ask_status: 'changedBy',
+  offer: 'wallet',
+  offer_status: 'changedBy',
+  availability: 'wallet',
+  busy_calendar: 'wallet',
+  session_confirmation: 'confirmedBy',
+  session_rejection: 'rejectedBy',
+  session_completion: 'completedBy',
+  session_cancellation: 'cancelledBy',
+  session_reschedule: 'proposedBy',
+  session_reschedule_response: 'respondedBy',
+  feedback: 'fromWallet',
+  trust_edge: 'fromWallet',
+};
+
+// Written by the app on its own behalf, e.g. session records summarising both
+// participants, a session's meeting, or who it saw join and leave it
+export const SERVER_WRITTEN_TYPES: EntityType[] = ['session_record', 'session_jitsi', 'session_presence'];
+
+const TRUSTED_WRITERS = new Set(
+  [CURRENT_WALLET || '', ...(process.env.ARKIV_TRUSTED_WRITERS || '').split(',')]
+    .map(address => address.trim().toLowerCase())
+    .filter(Boolean)
+);
+
+export function isTrustedWriter(address: string): boolean {
+  return TRUSTED_WRITERS.has(address.toLowerCase());
+}
+
+/**
+ * How the wallet an entity claims to speak for is vouched for, or null for
+ * entity types that make no claim.
+ */
+export async function verifyCreator<T extends EntityType>(decoded: DecodedEntity<T>): Promise<CreatorVerification | null> {
+  const owner = String(decoded.raw?.owner || '').toLowerCase();
+  if (SERVER_WRITTEN_TYPES.includes(decoded.type)) {
+    return TRUSTED_WRITERS.has(owner) ? 'server' : 'forged';
+  }
+
+  const claimAttribute = CLAIM_ATTRIBUTES[decoded.type];
+  if (!claimAttribute) return null;
+
+  const claimed = (decoded.attributes[claimAttribute] || '').toLowerCase();
+
+  if (owner && owner === claimed) return 'owner';
+
+  if (decoded.attributes.intentSignature) {
+    const signer = await recoverIntentSigner({
+      attributes: Object.entries(decoded.attributes).map(([key, value]) => ({ key, value })),
+      payload: decoded.raw?.payload,
+    });
+    if (signer && signer === claimed) return 'signature';
+  }
+
+  if (owner && TRUSTED_WRITERS.has(owner)) return 'server';
+  return 'forged';
+}
+
+/**
+ * Drop (and report) entities whose claimed wallet can't be verified. A signed
+ * intent counts once: copies of it submitted again by another key are dropped.
+ */
+export async function verifyEntities<T extends EntityType>(
+  entities: DecodedEntity<T>[],
+  onForged: (decoded: DecodedEntity<T>) => void = reportForgedEntity
+): Promise<DecodedEntity<T>[]> {
+  const verifications = await Promise.all(entities.map(verifyCreator));
+  const seenNonces = new Set<string>();
+
+  return entities.filter((decoded, i) => {
+    if (verifications[i] === 'forged') {
+      onForged(decoded);
+      return false;
+    }
+    if (verifications[i] === 'signature') {
+      const nonce = decoded.attributes.intentNonce.toLowerCase();
+      if (seenNonces.has(nonce)) return false;
+      seenNonces.add(nonce);
+    }
+    return true;
+  });
+}
+
+/**
+ * Decode and verify a single entity, returning null (and reporting) when it is
+ * malformed or forged.
+ */
+export async function tryDecodeVerifiedEntity<T extends EntityType>(type: T, entity: any): Promise<DecodedEntity<T> | null> {
+  const decoded = tryDecodeEntity(type, entity);
+  if (!decoded) return null;
+  const [verified] = await verifyEntities([decoded]);
+  return verified || null;
+}
+
+export function reportForgedEntity(decoded: DecodedEntity<EntityType>) {
+  const claimAttribute = CLAIM_ATTRIBUTES[decoded.type];
+  if (!claimAttribute) {
+    console.warn(`[arkiv] Ignoring ${decoded.type} entity ${decoded.key}: not written by a trusted key (${decoded.raw?.owner || 'unknown'})`);
+    return;
+  }
+  console.warn(
+    `[arkiv] Ignoring ${decoded.type} entity ${decoded.key}: ${claimAttribute} ${decoded.attributes[claimAttribute]} ` +
+    `is not its owner (${decoded.raw?.owner || 'unknown'}) and did not sign it`
+  );
+}
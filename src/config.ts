@@ -8,11 +8,28 @@ export const CURRENT_WALLET = ARKIV_PRIVATE_KEY
   ? privateKeyToAccount(ARKIV_PRIVATE_KEY).address 
   : undefined;
 
-export const SPACE_ID = "local-dev"; // Optionally configurable later
+// Default space: used for writes and reads that don't name one.
+// Other spaces are described by `space` entities (see src/arkiv/spaces.ts).
+export const SPACE_ID = process.env.ARKIV_SPACE_ID || "local-dev";
 
 // Jitsi configuration
 export const JITSI_BASE_URL = process.env.JITSI_BASE_URL || 'https://meet.jit.si';
 
+// Video meetings for confirmed sessions (see src/lib/video.ts): `jitsi`
+// (public rooms), `jitsi-jwt` (self-hosted Jitsi with per-participant tokens
+// signed by JITSI_APP_SECRET), `custom` (VIDEO_URL_TEMPLATE) or `none`
+export const VIDEO_PROVIDER = process.env.VIDEO_PROVIDER || 'jitsi';
+export const JITSI_APP_ID = process.env.JITSI_APP_ID || '';
+export const JITSI_APP_SECRET = process.env.JITSI_APP_SECRET || '';
+export const VIDEO_URL_TEMPLATE = process.env.VIDEO_URL_TEMPLATE || '';
+// Meeting room names are derived from session keys with this secret (default:
+// derived from ARKIV_PRIVATE_KEY); changing it moves every meeting to a new room
+export const VIDEO_ROOM_SECRET = process.env.VIDEO_ROOM_SECRET || '';
+
+// Cancelling a scheduled session with less notice than this counts as a late
+// cancellation in reliability stats
+export const CANCELLATION_NOTICE_HOURS = Number(process.env.CANCELLATION_NOTICE_HOURS) || 24;
+
 // Helper to get private key, throwing if not available (for API routes that need it)
 export function getPrivateKey(): `0x${string}` {
   if (!ARKIV_PRIVATE_KEY) {
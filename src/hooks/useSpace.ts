@@ -0,0 +1,56 @@
+// Hook for the currently selected space (mentoring community)
+// The selection is remembered in localStorage so /me and /network agree
+
+import { useState, useEffect, useCallback } from 'react';
+
+export interface SpaceOption {
+  spaceId: string;
+  name: string;
+  description: string;
+  askTtlSeconds: number;
+  offerTtlSeconds: number;
+}
+
+const STORAGE_KEY = 'spaceId';
+
+/**
+ * Hook that loads the available spaces and tracks the selected one
+ * @returns Spaces, the selected spaceId (null until loaded) and a setter
+ */
+export function useSpace(): {
+  spaces: SpaceOption[];
+  spaceId: string | null;
+  space: SpaceOption | null;
+  setSpaceId: (spaceId: string) => void;
+} {
+  const [spaces, setSpaces] = useState<SpaceOption[]>([]);
+  const [spaceId, setSpaceIdState] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch('/api/spaces')
+      .then(res => res.json())
+      .then(result => {
+        const loaded: SpaceOption[] = result.ok ? result.spaces : [];
+        const saved = localStorage.getItem(STORAGE_KEY);
+        setSpaces(loaded);
+        // Fall back to the server default if the saved space no longer exists
+        setSpaceIdState(saved && loaded.some(s => s.spaceId === saved) ? saved : (result.defaultSpaceId || null));
+      })
+      .catch(err => {
+        console.error('Error fetching spaces:', err);
+        setSpaceIdState(localStorage.getItem(STORAGE_KEY) || '');
+      });
+  }, []);
+
+  const setSpaceId = useCallback((next: string) => {
+    localStorage.setItem(STORAGE_KEY, next);
+    setSpaceIdState(next);
+  }, []);
+
+  return {
+    spaces,
+    spaceId,
+    space: spaces.find(s => s.spaceId === spaceId) || null,
+    setSpaceId,
+  };
+}
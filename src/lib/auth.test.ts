@@ -0,0 +1,94 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { privateKeyToAccount } from 'viem/accounts';
+import { createSiweMessage } from 'viem/siwe';
+import { getSessionWallet, issueNonce, requestOrigin, verifySignIn } from './auth';
+
+process.env.AUTH_SECRET = 'test-secret';
+
+const account = privateKeyToAccount(`0x${'55'.repeat(32)}`);
+
+function response() {
+  const headers: Record<string, string | string[]> = {};
+  return { headers, setHeader: (name: string, value: string | string[]) => { headers[name] = value; } };
+}
+
+// Request carrying the cookies a response set
+function request(res: ReturnType<typeof response>, headers: Record<string, string> = {}) {
+  const setCookie = ([] as string[]).concat(res.headers['Set-Cookie'] || []);
+  const cookies = Object.fromEntries(setCookie.map(cookie => {
+    const [pair] = cookie.split(';');
+    const index = pair.indexOf('=');
+    return [pair.slice(0, index), pair.slice(index + 1)];
+  }));
+  return { cookies, headers: { host: 'mentor.test', ...headers } };
+}
+
+async function signIn(domain = 'mentor.test') {
+  const nonceRes = response();
+  const nonce = issueNonce(nonceRes);
+  const message = createSiweMessage({
+    address: account.address,
+    chainId: 1,
+    domain,
+    nonce,
+    uri: `https://${domain}`,
+    version: '1',
+  });
+  return { nonceRes, message, signature: await account.signMessage({ message }) };
+}
+
+test('a signed message starts a session for its wallet', async () => {
+  const { nonceRes, message, signature } = await signIn();
+  const res = response();
+
+  const address = await verifySignIn(request(nonceRes), res, message, signature);
+  assert.equal(address, account.address.toLowerCase());
+  assert.equal(getSessionWallet(request(res)), address);
+});
+
+test('a nonce cookie is accepted only once', async () => {
+  const { nonceRes, message, signature } = await signIn();
+  await verifySignIn(request(nonceRes), response(), message, signature);
+
+  await assert.rejects(verifySignIn(request(nonceRes), response(), message, signature), /already used/);
+});
+
+test('messages for another domain or with another nonce are rejected', async () => {
+  const other = await signIn('evil.test');
+  await assert.rejects(verifySignIn(request(other.nonceRes), response(), other.message, other.signature), /does not match/);
+
+  const first = await signIn();
+  const second = await signIn();
+  await assert.rejects(verifySignIn(request(second.nonceRes), response(), first.message, first.signature), /does not match/);
+});
+
+test('a tampered signature is rejected', async () => {
+  const { nonceRes, message } = await signIn();
+  const signature = await account.signMessage({ message: `${message}\n` });
+  await assert.rejects(verifySignIn(request(nonceRes), response(), message, signature), /Invalid signature/);
+});
+
+test('forwarded headers only count behind a trusted proxy', async () => {
+  const forwarded = { 'x-forwarded-host': 'evil.test', 'x-forwarded-proto': 'https' };
+  const { nonceRes, message, signature } = await signIn('evil.test');
+  await assert.rejects(verifySignIn(request(nonceRes, forwarded), response(), message, signature), /does not match/);
+  assert.equal(requestOrigin(request(response(), forwarded)), 'http://mentor.test');
+
+  process.env.TRUST_PROXY = 'on';
+  try {
+    assert.equal(requestOrigin(request(response(), forwarded)), 'https://evil.test');
+    await verifySignIn(request(nonceRes, forwarded), response(), message, signature);
+  } finally {
+    delete process.env.TRUST_PROXY;
+  }
+});
+
+test('the configured site URL wins over request headers', () => {
+  process.env.NEXT_PUBLIC_SITE_URL = 'https://mentor.example.com/';
+  try {
+    assert.equal(requestOrigin(request(response(), { host: 'evil.test' })), 'https://mentor.example.com');
+  } finally {
+    delete process.env.NEXT_PUBLIC_SITE_URL;
+  }
+});
@@ -0,0 +1,214 @@
+import crypto from 'crypto';
+import { verifyMessage } from 'viem';
+import { generateSiweNonce, parseSiweMessage, validateSiweMessage } from 'viem/siwe';
+
+/**
+ * Sign-In with Ethereum (EIP-4361) sessions for API routes.
+ *
+ * `/api/auth/nonce` hands out a nonce in a short-lived HTTP-only cookie, the
+ * wallet signs a SIWE message containing it, and `/api/auth/verify` checks the
+ * signature and swaps the nonce cookie for a session cookie. Both cookies are
+ * HMAC-signed, so no server-side session store is needed; the server only
+ * remembers spent nonces until they expire, so each is accepted once.
+ *
+ * The SIWE domain and absolute links are bound to `NEXT_PUBLIC_SITE_URL`, or
+ * to the `Host` header without it. `X-Forwarded-*` headers are only trusted
+ * with `TRUST_PROXY=on`, behind a proxy that sets them.
+ */
+
+const SESSION_COOKIE = 'mg_session';
+const NONCE_COOKIE = 'mg_siwe_nonce';
+const SESSION_SECONDS = 7 * 24 * 3600;
+const NONCE_SECONDS = 10 * 60;
+
+declare global {
+  var __mentorGraphSpentNonces: Map<string, number> | undefined; // nonce -> expiresAt (ms)
+}
+
+// Mark a nonce spent; false if it already was
+function spendNonce(nonce: string, expiresAt: number): boolean {
+  if (!globalThis.__mentorGraphSpentNonces) {
+    globalThis.__mentorGraphSpentNonces = new Map();
+  }
+  const spent = globalThis.__mentorGraphSpentNonces;
+  const now = Date.now();
+  spent.forEach((expiry, key) => {
+    if (expiry <= now) spent.delete(key);
+  });
+  if (spent.has(nonce)) return false;
+  spent.set(nonce, expiresAt);
+  return true;
+}
+
+let generatedSecret: string | undefined;
+
+function getAuthSecret(): string {
+  if (process.env.AUTH_SECRET) return process.env.AUTH_SECRET;
+  // Without AUTH_SECRET, derive one from the server key so sessions survive restarts
+  if (process.env.ARKIV_PRIVATE_KEY) {
+    return crypto.createHash('sha256').update(`mentor-graph-auth:${process.env.ARKIV_PRIVATE_KEY}`).digest('hex');
+  }
+  if (!generatedSecret) {
+    console.warn('[auth] AUTH_SECRET not set; sessions will not survive a restart');
+    generatedSecret = crypto.randomBytes(32).toString('hex');
+  }
+  return generatedSecret;
+}
+
+function sign(value: string): string {
+  return crypto.createHmac('sha256', getAuthSecret()).update(value).digest('base64url');
+}
+
+function seal(data: object): string {
+  const value = Buffer.from(JSON.stringify(data)).toString('base64url');
+  return `${value}.${sign(value)}`;
+}
+
+function unseal<T extends { expiresAt: number }>(token: string | undefined): T | null {
+  if (!token) return null;
+  const [value, signature] = token.split('.');
+  if (!value || !signature) return null;
+  const expected = Buffer.from(sign(value));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+  try {
+    const data = JSON.parse(Buffer.from(value, 'base64url').toString()) as T;
+    return data.expiresAt > Date.now() ? data : null;
+  } catch {
+    return null;
+  }
+}
+
+function serializeCookie(name: string, value: string, maxAgeSeconds: number): string {
+  const secure = process.env.NODE_ENV === 'production' ? '; Secure' : '';
+  return `${name}=${value}; Path=/; HttpOnly; SameSite=Lax; Max-Age=${maxAgeSeconds}${secure}`;
+}
+
+function readCookie(req: any, name: string): string | undefined {
+  if (req.cookies) return req.cookies[name];
+  const header: string = req.headers?.cookie || '';
+  const match = header.split(/;\s*/).find(part => part.startsWith(`${name}=`));
+  return match ? decodeURIComponent(match.slice(name.length + 1)) : undefined;
+}
+
+function configuredSiteUrl(): URL | null {
+  if (!process.env.NEXT_PUBLIC_SITE_URL) return null;
+  try {
+    return new URL(process.env.NEXT_PUBLIC_SITE_URL);
+  } catch {
+    throw new Error(`NEXT_PUBLIC_SITE_URL is not a URL: ${process.env.NEXT_PUBLIC_SITE_URL}`);
+  }
+}
+
+function forwardedHeader(req: any, name: string): string {
+  if ((process.env.TRUST_PROXY || 'off').toLowerCase() !== 'on') return '';
+  return (req.headers[name] as string || '').split(',')[0].trim();
+}
+
+// Host the SIWE message must be bound to, as seen by the client
+function requestDomain(req: any): string {
+  return configuredSiteUrl()?.host || forwardedHeader(req, 'x-forwarded-host') || req.headers.host || '';
+}
+
+/**
+ * Origin of the site as seen by the client, for absolute links in responses
+ * that leave the browser (calendar files).
+ */
+export function requestOrigin(req: any): string {
+  const siteUrl = configuredSiteUrl();
+  if (siteUrl) return siteUrl.origin;
+  const proto = forwardedHeader(req, 'x-forwarded-proto')
+    || (process.env.NODE_ENV === 'production' ? 'https' : 'http');
+  return `${proto}://${requestDomain(req)}`;
+}
+
+/**
+ * Issue a nonce and set it as an HTTP-only cookie.
+ */
+export function issueNonce(res: any): string {
+  const nonce = generateSiweNonce();
+  res.setHeader('Set-Cookie', serializeCookie(
+    NONCE_COOKIE,
+    seal({ nonce, expiresAt: Date.now() + NONCE_SECONDS * 1000 }),
+    NONCE_SECONDS
+  ));
+  return nonce;
+}
+
+/**
+ * Verify a signed SIWE message against the request's nonce cookie and host,
+ * then start a session for the signing wallet. Returns the lowercased address.
+ */
+export async function verifySignIn(req: any, res: any, message: string, signature: `0x${string}`): Promise<string> {
+  const issued = unseal<{ nonce: string; expiresAt: number }>(readCookie(req, NONCE_COOKIE));
+  if (!issued) {
+    throw new Error('Sign-in nonce missing or expired; request a new one');
+  }
+
+  const parsed = parseSiweMessage(message);
+  if (!parsed.address) {
+    throw new Error('Sign-in message has no address');
+  }
+  if (!validateSiweMessage({ message: parsed, domain: requestDomain(req), nonce: issued.nonce })) {
+    throw new Error('Sign-in message does not match this site, nonce or time window');
+  }
+  if (!spendNonce(issued.nonce, issued.expiresAt)) {
+    throw new Error('Sign-in nonce already used; request a new one');
+  }
+  if (!await verifyMessage({ address: parsed.address, message, signature })) {
+    throw new Error('Invalid signature');
+  }
+
+  const address = parsed.address.toLowerCase();
+  startSession(res, address);
+  return address;
+}
+
+export function startSession(res: any, address: string) {
+  res.setHeader('Set-Cookie', [
+    serializeCookie(SESSION_COOKIE, seal({ address: address.toLowerCase(), expiresAt: Date.now() + SESSION_SECONDS * 1000 }), SESSION_SECONDS),
+    // The nonce is single-use
+    serializeCookie(NONCE_COOKIE, '', 0),
+  ]);
+}
+
+export function endSession(res: any) {
+  res.setHeader('Set-Cookie', serializeCookie(SESSION_COOKIE, '', 0));
+}
+
+/**
+ * Wallet of the signed-in user (lowercased), or null.
+ */
+export function getSessionWallet(req: any): string | null {
+  return unseal<{ address: string; expiresAt: number }>(readCookie(req, SESSION_COOKIE))?.address || null;
+}
+
+/**
+ * For mutating API routes: the signed-in wallet, or null after responding 401.
+ */
+export function requireSessionWallet(req: any, res: any): string | null {
+  const wallet = getSessionWallet(req);
+  if (!wallet) {
+    res.status(401).json({ ok: false, error: 'Sign in with your wallet first' });
+    return null;
+  }
+  return wallet;
+}
+
+/**
+ * Token for the wallet's calendar feed. Calendar apps can't sign in, so the
+ * feed URL carries an HMAC of the wallet instead; rotating AUTH_SECRET
+ * revokes every feed URL.
+ */
+export function calendarFeedToken(wallet: string): string {
+  return sign(`calendar-feed:${wallet.toLowerCase()}`);
+}
+
+export function verifyCalendarFeedToken(wallet: string, token: string | undefined): boolean {
+  if (!token) return false;
+  const expected = Buffer.from(calendarFeedToken(wallet));
+  const actual = Buffer.from(token);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
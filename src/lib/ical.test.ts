@@ -0,0 +1,87 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Session } from '../arkiv/sessions';
+import { buildCalendar, sessionEventUid } from './ical';
+
+function session(overrides: Partial<Session> = {}): Session {
+  return {
+    key: '0xabc',
+    mentorWallet: '0x' + '11'.repeat(20),
+    learnerWallet: '0x' + '22'.repeat(20),
+    skill: 'rust',
+    spaceId: 'local-dev',
+    createdAt: '2026-03-01T12:00:00.000Z',
+    sessionDate: '2026-03-02T10:00:00.000Z',
+    status: 'scheduled',
+    duration: 90,
+    revision: 1,
+    ...overrides,
+  };
+}
+
+// Content lines with folding undone
+function unfold(ics: string): string[] {
+  return ics.replace(/\r\n /g, '').split('\r\n');
+}
+
+// Values of every `name` property, in order
+function eventValues(ics: string, name: string): string[] {
+  return unfold(ics).filter(line => line.startsWith(`${name}:`)).map(line => line.slice(name.length + 1));
+}
+
+test('each session is an event keyed by its session', () => {
+  const ics = buildCalendar([
+    session(),
+    session({ key: '0xdef', status: 'pending', revision: 0 }),
+    session({ key: '0xbad', sessionDate: 'not a date' }),
+  ], { name: 'My sessions' });
+
+  assert.ok(ics.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n'));
+  assert.ok(ics.endsWith('END:VCALENDAR\r\n'));
+  assert.ok(!/[^\r]\n/.test(ics));
+  assert.deepEqual(eventValues(ics, 'X-WR-CALNAME'), ['My sessions']);
+  assert.deepEqual(eventValues(ics, 'UID'), [sessionEventUid('0xabc'), sessionEventUid('0xdef')]);
+  assert.deepEqual(eventValues(ics, 'DTSTART'), ['20260302T100000Z', '20260302T100000Z']);
+  assert.deepEqual(eventValues(ics, 'DTEND'), ['20260302T113000Z', '20260302T113000Z']);
+  assert.deepEqual(eventValues(ics, 'STATUS'), ['CONFIRMED', 'TENTATIVE']);
+  assert.deepEqual(eventValues(ics, 'SEQUENCE'), ['1', '0']);
+  assert.deepEqual(eventValues(ics, 'CREATED'), ['20260301T120000Z', '20260301T120000Z']);
+});
+
+test('a cancelled session keeps its UID with a higher sequence', () => {
+  const cancelled = buildCalendar([session({
+    status: 'cancelled',
+    revision: 3,
+    cancellation: { cancelledBy: '0x' + '22'.repeat(20), reason: 'Sick', cancelledAt: '2026-03-01T20:00:00.000Z', late: true },
+  })]);
+  assert.deepEqual(eventValues(cancelled, 'UID'), [sessionEventUid('0xabc')]);
+  assert.deepEqual(eventValues(cancelled, 'STATUS'), ['CANCELLED']);
+  assert.deepEqual(eventValues(cancelled, 'SEQUENCE'), ['3']);
+  assert.match(eventValues(cancelled, 'DESCRIPTION')[0], /Cancelled by 0x2{40}: Sick/);
+});
+
+test('text values are escaped', () => {
+  const ics = buildCalendar([session({ skill: 'C; C++, C#', notes: 'Bring C:\\src\nand questions' })]);
+  assert.deepEqual(eventValues(ics, 'SUMMARY'), ['Mentorship: C\\; C++\\, C#']);
+  assert.ok(eventValues(ics, 'DESCRIPTION')[0].endsWith('\\nNotes: Bring C:\\\\src\\nand questions'));
+});
+
+test('long lines are folded at 75 octets without splitting characters', () => {
+  const notes = 'Grüße aus Köln — '.repeat(20);
+  const ics = buildCalendar([session({ notes })]);
+
+  const lines = ics.split('\r\n');
+  assert.ok(lines.every(line => Buffer.byteLength(line) <= 75));
+  assert.ok(lines.some(line => line.startsWith(' ')));
+  assert.ok(!ics.includes('\uFFFD'));
+  assert.ok(eventValues(ics, 'DESCRIPTION')[0].endsWith(`Notes: ${notes}`));
+});
+
+test('only sessions with a meeting link to it', () => {
+  const joinUrl = (s: Session) => `https://mentor.test/sessions/${s.key}`;
+  const ics = buildCalendar([session({ videoProvider: 'jitsi' }), session({ key: '0xdef' })], { joinUrl });
+
+  assert.deepEqual(eventValues(ics, 'URL'), ['https://mentor.test/sessions/0xabc']);
+  assert.deepEqual(eventValues(ics, 'LOCATION'), ['https://mentor.test/sessions/0xabc']);
+  assert.equal(eventValues(ics, 'DESCRIPTION').filter(description => description.includes('Join:')).length, 1);
+});
@@ -0,0 +1,117 @@
+import type { Session } from '../arkiv/sessions';
+
+/**
+ * iCalendar (RFC 5545) rendering of sessions, for `.ics` downloads and the
+ * per-wallet calendar feed.
+ *
+ * Each session is one event whose UID is derived from the session key, so
+ * calendar apps update the existing event when a session is rescheduled or
+ * cancelled instead of adding a new one.
+ *
+ * Meeting rooms are private, so events never carry them; they link to the
+ * session page instead, which only lets session participants in.
+ */
+
+const PRODUCT_ID = '-//Mentor Graph//Sessions//EN';
+const UID_DOMAIN = 'mentor-graph';
+
+// Text values escape backslashes, separators and newlines
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Lines longer than 75 octets are folded onto continuation lines starting with a space
+function foldLine(line: string): string {
+  const chunks: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (Buffer.byteLength(current + char) > limit) {
+      chunks.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  chunks.push(current);
+  return chunks.join('\r\n ');
+}
+
+function formatDateTime(value: string | number): string {
+  return new Date(value).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function eventStatus(session: Session): 'TENTATIVE' | 'CONFIRMED' | 'CANCELLED' {
+  if (session.status === 'cancelled') return 'CANCELLED';
+  if (session.status === 'pending') return 'TENTATIVE';
+  return 'CONFIRMED';
+}
+
+// Grows with each visible change (confirmed, moved, cancelled) so clients take the newer copy
+function eventSequence(session: Session): number {
+  return session.revision || 0;
+}
+
+export function sessionEventUid(sessionKey: string): string {
+  return `${sessionKey}@${UID_DOMAIN}`;
+}
+
+function buildEvent(session: Session, now: number, joinUrl?: (session: Session) => string): string[] {
+  const meetingUrl = session.videoProvider && joinUrl ? joinUrl(session) : undefined;
+  const start = new Date(session.sessionDate).getTime();
+  const end = start + (session.duration || 60) * 60 * 1000;
+
+  const description = [
+    `Skill: ${session.skill || 'Session'}`,
+    `Mentor: ${session.mentorWallet}`,
+    `Learner: ${session.learnerWallet}`,
+    `Status: ${session.status}`,
+    meetingUrl && `Join: ${meetingUrl}`,
+    session.originalSessionDate && `Moved from: ${new Date(session.originalSessionDate).toISOString()}`,
+    session.cancellation && `Cancelled by ${session.cancellation.cancelledBy}: ${session.cancellation.reason}`,
+    session.declinedBy && `Declined by ${session.declinedBy}`,
+    session.notes && `Notes: ${session.notes}`,
+  ].filter(Boolean).join('\n');
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${sessionEventUid(session.key)}`,
+    `DTSTAMP:${formatDateTime(now)}`,
+    `DTSTART:${formatDateTime(start)}`,
+    `DTEND:${formatDateTime(end)}`,
+    `SEQUENCE:${eventSequence(session)}`,
+    `STATUS:${eventStatus(session)}`,
+    `SUMMARY:${escapeText(`Mentorship: ${session.skill || 'Session'}`)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    ...(meetingUrl ? [`LOCATION:${escapeText(meetingUrl)}`, `URL:${meetingUrl}`] : []),
+    ...(session.createdAt ? [`CREATED:${formatDateTime(session.createdAt)}`] : []),
+    'END:VEVENT',
+  ];
+}
+
+/**
+ * A VCALENDAR holding one event per session, with CRLF line endings.
+ * `joinUrl` gives the link to a session's meeting, for sessions that have one.
+ */
+export function buildCalendar(
+  sessions: Session[],
+  { name, joinUrl }: { name?: string; joinUrl?: (session: Session) => string } = {}
+): string {
+  const now = Date.now();
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    ...(name ? [`X-WR-CALNAME:${escapeText(name)}`] : []),
+    ...sessions
+      .filter(session => session.sessionDate && !isNaN(new Date(session.sessionDate).getTime()))
+      .flatMap(session => buildEvent(session, now, joinUrl)),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,82 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseBusyBlocks } from './icalImport';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const FROM = Date.UTC(2026, 9, 19);
+const TO = FROM + 14 * DAY_MS;
+
+function calendar(events: string[]): string {
+  return ['BEGIN:VCALENDAR', 'VERSION:2.0', ...events, 'END:VCALENDAR'].join('\r\n');
+}
+
+function event(uid: string, lines: string[]): string {
+  return ['BEGIN:VEVENT', `UID:${uid}`, ...lines, 'END:VEVENT'].join('\r\n');
+}
+
+test('a daily rule that started decades ago still yields busy time in the window', () => {
+  const { blocks } = parseBusyBlocks(calendar([
+    event('old', ['DTSTART;TZID=Europe/Berlin:19500102T090000', 'DTEND;TZID=Europe/Berlin:19500102T100000', 'RRULE:FREQ=DAILY']),
+  ]), { from: FROM, to: TO, timezone: 'UTC' });
+
+  assert.equal(blocks.length, 14);
+  // 09:00 in Berlin is 07:00 UTC in summer time, 08:00 once it ends on 25 October
+  assert.equal(blocks[0].start, '2026-10-19T07:00:00.000Z');
+  assert.equal(blocks[13].start, '2026-11-01T08:00:00.000Z');
+});
+
+test('old weekly, monthly and yearly rules are expanded from the window', () => {
+  const { blocks } = parseBusyBlocks(calendar([
+    event('weekly', ['DTSTART:19600104T120000Z', 'DURATION:PT1H', 'RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE']),
+    event('monthly', ['DTSTART:19600125T150000Z', 'DURATION:PT1H', 'RRULE:FREQ=MONTHLY;BYDAY=-1SU']),
+    event('yearly', ['DTSTART:19601030T180000Z', 'DURATION:PT1H', 'RRULE:FREQ=YEARLY']),
+  ]), { from: FROM, to: TO, timezone: 'UTC' });
+
+  const starts = blocks.map(block => block.start);
+  // 1960-01-04 was a Monday; every other week from it
+  assert.ok(starts.includes('2026-10-26T12:00:00.000Z'));
+  assert.ok(starts.includes('2026-10-28T12:00:00.000Z'));
+  assert.ok(!starts.includes('2026-10-19T12:00:00.000Z'));
+  assert.ok(starts.includes('2026-10-25T15:00:00.000Z'));
+  assert.ok(starts.includes('2026-10-30T18:00:00.000Z'));
+});
+
+test('UNTIL and COUNT still end old rules', () => {
+  const { blocks } = parseBusyBlocks(calendar([
+    event('until', ['DTSTART:20150101T090000Z', 'DURATION:PT1H', 'RRULE:FREQ=DAILY;UNTIL=20261022T235959Z']),
+    event('count', ['DTSTART:20150101T120000Z', 'DURATION:PT1H', 'RRULE:FREQ=DAILY;COUNT=10']),
+  ]), { from: FROM, to: TO, timezone: 'UTC' });
+
+  assert.deepEqual(blocks.map(block => block.start), [
+    '2026-10-19T09:00:00.000Z',
+    '2026-10-20T09:00:00.000Z',
+    '2026-10-21T09:00:00.000Z',
+    '2026-10-22T09:00:00.000Z',
+  ]);
+});
+
+test('many long-running zoned rules with UNTIL import quickly', () => {
+  const events = Array.from({ length: 50 }, (_, i) => event(`e${i}`, [
+    `DTSTART;TZID=America/New_York:2015010${1 + (i % 9)}T0${i % 10}0000`,
+    'DURATION:PT30M',
+    'RRULE:FREQ=DAILY;UNTIL=20301231T000000Z',
+  ]));
+
+  const started = Date.now();
+  const { blocks } = parseBusyBlocks(calendar(events), { from: FROM, to: TO, timezone: 'UTC' });
+  assert.ok(blocks.length > 0);
+  assert.ok(Date.now() - started < 2000, `took ${Date.now() - started} ms`);
+});
+
+test('a file with more busy times than any real calendar is rejected', () => {
+  const events = Array.from({ length: 5000 }, (_, i) => event(`e${i}`, [
+    'DTSTART:20260101T000000Z',
+    'DURATION:PT1M',
+    'RRULE:FREQ=DAILY',
+  ]));
+
+  assert.throws(
+    () => parseBusyBlocks(calendar(events), { from: FROM, to: TO, timezone: 'UTC' }),
+    /too many busy times/
+  );
+});
@@ -0,0 +1,488 @@
+import { isValidTimezone, zonedTimeToUtc } from '../arkiv/availability';
+import type { BusyBlock } from '../arkiv/availability';
+
+/**
+ * Busy time from an iCalendar (RFC 5545) file.
+ *
+ * Opaque, non-cancelled VEVENTs (with RRULE, RDATE, EXDATE and overridden
+ * instances) and BUSY periods of VFREEBUSY components become busy blocks
+ * between `from` and `to`, merged and in UTC. Times with a TZID use the IANA
+ * zone of that name, or else the file's VTIMEZONE definition; floating times
+ * and all-day events are read in `timezone`. Only start and end times are
+ * kept, never titles or attendees.
+ */
+
+type Property = { name: string; params: Record<string, string>; value: string };
+type Component = { name: string; properties: Property[]; components: Component[] };
+
+// Wall-clock time read as if it were UTC, to UTC
+type Zone = (localMs: number) => number;
+
+type Frequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+type RecurrenceRule = {
+  freq: Frequency;
+  interval: number;
+  count?: number;
+  until?: number; // UTC
+  byDay?: { weekday: number; ordinal?: number }[];
+  byMonthDay?: number[];
+  byMonth?: number[]; // 1-12
+  bySetPos?: number[];
+  weekStart: number;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Recurrence periods walked per rule from the import window on
+const MAX_PERIODS = 20000;
+// Busy times read from one file before merging; more than any real calendar has in the window
+const MAX_OCCURRENCES = 50000;
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const UTC_ZONE: Zone = localMs => localMs;
+
+function splitOutsideQuotes(value: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (const char of value) {
+    if (char === '"') quoted = !quoted;
+    if (char === separator && !quoted) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+function parseProperty(line: string): Property | null {
+  // The value starts after the first colon that isn't inside a quoted parameter
+  let quoted = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') quoted = !quoted;
+    if (line[i] === ':' && !quoted) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon < 0) return null;
+
+  const [name, ...rawParams] = splitOutsideQuotes(line.slice(0, colon), ';');
+  const params: Record<string, string> = {};
+  rawParams.forEach(param => {
+    const eq = param.indexOf('=');
+    if (eq > 0) params[param.slice(0, eq).toUpperCase()] = param.slice(eq + 1).replace(/^"|"$/g, '');
+  });
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+function parseComponents(ics: string): Component {
+  const root: Component = { name: 'ROOT', properties: [], components: [] };
+  const stack = [root];
+  // Folded lines continue on lines starting with a space or tab
+  const lines = ics.replace(/\r\n?/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+
+  for (const line of lines) {
+    if (!line.trim()) continue;
+    const property = parseProperty(line);
+    if (!property) continue;
+    const current = stack[stack.length - 1];
+    if (property.name === 'BEGIN') {
+      const component: Component = { name: property.value.trim().toUpperCase(), properties: [], components: [] };
+      current.components.push(component);
+      stack.push(component);
+    } else if (property.name === 'END') {
+      if (stack.length > 1) stack.pop();
+    } else {
+      current.properties.push(property);
+    }
+  }
+  return root;
+}
+
+function findAll(component: Component, name: string): Component[] {
+  return component.components.flatMap(child => [
+    ...(child.name === name ? [child] : []),
+    ...findAll(child, name),
+  ]);
+}
+
+function getProperty(component: Component, name: string): Property | undefined {
+  return component.properties.find(p => p.name === name);
+}
+
+function getProperties(component: Component, name: string): Property[] {
+  return component.properties.filter(p => p.name === name);
+}
+
+// DATE (YYYYMMDD) or DATE-TIME (YYYYMMDDTHHMMSS[Z]) as wall-clock ms
+function parseDateTime(value: string): { localMs: number; utc: boolean; dateOnly: boolean } | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value.trim());
+  if (!match) return null;
+  const [, year, month, day, hours, minutes, seconds, utc] = match;
+  return {
+    localMs: Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hours || 0), Number(minutes || 0), Number(seconds || 0)),
+    utc: Boolean(utc),
+    dateOnly: hours === undefined,
+  };
+}
+
+// Nominal length of a DURATION value, e.g. PT1H30M or P1D
+function parseDuration(value: string): number | null {
+  const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+  if (!match) return null;
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const ms = ((Number(weeks || 0) * 7 + Number(days || 0)) * 24 * 3600
+    + Number(hours || 0) * 3600 + Number(minutes || 0) * 60 + Number(seconds || 0)) * 1000;
+  return sign === '-' ? -ms : ms;
+}
+
+// UTC offset such as +0100 or -0530, in ms
+function parseOffset(value: string): number {
+  const match = /^([+-])(\d{2})(\d{2})(\d{2})?$/.exec(value.trim());
+  if (!match) return 0;
+  const ms = (Number(match[2]) * 3600 + Number(match[3]) * 60 + Number(match[4] || 0)) * 1000;
+  return match[1] === '-' ? -ms : ms;
+}
+
+function ianaZone(timezone: string): Zone {
+  return cachePerDay(localMs => {
+    const iso = new Date(localMs).toISOString();
+    // zonedTimeToUtc works in minutes; keep any seconds
+    return zonedTimeToUtc(iso.slice(0, 10), iso.slice(11, 16), timezone) + (localMs % 60000);
+  });
+}
+
+// Zones are read once per occurrence, but their offset only changes on
+// transition days: keep each day's offset, and work out transition days exactly
+function cachePerDay(zone: Zone): Zone {
+  const offsets = new Map<number, number | null>();
+  return localMs => {
+    const dayStart = Math.floor(localMs / DAY_MS) * DAY_MS;
+    let offset = offsets.get(dayStart);
+    if (offset === undefined) {
+      const dayEnd = dayStart + DAY_MS - 1;
+      const atStart = dayStart - zone(dayStart);
+      offset = atStart === dayEnd - zone(dayEnd) ? atStart : null;
+      offsets.set(dayStart, offset);
+    }
+    return offset === null ? zone(localMs) : localMs - offset;
+  };
+}
+
+function parseRule(value: string, zone: Zone): RecurrenceRule | null {
+  const parts: Record<string, string> = {};
+  value.split(';').forEach(part => {
+    const [key, val] = part.split('=');
+    if (key && val !== undefined) parts[key.toUpperCase()] = val.toUpperCase();
+  });
+  if (!['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(parts.FREQ)) return null;
+  if (parts.BYYEARDAY || parts.BYWEEKNO || parts.BYHOUR || parts.BYMINUTE || parts.BYSECOND) return null;
+
+  const numbers = (list?: string) => list ? list.split(',').map(Number).filter(n => Number.isInteger(n) && n !== 0) : undefined;
+  const until = parts.UNTIL ? parseDateTime(parts.UNTIL) : null;
+  const byDay = parts.BYDAY?.split(',').map(day => {
+    const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(day);
+    return match ? { weekday: WEEKDAYS.indexOf(match[2]), ordinal: match[1] ? Number(match[1]) : undefined } : null;
+  });
+  if (byDay?.some(day => !day)) return null;
+
+  return {
+    freq: parts.FREQ as Frequency,
+    interval: Math.max(1, Number(parts.INTERVAL) || 1),
+    count: parts.COUNT ? Number(parts.COUNT) : undefined,
+    until: until ? (until.utc ? until.localMs : zone(until.localMs + (until.dateOnly ? DAY_MS - 1 : 0))) : undefined,
+    byDay: byDay as { weekday: number; ordinal?: number }[] | undefined,
+    byMonthDay: numbers(parts.BYMONTHDAY),
+    byMonth: numbers(parts.BYMONTH),
+    bySetPos: numbers(parts.BYSETPOS),
+    weekStart: parts.WKST ? Math.max(0, WEEKDAYS.indexOf(parts.WKST)) : 1,
+  };
+}
+
+function matchesByDay(day: number, rule: RecurrenceRule): boolean {
+  return !rule.byDay || rule.byDay.some(d => d.weekday === new Date(day).getUTCDay());
+}
+
+function matchesByMonth(day: number, rule: RecurrenceRule): boolean {
+  return !rule.byMonth || rule.byMonth.includes(new Date(day).getUTCMonth() + 1);
+}
+
+// Days (midnight, wall-clock ms) of one month matching the rule's BYMONTHDAY and BYDAY
+function monthDays(year: number, month: number, rule: RecurrenceRule, defaultDay: number): number[] {
+  const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  const dayOf = (date: number) => Date.UTC(year, month, date);
+  let dates: number[];
+
+  if (rule.byDay) {
+    dates = [];
+    for (let date = 1; date <= daysInMonth; date++) {
+      const weekday = new Date(dayOf(date)).getUTCDay();
+      const fromStart = Math.floor((date - 1) / 7) + 1;
+      const fromEnd = -(Math.floor((daysInMonth - date) / 7) + 1);
+      if (rule.byDay.some(d => d.weekday === weekday && (d.ordinal === undefined || d.ordinal === fromStart || d.ordinal === fromEnd))) {
+        dates.push(date);
+      }
+    }
+    if (rule.byMonthDay) {
+      const byMonthDay = rule.byMonthDay.map(d => (d < 0 ? daysInMonth + 1 + d : d));
+      dates = dates.filter(date => byMonthDay.includes(date));
+    }
+  } else if (rule.byMonthDay) {
+    dates = rule.byMonthDay.map(d => (d < 0 ? daysInMonth + 1 + d : d)).filter(d => d >= 1 && d <= daysInMonth);
+  } else {
+    // A rule starting on the 31st skips shorter months
+    dates = defaultDay <= daysInMonth ? [defaultDay] : [];
+  }
+  return Array.from(new Set(dates)).sort((a, b) => a - b).map(dayOf);
+}
+
+// Days of the `period`-th recurrence period, sorted
+function periodDays(period: number, startDay: number, rule: RecurrenceRule): number[] {
+  const start = new Date(startDay);
+  let days: number[];
+
+  if (rule.freq === 'DAILY') {
+    const day = startDay + period * rule.interval * DAY_MS;
+    const date = new Date(day).getUTCDate();
+    const daysInMonth = new Date(Date.UTC(new Date(day).getUTCFullYear(), new Date(day).getUTCMonth() + 1, 0)).getUTCDate();
+    const matchesMonthDay = !rule.byMonthDay || rule.byMonthDay.some(d => (d < 0 ? daysInMonth + 1 + d : d) === date);
+    days = matchesByDay(day, rule) && matchesMonthDay ? [day] : [];
+  } else if (rule.freq === 'WEEKLY') {
+    const weekStart = startDay - ((start.getUTCDay() - rule.weekStart + 7) % 7) * DAY_MS + period * rule.interval * 7 * DAY_MS;
+    const weekdays = rule.byDay ? rule.byDay.map(d => d.weekday) : [start.getUTCDay()];
+    days = Array.from({ length: 7 }, (_, i) => weekStart + i * DAY_MS)
+      .filter(day => weekdays.includes(new Date(day).getUTCDay()));
+  } else if (rule.freq === 'MONTHLY') {
+    const month = start.getUTCMonth() + period * rule.interval;
+    days = monthDays(start.getUTCFullYear() + Math.floor(month / 12), month % 12, rule, start.getUTCDate());
+  } else {
+    const year = start.getUTCFullYear() + period * rule.interval;
+    const months = rule.byMonth ? rule.byMonth.map(m => m - 1) : [start.getUTCMonth()];
+    days = months.sort((a, b) => a - b).flatMap(month => monthDays(year, month, rule, start.getUTCDate()));
+  }
+
+  days = days.filter(day => matchesByMonth(day, rule));
+  if (rule.bySetPos) {
+    const positions = rule.bySetPos.map(pos => (pos < 0 ? days.length + pos : pos - 1));
+    days = days.filter((_, i) => positions.includes(i));
+  }
+  return days;
+}
+
+// The last period starting before `fromDay`, so walking from it skips nothing at or after `fromDay`
+function firstPeriod(startDay: number, rule: RecurrenceRule, fromDay: number): number {
+  if (fromDay <= startDay) return 0;
+  const start = new Date(startDay);
+  const from = new Date(fromDay);
+  const elapsed = rule.freq === 'DAILY' ? (fromDay - startDay) / DAY_MS
+    : rule.freq === 'WEEKLY' ? (fromDay - startDay) / (7 * DAY_MS)
+      : rule.freq === 'MONTHLY' ? (from.getUTCFullYear() - start.getUTCFullYear()) * 12 + from.getUTCMonth() - start.getUTCMonth()
+        : from.getUTCFullYear() - start.getUTCFullYear();
+  return Math.max(0, Math.floor(elapsed / rule.interval) - 1);
+}
+
+/**
+ * Occurrence starts (wall-clock ms) of a rule from `startLocal` up to `untilLocal`;
+ * the start itself is always the first occurrence. Without COUNT, which needs
+ * every occurrence counted, periods ending before `fromLocal` are skipped.
+ */
+function expandRule(startLocal: number, rule: RecurrenceRule, zone: Zone, untilLocal: number, fromLocal = -Infinity): number[] {
+  const timeOfDay = ((startLocal % DAY_MS) + DAY_MS) % DAY_MS;
+  const startDay = startLocal - timeOfDay;
+  const occurrences = [startLocal];
+  const first = rule.count === undefined && isFinite(fromLocal) ? firstPeriod(startDay, rule, fromLocal - DAY_MS) : 0;
+
+  for (let period = first; period < first + MAX_PERIODS; period++) {
+    for (const day of periodDays(period, startDay, rule)) {
+      const occurrence = day + timeOfDay;
+      if (occurrence <= startLocal) continue;
+      if (occurrence > untilLocal) return occurrences;
+      if (rule.until !== undefined && zone(occurrence) > rule.until) return occurrences;
+      if (rule.count !== undefined && occurrences.length >= rule.count) return occurrences;
+      occurrences.push(occurrence);
+    }
+  }
+  return occurrences;
+}
+
+// A VTIMEZONE as a zone: the offset in force is that of the latest transition before the time
+function vtimezoneZone(component: Component): Zone | null {
+  const observances = component.components
+    .filter(child => child.name === 'STANDARD' || child.name === 'DAYLIGHT')
+    .map(child => {
+      const start = parseDateTime(getProperty(child, 'DTSTART')?.value || '');
+      const rrule = getProperty(child, 'RRULE');
+      return {
+        startLocal: start?.localMs,
+        offsetTo: parseOffset(getProperty(child, 'TZOFFSETTO')?.value || ''),
+        rule: rrule ? parseRule(rrule.value, UTC_ZONE) : null,
+        rdates: getProperties(child, 'RDATE').flatMap(p => p.value.split(',')).map(v => parseDateTime(v)?.localMs)
+          .filter((ms): ms is number => ms !== undefined),
+      };
+    })
+    .filter((o): o is typeof o & { startLocal: number } => o.startLocal !== undefined);
+  if (observances.length === 0) return null;
+
+  return cachePerDay(localMs => {
+    let latest = { onset: -Infinity, offsetTo: observances[0].offsetTo };
+    observances.forEach(observance => {
+      const onsets = [
+        ...(observance.rule ? expandRule(observance.startLocal, observance.rule, UTC_ZONE, localMs) : [observance.startLocal]),
+        ...observance.rdates,
+      ];
+      onsets.filter(onset => onset <= localMs).forEach(onset => {
+        if (onset > latest.onset) latest = { onset, offsetTo: observance.offsetTo };
+      });
+    });
+    return localMs - latest.offsetTo;
+  });
+}
+
+type Interval = [number, number];
+
+/**
+ * Busy blocks between `from` and `to` (UTC ms) from the text of an `.ics`
+ * file, plus how many events were skipped because their recurrence or dates
+ * couldn't be read.
+ */
+export function parseBusyBlocks(ics: string, { from, to, timezone }: {
+  from: number;
+  to: number;
+  timezone: string; // IANA; for floating times and all-day events
+}): { blocks: BusyBlock[]; skipped: number } {
+  const root = parseComponents(ics);
+  if (!findAll(root, 'VCALENDAR').length) {
+    throw new Error('Not an iCalendar file');
+  }
+
+  const defaultZone = isValidTimezone(timezone) ? ianaZone(timezone) : UTC_ZONE;
+  const vtimezones = new Map<string, Zone>();
+  findAll(root, 'VTIMEZONE').forEach(component => {
+    const tzid = getProperty(component, 'TZID')?.value;
+    const zone = tzid && vtimezoneZone(component);
+    if (tzid && zone) vtimezones.set(tzid, zone);
+  });
+  // One zone per TZID, so times in the same zone can be compared by zone
+  const zones = new Map<string, Zone>();
+  const zoneFor = (tzid?: string): Zone => {
+    if (!tzid) return defaultZone;
+    if (!zones.has(tzid)) {
+      zones.set(tzid, isValidTimezone(tzid) ? ianaZone(tzid) : vtimezones.get(tzid) || defaultZone);
+    }
+    return zones.get(tzid)!;
+  };
+  // A DATE or DATE-TIME property as UTC ms, with the zone its wall-clock time is in
+  const readTime = (property?: Property) => {
+    const parsed = property && parseDateTime(property.value);
+    if (!parsed) return null;
+    const zone = parsed.utc ? UTC_ZONE : parsed.dateOnly ? defaultZone : zoneFor(property.params.TZID);
+    return { ...parsed, zone, utcMs: zone(parsed.localMs) };
+  };
+
+  const intervals: Interval[] = [];
+  let skipped = 0;
+
+  const events = findAll(root, 'VEVENT').filter(event =>
+    (getProperty(event, 'STATUS')?.value || '').toUpperCase() !== 'CANCELLED'
+    && (getProperty(event, 'TRANSP')?.value || '').toUpperCase() !== 'TRANSPARENT');
+
+  // Instances moved or changed by a RECURRENCE-ID override replace the master's
+  const overridden = new Map<string, Set<number>>();
+  findAll(root, 'VEVENT').forEach(event => {
+    const uid = getProperty(event, 'UID')?.value || '';
+    const recurrenceId = readTime(getProperty(event, 'RECURRENCE-ID'));
+    if (!uid || !recurrenceId) return;
+    if (!overridden.has(uid)) overridden.set(uid, new Set());
+    overridden.get(uid)!.add(recurrenceId.utcMs);
+  });
+
+  events.forEach(event => {
+    const start = readTime(getProperty(event, 'DTSTART'));
+    if (!start) {
+      skipped++;
+      return;
+    }
+    const end = readTime(getProperty(event, 'DTEND'));
+    const duration = parseDuration(getProperty(event, 'DURATION')?.value || '');
+    // Lengths within one zone are wall-clock, so an all-day event covers its local day across DST changes
+    const endOf: (occurrenceLocal: number) => number =
+      end && end.zone === start.zone ? occurrenceLocal => start.zone(occurrenceLocal + end.localMs - start.localMs)
+        : end ? occurrenceLocal => start.zone(occurrenceLocal) + end.utcMs - start.utcMs
+          : duration !== null ? occurrenceLocal => start.zone(occurrenceLocal + duration)
+            : occurrenceLocal => start.zone(occurrenceLocal + (start.dateOnly ? DAY_MS : 0));
+    const span = endOf(start.localMs) - start.utcMs;
+    if (span <= 0) return;
+
+    let occurrences = [start.localMs];
+    const rrule = getProperty(event, 'RRULE');
+    const isOverride = Boolean(getProperty(event, 'RECURRENCE-ID'));
+    if (rrule && !isOverride) {
+      const rule = parseRule(rrule.value, start.zone);
+      if (!rule) {
+        skipped++;
+        return;
+      }
+      // Wall-clock window with a day of margin for the zone's offset, and room for the event's length
+      occurrences = expandRule(start.localMs, rule, start.zone, to + DAY_MS, from - span - DAY_MS);
+    }
+    getProperties(event, 'RDATE')
+      .filter(p => (p.params.VALUE || '').toUpperCase() !== 'PERIOD')
+      .forEach(p => p.value.split(',').forEach(value => {
+        const rdate = readTime({ ...p, value });
+        if (rdate) occurrences.push(rdate.zone === start.zone ? rdate.localMs : rdate.localMs + start.utcMs - start.localMs);
+      }));
+
+    const excluded = new Set<number>([
+      ...getProperties(event, 'EXDATE').flatMap(p => p.value.split(',').map(value => readTime({ ...p, value })?.utcMs)),
+      ...(isOverride ? [] : Array.from(overridden.get(getProperty(event, 'UID')?.value || '') || [])),
+    ].filter((ms): ms is number => ms !== undefined));
+
+    occurrences.filter(occurrenceLocal => occurrenceLocal + span + DAY_MS >= from).forEach(occurrenceLocal => {
+      const startUtc = start.zone(occurrenceLocal);
+      if (excluded.has(startUtc)) return;
+      intervals.push([startUtc, endOf(occurrenceLocal)]);
+    });
+    if (intervals.length > MAX_OCCURRENCES) {
+      throw new Error('This calendar has too many busy times to import');
+    }
+  });
+
+  findAll(root, 'VFREEBUSY').forEach(freeBusy => {
+    getProperties(freeBusy, 'FREEBUSY')
+      .filter(p => (p.params.FBTYPE || 'BUSY').toUpperCase() !== 'FREE')
+      .forEach(p => p.value.split(',').forEach(period => {
+        const [startValue, endValue] = period.split('/');
+        const start = readTime({ ...p, value: startValue });
+        if (!start || !endValue) {
+          skipped++;
+          return;
+        }
+        const duration = parseDuration(endValue);
+        const end = duration !== null ? start.utcMs + duration : readTime({ ...p, value: endValue })?.utcMs;
+        if (end !== undefined) intervals.push([start.utcMs, end]);
+      }));
+  });
+
+  const merged: Interval[] = [];
+  intervals
+    .map(([start, end]): Interval => [Math.max(start, from), Math.min(end, to)])
+    .filter(([start, end]) => end > start)
+    .sort((a, b) => a[0] - b[0])
+    .forEach(([start, end]) => {
+      const last = merged[merged.length - 1];
+      if (last && start <= last[1]) {
+        last[1] = Math.max(last[1], end);
+      } else {
+        merged.push([start, end]);
+      }
+    });
+
+  return {
+    blocks: merged.map(([start, end]) => ({ start: new Date(start).toISOString(), end: new Date(end).toISOString() })),
+    skipped,
+  };
+}
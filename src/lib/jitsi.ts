@@ -1,22 +1,30 @@
 import crypto from 'crypto';
+import { VIDEO_ROOM_SECRET } from '../config';
 
 export type VideoProvider = 'jitsi' | 'none' | 'custom';
 
+function getRoomSecret(): string {
+  if (VIDEO_ROOM_SECRET) return VIDEO_ROOM_SECRET;
+  // Without VIDEO_ROOM_SECRET, derive one from the server key so rooms stay the same across restarts
+  if (process.env.ARKIV_PRIVATE_KEY) {
+    return crypto.createHash('sha256').update(`mentor-graph-rooms:${process.env.ARKIV_PRIVATE_KEY}`).digest('hex');
+  }
+  throw new Error('VIDEO_ROOM_SECRET or ARKIV_PRIVATE_KEY is required to name meeting rooms');
+}
+
 /**
- * Generate a stable but opaque room name for a session
- * Format: mg-{sessionKey}-{hash}
+ * Room name for a session: an HMAC of the session key under the server's
+ * room secret, so it can't be derived from anything public.
+ * Format: mg-{32 hex chars}
  */
 export function buildJitsiRoomName(sessionKey: string): string {
-  const prefix = 'mg';
-  
-  // Hash the session key to avoid predictable patterns
   const hash = crypto
-    .createHash('sha256')
-    .update(sessionKey)
+    .createHmac('sha256', getRoomSecret())
+    .update(sessionKey.toLowerCase())
     .digest('hex')
-    .slice(0, 16); // 16 hex chars = 64 bits
-  
-  return `${prefix}-${sessionKey}-${hash}`;
+    .slice(0, 32); // 128 bits
+
+  return `mg-${hash}`;
 }
 
 /**
@@ -29,21 +37,42 @@ export function buildJitsiUrlFromRoomName(roomName: string, baseUrl?: string): s
   return `${cleanBase}/${encodeURIComponent(roomName)}`;
 }
 
+function base64UrlJson(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
 /**
- * Generate Jitsi room name and URL for a session
+ * HS256 JWT for a self-hosted Jitsi with token authentication (prosody
+ * `token` auth with `app_id`/`app_secret`): valid for one room, one
+ * participant and `notBefore`..`expiresAt` only.
  */
-export function generateJitsiMeeting(sessionKey: string, baseUrl?: string): {
-  videoProvider: VideoProvider;
-  videoRoomName: string;
-  videoJoinUrl: string;
-} {
-  const roomName = buildJitsiRoomName(sessionKey);
-  const joinUrl = buildJitsiUrlFromRoomName(roomName, baseUrl);
-  
-  return {
-    videoProvider: 'jitsi',
-    videoRoomName: roomName,
-    videoJoinUrl: joinUrl,
-  };
+export function signJitsiJwt({
+  appId,
+  appSecret,
+  baseUrl,
+  roomName,
+  user,
+  notBefore,
+  expiresAt,
+}: {
+  appId: string;
+  appSecret: string;
+  baseUrl: string;
+  roomName: string;
+  user: { id: string; name: string; affiliation?: 'owner' | 'member' };
+  notBefore: Date;
+  expiresAt: Date;
+}): string {
+  const header = base64UrlJson({ alg: 'HS256', typ: 'JWT' });
+  const payload = base64UrlJson({
+    aud: 'jitsi',
+    iss: appId,
+    sub: new URL(baseUrl).hostname,
+    room: roomName,
+    nbf: Math.floor(notBefore.getTime() / 1000),
+    exp: Math.floor(expiresAt.getTime() / 1000),
+    context: { user },
+  });
+  const signature = crypto.createHmac('sha256', appSecret).update(`${header}.${payload}`).digest('base64url');
+  return `${header}.${payload}.${signature}`;
 }
-
@@ -0,0 +1,21 @@
+/**
+ * When a session's meeting can be joined. Shared by the join endpoint and the
+ * pages that show Join buttons, so it must not import server-only modules.
+ */
+
+export const JOIN_EARLY_MINUTES = 15;
+export const JOIN_LATE_MINUTES = 30;
+
+export function joinWindow({ sessionDate, duration }: { sessionDate: string; duration?: number }): { opensAt: Date; closesAt: Date } {
+  const start = new Date(sessionDate).getTime();
+  return {
+    opensAt: new Date(start - JOIN_EARLY_MINUTES * 60 * 1000),
+    closesAt: new Date(start + ((duration || 60) + JOIN_LATE_MINUTES) * 60 * 1000),
+  };
+}
+
+// Where participants go to join: the session page, which embeds the call.
+// The room itself is never handed out ahead of time
+export function joinPath(sessionKey: string): string {
+  return `/sessions/${encodeURIComponent(sessionKey)}`;
+}
@@ -0,0 +1,80 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+
+// Read when config.ts loads
+process.env.VIDEO_ROOM_SECRET = 'room-secret';
+process.env.JITSI_BASE_URL = 'https://meet.example.com/jitsi/';
+process.env.JITSI_APP_ID = 'mentor-graph';
+process.env.JITSI_APP_SECRET = 'app-secret';
+process.env.VIDEO_URL_TEMPLATE = 'https://video.example.com/r/{room}?session={sessionKey}';
+const { getMeetingProvider } = await import('./video');
+const { buildJitsiRoomName } = await import('./jitsi');
+
+const SESSION_KEY = '0x' + 'ab'.repeat(32);
+const SESSION = { sessionDate: '2026-03-02T10:00:00.000Z', duration: 45 };
+const mentor = { wallet: '0x' + 'AA'.repeat(20), role: 'mentor' as const };
+const learner = { wallet: '0x' + 'bb'.repeat(20), name: 'Ada', role: 'learner' as const };
+
+function decodeJwt(jwt: string, secret: string) {
+  const [header, payload, signature] = jwt.split('.');
+  const expected = crypto.createHmac('sha256', secret).update(`${header}.${payload}`).digest('base64url');
+  assert.equal(signature, expected, 'signed with the app secret');
+  return {
+    header: JSON.parse(Buffer.from(header, 'base64url').toString()),
+    payload: JSON.parse(Buffer.from(payload, 'base64url').toString()),
+  };
+}
+
+test('room names are secret-derived and stable per session', () => {
+  const room = buildJitsiRoomName(SESSION_KEY);
+  assert.match(room, /^mg-[0-9a-f]{32}$/);
+  assert.equal(buildJitsiRoomName('0x' + 'AB'.repeat(32)), room);
+  assert.notEqual(buildJitsiRoomName('0x' + 'cd'.repeat(32)), room);
+  assert.ok(!room.includes(SESSION_KEY.slice(2, 10)));
+});
+
+test('public Jitsi rooms are joined with the bare link', () => {
+  const provider = getMeetingProvider('jitsi');
+  const room = provider.roomFor(SESSION_KEY)!;
+  assert.equal(room.videoJoinUrl, `https://meet.example.com/jitsi/${room.videoRoomName}`);
+
+  const link = provider.joinLink(room, learner, SESSION);
+  assert.equal(link.url, room.videoJoinUrl);
+  assert.equal(link.expiresAt, undefined);
+  assert.deepEqual(link.embed, { domain: 'meet.example.com/jitsi', roomName: room.videoRoomName, jwt: undefined });
+});
+
+test('token-secured Jitsi gives each participant a JWT for the room and join window', () => {
+  const provider = getMeetingProvider('jitsi-jwt');
+  const room = provider.roomFor(SESSION_KEY)!;
+
+  const link = provider.joinLink(room, mentor, SESSION);
+  const jwt = new URL(link.url).searchParams.get('jwt')!;
+  assert.equal(link.embed?.jwt, jwt);
+  assert.equal(link.expiresAt, '2026-03-02T11:15:00.000Z');
+
+  const { header, payload } = decodeJwt(jwt, 'app-secret');
+  assert.deepEqual(header, { alg: 'HS256', typ: 'JWT' });
+  assert.equal(payload.iss, 'mentor-graph');
+  assert.equal(payload.sub, 'meet.example.com');
+  assert.equal(payload.room, room.videoRoomName);
+  assert.equal(payload.nbf, Date.parse('2026-03-02T09:45:00.000Z') / 1000);
+  assert.equal(payload.exp, Date.parse('2026-03-02T11:15:00.000Z') / 1000);
+  assert.deepEqual(payload.context.user, { id: mentor.wallet.toLowerCase(), name: '0xAAAA...AAAA', affiliation: 'owner' });
+
+  const learnerJwt = new URL(provider.joinLink(room, learner, SESSION).url).searchParams.get('jwt')!;
+  assert.deepEqual(decodeJwt(learnerJwt, 'app-secret').payload.context.user, { id: learner.wallet, name: 'Ada', affiliation: 'member' });
+});
+
+test('custom links fill in the template, and tokens are only issued for Jitsi rooms', () => {
+  const room = getMeetingProvider('custom').roomFor(SESSION_KEY)!;
+  assert.equal(room.videoProvider, 'custom');
+  assert.equal(room.videoJoinUrl, `https://video.example.com/r/${room.videoRoomName}?session=${SESSION_KEY}`);
+  assert.deepEqual(getMeetingProvider('jitsi-jwt').joinLink(room, learner, SESSION), { url: room.videoJoinUrl });
+});
+
+test('no provider means no meeting, and unknown providers are refused', () => {
+  assert.equal(getMeetingProvider('none').roomFor(SESSION_KEY), null);
+  assert.throws(() => getMeetingProvider('zoom'), /Unknown VIDEO_PROVIDER 'zoom'/);
+});
@@ -0,0 +1,136 @@
+import { buildJitsiRoomName, buildJitsiUrlFromRoomName, signJitsiJwt, VideoProvider } from './jitsi';
+import { joinWindow } from './meetingWindow';
+import { JITSI_APP_ID, JITSI_APP_SECRET, JITSI_BASE_URL, VIDEO_PROVIDER, VIDEO_URL_TEMPLATE } from '../config';
+
+/**
+ * Video meetings for confirmed sessions, behind one interface selected by
+ * `VIDEO_PROVIDER`:
+ *
+ * - `jitsi`: public rooms on `JITSI_BASE_URL`; the link is all it takes to join
+ * - `jitsi-jwt`: rooms on a self-hosted Jitsi with token authentication; each
+ *   participant gets a JWT for that room, valid only around the session
+ * - `custom`: links built from `VIDEO_URL_TEMPLATE`
+ * - `none`: sessions get no meeting
+ *
+ * Rooms are derived from the session key and a server secret (see
+ * `buildJitsiRoomName`) and never stored: `session_jitsi` only records that a
+ * session has a meeting. Join links, which may carry a participant's token,
+ * are issued on demand to participants (`/api/video/join`).
+ */
+
+export type MeetingRoom = {
+  videoProvider: VideoProvider;
+  videoRoomName: string;
+  videoJoinUrl: string;
+};
+
+export type MeetingParticipant = {
+  wallet: string;
+  name?: string;
+  role: 'mentor' | 'learner';
+};
+
+export type JoinLink = {
+  url: string;
+  expiresAt?: string; // When the link's token stops working
+  // For embedding the call with the Jitsi IFrame API; unset for other providers
+  embed?: { domain: string; roomName: string; jwt?: string };
+};
+
+export interface MeetingProvider {
+  name: string;
+  // The session's room, the same on every call; null if sessions get no meeting
+  roomFor(sessionKey: string): MeetingRoom | null;
+  joinLink(room: MeetingRoom, participant: MeetingParticipant, session: { sessionDate: string; duration?: number }): JoinLink;
+}
+
+function jitsiRoom(sessionKey: string): MeetingRoom {
+  const videoRoomName = buildJitsiRoomName(sessionKey);
+  return { videoProvider: 'jitsi', videoRoomName, videoJoinUrl: buildJitsiUrlFromRoomName(videoRoomName, JITSI_BASE_URL) };
+}
+
+// The IFrame API takes the server as host plus any path, without the room
+function jitsiEmbed(room: MeetingRoom, jwt?: string): JoinLink['embed'] {
+  const url = new URL(room.videoJoinUrl);
+  return { domain: url.host + url.pathname.replace(/\/[^/]*$/, ''), roomName: room.videoRoomName, jwt };
+}
+
+const publicJitsi: MeetingProvider = {
+  name: 'jitsi',
+  roomFor: jitsiRoom,
+  joinLink: room => ({ url: room.videoJoinUrl, embed: jitsiEmbed(room) }),
+};
+
+function jwtJitsi(appId: string, appSecret: string): MeetingProvider {
+  return {
+    name: 'jitsi-jwt',
+    roomFor: jitsiRoom,
+    joinLink: (room, participant, session) => {
+      if (room.videoProvider !== 'jitsi') return { url: room.videoJoinUrl };
+      const { opensAt, closesAt } = joinWindow(session);
+      const jwt = signJitsiJwt({
+        appId,
+        appSecret,
+        baseUrl: room.videoJoinUrl,
+        roomName: room.videoRoomName,
+        user: {
+          id: participant.wallet.toLowerCase(),
+          name: participant.name || `${participant.wallet.slice(0, 6)}...${participant.wallet.slice(-4)}`,
+          affiliation: participant.role === 'mentor' ? 'owner' : 'member',
+        },
+        notBefore: opensAt,
+        expiresAt: closesAt,
+      });
+      const url = new URL(room.videoJoinUrl);
+      url.searchParams.set('jwt', jwt);
+      return { url: url.toString(), expiresAt: closesAt.toISOString(), embed: jitsiEmbed(room, jwt) };
+    },
+  };
+}
+
+function customTemplate(template: string): MeetingProvider {
+  return {
+    name: 'custom',
+    roomFor: sessionKey => {
+      const videoRoomName = buildJitsiRoomName(sessionKey);
+      return {
+        videoProvider: 'custom',
+        videoRoomName,
+        videoJoinUrl: template
+          .replace(/\{room\}/g, encodeURIComponent(videoRoomName))
+          .replace(/\{sessionKey\}/g, encodeURIComponent(sessionKey)),
+      };
+    },
+    joinLink: room => ({ url: room.videoJoinUrl }),
+  };
+}
+
+const noMeetings: MeetingProvider = {
+  name: 'none',
+  roomFor: () => null,
+  joinLink: room => ({ url: room.videoJoinUrl }),
+};
+
+/**
+ * The configured provider; throws when its settings are missing.
+ */
+export function getMeetingProvider(name: string = VIDEO_PROVIDER): MeetingProvider {
+  switch (name) {
+    case 'jitsi':
+      return publicJitsi;
+    case 'jitsi-jwt':
+      if (!JITSI_APP_ID || !JITSI_APP_SECRET) {
+        throw new Error('VIDEO_PROVIDER=jitsi-jwt needs JITSI_APP_ID and JITSI_APP_SECRET');
+      }
+      return jwtJitsi(JITSI_APP_ID, JITSI_APP_SECRET);
+    case 'custom':
+      if (!VIDEO_URL_TEMPLATE.includes('{room}')) {
+        throw new Error('VIDEO_PROVIDER=custom needs a VIDEO_URL_TEMPLATE containing {room}');
+      }
+      return customTemplate(VIDEO_URL_TEMPLATE);
+    case 'none':
+      return noMeetings;
+    default:
+      throw new Error(`Unknown VIDEO_PROVIDER '${name}'`);
+  }
+}
@@ -5,6 +5,10 @@ import {
   http,
 } from "@arkiv-network/sdk";
 import { mendoza } from "@arkiv-network/sdk/chains";
+import { createSiweMessage } from "viem/siwe";
+import { bytesToHex, createWalletClient as createViemWalletClient } from "viem";
+import { attributeValue, buildIntent, INTENT_DOMAIN, INTENT_TYPES, RELAYABLE_TYPES } from "./arkiv/intents";
+import { deserializeCreates, PreparedExtension, PreparedWrite, SigningMode, SIGNING_MODES } from "./arkiv/preparedWrites";
 import "viem/window";
 
 async function switchToMendozaChain() {
@@ -88,4 +92,167 @@ export function getConnectedAccount(): `0x${string}` | null {
   // This would need to be managed via state in the app
   // For now, return null and let the app handle connection state
   return null;
-}
\ No newline at end of file
+}
+
+/**
+ * Sign in with Ethereum (EIP-4361): sign a one-time message with MetaMask so
+ * the server can issue an HTTP-only session cookie for this wallet.
+ */
+export async function signInWithEthereum(address: `0x${string}`): Promise<string> {
+  const nonceRes = await fetch("/api/auth/nonce");
+  const { nonce } = await nonceRes.json();
+  if (!nonceRes.ok || !nonce) {
+    throw new Error("Could not start sign-in");
+  }
+
+  const message = createSiweMessage({
+    address,
+    chainId: mendoza.id,
+    domain: window.location.host,
+    nonce,
+    uri: window.location.origin,
+    version: "1",
+    statement: "Sign in to Mentor Graph",
+    issuedAt: new Date(),
+  });
+
+  const { walletClient } = createArkivClients(address);
+  const signature = await walletClient.signMessage({ account: address, message });
+
+  const verifyRes = await fetch("/api/auth/verify", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ message, signature }),
+  });
+  const result = await verifyRes.json();
+  if (!verifyRes.ok || !result.ok) {
+    throw new Error(result.error || "Sign-in failed");
+  }
+  return result.address;
+}
+
+export async function signOut(): Promise<void> {
+  await fetch("/api/auth/session", { method: "DELETE" });
+}
+
+/**
+ * Wallet of the current server session, or null if not signed in.
+ */
+export async function getSessionAddress(): Promise<string | null> {
+  const res = await fetch("/api/auth/session");
+  if (!res.ok) return null;
+  const { address } = await res.json();
+  return address || null;
+}
+
+const SIGNING_MODE_KEY = "signingMode";
+
+/**
+ * Who signs writes: the server key (default) or the user's MetaMask account.
+ */
+export function getSigningMode(): SigningMode {
+  const saved = localStorage.getItem(SIGNING_MODE_KEY) as SigningMode | null;
+  return saved && SIGNING_MODES.includes(saved) ? saved : "server";
+}
+
+export function setSigningMode(mode: SigningMode) {
+  localStorage.setItem(SIGNING_MODE_KEY, mode);
+}
+
+/**
+ * POST an `/api/me` action using the selected signing mode. In `wallet` mode
+ * the entities (and extensions) the server prepared are sent from `account`
+ * in one transaction; in `relayed` mode they are signed as intents and relayed. The
+ * response carries the resulting key and txHash just as in `server` mode.
+ */
+export async function postMeAction(body: Record<string, any>, account: string): Promise<Response> {
+  const signingMode = getSigningMode();
+  const res = await fetch("/api/me", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ ...body, signingMode }),
+  });
+  if (!res.ok || signingMode === "server") return res;
+
+  const result = await res.json();
+  const prepared: PreparedWrite[] | undefined = result.prepared;
+  if (!prepared) {
+    // Action is always signed by the server
+    return jsonResponse(result, res.status);
+  }
+
+  if (signingMode === "relayed") {
+    return relayPreparedWrites(prepared, account);
+  }
+
+  try {
+    const { walletClient } = createArkivClients(account as `0x${string}`);
+    const extensions: PreparedExtension[] = result.preparedExtensions || [];
+    const { txHash, createdEntities } = await walletClient.mutateEntities({
+      creates: deserializeCreates(prepared),
+      extensions,
+    });
+    // Let the server drop cached lists the new (or extended) entities belong in
+    const extendedKeys = extensions.map(extension => extension.entityKey);
+    await fetch("/api/me", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ action: "preparedWritesSent", entityKeys: [...createdEntities, ...extendedKeys] }),
+    }).catch(err => console.error("Could not refresh server cache:", err));
+    return jsonResponse({ ok: true, signingMode, key: createdEntities[0] || extendedKeys[0], keys: createdEntities, txHash }, 200);
+  } catch (err: any) {
+    console.error("Wallet signing failed:", err);
+    return jsonResponse({ ok: false, error: err.shortMessage || err.message || "Wallet signing failed" }, 400);
+  }
+}
+
+// Intents are only valid for a short while, so sign right before relaying
+const INTENT_DEADLINE_SECONDS = 600;
+
+/**
+ * Sign an EIP-712 intent for each prepared write and let the server relay
+ * them. Writes the relayer doesn't accept (e.g. a session's meeting link) are
+ * left to the relayer to produce.
+ */
+async function relayPreparedWrites(prepared: PreparedWrite[], account: string): Promise<Response> {
+  try {
+    if (!window.ethereum) {
+      throw new Error("MetaMask not installed");
+    }
+    // The Arkiv wallet client doesn't expose typed-data signing, so use plain viem
+    const typedDataSigner = createViemWalletClient({
+      chain: mendoza,
+      transport: custom(window.ethereum),
+      account: account as `0x${string}`,
+    });
+    const deadline = Math.floor(Date.now() / 1000) + INTENT_DEADLINE_SECONDS;
+    const intents = [];
+    for (const write of prepared) {
+      if (!RELAYABLE_TYPES[attributeValue(write.attributes, "type") || ""]) continue;
+      const nonce = bytesToHex(crypto.getRandomValues(new Uint8Array(32)));
+      const signature = await typedDataSigner.signTypedData({
+        account: account as `0x${string}`,
+        domain: INTENT_DOMAIN,
+        types: INTENT_TYPES,
+        primaryType: "EntityIntent",
+        message: buildIntent(write, account.toLowerCase(), nonce, deadline),
+      });
+      intents.push({ write, nonce, deadline, signature });
+    }
+    return fetch("/api/relay", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ intents }),
+    });
+  } catch (err: any) {
+    console.error("Intent signing failed:", err);
+    return jsonResponse({ ok: false, error: err.shortMessage || err.message || "Intent signing failed" }, 400);
+  }
+}
+
+function jsonResponse(body: unknown, status: number): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}